@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+
+// The CLI is built as an ES module into dist/cli.mjs
+import('../dist/cli.mjs')
+    .then(({ run }) => run(process.argv.slice(2)))
+    .then((code) => {
+        process.exitCode = code
+    })
+    .catch((error) => {
+        console.error('Failed to run onboardjs:', error)
+        process.exitCode = 1
+    })
@@ -299,6 +299,17 @@ export class AnalyticsManager<TContext extends OnboardingContext = OnboardingCon
         })
     }
 
+    // ==================== Experiment Tracking ====================
+
+    trackExperimentExposed(experimentId: string, variantId: string, step: OnboardingStep<TContext> | null): void {
+        this.trackEvent('experiment_exposed', {
+            experimentId,
+            variantId,
+            stepId: step?.id ?? null,
+            stepType: step?.type ?? null,
+        })
+    }
+
     // ==================== User Activity Tracking ====================
 
     trackUserIdle(step: OnboardingStep<TContext>, context: TContext, idleDuration: number): void {
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { run } from './index'
+import type { CliIO } from './types'
+
+const validFlow = [
+    {
+        id: 'plan',
+        type: 'SINGLE_CHOICE',
+        payload: {
+            dataKey: 'plan',
+            options: [
+                { id: 'free', label: 'Free', value: 'free' },
+                { id: 'pro', label: "Pro's", value: 'pro' },
+            ],
+        },
+        nextStep: {
+            when: { logic: 'AND', rules: [{ field: 'plan', operator: 'equals', value: 'pro' }] },
+            then: 'billing',
+            else: 'done',
+        },
+    },
+    { id: 'billing', type: 'INFORMATION', payload: { title: 'Billing' }, isSkippable: true, skipToStep: 'done' },
+    { id: 'done', type: 'INFORMATION', payload: { title: 'Done' }, nextStep: null },
+]
+
+const brokenFlow = [
+    { id: 'a', type: 'INFORMATION', payload: {}, nextStep: 'missing' },
+    { id: 'a', type: 'INFORMATION', payload: {} },
+]
+
+describe('onboardjs CLI', () => {
+    let cwd: string
+    let stdout: string
+    let stderr: string
+    let io: CliIO
+
+    const write = async (file: string, content: unknown) => {
+        await mkdir(path.dirname(path.join(cwd, file)), { recursive: true })
+        await writeFile(path.join(cwd, file), typeof content === 'string' ? content : JSON.stringify(content))
+    }
+
+    beforeEach(async () => {
+        cwd = await mkdtemp(path.join(tmpdir(), 'onboardjs-cli-'))
+        stdout = ''
+        stderr = ''
+        io = {
+            cwd,
+            stdout: (text) => (stdout += text),
+            stderr: (text) => (stderr += text),
+        }
+    })
+
+    afterEach(async () => {
+        await rm(cwd, { recursive: true, force: true })
+    })
+
+    describe('validate', () => {
+        it('reports errors and warnings per file and exits with 1', async () => {
+            await write('flows/valid.json', { version: '1.0.0', steps: validFlow })
+            await write('flows/broken.json', brokenFlow)
+
+            const code = await run(['validate', 'flows/*.json'], io)
+
+            expect(code).toBe(1)
+            expect(stdout).toContain('flows/broken.json')
+            expect(stdout).toContain("step 'a'  Duplicate step ID 'a'")
+            expect(stdout).toContain('BROKEN_LINK')
+            expect(stdout).not.toContain('flows/valid.json')
+            expect(stdout).toContain('✖ 2 problems (1 error, 1 warning) in 1 of 2 files')
+        })
+
+        it('prints a machine-readable report with --format json', async () => {
+            await write('flows/valid.json', validFlow)
+            await write('flows/nested/broken.json', brokenFlow)
+            await write('flows/invalid.json', '{ not json')
+
+            const code = await run(['validate', 'flows/**/*.json', '!**/invalid.json', '--format', 'json'], io)
+            const report = JSON.parse(stdout)
+
+            expect(code).toBe(1)
+            expect(report.errorCount).toBe(1)
+            expect(report.warningCount).toBe(1)
+            expect(report.files.map((file: { file: string }) => file.file)).toEqual([
+                'flows/nested/broken.json',
+                'flows/valid.json',
+            ])
+            expect(report.files[0].errors[0]).toMatchObject({ stepId: 'a', errorType: 'DUPLICATE_ID' })
+            expect(report.files[1]).toMatchObject({ valid: true, stepCount: 3, errors: [], warnings: [] })
+        })
+
+        it('exits with 0 for valid flows, unless --strict and there are warnings', async () => {
+            await write('valid.json', validFlow)
+            await write('warning.json', [{ id: 'a', type: 'INFORMATION', payload: {}, nextStep: 'missing' }])
+
+            expect(await run(['validate', 'valid.json'], io)).toBe(0)
+            expect(stdout).toBe('✔ 1 file valid\n')
+            expect(await run(['validate', 'warning.json'], io)).toBe(0)
+            expect(await run(['validate', 'warning.json', '--strict'], io)).toBe(1)
+        })
+
+        it('loads steps from script files and reports files that cannot be read', async () => {
+            await write('flow.mjs', `export default { steps: ${JSON.stringify(validFlow)} }`)
+            await write(
+                'config.ts',
+                `const flow: unknown[] = ${JSON.stringify(brokenFlow)}\nexport const onboarding = flow`
+            )
+
+            const code = await run(['validate', 'flow.mjs', 'config.ts', 'missing.json', '--format', 'json'], io)
+            const report = JSON.parse(stdout)
+
+            expect(code).toBe(1)
+            expect(report.files.find((file: { file: string }) => file.file === 'flow.mjs').valid).toBe(true)
+            expect(report.files.find((file: { file: string }) => file.file === 'config.ts').errors).toHaveLength(1)
+            expect(report.files.find((file: { file: string }) => file.file === 'missing.json').loadError).toContain(
+                'Cannot read file'
+            )
+        })
+    })
+
+    describe('convert', () => {
+        it('converts JSON to TypeScript and back, keeping function sources', async () => {
+            await write(
+                'flow.mjs',
+                `export const steps = [{ id: 'a', nextStep: (context) => context.flowData.x ? 'b' : null }, { id: 'b' }]`
+            )
+
+            expect(await run(['convert', 'flow.mjs', '--out-dir', 'json'], io)).toBe(0)
+            expect(stdout).toBe('flow.mjs -> json/flow.json\n')
+            const schema = JSON.parse(await readFile(path.join(cwd, 'json/flow.json'), 'utf8'))
+            expect(schema.steps[0].nextStep.__functionBody).toBe("(context) => context.flowData.x ? 'b' : null")
+
+            stdout = ''
+            expect(await run(['convert', 'json/flow.json', '--format', 'json'], io)).toBe(0)
+            expect(JSON.parse(stdout).files[0]).toMatchObject({
+                file: 'json/flow.json',
+                to: 'ts',
+                output: 'json/flow.ts',
+            })
+
+            const code = await readFile(path.join(cwd, 'json/flow.ts'), 'utf8')
+            expect(code).toContain("import type { OnboardingStep } from '@onboardjs/core'")
+            expect(code).toContain('export const steps: OnboardingStep[] = [')
+            expect(code).toContain("const step0NextStep = (context) => context.flowData.x ? 'b' : null")
+        })
+
+        it('prints the converted file with --stdout', async () => {
+            await write('flow.json', validFlow)
+
+            expect(await run(['convert', 'flow.json', '--stdout'], io)).toBe(0)
+            expect(stdout).toContain("label: 'Pro\\'s',")
+            expect(stdout).toContain("then: 'billing',")
+        })
+
+        it('refuses to overwrite the input', async () => {
+            await write('flow.json', validFlow)
+
+            expect(await run(['convert', 'flow.json', '--to', 'json'], io)).toBe(1)
+            expect(stderr).toContain('flow.json: error: The file is already in JSON format')
+        })
+    })
+
+    describe('graph', () => {
+        it('prints the navigation graph as text', async () => {
+            await write('flow.json', validFlow)
+
+            expect(await run(['graph', 'flow.json'], io)).toBe(0)
+            expect(stdout).toBe(
+                [
+                    'plan [SINGLE_CHOICE]',
+                    '  next -> billing (then)',
+                    '  next -> done (else)',
+                    'billing [INFORMATION]',
+                    '  next -> done (default)',
+                    '  skip -> done',
+                    'done [INFORMATION]',
+                    '  next -> (end)',
+                    '',
+                ].join('\n')
+            )
+        })
+
+        it('prints DOT and JSON', async () => {
+            await write('flow.json', validFlow)
+
+            expect(await run(['graph', 'flow.json', '--format', 'dot'], io)).toBe(0)
+            expect(stdout).toContain('digraph "flow.json" {')
+            expect(stdout).toContain('"plan" -> "billing" [label="then"];')
+            expect(stdout).toContain('"done" -> "__end__";')
+            expect(stdout).toContain('"billing" -> "done" [style=dashed, taillabel="skip"];')
+
+            stdout = ''
+            expect(await run(['graph', 'flow.json', '-f', 'json'], io)).toBe(0)
+            const { files } = JSON.parse(stdout)
+            expect(files[0].graph.nodes[0]).toEqual({ id: 'plan', type: 'SINGLE_CHOICE', conditional: false })
+            expect(files[0].graph.edges).toContainEqual({ from: 'done', to: null, via: 'next' })
+        })
+    })
+
+    it('exits with 2 on invalid arguments or when no files match', async () => {
+        expect(await run([], io)).toBe(2)
+        expect(await run(['lint', 'flow.json'], io)).toBe(2)
+        expect(stderr).toContain("Unknown command 'lint'")
+        expect(await run(['validate', 'flow.json', '--format', 'dot'], io)).toBe(2)
+        expect(await run(['validate', 'flows/*.json'], io)).toBe(2)
+        expect(stderr).toContain('No files matched flows/*.json')
+        expect(await run(['validate', '--unknown'], io)).toBe(2)
+        expect(await run(['--help'], io)).toBe(0)
+        expect(stdout).toContain('Usage: onboardjs <command>')
+    })
+})
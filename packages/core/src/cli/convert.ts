@@ -0,0 +1,109 @@
+// @onboardjs/core/src/cli/convert.ts
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { OnboardingStep } from '../types'
+import { StepJSONParser } from '../parser/StepJSONParser'
+import { TypeScriptExporter } from '../parser/TypeScriptExporter'
+import { FlowFileFormat, loadFlowFile } from './files'
+import { CliIO, CommandOptions, ExitCode } from './types'
+
+export interface ConvertOptions extends CommandOptions {
+    /** The format to convert to. Defaults to JSON for script files and TypeScript for JSON files. */
+    to?: FlowFileFormat
+    /** Where to write the converted files. Defaults to next to each input. */
+    outDir?: string
+    /** Print the converted file instead of writing it. Only valid for a single input. */
+    stdout: boolean
+}
+
+export interface ConversionResult {
+    file: string
+    to?: FlowFileFormat
+    /** The written file, relative to the working directory. */
+    output?: string
+    warnings: string[]
+    error?: string
+}
+
+/**
+ * Convert steps to the content of a flow file: a `StepJSONSchema` for JSON, or a module
+ * exporting `steps` for TypeScript.
+ */
+export function convertSteps(
+    steps: OnboardingStep[],
+    to: FlowFileFormat
+): { content?: string; errors: string[]; warnings: string[] } {
+    if (to === 'json') {
+        const result = StepJSONParser.toJSON(steps, { prettyPrint: true, validateSteps: false })
+        return { content: result.data && result.data + '\n', errors: result.errors, warnings: result.warnings }
+    }
+
+    const result = TypeScriptExporter.exportToTypeScript(steps, {
+        includeImports: true,
+        includeTypes: true,
+        variableName: 'steps',
+        spacesCount: 4,
+    })
+    return { content: result.code, errors: result.errors, warnings: result.warnings }
+}
+
+async function convertFile(file: string, options: ConvertOptions, io: CliIO): Promise<ConversionResult> {
+    const loaded = await loadFlowFile(file, io.cwd, options.exportName)
+    const to = options.to ?? (loaded.format === 'json' ? 'ts' : 'json')
+    const { content, errors, warnings } = convertSteps(loaded.steps, to)
+    const result: ConversionResult = { file, to, warnings: [...loaded.warnings, ...warnings] }
+
+    if (content === undefined || errors.length > 0) {
+        return { ...result, error: errors.join('; ') || 'Conversion failed' }
+    }
+
+    if (options.stdout) {
+        io.stdout(content)
+        return result
+    }
+
+    const extension = to === 'json' ? '.json' : '.ts'
+    const directory = options.outDir ? path.resolve(io.cwd, options.outDir) : path.dirname(path.resolve(io.cwd, file))
+    const outputPath = path.join(directory, path.basename(file, path.extname(file)) + extension)
+    if (outputPath === path.resolve(io.cwd, file)) {
+        return { ...result, error: `The file is already in ${to === 'json' ? 'JSON' : 'TypeScript'} format` }
+    }
+
+    await mkdir(directory, { recursive: true })
+    await writeFile(outputPath, content)
+    return { ...result, output: path.relative(io.cwd, outputPath).split(path.sep).join('/') }
+}
+
+export async function runConvert(files: string[], options: ConvertOptions, io: CliIO): Promise<number> {
+    if (options.stdout && files.length > 1) {
+        io.stderr(`--stdout can only be used with a single file, but ${files.length} files matched\n`)
+        return ExitCode.Usage
+    }
+
+    const results: ConversionResult[] = []
+    for (const file of files) {
+        try {
+            results.push(await convertFile(file, options, io))
+        } catch (error) {
+            results.push({ file, warnings: [], error: error instanceof Error ? error.message : String(error) })
+        }
+    }
+
+    // With --stdout the converted file is the output, so the report goes to stderr
+    if (options.format === 'json' && !options.stdout) {
+        io.stdout(JSON.stringify({ files: results }, null, 2) + '\n')
+    } else {
+        results.forEach((result) => {
+            if (result.output) {
+                io.stdout(`${result.file} -> ${result.output}\n`)
+            }
+            result.warnings.forEach((warning) => io.stderr(`${result.file}: warning: ${warning}\n`))
+            if (result.error) {
+                io.stderr(`${result.file}: error: ${result.error}\n`)
+            }
+        })
+    }
+
+    return results.some((result) => result.error) ? ExitCode.Failure : ExitCode.Success
+}
@@ -0,0 +1,261 @@
+// @onboardjs/core/src/cli/files.ts
+
+import { readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { OnboardingStep } from '../types'
+import { StepJSONParser } from '../parser/StepJSONParser'
+
+export type FlowFileFormat = 'json' | 'ts'
+
+export interface LoadedFlowFile {
+    /** The path as given or matched, relative to the working directory. */
+    file: string
+    format: FlowFileFormat
+    steps: OnboardingStep[]
+    /** Problems reported while reading the file, such as serialized functions that cannot be restored. */
+    warnings: string[]
+}
+
+export class FlowFileError extends Error {
+    constructor(
+        readonly file: string,
+        message: string
+    ) {
+        super(message)
+        this.name = 'FlowFileError'
+    }
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts', '.tsx', '.js', '.mjs', '.cjs']
+const GLOB_CHARACTERS = /[*?[\]{}]/
+
+export function getFlowFileFormat(file: string): FlowFileFormat | null {
+    const extension = path.extname(file).toLowerCase()
+    if (extension === '.json') return 'json'
+    return SCRIPT_EXTENSIONS.includes(extension) ? 'ts' : null
+}
+
+/**
+ * Convert a glob pattern to a regular expression over `/`-separated paths.
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = ''
+    let braceDepth = 0
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // `**/` matches any number of directories, a trailing `**` anything below
+                const slash = pattern[i + 2] === '/'
+                source += slash ? '(?:[^/]*/)*' : '.*'
+                i += slash ? 2 : 1
+            } else {
+                source += '[^/]*'
+            }
+        } else if (char === '?') {
+            source += '[^/]'
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1)
+            if (end === -1) {
+                source += '\\['
+            } else {
+                source += `[${pattern
+                    .slice(i + 1, end)
+                    .replace(/^!/, '^')
+                    .replace(/\\/g, '\\\\')}]`
+                i = end
+            }
+        } else if (char === '{') {
+            braceDepth++
+            source += '(?:'
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--
+            source += ')'
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|'
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&')
+        }
+    }
+
+    return new RegExp(`^${source}$`)
+}
+
+async function walk(directory: string, onFile: (file: string) => void): Promise<void> {
+    const entries = await readdir(directory, { withFileTypes: true })
+    for (const entry of entries) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+            continue
+        }
+        const entryPath = path.join(directory, entry.name)
+        if (entry.isDirectory()) {
+            await walk(entryPath, onFile)
+        } else if (entry.isFile()) {
+            onFile(entryPath)
+        }
+    }
+}
+
+/**
+ * Resolve file paths and glob patterns to a sorted list of files, relative to `cwd`.
+ * Patterns starting with `!` exclude matches. Plain paths are kept even if they do not exist,
+ * so that reading them reports the error. `node_modules` and dot directories are not searched.
+ */
+export async function expandFilePatterns(patterns: string[], cwd: string): Promise<string[]> {
+    const files = new Set<string>()
+    const exclusions = patterns.filter((pattern) => pattern.startsWith('!')).map((p) => globToRegExp(p.slice(1)))
+
+    for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+        const normalized = pattern.split(path.sep).join('/')
+        if (!GLOB_CHARACTERS.test(normalized)) {
+            files.add(normalized)
+            continue
+        }
+
+        // Only search below the part of the pattern without glob characters
+        const segments = normalized.split('/')
+        const baseSegments = segments.slice(
+            0,
+            segments.findIndex((segment) => GLOB_CHARACTERS.test(segment))
+        )
+        const base = baseSegments.join('/')
+        const matcher = globToRegExp(normalized)
+        const root = path.resolve(cwd, base || '.')
+
+        const rootStat = await stat(root).catch(() => null)
+        if (!rootStat?.isDirectory()) {
+            continue
+        }
+
+        await walk(root, (file) => {
+            const relative = path.relative(cwd, file).split(path.sep).join('/')
+            const candidate = path.isAbsolute(normalized) ? file.split(path.sep).join('/') : relative
+            if (matcher.test(candidate)) {
+                files.add(relative)
+            }
+        })
+    }
+
+    return [...files].filter((file) => !exclusions.some((exclusion) => exclusion.test(file))).sort()
+}
+
+// Serialized functions are never evaluated. Keeping their source lets conversions write them back out.
+function preserveFunctionSource(source: string): Function {
+    const placeholder = () => undefined
+    placeholder.toString = () => source
+    return placeholder
+}
+
+function findSteps(module: Record<string, unknown>, exportName?: string): unknown {
+    const candidates = exportName ? [module[exportName]] : [module.steps, module.default, ...Object.values(module)]
+    for (const candidate of candidates) {
+        if (Array.isArray(candidate)) {
+            return candidate
+        }
+        // An engine config or a flow created with `defineFlow`
+        if (candidate && typeof candidate === 'object' && Array.isArray((candidate as { steps?: unknown }).steps)) {
+            return (candidate as { steps: unknown[] }).steps
+        }
+    }
+    return undefined
+}
+
+async function importModule(absolutePath: string): Promise<Record<string, unknown>> {
+    try {
+        return await import(pathToFileURL(absolutePath).href)
+    } catch (error) {
+        const code = (error as { code?: string }).code
+        const isTypeScript = /\.[mc]?tsx?$/.test(absolutePath)
+        if (!isTypeScript || (code !== 'ERR_UNKNOWN_FILE_EXTENSION' && !(error instanceof SyntaxError))) {
+            throw error
+        }
+    }
+
+    // This Node.js version cannot run TypeScript. Fall back to the project's TypeScript compiler.
+    let ts: typeof import('typescript')
+    try {
+        const tsModule = await import('typescript')
+        ts = (tsModule as { default?: typeof import('typescript') }).default ?? tsModule
+    } catch {
+        throw new Error(
+            'Loading TypeScript files needs Node.js with type stripping, a TypeScript loader such as tsx, or the typescript package'
+        )
+    }
+
+    const source = await readFile(absolutePath, 'utf8')
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020, jsx: ts.JsxEmit.React },
+        fileName: absolutePath,
+    })
+    // Written next to the source so that its imports resolve the same way
+    const compiledPath = path.join(path.dirname(absolutePath), `.${path.basename(absolutePath)}.${process.pid}.mjs`)
+    await writeFile(compiledPath, outputText)
+    try {
+        return await import(pathToFileURL(compiledPath).href)
+    } finally {
+        await rm(compiledPath, { force: true })
+    }
+}
+
+/**
+ * Read the steps of a flow file. JSON files may hold a `StepJSONSchema` or a plain steps array.
+ * Script files are imported and must export the steps as `steps`, as the default export, or as
+ * the `steps` of an exported config or `defineFlow` result.
+ *
+ * @throws FlowFileError if the file cannot be read or holds no steps.
+ */
+export async function loadFlowFile(file: string, cwd: string, exportName?: string): Promise<LoadedFlowFile> {
+    const format = getFlowFileFormat(file)
+    if (!format) {
+        throw new FlowFileError(file, `Unsupported file type '${path.extname(file)}'. Use .json, .ts or .js files.`)
+    }
+
+    const absolutePath = path.resolve(cwd, file)
+
+    if (format === 'json') {
+        let content: string
+        try {
+            content = await readFile(absolutePath, 'utf8')
+        } catch (error) {
+            throw new FlowFileError(file, `Cannot read file: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        let json: unknown
+        try {
+            json = JSON.parse(content)
+        } catch (error) {
+            throw new FlowFileError(file, `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        const schema = Array.isArray(json) ? { version: '1.0.0', steps: json } : json
+        const result = StepJSONParser.fromJSON(JSON.stringify(schema), {
+            validateSteps: false,
+            customFunctionDeserializer: preserveFunctionSource,
+        })
+        if (!result.success || !result.data) {
+            throw new FlowFileError(file, result.errors.join('; '))
+        }
+        return { file, format, steps: result.data, warnings: result.warnings }
+    }
+
+    let module: Record<string, unknown>
+    try {
+        module = await importModule(absolutePath)
+    } catch (error) {
+        throw new FlowFileError(file, `Cannot load module: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const steps = findSteps(module, exportName)
+    if (!steps) {
+        throw new FlowFileError(
+            file,
+            exportName
+                ? `The export '${exportName}' is not a steps array`
+                : "No steps found. Export them as 'steps', as the default export, or pass --export <name>."
+        )
+    }
+    return { file, format, steps: steps as OnboardingStep[], warnings: [] }
+}
@@ -0,0 +1,185 @@
+// @onboardjs/core/src/cli/graph.ts
+
+import { ConditionalStepTarget, OnboardingStep } from '../types'
+import { isConditionalStepTarget } from '../utils/condition-utils'
+import { loadFlowFile } from './files'
+import { CliIO, CommandOptions, ExitCode } from './types'
+
+type StepId = string | number
+
+export type GraphFormat = 'text' | 'dot' | 'json'
+
+export interface GraphOptions extends Omit<CommandOptions, 'format'> {
+    format: GraphFormat
+}
+
+export interface FlowGraphNode {
+    id: StepId
+    type: string
+    section?: string
+    /** Whether the step has a `condition` and may be left out of the flow. */
+    conditional: boolean
+}
+
+export interface FlowGraphEdge {
+    from: StepId
+    /** The target step, `null` when the flow completes, or missing when a function decides at runtime. */
+    to?: StepId | null
+    via: 'next' | 'skip'
+    /** The branch of a declarative target or experiment variant, or `default` for array order. */
+    label?: string
+}
+
+export interface FlowGraph {
+    nodes: FlowGraphNode[]
+    edges: FlowGraphEdge[]
+}
+
+/**
+ * Build the static navigation graph of a flow. Declarative targets contribute an edge per branch;
+ * function targets contribute a single edge without a target.
+ */
+export function buildFlowGraph(steps: OnboardingStep[]): FlowGraph {
+    const edges: FlowGraphEdge[] = []
+
+    const addTargetEdges = (from: StepId, via: FlowGraphEdge['via'], target: unknown, fallback: StepId | null) => {
+        if (target === undefined) {
+            edges.push({ from, to: fallback, via, label: 'default' })
+        } else if (typeof target === 'function') {
+            edges.push({ from, via, label: 'function' })
+        } else if (isConditionalStepTarget(target)) {
+            addBranchEdges(from, via, target, fallback)
+        } else {
+            edges.push({ from, to: target as StepId | null, via })
+        }
+    }
+
+    const addBranchEdges = (
+        from: StepId,
+        via: FlowGraphEdge['via'],
+        target: ConditionalStepTarget,
+        fallback: StepId | null
+    ) => {
+        edges.push({ from, to: target.then, via, label: 'then' })
+        if (isConditionalStepTarget(target.else)) {
+            addBranchEdges(from, via, target.else, fallback)
+        } else {
+            edges.push({ from, to: target.else === undefined ? fallback : target.else, via, label: 'else' })
+        }
+    }
+
+    steps.forEach((step, index) => {
+        const fallback = steps[index + 1]?.id ?? null
+        if (step.experiment) {
+            step.experiment.variants.forEach((variant) => {
+                const target = variant.nextStep === undefined ? step.nextStep : variant.nextStep
+                const start = edges.length
+                addTargetEdges(step.id, 'next', target, fallback)
+                edges.slice(start).forEach((edge) => {
+                    edge.label = `variant ${variant.id}${edge.label ? `, ${edge.label}` : ''}`
+                })
+            })
+        } else {
+            addTargetEdges(step.id, 'next', step.nextStep, fallback)
+        }
+        if (step.isSkippable && step.skipToStep !== undefined) {
+            addTargetEdges(step.id, 'skip', step.skipToStep, fallback)
+        }
+    })
+
+    return {
+        nodes: steps.map((step) => ({
+            id: step.id,
+            type: step.type ?? 'INFORMATION',
+            ...(step.section ? { section: step.section } : {}),
+            conditional: !!step.condition,
+        })),
+        edges,
+    }
+}
+
+const describeTarget = (edge: FlowGraphEdge) =>
+    edge.to === undefined ? '?' : edge.to === null ? '(end)' : String(edge.to)
+
+export function formatGraphAsText(graph: FlowGraph): string {
+    return graph.nodes
+        .map((node) => {
+            const details = [node.type, node.section && `section ${node.section}`, node.conditional && 'conditional']
+            const lines = [`${node.id} [${details.filter(Boolean).join(', ')}]`]
+            graph.edges
+                .filter((edge) => edge.from === node.id)
+                .forEach((edge) => {
+                    lines.push(`  ${edge.via} -> ${describeTarget(edge)}${edge.label ? ` (${edge.label})` : ''}`)
+                })
+            return lines.join('\n')
+        })
+        .join('\n')
+}
+
+const escapeDot = (value: StepId) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+const quote = (value: StepId) => `"${escapeDot(value)}"`
+
+export function formatGraphAsDot(graph: FlowGraph, name: string): string {
+    const lines = [`digraph ${quote(name)} {`, '  rankdir=TB;', '  node [shape=box, style=rounded];']
+
+    graph.nodes.forEach((node) => {
+        const style = node.conditional ? ', style="rounded,dashed"' : ''
+        lines.push(`  ${quote(node.id)} [label="${escapeDot(node.id)}\\n${node.type}"${style}];`)
+    })
+
+    if (graph.edges.some((edge) => edge.to === null)) {
+        lines.push('  "__end__" [label="end", shape=doublecircle];')
+    }
+
+    graph.edges.forEach((edge, index) => {
+        let target: string
+        if (edge.to === undefined) {
+            target = quote(`__function_${index}__`)
+            lines.push(`  ${target} [label="?", shape=diamond, style=dashed];`)
+        } else {
+            target = edge.to === null ? '"__end__"' : quote(edge.to)
+        }
+        const attributes = [
+            edge.label && `label=${quote(edge.label)}`,
+            (edge.via === 'skip' || edge.to === undefined) && 'style=dashed',
+            edge.via === 'skip' && `taillabel="skip"`,
+        ].filter(Boolean)
+        lines.push(`  ${quote(edge.from)} -> ${target}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`)
+    })
+
+    lines.push('}')
+    return lines.join('\n')
+}
+
+export async function runGraph(files: string[], options: GraphOptions, io: CliIO): Promise<number> {
+    const graphs: Array<{ file: string; graph?: FlowGraph; loadError?: string }> = []
+
+    for (const file of files) {
+        try {
+            const { steps } = await loadFlowFile(file, io.cwd, options.exportName)
+            graphs.push({ file, graph: buildFlowGraph(steps) })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            graphs.push({ file, loadError: message })
+            if (options.format !== 'json') {
+                io.stderr(`${file}: ${message}\n`)
+            }
+        }
+    }
+
+    const loaded = graphs.filter((entry): entry is { file: string; graph: FlowGraph } => !!entry.graph)
+
+    if (options.format === 'json') {
+        io.stdout(JSON.stringify({ files: graphs }, null, 2) + '\n')
+    } else if (options.format === 'dot') {
+        io.stdout(loaded.map(({ file, graph }) => formatGraphAsDot(graph, file)).join('\n\n') + '\n')
+    } else {
+        io.stdout(
+            loaded
+                .map(({ file, graph }) => (files.length > 1 ? `${file}\n` : '') + formatGraphAsText(graph))
+                .join('\n\n') + '\n'
+        )
+    }
+
+    return loaded.length === graphs.length ? ExitCode.Success : ExitCode.Failure
+}
@@ -0,0 +1,134 @@
+// @onboardjs/core/src/cli/index.ts
+// Entry point of the `onboardjs` command. Built separately from the library into dist/cli.mjs.
+
+import { parseArgs } from 'node:util'
+import { runConvert } from './convert'
+import { expandFilePatterns } from './files'
+import { GraphFormat, runGraph } from './graph'
+import { CliIO, ExitCode } from './types'
+import { runValidate } from './validate'
+
+export * from './types'
+export { validateFiles, formatValidationReport } from './validate'
+export type { ValidateOptions, ValidationReport, FileValidationReport } from './validate'
+export { convertSteps } from './convert'
+export type { ConvertOptions, ConversionResult } from './convert'
+export { buildFlowGraph, formatGraphAsDot, formatGraphAsText } from './graph'
+export type { FlowGraph, FlowGraphEdge, FlowGraphNode, GraphFormat, GraphOptions } from './graph'
+export { expandFilePatterns, loadFlowFile, FlowFileError } from './files'
+
+const USAGE = `Usage: onboardjs <command> <files...> [options]
+
+Commands:
+  validate <files...>   Check flows for errors and warnings
+  convert <files...>    Convert flows between JSON and TypeScript
+  graph <files...>      Print the navigation graph of flows
+
+Files may be paths or glob patterns (quote them so the shell does not expand them).
+Patterns starting with ! exclude files.
+
+Options:
+  -f, --format <format>   Output format: text or json (graph also supports dot). Default: text
+  -e, --export <name>     The export holding the steps in .ts/.js files. Default: steps, then the default export
+      --strict            validate: exit with code 1 on warnings too
+      --to <format>       convert: json or ts. Default: the other format of each file
+  -o, --out-dir <dir>     convert: write the converted files to this directory
+      --stdout            convert: print the converted file instead of writing it
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 errors found or a file failed, 2 invalid arguments or no files matched.
+`
+
+const COMMANDS = ['validate', 'convert', 'graph']
+
+const defaultIO: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    cwd: process.cwd(),
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths).
+ *
+ * @returns The exit code.
+ */
+export async function run(argv: string[], io: CliIO = defaultIO): Promise<number> {
+    let parsed: ReturnType<typeof parse>
+    try {
+        parsed = parse(argv)
+    } catch (error) {
+        io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`)
+        return ExitCode.Usage
+    }
+
+    const { values, positionals } = parsed
+    const [command, ...patterns] = positionals
+
+    if (values.help || !command) {
+        ;(values.help ? io.stdout : io.stderr)(USAGE)
+        return values.help ? ExitCode.Success : ExitCode.Usage
+    }
+
+    const usageError = (message: string) => {
+        io.stderr(`${message}\n\n${USAGE}`)
+        return ExitCode.Usage
+    }
+
+    if (!COMMANDS.includes(command)) {
+        return usageError(`Unknown command '${command}'`)
+    }
+
+    const format = values.format ?? 'text'
+    const formats = command === 'graph' ? ['text', 'dot', 'json'] : ['text', 'json']
+    if (!formats.includes(format)) {
+        return usageError(`Invalid --format '${format}' for ${command}. Use one of: ${formats.join(', ')}`)
+    }
+    if (values.to !== undefined && values.to !== 'json' && values.to !== 'ts') {
+        return usageError(`Invalid --to '${values.to}'. Use json or ts`)
+    }
+    if (patterns.length === 0) {
+        return usageError(`No files given to ${command}`)
+    }
+
+    const files = await expandFilePatterns(patterns, io.cwd)
+    if (files.length === 0) {
+        io.stderr(`No files matched ${patterns.join(' ')}\n`)
+        return ExitCode.Usage
+    }
+
+    const exportName = values.export
+    switch (command) {
+        case 'validate':
+            return runValidate(files, { format: format as 'text' | 'json', exportName, strict: !!values.strict }, io)
+        case 'convert':
+            return runConvert(
+                files,
+                {
+                    format: format as 'text' | 'json',
+                    exportName,
+                    to: values.to as 'json' | 'ts' | undefined,
+                    outDir: values['out-dir'],
+                    stdout: !!values.stdout,
+                },
+                io
+            )
+        default:
+            return runGraph(files, { format: format as GraphFormat, exportName }, io)
+    }
+}
+
+function parse(argv: string[]) {
+    return parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: 'string', short: 'f' },
+            export: { type: 'string', short: 'e' },
+            strict: { type: 'boolean' },
+            to: { type: 'string' },
+            'out-dir': { type: 'string', short: 'o' },
+            stdout: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+}
@@ -0,0 +1,25 @@
+// @onboardjs/core/src/cli/types.ts
+
+export interface CliIO {
+    stdout(text: string): void
+    stderr(text: string): void
+    /** The directory paths and patterns are resolved against. */
+    cwd: string
+}
+
+export type OutputFormat = 'text' | 'json'
+
+export interface CommandOptions {
+    format: OutputFormat
+    /** The named export holding the steps in script files. */
+    exportName?: string
+}
+
+/** Exit codes shared by all commands. */
+export const ExitCode = {
+    Success: 0,
+    /** Validation errors, or files that could not be read, converted or written. */
+    Failure: 1,
+    /** Invalid arguments, or no files matched. */
+    Usage: 2,
+} as const
@@ -0,0 +1,102 @@
+// @onboardjs/core/src/cli/validate.ts
+
+import { StepValidationError, StepValidationWarning, StepValidator } from '../engine/StepValidator'
+import { loadFlowFile } from './files'
+import { CliIO, CommandOptions, ExitCode } from './types'
+
+export interface ValidateOptions extends CommandOptions {
+    /** Exit with a failure code on warnings too. */
+    strict: boolean
+}
+
+export interface FileValidationReport {
+    file: string
+    valid: boolean
+    stepCount: number
+    errors: StepValidationError[]
+    warnings: StepValidationWarning[]
+    /** Set when the file could not be read; the file then counts as one error. */
+    loadError?: string
+}
+
+export interface ValidationReport {
+    files: FileValidationReport[]
+    errorCount: number
+    warningCount: number
+}
+
+export async function validateFiles(
+    files: string[],
+    options: Pick<ValidateOptions, 'exportName'>,
+    cwd: string
+): Promise<ValidationReport> {
+    const validator = new StepValidator(100, false, false)
+    const reports: FileValidationReport[] = []
+
+    for (const file of files) {
+        try {
+            const { steps } = await loadFlowFile(file, cwd, options.exportName)
+            const { isValid, errors, warnings } = validator.validateSteps(steps)
+            reports.push({ file, valid: isValid, stepCount: steps.length, errors, warnings })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            reports.push({ file, valid: false, stepCount: 0, errors: [], warnings: [], loadError: message })
+        }
+    }
+
+    return {
+        files: reports,
+        errorCount: reports.reduce((count, report) => count + report.errors.length + (report.loadError ? 1 : 0), 0),
+        warningCount: reports.reduce((count, report) => count + report.warnings.length, 0),
+    }
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+function formatIssue(level: 'error' | 'warning', stepId: string | number | undefined, message: string, type: string) {
+    const location = stepId === undefined ? '' : `step '${stepId}'  `
+    return `  ${level.padEnd(7)}  ${location}${message}  ${type}\n`
+}
+
+export function formatValidationReport(report: ValidationReport): string {
+    let output = ''
+
+    report.files.forEach((file) => {
+        if (!file.loadError && file.errors.length === 0 && file.warnings.length === 0) {
+            return
+        }
+        output += `${file.file}\n`
+        if (file.loadError) {
+            output += `  ${'error'.padEnd(7)}  ${file.loadError}\n`
+        }
+        file.errors.forEach((error) => (output += formatIssue('error', error.stepId, error.message, error.errorType)))
+        file.warnings.forEach(
+            (warning) => (output += formatIssue('warning', warning.stepId, warning.message, warning.warningType))
+        )
+        output += '\n'
+    })
+
+    const problems = report.errorCount + report.warningCount
+    if (problems === 0) {
+        return `✔ ${plural(report.files.length, 'file')} valid\n`
+    }
+
+    const failing = report.files.filter((file) => !file.valid || file.warnings.length > 0).length
+    return (
+        output +
+        `${report.errorCount > 0 ? '✖' : '⚠'} ${plural(problems, 'problem')} ` +
+        `(${plural(report.errorCount, 'error')}, ${plural(report.warningCount, 'warning')}) ` +
+        `in ${failing} of ${plural(report.files.length, 'file')}\n`
+    )
+}
+
+export async function runValidate(files: string[], options: ValidateOptions, io: CliIO): Promise<number> {
+    const report = await validateFiles(files, options, io.cwd)
+
+    io.stdout(options.format === 'json' ? JSON.stringify(report, null, 2) + '\n' : formatValidationReport(report))
+
+    if (report.errorCount > 0 || (options.strict && report.warningCount > 0)) {
+        return ExitCode.Failure
+    }
+    return ExitCode.Success
+}
@@ -4,6 +4,7 @@ import { OnboardingContext, OnboardingStep, ChecklistItemState, ChecklistStepPay
 import { ErrorHandler } from './ErrorHandler'
 import { EventManager } from './EventManager'
 import { Logger } from '../services/Logger'
+import { evaluateStepCondition } from '../utils/step-utils'
 
 export class ChecklistManager<TContext extends OnboardingContext> {
     private _logger: Logger
@@ -60,7 +61,7 @@ export class ChecklistManager<TContext extends OnboardingContext> {
         let mandatoryPending = 0
 
         for (const def of itemDefinitions) {
-            if (def.condition && !def.condition(context)) {
+            if (!evaluateStepCondition(def.condition, context)) {
                 continue
             }
 
@@ -196,7 +197,7 @@ export class ChecklistManager<TContext extends OnboardingContext> {
         let completedItems = 0
 
         for (const def of itemDefinitions) {
-            if (def.condition && !def.condition(context)) {
+            if (!evaluateStepCondition(def.condition, context)) {
                 continue
             }
 
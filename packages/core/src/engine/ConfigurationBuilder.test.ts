@@ -329,6 +329,20 @@ describe('ConfigurationBuilder', () => {
             expect(result.errors).toContain("Step at index 1 is missing an 'id' property")
         })
 
+        it('should validate sections', () => {
+            const config: OnboardingEngineConfig<TestContext> = {
+                steps: [mockStep1],
+                sections: [
+                    { id: 'a', stepIds: [mockStep1.id, 'missing'] },
+                    { id: 'a', stepIds: [] },
+                ],
+            }
+            const result = ConfigurationBuilder.validateConfig(config)
+            expect(result.isValid).toBe(false)
+            expect(result.errors).toContain('Duplicate section ID: a')
+            expect(result.warnings).toContain("Section 'a' references unknown step 'missing'")
+        })
+
         it('should validate checklist steps: missing dataKey', () => {
             const config: OnboardingEngineConfig<TestContext> = {
                 steps: [{ id: 'c1', type: 'CHECKLIST', payload: { items: [] } } as any],
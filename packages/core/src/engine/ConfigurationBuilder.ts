@@ -33,6 +33,11 @@ export class ConfigurationBuilder {
             }
         }
 
+        // Record the flow version that writes this data, so persisted progress can be migrated later
+        if (config.flowVersion) {
+            baseContext.flowData._internal.flowVersion = config.flowVersion
+        }
+
         return baseContext
     }
 
@@ -82,7 +87,10 @@ export class ConfigurationBuilder {
 
         // Validate steps using StepValidator (TASK-035)
         if (!config.steps || config.steps.length === 0) {
-            warnings.push('No steps defined in configuration')
+            // Steps loaded from a flow source are validated when they are fetched
+            if (!config.flowSource) {
+                warnings.push('No steps defined in configuration')
+            }
         } else {
             const validator = new StepValidator<T>(100, false)
             const validationResult = validator.validateSteps(config.steps)
@@ -98,14 +106,36 @@ export class ConfigurationBuilder {
             })
         }
 
-        // Validate initial step ID
-        if (config.initialStepId) {
-            const initialStepExists = config.steps.some((step) => step.id === config.initialStepId)
+        // Validate flow source
+        if (config.flowSource && (typeof config.flowSource.url !== 'string' || !config.flowSource.url)) {
+            errors.push('flowSource requires a url')
+        }
+
+        // Validate initial step ID (it may refer to a step of the remote flow)
+        if (config.initialStepId && !config.flowSource) {
+            const initialStepExists = config.steps?.some((step) => step.id === config.initialStepId)
             if (!initialStepExists) {
                 errors.push(`Initial step ID ${config.initialStepId} not found in steps`)
             }
         }
 
+        // Validate sections
+        if (config.sections) {
+            const sectionIds = new Set<string>()
+            for (const section of config.sections) {
+                if (sectionIds.has(section.id)) {
+                    errors.push(`Duplicate section ID: ${section.id}`)
+                }
+                sectionIds.add(section.id)
+
+                for (const stepId of section.stepIds) {
+                    if (!config.steps?.some((step) => step.id === stepId)) {
+                        warnings.push(`Section '${section.id}' references unknown step '${stepId}'`)
+                    }
+                }
+            }
+        }
+
         // Validate plugins
         if (config.plugins) {
             for (const plugin of config.plugins) {
@@ -126,6 +126,15 @@ export class EventHandlerRegistry<TContext extends OnboardingContext> {
         return this._eventManager.addEventListener('navigationJump', listener)
     }
 
+    public onNavigationDenied(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
+        return this._eventManager.addEventListener('navigationDenied', listener)
+    }
+
+    // Experiment events
+    public onExperimentExposed(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
+        return this._eventManager.addEventListener('experimentExposed', listener)
+    }
+
     // Interaction events
     public onUserIdle(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
         return this._eventManager.addEventListener('userIdle', listener)
@@ -152,6 +161,15 @@ export class EventHandlerRegistry<TContext extends OnboardingContext> {
         return this._eventManager.addEventListener('persistenceFailure', listener)
     }
 
+    public onPersistenceExpired(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
+        return this._eventManager.addEventListener('persistenceExpired', listener)
+    }
+
+    // Cross-tab sync events
+    public onCrossTabConflict(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
+        return this._eventManager.addEventListener('crossTabConflict', listener)
+    }
+
     // Checklist events
     public onChecklistItemToggled(listener: (event: any) => void | Promise<void>): UnsubscribeFunction {
         return this._eventManager.addEventListener('checklistItemToggled', listener)
@@ -42,6 +42,10 @@ export class EventManager<TContext extends OnboardingContext = OnboardingContext
             'navigationBack',
             'navigationForward',
             'navigationJump',
+            'navigationDenied',
+
+            // Experiments
+            'experimentExposed',
 
             // Interaction
             'userIdle',
@@ -52,6 +56,10 @@ export class EventManager<TContext extends OnboardingContext = OnboardingContext
             'stepRenderTime',
             'persistenceSuccess',
             'persistenceFailure',
+            'persistenceExpired',
+
+            // Cross-tab sync
+            'crossTabConflict',
 
             // Checklist
             'checklistItemToggled',
@@ -0,0 +1,206 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest'
+import { FlowTriggerManager, type FlowTriggerHistory, type TriggeredFlowDefinition } from './FlowTriggerManager'
+import { OnboardingEngineRegistry } from './OnboardingEngineRegistry'
+import { OnboardingEngine } from './OnboardingEngine'
+import type { OnboardingStep } from '../types'
+
+describe('FlowTriggerManager', () => {
+    const steps: OnboardingStep[] = [{ id: 'intro' }, { id: 'done' }]
+    const DAY_MS = 24 * 60 * 60 * 1000
+    let registry: OnboardingEngineRegistry
+    let now: number
+
+    const startEngine = (flowId: string) => async () => {
+        await new OnboardingEngine({ flowId, steps, registry }).ready()
+    }
+
+    const createManager = (flows: Partial<TriggeredFlowDefinition>[], history?: FlowTriggerHistory) => {
+        const persistHistory = vi.fn()
+        const manager = new FlowTriggerManager({
+            registry,
+            flows: flows.map((flow) => ({
+                flowId: 'tour',
+                triggers: [],
+                start: startEngine(flow.flowId ?? 'tour'),
+                ...flow,
+            })),
+            loadHistory: () => history,
+            persistHistory,
+            now: () => now,
+        })
+        return { manager, persistHistory }
+    }
+
+    const completeFlow = async (flowId: string) => {
+        const engine = registry.get(flowId)!
+        await engine.next()
+        await engine.next()
+    }
+
+    beforeEach(() => {
+        registry = new OnboardingEngineRegistry()
+        now = 1_000_000
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('should start a flow when a matching app event is signaled', async () => {
+        const { manager, persistHistory } = createManager([
+            {
+                triggers: [
+                    { type: 'event', event: 'project_created', when: (payload: any) => payload?.first === true },
+                ],
+            },
+        ])
+
+        expect(await manager.signal('project_created', { first: false })).toEqual([])
+        expect(await manager.signal('project_created', { first: true })).toEqual(['tour'])
+        expect(registry.has('tour')).toBe(true)
+        expect(persistHistory).toHaveBeenLastCalledWith({
+            sessions: 0,
+            flows: { tour: { count: 1, lastTriggeredAt: now } },
+        })
+    })
+
+    it('should match route patterns', async () => {
+        const { manager } = createManager([
+            { flowId: 'projects', triggers: [{ type: 'route', path: '/projects/:id' }] },
+            { flowId: 'settings', triggers: [{ type: 'route', path: '/settings/*' }], suppressWhileActive: false },
+        ])
+
+        expect(await manager.setRoute('/projects')).toEqual([])
+        expect(await manager.setRoute('/projects/42?tab=files')).toEqual(['projects'])
+        expect(await manager.setRoute('/settings/billing/plan')).toEqual(['settings'])
+    })
+
+    it('should start a flow after a number of sessions', async () => {
+        const { manager } = createManager([{ triggers: [{ type: 'sessions', count: 3 }] }], {
+            sessions: 1,
+            flows: {},
+        })
+
+        expect(await manager.startSession()).toEqual([])
+        expect(await manager.startSession()).toEqual(['tour'])
+        expect(manager.getHistory().sessions).toBe(3)
+    })
+
+    it('should enforce frequency caps', async () => {
+        const suppressed = vi.fn()
+        const { manager } = createManager([
+            { triggers: [{ type: 'event', event: 'open' }], frequency: { cooldownDays: 7 }, start: vi.fn() },
+        ])
+        manager.addEventListener('triggerSuppressed', suppressed)
+
+        expect(await manager.signal('open')).toEqual(['tour'])
+        now += 6 * DAY_MS
+        expect(await manager.signal('open')).toEqual([])
+        expect(suppressed).toHaveBeenCalledWith(expect.objectContaining({ flowId: 'tour', reason: 'frequency' }))
+
+        now += DAY_MS
+        expect(await manager.signal('open')).toEqual(['tour'])
+        expect(manager.getHistory().flows.tour.count).toBe(2)
+    })
+
+    it('should trigger a flow only once by default, across sessions', async () => {
+        const history: FlowTriggerHistory = { sessions: 4, flows: { tour: { count: 1, lastTriggeredAt: 0 } } }
+        const { manager } = createManager([{ triggers: [{ type: 'event', event: 'open' }] }], history)
+
+        expect(await manager.signal('open')).toEqual([])
+    })
+
+    it('should suppress triggers while another flow is active', async () => {
+        const suppressed = vi.fn()
+        const { manager } = createManager([
+            { flowId: 'setup', triggers: [{ type: 'event', event: 'login' }] },
+            {
+                flowId: 'tour',
+                triggers: [
+                    { type: 'event', event: 'login' },
+                    { type: 'event', event: 'idle' },
+                ],
+            },
+        ])
+        manager.addEventListener('triggerSuppressed', suppressed)
+
+        expect(await manager.signal('login')).toEqual(['setup'])
+        expect(suppressed).toHaveBeenCalledWith(expect.objectContaining({ flowId: 'tour', reason: 'active' }))
+
+        await completeFlow('setup')
+        expect(await manager.signal('idle')).toEqual(['tour'])
+    })
+
+    it('should not trigger flows locked by their prerequisites', async () => {
+        registry.setPrerequisites('tour', ['setup'])
+        const { manager } = createManager([{ triggers: [{ type: 'event', event: 'open' }] }])
+
+        expect(await manager.signal('open')).toEqual([])
+        expect(manager.getHistory().flows).toEqual({})
+    })
+
+    it('should not record a trigger whose flow failed to start', async () => {
+        const { manager } = createManager([
+            {
+                triggers: [{ type: 'event', event: 'open' }],
+                start: () => {
+                    throw new Error('boom')
+                },
+            },
+        ])
+
+        expect(await manager.signal('open')).toEqual([])
+        expect(manager.getHistory().flows).toEqual({})
+    })
+
+    it('should keep the trigger history in localStorage by default', async () => {
+        const items = new Map<string, string>()
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => items.get(key) ?? null,
+            setItem: (key: string, value: string) => items.set(key, value),
+        })
+        const flows: TriggeredFlowDefinition[] = [
+            { flowId: 'tour', triggers: [{ type: 'sessions', count: 1 }], start: startEngine('tour') },
+        ]
+
+        const first = new FlowTriggerManager({ registry, flows, now: () => now })
+        expect(await first.startSession()).toEqual(['tour'])
+        expect(JSON.parse(items.get('onboardjs:flow-triggers')!)).toEqual({
+            sessions: 1,
+            flows: { tour: { count: 1, lastTriggeredAt: now } },
+        })
+
+        // After a reload
+        registry = new OnboardingEngineRegistry()
+        const second = new FlowTriggerManager({ registry, flows, now: () => now })
+        expect(await second.startSession()).toEqual([])
+        expect(second.getHistory().sessions).toBe(2)
+
+        const custom = new FlowTriggerManager({ registry, flows, storageKey: 'app:triggers' })
+        await custom.startSession()
+        expect(JSON.parse(items.get('app:triggers')!).sessions).toBe(1)
+    })
+
+    it('should not mix a single history handler with localStorage', async () => {
+        const getItem = vi.fn(() => null)
+        const setItem = vi.fn()
+        vi.stubGlobal('localStorage', { getItem, setItem })
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const persistHistory = vi.fn()
+        const flows: TriggeredFlowDefinition[] = [
+            { flowId: 'tour', triggers: [{ type: 'sessions', count: 1 }], start: startEngine('tour') },
+        ]
+
+        const manager = new FlowTriggerManager({ registry, flows, persistHistory, now: () => now })
+        expect(await manager.startSession()).toEqual(['tour'])
+
+        expect(persistHistory).toHaveBeenLastCalledWith({
+            sessions: 1,
+            flows: { tour: { count: 1, lastTriggeredAt: now } },
+        })
+        expect(getItem).not.toHaveBeenCalled()
+        expect(setItem).not.toHaveBeenCalled()
+        expect(warn).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('Only persistHistory is set'))
+        warn.mockRestore()
+    })
+})
@@ -0,0 +1,367 @@
+// src/engine/FlowTriggerManager.ts
+// Starts flows of an OnboardingEngineRegistry in response to app events, routes and sessions
+
+import { Logger } from '../services/Logger'
+import { PersistenceService } from '../services/PersistenceService'
+import type { OnboardingContext } from '../types'
+import type { OnboardingEngineRegistry } from './OnboardingEngineRegistry'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_STORAGE_KEY = 'onboardjs:flow-triggers'
+
+/**
+ * What starts a flow:
+ * - `event`: an app event signaled with `signal()`, optionally filtered by its payload
+ * - `route`: a route set with `setRoute()`. String patterns match whole paths and support
+ *   `:param` segments and a trailing `*`
+ * - `sessions`: a session started with `startSession()` once at least `count` sessions were recorded
+ */
+export type FlowTrigger =
+    | { type: 'event'; event: string; when?: (payload: unknown) => boolean }
+    | { type: 'route'; path: string | RegExp }
+    | { type: 'sessions'; count: number }
+
+/**
+ * How often a flow may be triggered. Without a cap a flow is triggered once.
+ */
+export interface TriggerFrequencyCap {
+    /** Maximum number of times the flow is triggered. Omit for no limit. */
+    maxTriggers?: number
+    /** Minimum number of days between two triggers. */
+    cooldownDays?: number
+}
+
+/**
+ * Context passed to a triggered flow's `start` function
+ */
+export interface FlowTriggeredEvent {
+    flowId: string
+    trigger: FlowTrigger
+    /** How many times the flow was triggered, including this time. */
+    triggerCount: number
+}
+
+export interface TriggeredFlowDefinition {
+    flowId: string
+    triggers: FlowTrigger[]
+    /** Defaults to `{ maxTriggers: 1 }` (show once). */
+    frequency?: TriggerFrequencyCap
+    /** Don't trigger the flow while another flow is active. Defaults to true. */
+    suppressWhileActive?: boolean
+    /** Start the flow, usually by creating an OnboardingEngine registered under `flowId`. */
+    start: (event: FlowTriggeredEvent) => Promise<void> | void
+}
+
+/**
+ * The trigger history, persisted through `persistHistory` or, by default, in localStorage
+ */
+export interface FlowTriggerHistory {
+    sessions: number
+    flows: Record<string, { count: number; lastTriggeredAt: number }>
+}
+
+export type TriggerSuppressionReason = 'frequency' | 'active' | 'locked'
+
+export interface FlowTriggerEventListenerMap {
+    flowTriggered: (event: FlowTriggeredEvent) => void
+    triggerSuppressed: (event: { flowId: string; trigger: FlowTrigger; reason: TriggerSuppressionReason }) => void
+}
+
+export interface FlowTriggerManagerConfig {
+    registry: OnboardingEngineRegistry
+    flows: TriggeredFlowDefinition[]
+    /**
+     * Loads the trigger history. Set it together with `persistHistory`; without either, the history is kept
+     * under `storageKey` in localStorage, where available.
+     */
+    loadHistory?: () => Promise<FlowTriggerHistory | null | undefined> | FlowTriggerHistory | null | undefined
+    /**
+     * Persists the trigger history. Set it together with `loadHistory`; without either, the history is kept
+     * under `storageKey` in localStorage, where available.
+     */
+    persistHistory?: (history: FlowTriggerHistory) => Promise<void> | void
+    /** The localStorage key of the default history storage. Defaults to `onboardjs:flow-triggers`. */
+    storageKey?: string
+    /** Clock used for frequency caps. Defaults to `Date.now`. */
+    now?: () => number
+    debugMode?: boolean
+}
+
+/**
+ * FlowTriggerManager starts registry flows when their triggers fire.
+ *
+ * This manager is responsible for:
+ * - Matching app events, routes and session counts against the flows' triggers
+ * - Enforcing frequency caps and suppressing triggers while another flow is active
+ *   (a registered engine that is not completed) or the flow is locked by its prerequisites
+ * - Recording the trigger history through the persistence layer: `loadHistory` / `persistHistory`,
+ *   or localStorage by default
+ *
+ * It holds no timers, and only uses localStorage when no history handlers are given, so it can be driven
+ * headlessly in tests.
+ *
+ * @example
+ * ```typescript
+ * const triggers = new FlowTriggerManager({
+ *   registry,
+ *   flows: [
+ *     {
+ *       flowId: 'project-tour',
+ *       triggers: [{ type: 'event', event: 'first_project_created' }],
+ *       start: () => { new OnboardingEngine({ flowId: 'project-tour', steps, registry }) },
+ *     },
+ *   ],
+ * })
+ *
+ * await triggers.signal('first_project_created')
+ * ```
+ */
+export class FlowTriggerManager {
+    private readonly _registry: OnboardingEngineRegistry
+    private readonly _flows: TriggeredFlowDefinition[]
+    private readonly _persistence: PersistenceService<TriggerHistoryContext>
+    private readonly _now: () => number
+    private readonly _logger: Logger
+    private readonly _loading: Promise<void>
+    private _history: FlowTriggerHistory = { sessions: 0, flows: {} }
+    private _startingFlows = new Set<string>()
+    private _listeners: { [K in keyof FlowTriggerEventListenerMap]: Set<FlowTriggerEventListenerMap[K]> } = {
+        flowTriggered: new Set(),
+        triggerSuppressed: new Set(),
+    }
+
+    constructor(config: FlowTriggerManagerConfig) {
+        this._registry = config.registry
+        this._flows = config.flows
+        this._now = config.now ?? Date.now
+        this._logger = Logger.getInstance({ debugMode: config.debugMode ?? false, prefix: 'FlowTriggerManager' })
+        this._persistence = createHistoryPersistence(config, this._logger)
+        this._loading = this._loadHistory()
+    }
+
+    /**
+     * Resolves once the trigger history is loaded
+     */
+    ready(): Promise<void> {
+        return this._loading
+    }
+
+    /**
+     * Signal an app event. Resolves with the IDs of the flows it started.
+     */
+    async signal(event: string, payload?: unknown): Promise<string[]> {
+        return this._evaluate(
+            (trigger) => trigger.type === 'event' && trigger.event === event && (trigger.when?.(payload) ?? true)
+        )
+    }
+
+    /**
+     * Report the current route. Resolves with the IDs of the flows it started.
+     */
+    async setRoute(path: string): Promise<string[]> {
+        return this._evaluate((trigger) => trigger.type === 'route' && matchRoute(trigger.path, path))
+    }
+
+    /**
+     * Record a new session, e.g. once per app load. Resolves with the IDs of the flows it started.
+     */
+    async startSession(): Promise<string[]> {
+        await this._loading
+        this._history = { ...this._history, sessions: this._history.sessions + 1 }
+        await this._saveHistory()
+
+        return this._evaluate((trigger) => trigger.type === 'sessions' && this._history.sessions >= trigger.count)
+    }
+
+    /**
+     * Get the trigger history
+     */
+    getHistory(): FlowTriggerHistory {
+        return { sessions: this._history.sessions, flows: { ...this._history.flows } }
+    }
+
+    /**
+     * Listen to trigger events. Returns a function that removes the listener.
+     */
+    addEventListener<K extends keyof FlowTriggerEventListenerMap>(
+        eventType: K,
+        listener: FlowTriggerEventListenerMap[K]
+    ): () => void {
+        const listeners = this._listeners[eventType] as Set<FlowTriggerEventListenerMap[K]>
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+    }
+
+    private async _evaluate(matches: (trigger: FlowTrigger) => boolean): Promise<string[]> {
+        await this._loading
+
+        const started: string[] = []
+        for (const flow of this._flows) {
+            const trigger = flow.triggers.find(matches)
+            if (!trigger) {
+                continue
+            }
+
+            const reason = this._getSuppressionReason(flow)
+            if (reason) {
+                this._logger.debug(`Trigger for '${flow.flowId}' suppressed: ${reason}`)
+                this._emit('triggerSuppressed', { flowId: flow.flowId, trigger, reason })
+                continue
+            }
+
+            if (await this._start(flow, trigger)) {
+                started.push(flow.flowId)
+            }
+        }
+        return started
+    }
+
+    private _getSuppressionReason(flow: TriggeredFlowDefinition): TriggerSuppressionReason | null {
+        const { maxTriggers, cooldownDays } = flow.frequency ?? { maxTriggers: 1 }
+        const record = this._history.flows[flow.flowId]
+        if (record) {
+            if (maxTriggers !== undefined && record.count >= maxTriggers) {
+                return 'frequency'
+            }
+            if (cooldownDays !== undefined && this._now() - record.lastTriggeredAt < cooldownDays * DAY_MS) {
+                return 'frequency'
+            }
+        }
+
+        if (!this._registry.isFlowAvailable(flow.flowId)) {
+            return 'locked'
+        }
+
+        if ((flow.suppressWhileActive ?? true) && this._hasActiveFlow()) {
+            return 'active'
+        }
+
+        return null
+    }
+
+    private _hasActiveFlow(): boolean {
+        if (this._startingFlows.size > 0) {
+            return true
+        }
+        return this._registry.getAll().some((engine) => !engine.getState().isCompleted)
+    }
+
+    private async _start(flow: TriggeredFlowDefinition, trigger: FlowTrigger): Promise<boolean> {
+        const previousCount = this._history.flows[flow.flowId]?.count ?? 0
+        const event: FlowTriggeredEvent = { flowId: flow.flowId, trigger, triggerCount: previousCount + 1 }
+
+        this._startingFlows.add(flow.flowId)
+        try {
+            await flow.start(event)
+        } catch (error) {
+            this._logger.error(`Failed to start triggered flow '${flow.flowId}':`, error)
+            return false
+        } finally {
+            this._startingFlows.delete(flow.flowId)
+        }
+
+        this._history = {
+            ...this._history,
+            flows: {
+                ...this._history.flows,
+                [flow.flowId]: { count: event.triggerCount, lastTriggeredAt: this._now() },
+            },
+        }
+        await this._saveHistory()
+
+        this._emit('flowTriggered', event)
+        return true
+    }
+
+    private async _loadHistory(): Promise<void> {
+        const { data, error } = await this._persistence.loadPersistedData()
+        if (error) {
+            this._logger.error('Failed to load trigger history:', error)
+        }
+        const history = data?.flowData?.triggerHistory
+        if (history) {
+            this._history = { sessions: history.sessions ?? 0, flows: { ...history.flows } }
+        }
+    }
+
+    private async _saveHistory(): Promise<void> {
+        // Failures are logged by the persistence service
+        await this._persistence.persistDataIfNeeded({ flowData: { triggerHistory: this.getHistory() } }, null, false)
+    }
+
+    private _emit<K extends keyof FlowTriggerEventListenerMap>(
+        eventType: K,
+        event: Parameters<FlowTriggerEventListenerMap[K]>[0]
+    ): void {
+        this._listeners[eventType].forEach((listener) => {
+            try {
+                ;(listener as (event: Parameters<FlowTriggerEventListenerMap[K]>[0]) => void)(event)
+            } catch (error) {
+                this._logger.error(`Error in ${eventType} listener:`, error)
+            }
+        })
+    }
+}
+
+/**
+ * The trigger history as persisted by the PersistenceService
+ */
+type TriggerHistoryContext = OnboardingContext & { flowData: { triggerHistory?: FlowTriggerHistory } }
+
+function createHistoryPersistence(
+    config: FlowTriggerManagerConfig,
+    logger: Logger
+): PersistenceService<TriggerHistoryContext> {
+    const key = config.storageKey ?? DEFAULT_STORAGE_KEY
+    const hasHandlers = !!config.loadHistory || !!config.persistHistory
+    const storage = !hasHandlers && typeof localStorage !== 'undefined' ? localStorage : null
+    if (hasHandlers && (!config.loadHistory || !config.persistHistory)) {
+        // Mixing a handler with localStorage would read the history from a different place than it is written to
+        logger.warn(
+            `Only ${config.loadHistory ? 'loadHistory' : 'persistHistory'} is set, so the trigger history is not ${config.loadHistory ? 'saved' : 'loaded'} between sessions`
+        )
+    } else if (!hasHandlers && !storage) {
+        logger.debug('localStorage is not available, the trigger history is only kept in memory')
+    }
+
+    const loadHistory = config.loadHistory ?? (storage ? () => JSON.parse(storage.getItem(key) ?? 'null') : undefined)
+    const persistHistory =
+        config.persistHistory ??
+        (storage ? (history: FlowTriggerHistory) => storage.setItem(key, JSON.stringify(history)) : undefined)
+
+    return new PersistenceService<TriggerHistoryContext>(
+        loadHistory &&
+            (async () => {
+                const history = await loadHistory()
+                return history ? { flowData: { triggerHistory: history } } : null
+            }),
+        persistHistory &&
+            (async (context) => {
+                await persistHistory(context.flowData.triggerHistory!)
+            }),
+        undefined,
+        undefined,
+        undefined,
+        config.debugMode
+    )
+}
+
+function matchRoute(pattern: string | RegExp, path: string): boolean {
+    if (pattern instanceof RegExp) {
+        return pattern.test(path)
+    }
+
+    const patternSegments = pattern.split('/').filter(Boolean)
+    const pathSegments = path.split('?')[0].split('#')[0].split('/').filter(Boolean)
+
+    for (let i = 0; i < patternSegments.length; i++) {
+        const segment = patternSegments[i]
+        if (segment === '*' && i === patternSegments.length - 1) {
+            return true
+        }
+        if (pathSegments[i] === undefined || (!segment.startsWith(':') && segment !== pathSegments[i])) {
+            return false
+        }
+    }
+    return pathSegments.length === patternSegments.length
+}
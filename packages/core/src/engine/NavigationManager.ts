@@ -2,7 +2,7 @@
 
 import { Logger } from '../services/Logger'
 import { OnboardingContext, OnboardingStep, ChecklistStepPayload } from '../types'
-import { findStepById, evaluateStepId } from '../utils/step-utils'
+import { findStepById, evaluateStepId, evaluateStepCondition } from '../utils/step-utils'
 import { ChecklistManager } from './ChecklistManager'
 import { ErrorHandler } from './ErrorHandler'
 import { EventManager } from './EventManager'
@@ -75,7 +75,7 @@ export class NavigationManager<TContext extends OnboardingContext> {
         let candidateStep: OnboardingStep<TContext> | undefined | null = findStepById(this._steps, finalTargetStepId)
 
         // This loop now correctly handles skipping by using our robust helper methods.
-        while (candidateStep && candidateStep.condition && !candidateStep.condition(context)) {
+        while (candidateStep && !evaluateStepCondition(candidateStep.condition, context)) {
             this._logger.debug(`[NavigationManager] Skipping conditional step: ${candidateStep.id}`)
             if (direction === 'previous') {
                 // When skipping backwards, we must find the previous valid candidate
@@ -416,7 +416,7 @@ export class NavigationManager<TContext extends OnboardingContext> {
                 let nextInArrayCandidate: OnboardingStep<TContext> | undefined = undefined
                 for (let i = currentIndex + 1; i < this._steps.length; i++) {
                     const step = this._steps[i]
-                    if (!step.condition || step.condition(context)) {
+                    if (evaluateStepCondition(step.condition, context)) {
                         nextInArrayCandidate = step
                         break
                     }
@@ -518,7 +518,7 @@ export class NavigationManager<TContext extends OnboardingContext> {
         // Iterate through the rest of the array to find the first valid step.
         for (let i = currentIndex + 1; i < this._steps.length; i++) {
             const candidateStep = this._steps[i]
-            if (!candidateStep.condition || candidateStep.condition(context)) {
+            if (evaluateStepCondition(candidateStep.condition, context)) {
                 return candidateStep // Found the next valid step.
             }
         }
@@ -550,7 +550,7 @@ export class NavigationManager<TContext extends OnboardingContext> {
             // Iterate backwards in the array to find the first valid step.
             for (let i = currentIndex - 1; i >= 0; i--) {
                 const candidateStep = this._steps[i]
-                if (!candidateStep.condition || candidateStep.condition(context)) {
+                if (evaluateStepCondition(candidateStep.condition, context)) {
                     return candidateStep // Found the previous valid step.
                 }
             }
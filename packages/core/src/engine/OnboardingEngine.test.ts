@@ -1,6 +1,18 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { OnboardingEngine } from './OnboardingEngine'
-import type { OnboardingEngineConfig, BeforeStepChangeEvent, LoadedData } from './types'
+import { OnboardingEngineRegistry } from './OnboardingEngineRegistry'
+import { InMemoryFeatureFlagProvider } from '../services/FeatureFlagService'
+import { FlowDataValidationError } from '../services/SchemaValidationService'
+import { shallowEqual } from '../utils/selector-utils'
+import type {
+    OnboardingEngineConfig,
+    BeforeStepChangeEvent,
+    LoadedData,
+    NavigationTransition,
+    CrossTabMessage,
+    CrossTabTransport,
+    DataPersistFn,
+} from './types'
 import type { OnboardingStep, OnboardingContext, ChecklistStepPayload, ChecklistItemState } from '../types'
 
 describe('OnboardingEngine', () => {
@@ -1103,6 +1115,1396 @@ describe('OnboardingEngine', () => {
         })
     })
 
+    describe('Sub-flows', () => {
+        const inviteSteps: OnboardingStep[] = [
+            { id: 'emails', type: 'INFORMATION', payload: {} },
+            {
+                id: 'role',
+                type: 'SINGLE_CHOICE',
+                payload: { dataKey: 'role', options: [{ id: 'admin', label: 'Admin', value: 'admin' }] },
+            },
+        ]
+
+        const parentSteps = (subflowStep: Partial<OnboardingStep> = {}): OnboardingStep[] => [
+            { id: 'welcome', type: 'INFORMATION', payload: {} },
+            {
+                id: 'invite',
+                type: 'SUBFLOW',
+                payload: { steps: inviteSteps },
+                nextStep: 'done',
+                ...subflowStep,
+            } as OnboardingStep,
+            { id: 'skipped', type: 'INFORMATION', payload: {} },
+            { id: 'done', type: 'INFORMATION', payload: {} },
+        ]
+
+        it('should enter the child flow with namespaced step IDs and return to the parent nextStep', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, steps: parentSteps() })
+            await engine.ready()
+
+            await engine.next()
+            expect(engine.getState().currentStep?.id).toBe('invite/emails')
+
+            await engine.next()
+            expect(engine.getState().currentStep?.id).toBe('invite/role')
+
+            await engine.next({ role: 'admin' })
+            expect(engine.getState().currentStep?.id).toBe('done')
+        })
+
+        it('should scope child data under the dataKey', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: parentSteps({ payload: { steps: inviteSteps, dataKey: 'invitation' } } as any),
+            })
+            await engine.ready()
+
+            await engine.goToStep('invite/role')
+            await engine.next({ role: 'admin' })
+
+            const { flowData } = engine.getState().context
+            expect(flowData.invitation).toEqual({ role: 'admin' })
+            expect(flowData.role).toBeUndefined()
+        })
+
+        it('should validate child steps against the scoped data', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, steps: parentSteps() })
+            await engine.ready()
+
+            await engine.goToStep('invite/role')
+            await engine.next({ role: 'guest' })
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('invite/role')
+            expect(state.validationErrors[0]).toMatchObject({ stepId: 'invite/role', rule: 'invalidOption' })
+        })
+
+        it('should cross the sub-flow boundary with previous()', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, steps: parentSteps() })
+            await engine.ready()
+
+            await engine.next()
+            await engine.next()
+            await engine.next({ role: 'admin' })
+            expect(engine.getState().currentStep?.id).toBe('done')
+
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('invite/role')
+            await engine.previous()
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('welcome')
+        })
+
+        it('should count child steps in progress', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, steps: parentSteps() })
+            await engine.ready()
+
+            await engine.next()
+            const state = engine.getState()
+            // welcome, invite/emails, invite/role, skipped, done
+            expect(state.totalSteps).toBe(5)
+            expect(state.currentStepNumber).toBe(2)
+            expect(state.completedSteps).toBe(1)
+        })
+
+        it('should embed a flow definition registered by flowId', async () => {
+            const registry = new OnboardingEngineRegistry()
+            registry.registerFlowDefinition('invite-teammates', inviteSteps)
+
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                registry,
+                steps: parentSteps({ payload: { flowId: 'invite-teammates' } } as any),
+            })
+            await engine.ready()
+
+            await engine.next()
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('invite/emails')
+            expect(state.currentStep?.meta?.subflow).toEqual({
+                parentStepId: 'invite',
+                flowId: 'invite-teammates',
+                dataPath: ['invite'],
+            })
+        })
+
+        it('should throw when a registered flow cannot be found', () => {
+            expect(
+                () =>
+                    new OnboardingEngine({
+                        ...basicConfig,
+                        steps: parentSteps({ payload: { flowId: 'missing' } } as any),
+                    })
+            ).toThrow("Subflow step 'invite' references unknown flow 'missing'")
+        })
+    })
+
+    describe('Step guards', () => {
+        const guardedSteps = (overrides: Record<string, Partial<OnboardingStep>> = {}): OnboardingStep[] =>
+            ['step1', 'step2', 'step3'].map(
+                (id) => ({ id, type: 'INFORMATION', payload: {}, ...overrides[id] }) as OnboardingStep
+            )
+
+        it('should stay on the step and emit navigationDenied when canLeave denies', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: guardedSteps({
+                    step1: { canLeave: async () => ({ action: 'deny', reason: 'Verify your email first' }) },
+                }),
+            })
+            await engine.ready()
+            const deniedListener = vi.fn()
+            engine.addEventListener('navigationDenied', deniedListener)
+
+            await engine.next()
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step1')
+            expect(state.isLoading).toBe(false)
+            expect(deniedListener).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    guard: 'canLeave',
+                    direction: 'next',
+                    reason: 'Verify your email first',
+                    step: expect.objectContaining({ id: 'step1' }),
+                    toStep: expect.objectContaining({ id: 'step2' }),
+                })
+            )
+        })
+
+        it('should redirect when canEnter returns a redirect', async () => {
+            const canEnterStep3 = vi.fn(() => true)
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: guardedSteps({
+                    step2: { canEnter: () => ({ action: 'redirect', stepId: 'step3' }) },
+                    step3: { canEnter: canEnterStep3 },
+                }),
+            })
+            await engine.ready()
+
+            await engine.next()
+
+            expect(engine.getState().currentStep?.id).toBe('step3')
+            expect(canEnterStep3).toHaveBeenCalled()
+        })
+
+        it('should pass the direction to canLeave and keep history when previous() is denied', async () => {
+            let allowBack = false
+            const canLeave = vi.fn(
+                (_context: OnboardingContext, direction: string) => direction !== 'previous' || allowBack
+            )
+            engine = new OnboardingEngine({ ...basicConfig, steps: guardedSteps({ step2: { canLeave } }) })
+            await engine.ready()
+            await engine.next()
+
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(canLeave).toHaveBeenLastCalledWith(expect.anything(), 'previous')
+
+            allowBack = true
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('step1')
+        })
+
+        it('should report isLoading while an async guard is pending', async () => {
+            let resolveGuard!: (allowed: boolean) => void
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: guardedSteps({
+                    step2: { canEnter: () => new Promise<boolean>((resolve) => (resolveGuard = resolve)) },
+                }),
+            })
+            await engine.ready()
+            const loadingStates: boolean[] = []
+            engine.addEventListener('stateChange', ({ state }) => loadingStates.push(state.isLoading))
+
+            const navigation = engine.next()
+            await vi.waitFor(() => expect(resolveGuard).toBeDefined())
+            expect(engine.getState().isLoading).toBe(true)
+
+            resolveGuard(true)
+            await navigation
+
+            expect(loadingStates).toContain(true)
+            expect(engine.getState().isLoading).toBe(false)
+            expect(engine.getState().currentStep?.id).toBe('step2')
+        })
+
+        it('should deny navigation when a guard throws or redirects in a loop', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: guardedSteps({
+                    step2: { canEnter: () => ({ action: 'redirect', stepId: 'step3' }) },
+                    step3: { canEnter: () => ({ action: 'redirect', stepId: 'step2' }) },
+                }),
+            })
+            await engine.ready()
+            const errorListener = vi.fn()
+            engine.addEventListener('error', errorListener)
+
+            await engine.next()
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(errorListener).toHaveBeenCalledTimes(1)
+
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: guardedSteps({
+                    step1: {
+                        canLeave: () => {
+                            throw new Error('Guard failed')
+                        },
+                    },
+                }),
+            })
+            await engine.ready()
+
+            await engine.next()
+            expect(engine.getState().currentStep?.id).toBe('step1')
+        })
+
+        it('should not run guards when the flow starts', async () => {
+            const canEnter = vi.fn(() => false)
+            engine = new OnboardingEngine({ ...basicConfig, steps: guardedSteps({ step1: { canEnter } }) })
+            await engine.ready()
+
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(canEnter).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('Undo and redo', () => {
+        it('should undo and redo navigation and context updates', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            expect(engine.getState()).toMatchObject({ canUndo: false, canRedo: false })
+
+            await engine.next()
+            await engine.updateContext({ flowData: { userRole: 'developer' } })
+            expect(engine.getState().canUndo).toBe(true)
+
+            await engine.undo()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(engine.getState().context.flowData.userRole).toBeUndefined()
+            expect(engine.getState().canRedo).toBe(true)
+
+            await engine.undo()
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(engine.getState().context.flowData._internal?.completedSteps.step1).toBeUndefined()
+            expect(engine.getState().canUndo).toBe(false)
+
+            await engine.redo()
+            await engine.redo()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(engine.getState().context.flowData.userRole).toBe('developer')
+            expect(engine.getState().canRedo).toBe(false)
+        })
+
+        it('should restore the navigation history so previous() keeps working', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            await engine.next()
+            await engine.next({ userRole: 'developer' })
+
+            await engine.undo()
+            await engine.previous()
+
+            expect(engine.getState().currentStep?.id).toBe('step1')
+        })
+
+        it('should jump to a snapshot, persist it and emit stateChange', async () => {
+            const persistData = vi.fn()
+            engine = new OnboardingEngine({ ...basicConfig, persistData })
+            await engine.ready()
+            await engine.next()
+            await engine.next({ userRole: 'designer' })
+            const stateListener = vi.fn()
+            engine.addEventListener('stateChange', stateListener)
+            persistData.mockClear()
+
+            const { snapshots, currentIndex } = engine.getSnapshots()
+            expect(snapshots.map((s) => s.currentStepId)).toEqual(['step1', 'step2', 'step3'])
+            expect(currentIndex).toBe(2)
+
+            await engine.jumpToSnapshot(0)
+
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(engine.getSnapshots().currentIndex).toBe(0)
+            expect(persistData).toHaveBeenCalledWith(expect.objectContaining({ flowData: expect.any(Object) }), 'step1')
+            expect(stateListener).toHaveBeenCalledWith({ state: expect.objectContaining({ canRedo: true }) })
+        })
+
+        it('should discard redo snapshots after a new change', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            await engine.next()
+            await engine.undo()
+
+            await engine.updateContext({ flowData: { source: 'ads' } })
+
+            expect(engine.getState().canRedo).toBe(false)
+            expect(engine.getSnapshots().snapshots).toHaveLength(2)
+        })
+
+        it('should not keep snapshots when undoLimit is 0', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, undoLimit: 0 })
+            await engine.ready()
+            await engine.next()
+
+            expect(engine.getState().canUndo).toBe(false)
+            await engine.undo()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+        })
+    })
+
+    describe('Snapshots', () => {
+        const checklistStep: OnboardingStep = {
+            id: 'tasks',
+            type: 'CHECKLIST',
+            payload: {
+                dataKey: 'tasks',
+                items: [
+                    { id: 'a', label: 'A', isMandatory: true },
+                    { id: 'b', label: 'B', isMandatory: false },
+                ],
+            } as ChecklistStepPayload,
+        }
+
+        it('should export the current step, history, context, checklists and flow identity', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                steps: [...mockSteps, checklistStep],
+                flowId: 'signup',
+                flowVersion: '2.0.0',
+            })
+            await engine.ready()
+            await engine.next()
+            await engine.updateContext({ flowData: { userRole: 'developer' } })
+
+            const snapshot = engine.exportSnapshot()
+
+            expect(snapshot).toMatchObject({
+                version: 1,
+                flow: { flowId: 'signup', flowVersion: '2.0.0' },
+                currentStepId: 'step2',
+                history: ['step1'],
+                isCompleted: false,
+                checklists: {},
+            })
+            expect(snapshot.context.flowData.userRole).toBe('developer')
+            expect(snapshot.context.flowData._internal?.completedSteps.step1).toEqual(expect.any(Number))
+            expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot)
+        })
+
+        it('should create an engine from a snapshot', async () => {
+            const source = new OnboardingEngine({ ...basicConfig, flowId: 'signup' })
+            await source.ready()
+            await source.next()
+            await source.next({ userRole: 'designer' })
+            const loadData = vi.fn()
+
+            engine = OnboardingEngine.fromSnapshot(source.exportSnapshot(), {
+                ...basicConfig,
+                flowId: 'signup',
+                loadData,
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step3')
+            expect(state.context.flowData.userRole).toBe('designer')
+            expect(state.completedSteps).toBe(2)
+            expect(loadData).not.toHaveBeenCalled()
+
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+        })
+
+        it('should import a snapshot into a running engine and apply checklist state', async () => {
+            const persistData = vi.fn()
+            engine = new OnboardingEngine({ ...basicConfig, steps: [checklistStep, ...mockSteps], persistData })
+            await engine.ready()
+            const snapshot = engine.exportSnapshot()
+            snapshot.checklists = {
+                tasks: [
+                    { id: 'a', isCompleted: true },
+                    { id: 'b', isCompleted: false },
+                ],
+            }
+            await engine.next()
+
+            await engine.importSnapshot(snapshot)
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('tasks')
+            expect(state.context.flowData.tasks).toEqual(snapshot.checklists.tasks)
+            expect(state.canUndo).toBe(true)
+            expect(persistData).toHaveBeenLastCalledWith(expect.anything(), 'tasks')
+        })
+
+        it('should reject invalid snapshots and snapshots of other flows', async () => {
+            engine = new OnboardingEngine({ ...basicConfig, flowId: 'signup' })
+            await engine.ready()
+            const snapshot = engine.exportSnapshot()
+
+            await expect(engine.importSnapshot({ ...snapshot, currentStepId: 'missing' })).rejects.toThrow(
+                "Invalid snapshot: Snapshot current step 'missing' not found in steps"
+            )
+            await expect(engine.importSnapshot({ ...snapshot, version: 99 })).rejects.toThrow(
+                'Unsupported snapshot version: 99'
+            )
+            expect(() => OnboardingEngine.fromSnapshot(snapshot, { ...basicConfig, flowId: 'other' })).toThrow(
+                "Snapshot belongs to flow 'signup', not 'other'"
+            )
+        })
+    })
+
+    describe('Flow migrations', () => {
+        const persistedV1 = (currentStepId: string, flowData: Record<string, any> = {}) => ({
+            currentStepId,
+            flowData: {
+                ...flowData,
+                _internal: { completedSteps: { step1: 1 }, startedAt: 1, stepStartTimes: {}, flowVersion: '1.0.0' },
+            },
+        })
+
+        it('should record the flow version in persisted data', async () => {
+            const persistData = vi.fn()
+            engine = new OnboardingEngine({ ...basicConfig, flowVersion: '1.0.0', persistData })
+            await engine.ready()
+            await engine.next()
+
+            expect(persistData).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    flowData: expect.objectContaining({
+                        _internal: expect.objectContaining({ flowVersion: '1.0.0' }),
+                    }),
+                }),
+                'step2'
+            )
+        })
+
+        it('should apply migrations in order to data written by an older version', async () => {
+            const order: string[] = []
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '3.0.0',
+                loadData: () => persistedV1('step2', { role: 'dev' }),
+                migrations: [
+                    {
+                        from: '2.0.0',
+                        to: '3.0.0',
+                        migrate: async (data) => {
+                            order.push('2->3')
+                            return { ...data, flowData: { ...data.flowData, migrated: true } }
+                        },
+                    },
+                    {
+                        from: '1.0.0',
+                        to: '2.0.0',
+                        migrate: (data) => {
+                            order.push('1->2')
+                            const { role, ...flowData } = data.flowData!
+                            return { ...data, flowData: { ...flowData, userRole: role } }
+                        },
+                    },
+                ],
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(order).toEqual(['1->2', '2->3'])
+            expect(state.currentStep?.id).toBe('step2')
+            expect(state.context.flowData).toMatchObject({ userRole: 'dev', migrated: true })
+            expect(state.context.flowData._internal?.flowVersion).toBe('3.0.0')
+        })
+
+        it('should move to the nearest valid step when the persisted step was removed', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '2.0.0',
+                loadData: () => persistedV1('removed-step'),
+                migrations: [{ from: '1.0.0', to: '2.0.0', migrate: (data) => data }],
+            })
+            await engine.ready()
+
+            expect(engine.getState().currentStep?.id).toBe('step2')
+        })
+
+        it('should restart the flow when a migration is missing', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '2.0.0',
+                loadData: () => persistedV1('step3', { role: 'dev' }),
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step1')
+            expect(state.context.flowData.role).toBeUndefined()
+            expect(state.error).toBeNull()
+        })
+
+        it('should keep the data when a migration throws and the fallback is nearestStep', async () => {
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '2.0.0',
+                loadData: () => persistedV1('step3', { role: 'dev' }),
+                migrationFallback: 'nearestStep',
+                migrations: [
+                    {
+                        from: '1.0.0',
+                        to: '2.0.0',
+                        migrate: () => {
+                            throw new Error('boom')
+                        },
+                    },
+                ],
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step3')
+            expect(state.context.flowData.role).toBe('dev')
+            expect(state.context.flowData._internal?.flowVersion).toBe('2.0.0')
+        })
+    })
+
+    describe('Persistence expiry', () => {
+        const DAY = 24 * 60 * 60 * 1000
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should start over and emit persistenceExpired for data saved before the inactivity timeout', async () => {
+            vi.useFakeTimers({ now: 100 * DAY, toFake: ['Date'] })
+            const listener = vi.fn()
+            const persistData = vi.fn()
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                loadData: () => ({
+                    currentStepId: 'step3',
+                    flowData: {
+                        name: 'Ada',
+                        _internal: {
+                            completedSteps: { step1: 1, step2: 2 },
+                            startedAt: 1,
+                            stepStartTimes: {},
+                            firstSavedAt: 90 * DAY,
+                            savedAt: 95 * DAY,
+                        },
+                    },
+                }),
+                persistData,
+                persistenceExpiry: { inactivityTimeout: 3 * DAY },
+            })
+            engine.addEventListener('persistenceExpired', listener)
+            await engine.ready()
+
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({ reason: 'inactivity', action: 'discard', savedAt: 95 * DAY })
+            )
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(engine.getState().context.flowData.name).toBeUndefined()
+
+            await engine.next()
+            expect(persistData.mock.lastCall?.[0].flowData._internal).toMatchObject({
+                firstSavedAt: 100 * DAY,
+                savedAt: 100 * DAY,
+            })
+        })
+
+        it('should keep flowData but reset the position when the flow version changed', async () => {
+            const migrate = vi.fn((data) => data)
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '2.0.0',
+                loadData: () => ({
+                    currentStepId: 'step3',
+                    flowData: {
+                        name: 'Ada',
+                        _internal: {
+                            completedSteps: { step1: 1 },
+                            startedAt: 1,
+                            stepStartTimes: {},
+                            flowVersion: '1.0.0',
+                        },
+                    },
+                }),
+                migrations: [{ from: '1.0.0', to: '2.0.0', migrate }],
+                persistenceExpiry: { expireOnFlowVersionChange: true, onExpired: 'resetPosition' },
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(migrate).toHaveBeenCalledTimes(1)
+            expect(state.currentStep?.id).toBe('step1')
+            expect(state.context.flowData.name).toBe('Ada')
+            expect(state.context.flowData._internal).toMatchObject({ completedSteps: {}, flowVersion: '2.0.0' })
+        })
+
+        it('should migrate the kept flowData when resetPosition expires older data', async () => {
+            vi.useFakeTimers({ now: 100 * DAY, toFake: ['Date'] })
+            const persistData = vi.fn()
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowVersion: '2',
+                loadData: () => ({
+                    currentStepId: 'step3',
+                    flowData: {
+                        oldKey: 'Ada',
+                        _internal: {
+                            completedSteps: { step1: 1, step2: 2 },
+                            startedAt: 1,
+                            stepStartTimes: {},
+                            flowVersion: '1',
+                            savedAt: 90 * DAY,
+                        },
+                    },
+                }),
+                persistData,
+                migrations: [
+                    {
+                        from: '1',
+                        to: '2',
+                        migrate: ({ flowData, ...data }) => {
+                            const { oldKey, ...otherData } = flowData!
+                            return { ...data, flowData: { ...otherData, newKey: oldKey } }
+                        },
+                    },
+                ],
+                persistenceExpiry: { inactivityTimeout: 3 * DAY, onExpired: 'resetPosition' },
+            })
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step1')
+            expect(state.context.flowData.newKey).toBe('Ada')
+            expect(state.context.flowData.oldKey).toBeUndefined()
+
+            await engine.next()
+            expect(persistData.mock.lastCall?.[0].flowData).toMatchObject({
+                newKey: 'Ada',
+                _internal: { flowVersion: '2' },
+            })
+            expect(persistData.mock.lastCall?.[0].flowData.oldKey).toBeUndefined()
+        })
+    })
+
+    describe('Persistence retry', () => {
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should expose the persistence status in the state and retry failed writes', async () => {
+            vi.useFakeTimers()
+            const persistData = vi.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined)
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                persistData,
+                persistenceRetry: { initialDelay: 1000, jitter: 0 },
+            })
+            await engine.ready()
+            const statuses: string[] = []
+            engine.addEventListener('stateChange', ({ state }) => statuses.push(state.persistenceStatus))
+
+            await engine.next()
+            expect(engine.getState().persistenceStatus).toBe('pending')
+
+            await vi.advanceTimersByTimeAsync(1000)
+
+            expect(persistData).toHaveBeenCalledTimes(2)
+            expect(engine.getState().persistenceStatus).toBe('saved')
+            expect(statuses).toContain('saving')
+            expect(statuses.at(-1)).toBe('saved')
+        })
+
+        it('should write the waiting state on destroy', async () => {
+            const persistData = vi.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined)
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                persistData,
+                persistenceRetry: { initialDelay: 60000 },
+            })
+            await engine.ready()
+            await engine.next()
+            expect(persistData).toHaveBeenCalledTimes(1)
+
+            await engine.destroy()
+
+            expect(persistData).toHaveBeenCalledTimes(2)
+            expect(persistData).toHaveBeenLastCalledWith(expect.any(Object), 'step2')
+        })
+    })
+
+    describe('Persistence schedule', () => {
+        it('should write only the changed keys on step changes with onStepChange and persistPatch', async () => {
+            const persistPatch = vi.fn()
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                loadData: () => ({ currentStepId: 'step1', flowData: { name: 'Ada', plan: 'free' } }),
+                persistPatch,
+                persistenceSchedule: 'onStepChange',
+            })
+            await engine.ready()
+
+            await engine.updateContext({ flowData: { plan: 'pro' } })
+            expect(persistPatch).not.toHaveBeenCalled()
+            expect(engine.getState().persistenceStatus).toBe('pending')
+
+            await engine.next()
+
+            expect(persistPatch).toHaveBeenCalledTimes(1)
+            expect(persistPatch.mock.calls[0][0]).toMatchObject({
+                currentStepId: 'step2',
+                flowData: { plan: 'pro' },
+                removedKeys: [],
+            })
+            expect(persistPatch.mock.calls[0][0].changedKeys).not.toContain('name')
+            expect(engine.getState().persistenceStatus).toBe('saved')
+        })
+    })
+
+    describe('Cross-tab sync', () => {
+        let tabs: OnboardingEngine[]
+
+        // Delivers messages to the other transports asynchronously, like a BroadcastChannel
+        const createHub = () => {
+            const listeners = new Map<CrossTabTransport, (message: CrossTabMessage) => void>()
+            return (): CrossTabTransport => {
+                const transport: CrossTabTransport = {
+                    postMessage: (message) =>
+                        queueMicrotask(() =>
+                            listeners.forEach((listener, other) => other !== transport && listener(message))
+                        ),
+                    subscribe: (listener) => {
+                        listeners.set(transport, listener)
+                        return () => listeners.delete(transport)
+                    },
+                    close: () => listeners.delete(transport),
+                }
+                return transport
+            }
+        }
+        const settle = () => new Promise((resolve) => setTimeout(resolve, 10))
+
+        const openTab = async (transport: CrossTabTransport, persistData: DataPersistFn) => {
+            const tab = new OnboardingEngine({
+                ...basicConfig,
+                flowId: 'signup',
+                persistData,
+                crossTabSync: { transport, heartbeatInterval: 60_000 },
+            })
+            tabs.push(tab)
+            await tab.ready()
+            return tab
+        }
+
+        beforeEach(() => {
+            tabs = []
+        })
+
+        afterEach(async () => {
+            await Promise.all(tabs.map((tab) => tab.destroy()))
+        })
+
+        it('should sync navigation and context updates and persist only in the leader tab', async () => {
+            const createTransport = createHub()
+            const leaderPersist = vi.fn()
+            const followerPersist = vi.fn()
+            const leader = await openTab(createTransport(), leaderPersist)
+            await settle() // Tab IDs sort by creation time
+            const follower = await openTab(createTransport(), followerPersist)
+            await settle()
+
+            expect(leader.isPersistenceLeader()).toBe(true)
+            expect(follower.isPersistenceLeader()).toBe(false)
+
+            await follower.next()
+            await settle()
+
+            expect(leader.getState().currentStep?.id).toBe('step2')
+            expect(followerPersist).not.toHaveBeenCalled()
+            expect(leaderPersist).toHaveBeenLastCalledWith(expect.any(Object), 'step2')
+
+            await leader.updateContext({ flowData: { userRole: 'designer' } })
+            await settle()
+
+            expect(follower.getState().context.flowData.userRole).toBe('designer')
+            expect(follower.getState().currentStep?.id).toBe('step2')
+        })
+
+        it('should make the next tab the leader when the leader is destroyed', async () => {
+            const createTransport = createHub()
+            const followerPersist = vi.fn()
+            const leader = await openTab(createTransport(), vi.fn())
+            await settle()
+            const follower = await openTab(createTransport(), followerPersist)
+            await settle()
+
+            await leader.destroy()
+            await settle()
+
+            expect(follower.isPersistenceLeader()).toBe(true)
+            expect(followerPersist).toHaveBeenCalledWith(expect.any(Object), 'step1')
+        })
+    })
+
+    describe('Flow source', () => {
+        const remoteSchema = {
+            version: '2',
+            steps: [
+                { id: 'remote1', type: 'INFORMATION' as const, payload: { mainText: 'Hi' }, nextStep: 'remote2' },
+                { id: 'remote2', type: 'INFORMATION' as const, payload: { mainText: 'Bye' } },
+            ],
+        }
+
+        it('should start with the steps of the flow source', async () => {
+            let resolveFetch!: () => void
+            const fetcher = vi.fn(
+                () =>
+                    new Promise<{ schema: typeof remoteSchema }>((resolve) => {
+                        resolveFetch = () => resolve({ schema: remoteSchema })
+                    })
+            )
+            engine = new OnboardingEngine({ flowSource: { url: '/flow.json', fetcher } })
+
+            await vi.waitFor(() => expect(fetcher).toHaveBeenCalled())
+            expect(engine.getState().isHydrating).toBe(true)
+            resolveFetch()
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.isHydrating).toBe(false)
+            expect(state.currentStep?.id).toBe('remote1')
+            expect(state.isFirstStep).toBe(true)
+            expect(engine.getSteps().map((step) => step.id)).toEqual(['remote1', 'remote2'])
+
+            await engine.next()
+            expect(engine.getState().currentStep?.id).toBe('remote2')
+        })
+
+        it('should fall back to the bundled steps when the flow source fails', async () => {
+            const fetcher = vi.fn().mockRejectedValue(new Error('offline'))
+            engine = new OnboardingEngine({ ...basicConfig, flowSource: { url: '/flow.json', fetcher } })
+            await engine.ready()
+
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(engine.getState().error).toBeNull()
+        })
+
+        it('should reuse the cached document on reset', async () => {
+            const fetcher = vi
+                .fn()
+                .mockResolvedValueOnce({ schema: remoteSchema, etag: '"v2"' })
+                .mockResolvedValueOnce({ notModified: true })
+            engine = new OnboardingEngine({ ...basicConfig, flowSource: { url: '/flow.json', fetcher } })
+            await engine.ready()
+
+            await engine.reset()
+
+            expect(fetcher).toHaveBeenLastCalledWith('/flow.json', { etag: '"v2"' })
+            expect(engine.getState().currentStep?.id).toBe('remote1')
+        })
+    })
+
+    describe('Experiments', () => {
+        const experimentSteps = (): OnboardingStep[] => [
+            { id: 'step1', payload: { mainText: 'Welcome' } },
+            {
+                id: 'step2',
+                payload: { mainText: 'Original' },
+                experiment: {
+                    id: 'copy',
+                    variants: [
+                        { id: 'control', weight: 0 },
+                        { id: 'new-copy', payload: { mainText: 'New' } },
+                    ],
+                },
+            },
+            { id: 'step3' },
+        ]
+
+        it('should assign variants, apply them and expose them on the state', async () => {
+            const exposed = vi.fn()
+            engine = new OnboardingEngine({
+                steps: experimentSteps(),
+                userId: 'user-1',
+                experiment: {
+                    id: 'length',
+                    variants: [{ id: 'lean', steps: { step1: { include: false } } }],
+                },
+            })
+            engine.addEventListener('experimentExposed', exposed)
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.experiments).toEqual({ length: 'lean', copy: 'new-copy' })
+            expect(state.context.flowData._internal?.experiments).toEqual(state.experiments)
+            expect(state.currentStep?.id).toBe('step2')
+            expect(state.currentStep?.payload).toEqual({ mainText: 'New' })
+            expect(exposed).toHaveBeenCalledTimes(2)
+            expect(exposed).toHaveBeenCalledWith(
+                expect.objectContaining({ experimentId: 'length', variantId: 'lean', step: null, userId: 'user-1' })
+            )
+            expect(exposed).toHaveBeenCalledWith(
+                expect.objectContaining({ experimentId: 'copy', variantId: 'new-copy', step: state.currentStep })
+            )
+        })
+
+        it('should assign the same variant to the same user', async () => {
+            const variants = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+            const assign = async () => {
+                const instance = new OnboardingEngine({
+                    ...basicConfig,
+                    userId: 'user-42',
+                    experiment: { id: 'exp', variants },
+                })
+                await instance.ready()
+                return instance.getState().experiments.exp
+            }
+
+            expect(await assign()).toBe(await assign())
+        })
+
+        it('should keep the persisted assignment', async () => {
+            engine = new OnboardingEngine({
+                steps: experimentSteps(),
+                loadData: () => ({
+                    currentStepId: 'step2',
+                    flowData: {
+                        _internal: {
+                            completedSteps: {},
+                            startedAt: 1,
+                            stepStartTimes: {},
+                            experiments: { copy: 'control' },
+                        },
+                    },
+                }),
+            })
+            await engine.ready()
+
+            expect(engine.getState().experiments).toEqual({ copy: 'control' })
+            expect(engine.getState().currentStep?.payload).toEqual({ mainText: 'Original' })
+        })
+
+        it('should forward exposures to analytics', async () => {
+            const provider = { name: 'test', trackEvent: vi.fn() }
+            engine = new OnboardingEngine({
+                steps: experimentSteps(),
+                initialStepId: 'step2',
+                analytics: { enabled: true, providers: [provider] },
+            })
+            await engine.ready()
+
+            expect(provider.trackEvent).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: 'experiment_exposed',
+                    properties: expect.objectContaining({
+                        experimentId: 'copy',
+                        variantId: 'new-copy',
+                        stepId: 'step2',
+                    }),
+                })
+            )
+        })
+    })
+
+    describe('Feature flags', () => {
+        const flaggedSteps = (): OnboardingStep[] => [
+            { id: 'step1', payload: { mainText: 'Welcome' } },
+            { id: 'beta', featureFlag: 'beta-step', payload: { mainText: 'Beta' } },
+            {
+                id: 'setup',
+                type: 'CHECKLIST',
+                payload: {
+                    dataKey: 'setup',
+                    items: [
+                        { id: 'profile', label: 'Profile' },
+                        { id: 'billing', label: 'Billing', featureFlag: { key: 'plan', value: 'pro' } },
+                    ],
+                },
+            },
+        ]
+
+        it('should gate steps on flags resolved by an async provider', async () => {
+            engine = new OnboardingEngine({
+                steps: flaggedSteps(),
+                featureFlagProvider: { getFlag: async (key) => (key === 'beta-step' ? true : 'free') },
+            })
+            await engine.ready()
+
+            expect(engine.getRelevantSteps().map((step) => step.id)).toEqual(['step1', 'beta', 'setup'])
+            expect(engine.getFeatureFlag('plan')).toBe('free')
+
+            await engine.goToStep('setup')
+            expect(engine.getChecklistProgress()?.total).toBe(1)
+        })
+
+        it('should treat unresolved flags as disabled', async () => {
+            engine = new OnboardingEngine({ steps: flaggedSteps() })
+            await engine.ready()
+            await engine.next()
+
+            expect(engine.getState().currentStep?.id).toBe('setup')
+            expect(engine.getState().totalSteps).toBe(2)
+        })
+
+        it('should re-evaluate relevance when the provider reports a change', async () => {
+            const provider = new InMemoryFeatureFlagProvider({ 'beta-step': false, plan: 'free' })
+            const listener = vi.fn()
+            engine = new OnboardingEngine({ steps: flaggedSteps(), featureFlagProvider: provider })
+            await engine.ready()
+            engine.addEventListener('stateChange', listener)
+
+            expect(engine.getState().totalSteps).toBe(2)
+
+            provider.setFlags({ 'beta-step': true, plan: 'pro' })
+            await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+            expect(engine.getState().totalSteps).toBe(3)
+            await engine.goToStep('setup')
+            expect(engine.getChecklistProgress()?.total).toBe(2)
+        })
+
+        it('should switch providers at runtime', async () => {
+            engine = new OnboardingEngine({ steps: flaggedSteps() })
+            await engine.ready()
+
+            await engine.setFeatureFlagProvider(new InMemoryFeatureFlagProvider({ 'beta-step': true }))
+            expect(engine.getState().totalSteps).toBe(3)
+
+            await engine.setFeatureFlagProvider(null)
+            expect(engine.getState().totalSteps).toBe(2)
+        })
+    })
+
+    describe('Flow data schemas', () => {
+        const flowDataSchema = {
+            type: 'object' as const,
+            properties: { email: { type: 'string' as const, format: 'email' }, seats: { type: 'integer' as const } },
+        }
+
+        it('should block next() when step data does not match the step schema', async () => {
+            const failed = vi.fn()
+            const onError = vi.fn()
+            engine = new OnboardingEngine({
+                steps: [{ id: 'profile', dataSchema: { type: 'object', required: ['email'] } }, { id: 'done' }],
+                flowDataSchema,
+            })
+            engine.addEventListener('stepValidationFailed', failed)
+            engine.addEventListener('error', onError)
+            await engine.ready()
+
+            await engine.next({ email: 'not-an-email' })
+            expect(engine.getState().currentStep?.id).toBe('profile')
+            expect(engine.getState().validationErrors).toEqual([
+                {
+                    stepId: 'profile',
+                    key: 'email',
+                    rule: 'schema',
+                    keyword: 'format',
+                    message: 'email must be a valid email',
+                },
+            ])
+            expect(failed).toHaveBeenCalledTimes(1)
+            const error = onError.mock.calls[0][0].error as FlowDataValidationError
+            expect(error).toBeInstanceOf(FlowDataValidationError)
+            expect(error.operation).toBe('next')
+            expect(error.errors).toEqual([{ path: 'email', keyword: 'format', message: 'email must be a valid email' }])
+
+            await engine.next({})
+            expect(engine.getState().validationErrors[0]).toMatchObject({ key: 'email', keyword: 'required' })
+
+            await engine.next({ email: 'a@b.co' })
+            expect(engine.getState().currentStep?.id).toBe('done')
+            expect(engine.getState().validationErrors).toEqual([])
+        })
+
+        it('should report a step schema with an invalid pattern instead of rejecting next()', async () => {
+            const onError = vi.fn()
+            engine = new OnboardingEngine({
+                steps: [
+                    { id: 'profile', dataSchema: { properties: { handle: { type: 'string', pattern: '(' } } } },
+                    { id: 'done' },
+                ],
+            })
+            engine.addEventListener('error', onError)
+            await engine.ready()
+
+            await expect(engine.next({ handle: 'ada' })).resolves.toBeUndefined()
+            expect(engine.getState().currentStep?.id).toBe('profile')
+            expect(engine.getState().validationErrors[0]).toMatchObject({ key: 'handle', keyword: 'pattern' })
+            expect(onError.mock.calls[0][0].error).toBeInstanceOf(FlowDataValidationError)
+        })
+
+        it('should reject updateContext() with invalid flowData and report the error', async () => {
+            const onError = vi.fn()
+            const failed = vi.fn()
+            engine = new OnboardingEngine({ ...basicConfig, flowDataSchema })
+            engine.addEventListener('error', onError)
+            engine.addEventListener('stepValidationFailed', failed)
+            await engine.ready()
+
+            await engine.updateContext({ flowData: { seats: 2.5 } })
+
+            expect(engine.getState().context.flowData.seats).toBeUndefined()
+            expect(onError).toHaveBeenCalledWith(
+                expect.objectContaining({ error: expect.any(FlowDataValidationError) })
+            )
+            const error = onError.mock.calls[0][0].error as FlowDataValidationError
+            expect(error.errors).toEqual([{ path: 'seats', keyword: 'type', message: 'seats must be integer' }])
+            expect(failed).toHaveBeenCalledWith(
+                expect.objectContaining({ step: expect.objectContaining({ id: 'step1' }) })
+            )
+
+            await engine.updateContext({ flowData: { seats: 3 } })
+            expect(engine.getState().context.flowData.seats).toBe(3)
+        })
+
+        it('should report loaded flowData that does not match the schema', async () => {
+            const onError = vi.fn()
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                flowDataSchema,
+                loadData: () => ({ currentStepId: 'step2', flowData: { email: 42 } }),
+            })
+            engine.addEventListener('error', onError)
+            await engine.ready()
+
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(engine.getState().error).toBeInstanceOf(FlowDataValidationError)
+            expect(engine.getState().validationErrors[0]).toMatchObject({ stepId: 'step2', key: 'email' })
+            expect(onError).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('Navigation middleware', () => {
+        it('should wrap navigation and observe the result', async () => {
+            const calls: string[] = []
+            const transitions: NavigationTransition[] = []
+            engine = new OnboardingEngine({
+                ...basicConfig,
+                navigationMiddleware: [
+                    async (transition, next) => {
+                        calls.push(`outer:before:${transition.direction}`)
+                        await next()
+                        calls.push('outer:after')
+                        transitions.push({ ...transition })
+                    },
+                ],
+            })
+            engine.useNavigationMiddleware(async (transition, next) => {
+                calls.push('inner:before')
+                await next()
+                calls.push('inner:after')
+            })
+            engine.addEventListener('stepChange', () => calls.push('stepChange'))
+            await engine.ready()
+            calls.length = 0
+            transitions.length = 0
+
+            await engine.next({ answer: 42 })
+
+            expect(calls).toEqual(['outer:before:next', 'inner:before', 'stepChange', 'inner:after', 'outer:after'])
+            expect(transitions[0]).toMatchObject({
+                direction: 'next',
+                fromStep: expect.objectContaining({ id: 'step1' }),
+                targetStepId: 'step2',
+                stepData: { answer: 42 },
+                toStep: expect.objectContaining({ id: 'step2' }),
+                outcome: 'navigated',
+            })
+            expect(transitions[0].duration).toBeGreaterThanOrEqual(0)
+        })
+
+        it('should let middleware change the target', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            engine.useNavigationMiddleware((transition, next) => {
+                if (transition.direction === 'goto' && transition.targetStepId === 'step2') {
+                    transition.targetStepId = 'step3'
+                }
+                return next()
+            })
+            await engine.ready()
+
+            await engine.goToStep('step2')
+
+            expect(engine.getState().currentStep?.id).toBe('step3')
+        })
+
+        it('should stop navigation when a middleware does not call next()', async () => {
+            let outcome: NavigationTransition['outcome']
+            engine = new OnboardingEngine(basicConfig)
+            engine.useNavigationMiddleware(async (transition, next) => {
+                await next()
+                outcome = transition.outcome
+            })
+            const remove = engine.useNavigationMiddleware((transition, next) =>
+                transition.direction === 'previous' ? undefined : next()
+            )
+            await engine.ready()
+
+            await engine.goToStep('step2')
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(outcome).toBe('cancelled')
+
+            remove()
+            await engine.previous()
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(outcome).toBe('navigated')
+        })
+
+        it('should run beforeStepChange listeners inside registered middleware', async () => {
+            const outcomes: Array<NavigationTransition['outcome']> = []
+            engine = new OnboardingEngine(basicConfig)
+            engine.useNavigationMiddleware(async (transition, next) => {
+                await next()
+                outcomes.push(transition.outcome)
+            })
+            engine.addEventListener('beforeStepChange', (event) => {
+                if (event.targetStepId === 'step3') {
+                    event.cancel()
+                }
+            })
+            await engine.ready()
+            outcomes.length = 0
+
+            await engine.next()
+            await engine.next()
+
+            expect(engine.getState().currentStep?.id).toBe('step2')
+            expect(outcomes).toEqual(['navigated', 'cancelled'])
+        })
+
+        it('should report middleware errors and keep the current step', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+            const onError = vi.fn()
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            engine.useNavigationMiddleware(() => {
+                throw new Error('Middleware failed')
+            })
+            engine.addEventListener('error', onError)
+
+            await engine.goToStep('step3')
+
+            expect(engine.getState().currentStep?.id).toBe('step1')
+            expect(engine.getState().isLoading).toBe(false)
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error: new Error('Middleware failed') }))
+            consoleErrorSpy.mockRestore()
+        })
+    })
+
+    describe('State selectors', () => {
+        it('should only notify when the selected value changes', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            const progress = vi.fn()
+            const stepId = vi.fn()
+            engine.select((state) => state.progressPercentage, progress)
+            engine.select((state) => state.currentStep?.id, stepId)
+
+            await engine.updateContext({ flowData: { note: 'unrelated' } })
+            expect(progress).not.toHaveBeenCalled()
+            expect(stepId).not.toHaveBeenCalled()
+
+            await engine.next()
+            expect(progress).toHaveBeenCalledTimes(1)
+            expect(progress).toHaveBeenCalledWith(engine.getState().progressPercentage, 0)
+            expect(stepId).toHaveBeenCalledWith('step2', 'step1')
+        })
+
+        it('should use the equality function and stop after unsubscribing', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+            const listener = vi.fn()
+            const unsubscribe = engine.select(
+                (state) => ({ canGoNext: state.canGoNext, canGoPrevious: state.canGoPrevious }),
+                listener,
+                shallowEqual
+            )
+
+            await engine.updateContext({ flowData: { note: 'unrelated' } })
+            expect(listener).not.toHaveBeenCalled()
+
+            await engine.next()
+            expect(listener).toHaveBeenCalledWith(
+                { canGoNext: true, canGoPrevious: true },
+                { canGoNext: true, canGoPrevious: false }
+            )
+
+            unsubscribe()
+            await engine.previous()
+            expect(listener).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('Sections', () => {
+        const sectionSteps: OnboardingStep[] = [
+            { id: 'welcome', type: 'INFORMATION', payload: {}, section: 'intro' },
+            { id: 'name', type: 'INFORMATION', payload: {} },
+            { id: 'company', type: 'INFORMATION', payload: {} },
+            { id: 'team', type: 'INFORMATION', payload: {}, condition: (ctx) => !!ctx.flowData.hasTeam },
+            { id: 'finish', type: 'INFORMATION', payload: {} },
+        ]
+
+        const sectionConfig = (): OnboardingEngineConfig => ({
+            ...basicConfig,
+            steps: sectionSteps,
+            sections: [
+                { id: 'profile', title: 'Your profile', stepIds: ['name', 'company', 'team'] },
+                { id: 'wrapUp', title: 'Wrap up', stepIds: ['finish'] },
+            ],
+        })
+
+        it('should report progress per section', async () => {
+            engine = new OnboardingEngine(sectionConfig())
+            await engine.ready()
+
+            await engine.next()
+            await engine.next()
+
+            const state = engine.getState()
+            expect(state.sections.map((s) => s.id)).toEqual(['profile', 'wrapUp', 'intro'])
+            expect(state.currentSection).toMatchObject({
+                id: 'profile',
+                title: 'Your profile',
+                stepIds: ['name', 'company'],
+                totalSteps: 2,
+                completedSteps: 1,
+                progressPercentage: 50,
+                currentStepNumber: 2,
+                firstStepNumber: 2,
+                lastStepNumber: 3,
+            })
+            expect(state.sections.find((s) => s.id === 'intro')?.isCompleted).toBe(true)
+        })
+
+        it('should include conditional steps once they become relevant', async () => {
+            engine = new OnboardingEngine(sectionConfig())
+            await engine.ready()
+
+            await engine.updateContext({ flowData: { hasTeam: true } })
+
+            expect(engine.getState().sections[0]).toMatchObject({
+                stepIds: ['name', 'company', 'team'],
+                totalSteps: 3,
+            })
+        })
+
+        it('should return no sections when none are defined', async () => {
+            engine = new OnboardingEngine(basicConfig)
+            await engine.ready()
+
+            const state = engine.getState()
+            expect(state.sections).toEqual([])
+            expect(state.currentSection).toBeNull()
+        })
+    })
+
     describe('State Management', () => {
         beforeEach(async () => {
             engine = new OnboardingEngine(basicConfig)
@@ -1144,6 +2546,39 @@ describe('OnboardingEngine', () => {
             expect(state.context.flowData.userPreference).toBe('dark')
             expect(state.context.customField).toBe('value')
         })
+
+        it('should expose choice validation errors and stay on the step', async () => {
+            await engine.next()
+            await engine.next({ userRole: 'manager' })
+
+            const state = engine.getState()
+            expect(state.currentStep?.id).toBe('step2')
+            expect(state.validationErrors).toEqual([
+                {
+                    stepId: 'step2',
+                    key: 'userRole',
+                    rule: 'invalidOption',
+                    message: "'manager' is not a valid option",
+                },
+            ])
+
+            await engine.next({ userRole: 'developer' })
+            expect(engine.getState().currentStep?.id).toBe('step3')
+            expect(engine.getState().validationErrors).toEqual([])
+        })
+
+        it('should record typed errors passed to reportStepValidationFailure', () => {
+            const listener = vi.fn()
+            engine.addEventListener('stepValidationFailed', listener)
+            const errors = [
+                { stepId: 'step1', key: 'name', rule: 'invalidType' as const, message: 'Name must be text' },
+            ]
+
+            engine.reportStepValidationFailure(mockSteps[0], ['Name must be text'], errors)
+
+            expect(engine.getState().validationErrors).toEqual(errors)
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ errors }))
+        })
     })
 
     describe('Event Listeners', () => {
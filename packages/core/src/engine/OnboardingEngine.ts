@@ -1,6 +1,20 @@
 // src/engine/OnboardingEngine.ts
-import { OnboardingStep, OnboardingContext } from '../types'
+import { OnboardingStep, OnboardingContext, FeatureFlagProvider, FeatureFlagValue } from '../types'
 import { findStepById } from '../utils/step-utils'
+import { expandSubflowSteps } from '../utils/subflow-utils'
+import {
+    ENGINE_SNAPSHOT_VERSION,
+    getChecklistSnapshot,
+    getSnapshotContext,
+    validateEngineSnapshot,
+} from '../utils/snapshot-utils'
+import { getLoadedDataVersion, migrateLoadedData } from '../utils/migration-utils'
+import { FlowSourceLoader } from '../services/FlowSourceLoader'
+import { FeatureFlagService } from '../services/FeatureFlagService'
+import { CrossTabSyncService } from '../services/CrossTabSyncService'
+import { FlowDataValidationError, SchemaValidationService } from '../services/SchemaValidationService'
+import { applyFeatureFlagRequirements, getFeatureFlagKeys } from '../utils/feature-flag-utils'
+import { applyExperimentVariants, getFlowExperiments, resolveExperimentAssignments } from '../utils/experiment-utils'
 import { EventManager } from './EventManager'
 import { Logger } from '../services/Logger'
 import {
@@ -21,6 +35,12 @@ import {
     FlowContext,
     FlowRegisteredEvent,
     FlowUnregisteredEvent,
+    StepDataValidationError,
+    EngineStateSnapshot,
+    ExportedEngineSnapshot,
+    CrossTabSyncConfig,
+    NavigationMiddleware,
+    StateSelector,
 } from './types'
 import { OnboardingPlugin } from '../plugins/types'
 import { PluginManagerImpl } from '../plugins/PluginManager'
@@ -34,6 +54,7 @@ import { PersistenceService } from '../services/PersistenceService'
 import { StateManager } from './StateManager'
 import { CoreEngineService } from '../services/CoreEngineService'
 import { NavigationService } from '../services/NavigationService'
+import { StateHistoryService } from '../services/StateHistoryService'
 import { AnalyticsManager } from '../analytics/analytics-manager'
 import { AnalyticsConfig, AnalyticsProvider } from '../analytics/types'
 import { HttpProvider } from '../analytics/providers/http-provider'
@@ -69,12 +90,20 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
     private _errorHandler: ErrorHandler<TContext>
     private _eventRegistry: EventHandlerRegistry<TContext>
     private _operationQueue: AsyncOperationQueue
+    private _stateHistory: StateHistoryService<TContext>
 
     // Configuration and initialization
     private _initializationPromise: Promise<void> | undefined
     private _resolveInitialization!: () => void
     private _rejectInitialization!: (reason?: unknown) => void
     private _config: OnboardingEngineConfig<TContext>
+    private _pendingSnapshot: ExportedEngineSnapshot<TContext> | null = null
+    private _flowSourceLoader: FlowSourceLoader<TContext> | null
+    private _exposedExperiments = new Set<string>()
+    private _featureFlagService: FeatureFlagService<TContext>
+    private _crossTabSync: CrossTabSyncService<TContext> | null = null
+    private _schemaValidationService: SchemaValidationService<TContext>
+    private _navigationMiddleware: NavigationMiddleware<TContext>[]
 
     // Callbacks from config
     private _onFlowComplete?: (context: TContext) => Promise<void> | void
@@ -111,7 +140,13 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         }
 
         this._config = config
-        this._steps = config.steps
+        this._steps = this._expandSteps(config.steps ?? [])
+        this._flowSourceLoader = config.flowSource ? new FlowSourceLoader(config.flowSource, this._logger) : null
+
+        if (config.initialSnapshot) {
+            this._assertValidSnapshot(config.initialSnapshot)
+            this._pendingSnapshot = config.initialSnapshot
+        }
         const effectiveInitialStepId = this._config.initialStepId || (this._steps.length > 0 ? this._steps[0].id : null)
 
         this._contextInternal = ConfigurationBuilder.buildInitialContext(config)
@@ -123,7 +158,8 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._steps,
             effectiveInitialStepId,
             this.flowContext,
-            config.debug
+            config.debug,
+            config.sections
         )
         this._errorHandler = new ErrorHandler(
             this._eventManager,
@@ -137,20 +173,47 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._eventManager,
             config.debug
         )
+        this._persistenceService.setExpiryPolicy(config.persistenceExpiry)
+        this._persistenceService.setRetryConfig(config.persistenceRetry)
+        this._persistenceService.setSchedule(config.persistenceSchedule)
+        this._persistenceService.setStatusListener((status) => {
+            this._coreEngineService.setPersistenceStatus(status)
+            this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
+        })
+        if (config.crossTabSync) {
+            this._crossTabSync = this._createCrossTabSync(config.crossTabSync === true ? {} : config.crossTabSync)
+            this._persistenceService.setPersistGate(() => this._crossTabSync?.isLeader ?? true)
+        }
         this._checklistManager = new ChecklistManager(this._eventManager, this._errorHandler)
         // src/engine/OnboardingEngine.ts (continued)
 
         this._operationQueue = new AsyncOperationQueue(1) // Sequential operations
+        this._navigationMiddleware = [...(config.navigationMiddleware ?? [])]
         this._navigationService = new NavigationService(
             this._steps,
             this._eventManager,
             this._coreEngineService as unknown as StateManager<TContext>,
             this._persistenceService,
             this._errorHandler,
-            this._logger
+            this._logger,
+            config.flowDataSchema,
+            this._navigationMiddleware
         )
+        this._schemaValidationService = new SchemaValidationService(config.flowDataSchema, this._logger)
+        this._stateHistory = new StateHistoryService(config.undoLimit, this._logger)
         this._pluginManager = new PluginManagerImpl(this, this._eventManager, config.debug)
         this._eventRegistry = new EventHandlerRegistry(this._eventManager)
+        this._featureFlagService = new FeatureFlagService(() => this._refreshFeatureFlags(), this._logger)
+        if (config.featureFlagProvider) {
+            this._featureFlagService.setProvider(config.featureFlagProvider)
+        }
+
+        // Report exposure to a step's experiment when the step is shown
+        this._eventManager.addEventListener('stepActive', (event) => {
+            if (event.step.experiment) {
+                this._notifyExperimentExposed(event.step.experiment.id, event.step)
+            }
+        })
 
         // Store callbacks
         this._onFlowComplete = config.onFlowComplete
@@ -184,6 +247,9 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
 
         // Use the provided registry (SSR-safe)
         this._registry = config.registry
+        if (config.prerequisites) {
+            this._registry.setPrerequisites(this.flowContext.flowId, config.prerequisites)
+        }
         this._registry.register(this.flowContext.flowId, this)
         this._logger.debug(`Engine registered with provided registry: ${this.flowContext.flowId}`)
 
@@ -232,6 +298,13 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         this._registry.register(this.flowContext.flowId, this)
     }
 
+    /**
+     * Expand SUBFLOW steps, resolving embedded flows from the registry's flow definitions
+     */
+    private _expandSteps(steps: OnboardingStep<TContext>[]): OnboardingStep<TContext>[] {
+        return expandSubflowSteps(steps, (flowId) => this._config.registry?.getFlowDefinition<TContext>(flowId))
+    }
+
     private _setupInitializationPromise(): void {
         this._initializationPromise = new Promise((resolve, reject) => {
             this._resolveInitialization = resolve
@@ -249,14 +322,29 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._coreEngineService.setError(null)
 
             try {
+                // 0. Load the flow definition from the flow source, if configured
+                if (this._flowSourceLoader) {
+                    await this._loadFlowSource(this._flowSourceLoader)
+                }
+
                 // 1. Install plugins
                 await this._installPlugins()
 
                 // 2. Apply configuration handlers
                 this._applyConfigurationHandlers()
 
-                // 3. Load persisted data (now returns both data and error)
-                const { data: loadedData, error: dataLoadError } = await this._loadPersistedData()
+                // 3. Load persisted data (now returns both data and error), or take it from the initial snapshot
+                const snapshot = this._pendingSnapshot
+                this._pendingSnapshot = null
+                const { data: storedData, error: dataLoadError } = snapshot
+                    ? {
+                          data: { ...getSnapshotContext(snapshot, this._steps), currentStepId: snapshot.currentStepId },
+                          error: null,
+                      }
+                    : await this._loadPersistedData()
+
+                // 3a. Migrate persisted data written by an older flow version
+                const loadedData = storedData && !snapshot ? await this._migrateLoadedData(storedData) : storedData
 
                 const startMethod: 'fresh' | 'resumed' = loadedData?.currentStepId ? 'resumed' : 'fresh'
 
@@ -269,6 +357,18 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
 
                 // 4. Build context
                 this._buildContext(loadedData)
+                if (snapshot) {
+                    this._history = [...snapshot.history]
+                }
+
+                // 4a. Assign experiment variants and apply their step overrides
+                this._applyExperiments()
+
+                // 4b. Gate steps and checklist items on their feature flags
+                const featureFlagKeys = getFeatureFlagKeys(this._steps)
+                if (featureFlagKeys.length > 0) {
+                    await this._applyFeatureFlags(featureFlagKeys)
+                }
 
                 // 5. Handle data load error or navigate to initial step
                 if (dataLoadError) {
@@ -284,6 +384,11 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 } else {
                     // 6. Navigate to initial step
                     await this._navigateToInitialStep(loadedData)
+
+                    // 6a. Check the loaded flowData against the flow's schema
+                    if (loadedData && this._schemaValidationService.hasFlowDataSchema) {
+                        this._validateFlowData(this._contextInternal.flowData, 'loadData')
+                    }
                     this._resolveInitialization()
                 }
             } catch (error) {
@@ -292,6 +397,8 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             } finally {
                 this._coreEngineService.setHydrating(false)
                 this._updateLoadingState()
+                // The initial state is the first snapshot undo can return to
+                this._recordSnapshot()
                 // Notify listeners that hydration is complete. This ensures React
                 // and other subscribers are informed of the final initialization state,
                 // even if hydration completed while they were subscribing.
@@ -300,6 +407,8 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                     this._contextInternal,
                     this._history
                 )
+                // Sync with other tabs from the hydrated state on
+                this._crossTabSync?.start()
             }
         })
     }
@@ -391,6 +500,10 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._persistenceService.setDataPersistHandler(this._config.persistData)
         }
 
+        if (this._config.persistPatch !== undefined && !this._persistenceService.getDataPatchHandler()) {
+            this._persistenceService.setDataPatchHandler(this._config.persistPatch)
+        }
+
         if (this._config.clearPersistedData !== undefined && !this._persistenceService.getClearPersistedDataHandler()) {
             this._persistenceService.setClearPersistedDataHandler(this._config.clearPersistedData)
         }
@@ -407,13 +520,189 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
 
     private _loadPersistedData() {
         try {
-            return this._persistenceService.loadPersistedData()
+            return this._persistenceService.loadPersistedData(this.flowContext.flowVersion)
         } catch (error) {
             this._errorHandler.handleError(error, 'loadPersistedData', this._contextInternal)
             throw error
         }
     }
 
+    /**
+     * Replace the bundled steps with the steps of the flow source. The bundled steps stay in place
+     * if neither the remote document nor a cached copy could be used.
+     */
+    private async _loadFlowSource(loader: FlowSourceLoader<TContext>): Promise<void> {
+        const { steps, source, version } = await loader.load()
+        if (!steps) {
+            return
+        }
+
+        // The services share the steps array, so it is replaced in place
+        this._steps.splice(0, this._steps.length, ...this._expandSteps(steps))
+        this._coreEngineService.setInitialStepId(
+            this._config.initialStepId || (this._steps.length > 0 ? this._steps[0].id : null)
+        )
+        this._logger.debug(`[OnboardingEngine] Loaded flow version ${version} from ${source}`)
+    }
+
+    /**
+     * Assign (or restore the persisted) experiment variants, record them in `_internal.experiments`
+     * and apply their overrides to the steps.
+     */
+    private _applyExperiments(): void {
+        const experiments = getFlowExperiments(this._steps, this._config.experiment)
+        this._exposedExperiments.clear()
+        if (experiments.length === 0) {
+            return
+        }
+
+        const internal = this._contextInternal.flowData._internal!
+        const assignments = resolveExperimentAssignments(experiments, internal.experiments, this._config.userId)
+        internal.experiments = assignments
+
+        // The services share the steps array, so it is replaced in place
+        this._steps.splice(
+            0,
+            this._steps.length,
+            ...applyExperimentVariants(this._steps, assignments, this._config.experiment)
+        )
+        this._logger.debug('[OnboardingEngine] Experiment assignments:', assignments)
+
+        if (this._config.experiment) {
+            this._notifyExperimentExposed(this._config.experiment.id, null)
+        }
+    }
+
+    /**
+     * Check flowData against the flow's schema. Errors are reported through the ErrorHandler and,
+     * while a step is active, as `stepValidationFailed` for that step.
+     * @returns true if the data is valid
+     */
+    private _validateFlowData(flowData: TContext['flowData'], operation: string): boolean {
+        const errors = this._schemaValidationService.validateFlowData(flowData)
+        if (errors.length === 0) {
+            return true
+        }
+
+        const step = this._currentStepInternal
+        this._errorHandler.handleError(
+            new FlowDataValidationError(errors, operation),
+            operation,
+            this._contextInternal,
+            step?.id
+        )
+
+        if (step) {
+            const stepErrors = this._schemaValidationService.toStepErrors(step.id, errors)
+            this._coreEngineService.setValidationErrors(stepErrors)
+            this._eventManager.notifyListeners('stepValidationFailed', {
+                step,
+                context: this._contextInternal,
+                validationErrors: stepErrors.map((e) => e.message),
+                errors: stepErrors,
+            })
+        }
+        return false
+    }
+
+    /**
+     * Fold the flag requirements into the step conditions and resolve the flags.
+     */
+    private async _applyFeatureFlags(keys: string[]): Promise<void> {
+        // The services share the steps array, so it is replaced in place
+        this._steps.splice(
+            0,
+            this._steps.length,
+            ...applyFeatureFlagRequirements(this._steps, (requirement) => this._featureFlagService.isMet(requirement))
+        )
+        this._featureFlagService.setKeys(keys)
+        await this._featureFlagService.refresh(this._contextInternal)
+    }
+
+    /**
+     * Re-resolve the flags and, if any changed, notify listeners so step relevance is re-evaluated.
+     */
+    private async _refreshFeatureFlags(): Promise<void> {
+        const changed = await this._featureFlagService.refresh(this._contextInternal)
+        if (changed) {
+            this._logger.debug('[OnboardingEngine] Feature flags changed:', this._featureFlagService.getValues())
+            this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
+        }
+    }
+
+    /**
+     * Emit `experimentExposed` the first time the user is exposed to an experiment's assigned variant.
+     */
+    private _notifyExperimentExposed(experimentId: string, step: OnboardingStep<TContext> | null): void {
+        const variantId = this._contextInternal.flowData._internal?.experiments?.[experimentId]
+        if (variantId === undefined || this._exposedExperiments.has(experimentId)) {
+            return
+        }
+
+        this._exposedExperiments.add(experimentId)
+        this._eventManager.notifyListeners('experimentExposed', {
+            experimentId,
+            variantId,
+            step,
+            userId: this._config.userId ?? null,
+            context: this._contextInternal,
+        })
+    }
+
+    private _createCrossTabSync(config: CrossTabSyncConfig<TContext>): CrossTabSyncService<TContext> {
+        const channelName =
+            config.channelName ??
+            `onboardjs:${this.flowContext.flowId ?? 'default'}:${this._config.userId ?? 'anonymous'}`
+
+        return new CrossTabSyncService(
+            config,
+            channelName,
+            {
+                getSnapshot: () => this.exportSnapshot(),
+                applySnapshot: (snapshot) => this.importSnapshot(snapshot),
+                onLeadershipChange: (isLeader) => {
+                    // The new leader writes the state the previous leader may not have persisted
+                    if (isLeader) {
+                        void this._operationQueue.enqueue(() =>
+                            this._persistenceService.persistDataIfNeeded(
+                                this._contextInternal,
+                                this._currentStepInternal?.id ?? null,
+                                this._coreEngineService.isHydrating
+                            )
+                        )
+                    }
+                },
+            },
+            this._eventManager,
+            this._logger
+        )
+    }
+
+    private async _migrateLoadedData(loadedData: LoadedData<TContext>): Promise<LoadedData<TContext> | null> {
+        const result = await migrateLoadedData(
+            loadedData,
+            this.flowContext.flowVersion,
+            this._config.migrations ?? [],
+            this._steps,
+            this._config.migrationFallback
+        )
+
+        if (result.error) {
+            this._logger.error('Flow migration failed:', result.error)
+        }
+        if (result.fallback) {
+            this._logger.warn(
+                `Could not migrate persisted data from flow version ${getLoadedDataVersion(loadedData)} to ${this.flowContext.flowVersion}, using fallback '${result.fallback}'.`
+            )
+        } else if (result.appliedMigrations.length > 0) {
+            this._logger.debug(
+                `[OnboardingEngine] Migrated persisted data: ${result.appliedMigrations.map((m) => `${m.from} -> ${m.to}`).join(', ')}`
+            )
+        }
+
+        return result.data
+    }
+
     private _buildContext(loadedData: LoadedData<TContext> | null): void {
         // 1. Start with a fresh, fully initialized context.
         // This guarantees that `flowData._internal` and its sub-properties (`stepStartTimes`, etc.)
@@ -460,6 +749,11 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 if (!newContext.flowData._internal.startedAt) newContext.flowData._internal.startedAt = Date.now()
                 if (!newContext.flowData._internal.stepStartTimes) newContext.flowData._internal.stepStartTimes = {}
             }
+
+            // Loaded data has been migrated to the current flow version, so it is written back as such
+            if (this._config.flowVersion) {
+                newContext.flowData._internal.flowVersion = this._config.flowVersion
+            }
         }
 
         // 3. Set the engine's internal context to the newly built one.
@@ -485,6 +779,60 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         }
     }
 
+    private _recordSnapshot(): void {
+        this._stateHistory.record({
+            currentStepId: this._currentStepInternal?.id ?? null,
+            context: this._contextInternal,
+            history: this._history,
+            isCompleted: this._coreEngineService.isCompleted,
+        })
+        this._coreEngineService.setUndoAvailability(this._stateHistory.canUndo, this._stateHistory.canRedo)
+    }
+
+    /**
+     * Restore a snapshot without running step hooks, then persist and notify.
+     * With `recordSnapshot`, the restored state is also recorded as a new undo snapshot.
+     */
+    private async _restoreSnapshot(
+        snapshot: EngineStateSnapshot<TContext> | null,
+        recordSnapshot = false
+    ): Promise<void> {
+        if (!snapshot) {
+            return
+        }
+
+        this._currentStepInternal =
+            snapshot.currentStepId !== null ? (findStepById(this._steps, snapshot.currentStepId) ?? null) : null
+        this._contextInternal = snapshot.context
+        this._history = snapshot.history
+        this._coreEngineService.setCompleted(snapshot.isCompleted)
+        this._coreEngineService.setError(null)
+        this._coreEngineService.setValidationErrors([])
+        if (recordSnapshot) {
+            this._recordSnapshot()
+        } else {
+            this._coreEngineService.setUndoAvailability(this._stateHistory.canUndo, this._stateHistory.canRedo)
+        }
+
+        await this._persistenceService.persistDataIfNeeded(
+            this._contextInternal,
+            this._currentStepInternal?.id ?? null,
+            this._coreEngineService.isHydrating
+        )
+
+        this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
+    }
+
+    private _assertValidSnapshot(snapshot: unknown): asserts snapshot is ExportedEngineSnapshot<TContext> {
+        const validation = validateEngineSnapshot(snapshot, this._steps, this.flowContext)
+        if (!validation.isValid) {
+            throw new Error(`Invalid snapshot: ${validation.errors.join(', ')}`)
+        }
+        if (validation.warnings.length > 0) {
+            this._logger.warn('Snapshot warnings:', validation.warnings)
+        }
+    }
+
     // =============================================================================
     // PUBLIC API METHODS (Simplified)
     // =============================================================================
@@ -509,6 +857,21 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         return this
     }
 
+    /**
+     * Add navigation middleware. It wraps `next()`, `previous()`, `skip()` and `goToStep()` and runs
+     * before the built-in beforeStepChange and step guard middleware, in the order it was added.
+     * Returns a function that removes the middleware.
+     */
+    public useNavigationMiddleware(middleware: NavigationMiddleware<TContext>): UnsubscribeFunction {
+        this._navigationMiddleware.push(middleware)
+        return () => {
+            const index = this._navigationMiddleware.indexOf(middleware)
+            if (index !== -1) {
+                this._navigationMiddleware.splice(index, 1)
+            }
+        }
+    }
+
     /**
      * Get current engine state
      */
@@ -530,6 +893,8 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 this._onFlowComplete
             )
 
+            this._recordSnapshot()
+
             // Ensure state change is notified after step change
             this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
         })
@@ -553,6 +918,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 this._onFlowComplete
             )
 
+            this._recordSnapshot()
             this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
         })
     }
@@ -570,6 +936,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 this._onFlowComplete
             )
 
+            this._recordSnapshot()
             this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
         })
     }
@@ -589,6 +956,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                 this._onFlowComplete
             )
 
+            this._recordSnapshot()
             this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
         })
     }
@@ -604,6 +972,19 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             // Extract flowData from newContextData to handle it separately
             const { flowData: newFlowData, ...otherContextData } = newContextData
 
+            // Reject flowData that does not match the flow's schema
+            if (newFlowData && this._schemaValidationService.hasFlowDataSchema) {
+                const candidate = { ...(this._contextInternal.flowData || {}), ...newFlowData }
+                if (!this._validateFlowData(candidate, 'updateContext')) {
+                    this._coreEngineService.notifyStateChange(
+                        this._currentStepInternal,
+                        this._contextInternal,
+                        this._history
+                    )
+                    return
+                }
+            }
+
             // Update non-flowData properties
             this._contextInternal = { ...this._contextInternal, ...otherContextData }
 
@@ -629,6 +1010,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                     this._currentStepInternal?.id || null,
                     this._coreEngineService.isHydrating
                 )
+                this._recordSnapshot()
 
                 this._logger.debug('Notifying full state change after context update.')
                 this._coreEngineService.notifyStateChange(
@@ -671,9 +1053,135 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
                     )
                 }
             )
+
+            this._recordSnapshot()
+            this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
         })
     }
 
+    /**
+     * Restore the previous state snapshot
+     */
+    public async undo(): Promise<void> {
+        return this._operationQueue.enqueue(async () => {
+            await this._restoreSnapshot(this._stateHistory.undo())
+        })
+    }
+
+    /**
+     * Restore the next state snapshot after an undo
+     */
+    public async redo(): Promise<void> {
+        return this._operationQueue.enqueue(async () => {
+            await this._restoreSnapshot(this._stateHistory.redo())
+        })
+    }
+
+    /**
+     * Restore the state snapshot at the given index of `getSnapshots()`
+     */
+    public async jumpToSnapshot(index: number): Promise<void> {
+        return this._operationQueue.enqueue(async () => {
+            await this._restoreSnapshot(this._stateHistory.jumpTo(index))
+        })
+    }
+
+    /**
+     * Export the engine state as a versioned, JSON-serializable snapshot
+     */
+    public exportSnapshot(): ExportedEngineSnapshot<TContext> {
+        return {
+            version: ENGINE_SNAPSHOT_VERSION,
+            flow: this.getFlowInfo(),
+            currentStepId: this._currentStepInternal?.id ?? null,
+            history: [...this._history],
+            context: JSON.parse(JSON.stringify(this._contextInternal)),
+            isCompleted: this._coreEngineService.isCompleted,
+            checklists: getChecklistSnapshot(this._steps, this._contextInternal),
+            exportedAt: Date.now(),
+        }
+    }
+
+    /**
+     * Replace the engine state with an exported snapshot. Step hooks are not run.
+     * @throws Error if the snapshot is invalid or belongs to another flow
+     */
+    public async importSnapshot(snapshot: ExportedEngineSnapshot<TContext>): Promise<void> {
+        this._assertValidSnapshot(snapshot)
+
+        return this._operationQueue.enqueue(async () => {
+            await this._restoreSnapshot(
+                {
+                    currentStepId: snapshot.currentStepId,
+                    context: getSnapshotContext(snapshot, this._steps),
+                    history: [...snapshot.history],
+                    isCompleted: snapshot.isCompleted,
+                    timestamp: snapshot.exportedAt,
+                },
+                true
+            )
+        })
+    }
+
+    /**
+     * Create an engine that starts from an exported snapshot instead of loading persisted data.
+     * Await `engine.ready()` before use.
+     * @throws Error if the snapshot is invalid or belongs to another flow
+     */
+    public static fromSnapshot<TContext extends OnboardingContext = OnboardingContext>(
+        snapshot: ExportedEngineSnapshot<TContext>,
+        config: OnboardingEngineConfig<TContext>
+    ): OnboardingEngine<TContext> {
+        return new OnboardingEngine<TContext>({ ...config, initialSnapshot: snapshot })
+    }
+
+    /**
+     * Register the provider that resolves the feature flags required by steps and checklist items.
+     * Replaces the current provider; pass null to remove it. Resolves once the flags are re-read.
+     */
+    public async setFeatureFlagProvider(provider: FeatureFlagProvider<TContext> | null): Promise<void> {
+        const hadValues = Object.keys(this._featureFlagService.getValues()).length > 0
+        this._featureFlagService.setProvider(provider)
+
+        const changed = await this._featureFlagService.refresh(this._contextInternal)
+        if (hadValues || changed) {
+            this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
+        }
+    }
+
+    /**
+     * Get the resolved value of a feature flag required by a step or checklist item.
+     */
+    public getFeatureFlag(key: string): FeatureFlagValue {
+        return this._featureFlagService.getValue(key)
+    }
+
+    /**
+     * Write the state waiting to be persisted now, e.g. when the app knows it is back online,
+     * instead of waiting for the persistence schedule or the next retry.
+     */
+    public async flushPersistence(): Promise<void> {
+        await this._persistenceService.flush()
+    }
+
+    /**
+     * Whether this engine writes persisted data. Always true, unless `crossTabSync` is set and
+     * another tab is the leader.
+     */
+    public isPersistenceLeader(): boolean {
+        return this._crossTabSync?.isLeader ?? true
+    }
+
+    /**
+     * Get the recorded state snapshots (oldest first) and the index of the current one
+     */
+    public getSnapshots(): { snapshots: EngineStateSnapshot<TContext>[]; currentIndex: number } {
+        return {
+            snapshots: this._stateHistory.getSnapshots(),
+            currentIndex: this._stateHistory.currentIndex,
+        }
+    }
+
     /**
      * Reset the engine
      */
@@ -686,8 +1194,9 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             resetReason,
         })
 
-        // Capture current clear handler
+        // Capture current clear handler, and drop writes still waiting for the state being reset
         const activeClearHandler = this._persistenceService.getClearPersistedDataHandler()
+        await this._persistenceService.discardPending()
 
         // Cleanup
         await this._pluginManager.cleanup()
@@ -717,7 +1226,10 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             }
         }
 
-        this._steps = this._config.steps || []
+        this._steps = this._expandSteps(this._config.steps || [])
+        if (newConfigInput?.flowSource) {
+            this._flowSourceLoader = new FlowSourceLoader(newConfigInput.flowSource, this._logger)
+        }
 
         // Clear persisted data using the OLD handler (before reset)
         if (activeClearHandler) {
@@ -733,6 +1245,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         // Reset internal state
         this._currentStepInternal = null
         this._history = []
+        this._stateHistory = new StateHistoryService(this._config.undoLimit, this._logger)
         this._contextInternal = ConfigurationBuilder.buildInitialContext(this._config)
 
         // Reset managers
@@ -741,7 +1254,8 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._steps,
             this._config.initialStepId || (this._steps.length > 0 ? this._steps[0].id : null),
             this.flowContext,
-            this._config.debug
+            this._config.debug,
+            this._config.sections
         )
         this._coreEngineService.setLoading(false)
         this._coreEngineService.setHydrating(false)
@@ -762,8 +1276,11 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             this._coreEngineService as unknown as StateManager<TContext>,
             this._persistenceService,
             this._errorHandler,
-            this._logger
+            this._logger,
+            this._config.flowDataSchema,
+            this._navigationMiddleware
         )
+        this._schemaValidationService = new SchemaValidationService(this._config.flowDataSchema, this._logger)
 
         // Re-register engine if it has a flowId
         if (this.flowContext.flowId) {
@@ -815,6 +1332,30 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         return this._eventRegistry.addEventListener(eventType, listener)
     }
 
+    /**
+     * Subscribe to a slice of the engine state. `listener` is only called when the selected value changes
+     * according to `equalityFn` (`Object.is` by default), with the new and the previous value.
+     * Use `shallowEqual` for selectors that return new objects, or `createSelector` to memoize derivations.
+     */
+    public select<TSelected>(
+        selector: StateSelector<TContext, TSelected>,
+        listener: (selected: TSelected, previous: TSelected) => void,
+        equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+    ): UnsubscribeFunction {
+        let current = selector(this.getState())
+
+        return this.addEventListener('stateChange', ({ state }) => {
+            const selected = selector(state)
+            if (equalityFn(current, selected)) {
+                return
+            }
+
+            const previous = current
+            current = selected
+            listener(selected, previous)
+        })
+    }
+
     public addBeforeStepChangeListener(
         listener: (event: BeforeStepChangeEvent<TContext>) => void | Promise<void>
     ): UnsubscribeFunction {
@@ -991,6 +1532,7 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
     /**
      * Get all steps in the onboarding flow.
      * This includes all steps defined in the initial configuration.
+     * SUBFLOW steps are followed by the namespaced steps of their child flow.
      * @returns An array of all steps in the onboarding flow.
      */
     public getSteps(): OnboardingStep<TContext>[] {
@@ -1080,13 +1622,27 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         )
     }
 
-    // For plugins to report step validation failures
-    public reportStepValidationFailure(step: OnboardingStep<TContext>, validationErrors: string[]): void {
+    // For plugins to report step validation failures.
+    // Typed errors, if given, are recorded on the engine state alongside the event.
+    public reportStepValidationFailure(
+        step: OnboardingStep<TContext>,
+        validationErrors: string[],
+        errors?: StepDataValidationError[]
+    ): void {
+        if (errors) {
+            this._coreEngineService.setValidationErrors(errors)
+        }
+
         this._eventManager.notifyListeners('stepValidationFailed', {
             step,
             context: this._contextInternal,
             validationErrors,
+            ...(errors && { errors }),
         })
+
+        if (errors) {
+            this._coreEngineService.notifyStateChange(this._currentStepInternal, this._contextInternal, this._history)
+        }
     }
 
     // For plugins to report help requests
@@ -1368,6 +1924,11 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
             manager.trackPersistenceFailure(event.context, event.error)
         })
 
+        // Track experiment exposure
+        this.addEventListener('experimentExposed', (event) => {
+            manager.trackExperimentExposed(event.experimentId, event.variantId, event.step)
+        })
+
         // Track errors
         this.addEventListener('error', (event) => {
             manager.trackErrorEncountered(event.error, event.context)
@@ -1564,9 +2125,15 @@ export class OnboardingEngine<TContext extends OnboardingContext = OnboardingCon
         // Unregister from registry
         this._unregisterFromRegistry()
 
+        // Write the state still waiting to be persisted, while plugins can still handle it
+        await this._persistenceService.flush()
+        this._persistenceService.dispose()
+
         // Cleanup managers
         await this._pluginManager.cleanup()
         this._operationQueue.clear()
+        this._featureFlagService.destroy()
+        this._crossTabSync?.stop()
 
         // Clear performance caches
         PerformanceUtils.clearCaches()
@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { OnboardingEngineRegistry, createRegistry } from './OnboardingEngineRegistry'
 import { OnboardingEngine } from './OnboardingEngine'
 import type { OnboardingStep } from '../types'
+import type { OnboardingEngineConfig } from './types'
 
 describe('OnboardingEngineRegistry', () => {
     let registry: OnboardingEngineRegistry
@@ -240,6 +241,106 @@ describe('OnboardingEngineRegistry', () => {
         })
     })
 
+    describe('Flow definitions', () => {
+        it('should register and retrieve flow definitions independently of engines', () => {
+            const steps = [{ id: 'emails' }]
+            registry.registerFlowDefinition('invite', steps)
+
+            expect(registry.getFlowDefinition('invite')).toBe(steps)
+            expect(registry.getFlowDefinition('missing')).toBeUndefined()
+            expect(registry.size).toBe(0)
+        })
+    })
+
+    describe('Flow prerequisites', () => {
+        const createFlow = (flowId: string, config: Partial<OnboardingEngineConfig> = {}) =>
+            new OnboardingEngine({ flowId, steps: mockSteps, registry, ...config })
+
+        it('should report locked, available, in-progress and completed flows', async () => {
+            registry.setPrerequisites('advanced', ['tour'])
+            const setup = createFlow('setup')
+            const tour = createFlow('tour', { prerequisites: [{ flowId: 'setup', stepId: 'step2' }] })
+            await Promise.all([setup.ready(), tour.ready()])
+
+            expect(registry.getFlowStatuses()).toEqual({ setup: 'available', tour: 'locked', advanced: 'locked' })
+            expect(registry.getUnmetPrerequisites('tour')).toEqual([{ flowId: 'setup', stepId: 'step2' }])
+
+            await setup.next()
+            expect(registry.getFlowStatus('setup')).toBe('in-progress')
+            expect(registry.isFlowAvailable('tour')).toBe(true)
+
+            await tour.next()
+            await tour.next()
+            expect(registry.getFlowStatus('tour')).toBe('completed')
+            expect(registry.getFlowsByStatus('available')).toEqual(['advanced'])
+        })
+
+        it('should emit flowUnlocked when the last prerequisite is met', async () => {
+            const unlocked = vi.fn()
+            const statusChanged = vi.fn()
+            registry.addEventListener('flowUnlocked', unlocked)
+            registry.addEventListener('flowStatusChanged', statusChanged)
+            registry.setPrerequisites('tour', ['setup'])
+
+            const setup = createFlow('setup')
+            await setup.ready()
+            await setup.next()
+            expect(unlocked).not.toHaveBeenCalled()
+
+            await setup.next()
+            expect(unlocked).toHaveBeenCalledTimes(1)
+            expect(unlocked).toHaveBeenCalledWith({ flowId: 'tour', status: 'available' })
+            expect(statusChanged).toHaveBeenCalledWith({
+                flowId: 'setup',
+                status: 'completed',
+                previousStatus: 'in-progress',
+            })
+        })
+
+        it('should keep prerequisites met after the prerequisite engine is destroyed', async () => {
+            const statusChanged = vi.fn()
+            registry.setPrerequisites('tour', ['setup'])
+            registry.setPrerequisites('billing', [{ flowId: 'profile', stepId: 'step2' }])
+            const setup = createFlow('setup')
+            const profile = createFlow('profile')
+            await Promise.all([setup.ready(), profile.ready()])
+            await setup.next()
+            await setup.next()
+            await profile.next()
+            registry.addEventListener('flowStatusChanged', statusChanged)
+
+            await setup.destroy()
+            await profile.destroy()
+
+            expect(registry.has('setup')).toBe(false)
+            expect(registry.getFlowStatuses()).toEqual({
+                setup: 'completed',
+                profile: 'in-progress',
+                tour: 'available',
+                billing: 'available',
+            })
+            expect(statusChanged).not.toHaveBeenCalled()
+        })
+
+        it('should use recorded progress until a new engine of the flow is hydrated', async () => {
+            registry.setPrerequisites('tour', ['setup'])
+            registry.recordFlowProgress('setup', {
+                isCompleted: true,
+                completedStepIds: ['step1', 'step2'],
+                currentStepId: null,
+            })
+            expect(registry.getFlowStatus('tour')).toBe('available')
+
+            const setup = createFlow('setup')
+            expect(registry.getFlowStatus('tour')).toBe('available')
+            await setup.ready()
+
+            // The new engine starts over, so its progress replaces the recorded one
+            expect(registry.getFlowStatus('setup')).toBe('available')
+            expect(registry.getFlowStatus('tour')).toBe('locked')
+        })
+    })
+
     describe('createRegistry factory', () => {
         it('should create isolated registry instances', () => {
             const r1 = createRegistry()
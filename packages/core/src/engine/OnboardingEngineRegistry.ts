@@ -2,9 +2,9 @@
 // Class-based registry for managing OnboardingEngine instances
 // Replaces module-level static registry for SSR safety
 
-import type { OnboardingContext } from '../types'
+import type { OnboardingContext, OnboardingStep } from '../types'
 import type { OnboardingEngine } from './OnboardingEngine'
-import type { FlowInfo } from './types'
+import type { FlowInfo, FlowPrerequisite } from './types'
 
 /**
  * Statistics about the registry contents
@@ -23,6 +23,35 @@ export interface RegistryQueryOptions {
     versionPattern?: string
 }
 
+/**
+ * Where a flow stands relative to its prerequisites:
+ * - `locked`: a prerequisite is not met
+ * - `available`: unlocked, but not started (no engine registered or no step completed yet)
+ * - `in-progress`: at least one step is completed
+ * - `completed`: the flow is completed
+ */
+export type FlowStatus = 'locked' | 'available' | 'in-progress' | 'completed'
+
+/**
+ * The progress of a flow as seen by the registry. Recorded from the flow's engine and kept after the
+ * engine is unregistered, so prerequisites stay met when it is destroyed.
+ */
+export interface FlowProgress {
+    isCompleted: boolean
+    completedStepIds: Array<string | number>
+    currentStepId: string | number | null
+}
+
+/**
+ * Events emitted by the registry as flows change status
+ */
+export interface RegistryEventListenerMap {
+    /** A flow's status changed, e.g. because one of its prerequisites progressed. */
+    flowStatusChanged: (event: { flowId: string; status: FlowStatus; previousStatus: FlowStatus }) => void
+    /** A locked flow became available because its last unmet prerequisite was met. */
+    flowUnlocked: (event: { flowId: string; status: FlowStatus }) => void
+}
+
 /**
  * OnboardingEngineRegistry provides SSR-safe instance management.
  *
@@ -49,6 +78,15 @@ export interface RegistryQueryOptions {
  */
 export class OnboardingEngineRegistry {
     private _engines: Map<string, OnboardingEngine<any>> = new Map()
+    private _flowDefinitions: Map<string, OnboardingStep<any>[]> = new Map()
+    private _prerequisites: Map<string, FlowPrerequisite[]> = new Map()
+    private _statuses: Map<string, FlowStatus> = new Map()
+    private _progress: Map<string, FlowProgress> = new Map()
+    private _engineSubscriptions: Map<string, () => void> = new Map()
+    private _listeners: { [K in keyof RegistryEventListenerMap]: Set<RegistryEventListenerMap[K]> } = {
+        flowStatusChanged: new Set(),
+        flowUnlocked: new Set(),
+    }
 
     /**
      * Register an engine instance with a flow ID
@@ -64,13 +102,27 @@ export class OnboardingEngineRegistry {
             )
         }
         this._engines.set(flowId, engine)
+
+        // Follow the engine's progress so flows depending on it unlock
+        this._engineSubscriptions.get(flowId)?.()
+        this._engineSubscriptions.set(
+            flowId,
+            engine.addEventListener('stateChange', () => this._updateStatuses())
+        )
+        this._updateStatuses()
     }
 
     /**
      * Unregister an engine by flow ID
      */
     unregister(flowId: string): boolean {
-        return this._engines.delete(flowId)
+        this._engineSubscriptions.get(flowId)?.()
+        this._engineSubscriptions.delete(flowId)
+        const removed = this._engines.delete(flowId)
+        if (removed) {
+            this._updateStatuses()
+        }
+        return removed
     }
 
     /**
@@ -154,7 +206,11 @@ export class OnboardingEngineRegistry {
      * Clear all registered engines
      */
     clear(): void {
+        this._engineSubscriptions.forEach((unsubscribe) => unsubscribe())
+        this._engineSubscriptions.clear()
         this._engines.clear()
+        this._statuses.clear()
+        this._progress.clear()
     }
 
     /**
@@ -171,12 +227,201 @@ export class OnboardingEngineRegistry {
         this._engines.forEach((engine, flowId) => callback(engine, flowId))
     }
 
+    /**
+     * Register the steps of a flow so SUBFLOW steps can embed it by `flowId`
+     */
+    registerFlowDefinition<TContext extends OnboardingContext = OnboardingContext>(
+        flowId: string,
+        steps: OnboardingStep<TContext>[]
+    ): void {
+        this._flowDefinitions.set(flowId, steps)
+    }
+
+    /**
+     * Get the steps of a registered flow definition
+     */
+    getFlowDefinition<TContext extends OnboardingContext = OnboardingContext>(
+        flowId: string
+    ): OnboardingStep<TContext>[] | undefined {
+        return this._flowDefinitions.get(flowId) as OnboardingStep<TContext>[] | undefined
+    }
+
     /**
      * Get flow info for all registered engines
      */
     getAllFlowInfo(): FlowInfo[] {
         return Array.from(this._engines.values()).map((engine) => engine.getFlowInfo())
     }
+
+    /**
+     * Declare the prerequisites of a flow. The flow does not need a registered engine yet,
+     * so locked flows can be listed before they are started.
+     */
+    setPrerequisites(flowId: string, prerequisites: FlowPrerequisite[]): void {
+        this._prerequisites.set(flowId, prerequisites)
+        this._updateStatuses()
+    }
+
+    /**
+     * Get the prerequisites declared for a flow
+     */
+    getPrerequisites(flowId: string): FlowPrerequisite[] {
+        return this._prerequisites.get(flowId) ?? []
+    }
+
+    /**
+     * Get the prerequisites of a flow that are not met yet
+     */
+    getUnmetPrerequisites(flowId: string): FlowPrerequisite[] {
+        return this.getPrerequisites(flowId).filter((prerequisite) => !this._isPrerequisiteMet(prerequisite))
+    }
+
+    /**
+     * Get the status of a flow. A completed flow stays completed even if its prerequisites change.
+     */
+    getFlowStatus(flowId: string): FlowStatus {
+        const progress = this.getFlowProgress(flowId)
+        if (progress?.isCompleted) {
+            return 'completed'
+        }
+        if (this.getUnmetPrerequisites(flowId).length > 0) {
+            return 'locked'
+        }
+        if (progress && progress.completedStepIds.length > 0) {
+            return 'in-progress'
+        }
+        return 'available'
+    }
+
+    /**
+     * Get the progress of a flow: from its registered engine once hydrated, otherwise the last recorded progress
+     */
+    getFlowProgress(flowId: string): FlowProgress | undefined {
+        const state = this._engines.get(flowId)?.getState()
+        if (!state || state.isHydrating) {
+            return this._progress.get(flowId)
+        }
+        return {
+            isCompleted: state.isCompleted,
+            completedStepIds: Object.keys(state.context.flowData._internal?.completedSteps ?? {}),
+            currentStepId: state.currentStep?.id ?? null,
+        }
+    }
+
+    /**
+     * Record the progress of a flow without a registered engine, e.g. restored from persisted data
+     * after a reload. Replaced by the engine's progress once an engine of the flow is hydrated.
+     */
+    recordFlowProgress(flowId: string, progress: FlowProgress): void {
+        this._progress.set(flowId, progress)
+        this._updateStatuses()
+    }
+
+    /**
+     * Get the status of every known flow: registered engines and flows with declared prerequisites
+     */
+    getFlowStatuses(): Record<string, FlowStatus> {
+        const statuses: Record<string, FlowStatus> = {}
+        this._getKnownFlowIds().forEach((flowId) => {
+            statuses[flowId] = this.getFlowStatus(flowId)
+        })
+        return statuses
+    }
+
+    /**
+     * Get the IDs of all known flows with the given status
+     */
+    getFlowsByStatus(status: FlowStatus): string[] {
+        return this._getKnownFlowIds().filter((flowId) => this.getFlowStatus(flowId) === status)
+    }
+
+    /**
+     * Check whether all prerequisites of a flow are met
+     */
+    isFlowAvailable(flowId: string): boolean {
+        return this.getFlowStatus(flowId) !== 'locked'
+    }
+
+    /**
+     * Listen to registry events. Returns a function that removes the listener.
+     */
+    addEventListener<K extends keyof RegistryEventListenerMap>(
+        eventType: K,
+        listener: RegistryEventListenerMap[K]
+    ): () => void {
+        const listeners = this._listeners[eventType] as Set<RegistryEventListenerMap[K]>
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+    }
+
+    private _getKnownFlowIds(): string[] {
+        return Array.from(new Set([...this._engines.keys(), ...this._prerequisites.keys(), ...this._progress.keys()]))
+    }
+
+    private _isPrerequisiteMet(prerequisite: FlowPrerequisite): boolean {
+        const { flowId, stepId } = typeof prerequisite === 'string' ? { flowId: prerequisite } : prerequisite
+        const progress = this.getFlowProgress(flowId)
+        if (!progress) {
+            return false
+        }
+        if (progress.isCompleted) {
+            return true
+        }
+        if (stepId === undefined) {
+            return false
+        }
+        return (
+            progress.currentStepId === stepId ||
+            progress.completedStepIds.some((completedStepId) => String(completedStepId) === String(stepId))
+        )
+    }
+
+    /**
+     * Recompute the status of every known flow and emit events for the ones that changed
+     */
+    private _updateStatuses(): void {
+        // Remember the progress of hydrated engines, so it outlives them
+        this._engines.forEach((engine, flowId) => {
+            if (!engine.getState().isHydrating) {
+                this._progress.set(flowId, this.getFlowProgress(flowId)!)
+            }
+        })
+
+        const changes: Array<{ flowId: string; status: FlowStatus; previousStatus: FlowStatus }> = []
+        const flowIds = this._getKnownFlowIds()
+        Array.from(this._statuses.keys())
+            .filter((flowId) => !flowIds.includes(flowId))
+            .forEach((flowId) => this._statuses.delete(flowId))
+
+        flowIds.forEach((flowId) => {
+            const status = this.getFlowStatus(flowId)
+            const previousStatus = this._statuses.get(flowId)
+            this._statuses.set(flowId, status)
+            if (previousStatus !== undefined && previousStatus !== status) {
+                changes.push({ flowId, status, previousStatus })
+            }
+        })
+
+        changes.forEach((change) => {
+            this._emit('flowStatusChanged', change)
+            if (change.previousStatus === 'locked') {
+                this._emit('flowUnlocked', { flowId: change.flowId, status: change.status })
+            }
+        })
+    }
+
+    private _emit<K extends keyof RegistryEventListenerMap>(
+        eventType: K,
+        event: Parameters<RegistryEventListenerMap[K]>[0]
+    ): void {
+        this._listeners[eventType].forEach((listener) => {
+            try {
+                ;(listener as (event: Parameters<RegistryEventListenerMap[K]>[0]) => void)(event)
+            } catch (error) {
+                console.error(`[OnboardingEngineRegistry] Error in ${eventType} listener:`, error)
+            }
+        })
+    }
 }
 
 /**
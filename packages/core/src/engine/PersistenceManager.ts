@@ -83,6 +83,8 @@ export class PersistenceManager<TContext extends OnboardingContext> {
             this.eventManager?.notifyListeners('persistenceFailure', {
                 context,
                 error: error as Error,
+                attempt: 1,
+                willRetry: false,
             })
             this.logger.error('Error during persistData:', error)
             if (this.errorHandler) {
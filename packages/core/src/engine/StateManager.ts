@@ -1,10 +1,11 @@
 // src/engine/services/StateManager.ts
 
 import { OnboardingContext, OnboardingStep } from '../types'
-import { evaluateStepId, findStepById } from '../utils/step-utils'
+import { evaluateStepId, findStepById, evaluateStepCondition } from '../utils/step-utils'
 import { EventManager } from './EventManager'
 import { Logger } from '../services/Logger'
-import { EngineState, FlowContext } from './types'
+import { EngineState, FlowContext, FlowSection, PersistenceSyncStatus, StepDataValidationError } from './types'
+import { calculateSectionProgress } from '../utils/section-utils'
 
 /**
  * Lightweight deep equality check for context objects
@@ -43,6 +44,10 @@ export class StateManager<TContext extends OnboardingContext> {
     private _isHydratingInternal = true
     private _errorInternal: Error | null = null
     private _isCompletedInternal = false
+    private _validationErrors: StepDataValidationError[] = []
+    private _canUndo = false
+    private _canRedo = false
+    private _persistenceStatus: PersistenceSyncStatus = 'saved'
     private _logger: Logger
 
     constructor(
@@ -50,7 +55,8 @@ export class StateManager<TContext extends OnboardingContext> {
         private _steps: OnboardingStep<TContext>[],
         private _initialStepId: string | number | null,
         private _flowContext: FlowContext,
-        debugMode?: boolean
+        debugMode?: boolean,
+        private _sections: FlowSection[] = []
     ) {
         this._logger = Logger.getInstance({
             debugMode: debugMode ?? false,
@@ -132,7 +138,7 @@ export class StateManager<TContext extends OnboardingContext> {
         const completedIds = new Set(Object.keys(context.flowData?._internal?.completedSteps || {}))
 
         // First, determine the list of steps that are currently relevant based on conditions.
-        const relevantSteps = this._steps.filter((step) => !step.condition || step.condition(context))
+        const relevantSteps = this._steps.filter((step) => evaluateStepCondition(step.condition, context))
 
         const totalRelevantSteps = relevantSteps.length
 
@@ -148,6 +154,15 @@ export class StateManager<TContext extends OnboardingContext> {
         // Convert to a 1-based number for UI display, or 0 if not found/null.
         const currentStepNumber = currentStepIndex !== -1 ? currentStepIndex + 1 : 0
 
+        // Section-level progress over the same relevant steps
+        const { sections, currentSection } = calculateSectionProgress(
+            this._steps,
+            relevantSteps,
+            completedIds,
+            currentStep,
+            this._sections
+        )
+
         return {
             // Flow identification
             flowId: this._flowContext.flowId,
@@ -174,6 +189,15 @@ export class StateManager<TContext extends OnboardingContext> {
             completedSteps: completedRelevantSteps,
             progressPercentage,
             currentStepNumber,
+            validationErrors: currentStep
+                ? this._validationErrors.filter((error) => error.stepId === currentStep.id)
+                : [],
+            sections,
+            currentSection,
+            canUndo: this._canUndo,
+            canRedo: this._canRedo,
+            experiments: { ...context.flowData?._internal?.experiments },
+            persistenceStatus: this._persistenceStatus,
         }
     }
 
@@ -210,7 +234,7 @@ export class StateManager<TContext extends OnboardingContext> {
             // Find the next step in the array that satisfies its condition
             for (let i = currentIndex + 1; i < this._steps.length; i++) {
                 const candidateStep = this._steps[i]
-                if (!candidateStep.condition || candidateStep.condition(context)) {
+                if (evaluateStepCondition(candidateStep.condition, context)) {
                     return candidateStep // Found the next valid step
                 }
             }
@@ -250,7 +274,7 @@ export class StateManager<TContext extends OnboardingContext> {
 
         while (candidateStep) {
             // If the candidate's condition passes (or it has no condition), we've found our step.
-            if (!candidateStep.condition || candidateStep.condition(context)) {
+            if (evaluateStepCondition(candidateStep.condition, context)) {
                 return candidateStep
             }
 
@@ -285,13 +309,17 @@ export class StateManager<TContext extends OnboardingContext> {
         return this._isCompletedInternal
     }
 
+    get validationErrors(): StepDataValidationError[] {
+        return this._validationErrors
+    }
+
     /**
      * Get all relevant steps in the flow based on the current context.
      * @param context The current onboarding context.
      * @returns An array of relevant onboarding steps in the current flow.
      */
     public getRelevantSteps(context: TContext): OnboardingStep<TContext>[] {
-        return this._steps.filter((step) => !step.condition || step.condition(context))
+        return this._steps.filter((step) => evaluateStepCondition(step.condition, context))
     }
 
     public getStepById(stepId: string | number) {
@@ -322,4 +350,17 @@ export class StateManager<TContext extends OnboardingContext> {
     setCompleted(completed: boolean): void {
         this._isCompletedInternal = completed
     }
+
+    setValidationErrors(errors: StepDataValidationError[]): void {
+        this._validationErrors = errors
+    }
+
+    setUndoAvailability(canUndo: boolean, canRedo: boolean): void {
+        this._canUndo = canUndo
+        this._canRedo = canRedo
+    }
+
+    setPersistenceStatus(status: PersistenceSyncStatus): void {
+        this._persistenceStatus = status
+    }
 }
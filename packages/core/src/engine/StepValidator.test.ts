@@ -1,5 +1,5 @@
 // src/engine/StepValidator.test.ts
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { StepValidator } from './StepValidator'
 import { OnboardingStep, OnboardingContext } from '../types'
 
@@ -228,6 +228,60 @@ describe('StepValidator', () => {
             expect(result.errors.filter((e) => e.errorType === 'INVALID_PAYLOAD')).toHaveLength(2)
         })
 
+        it('should validate FORM requires fields with unique names', () => {
+            const steps: OnboardingStep[] = [
+                { id: 'step1', type: 'FORM', payload: { fields: [] } },
+                {
+                    id: 'step2',
+                    type: 'FORM',
+                    payload: {
+                        fields: [
+                            { id: 'a', name: 'email', label: 'Email', type: 'email' },
+                            { id: 'b', name: 'email', label: 'Email again', type: 'email' },
+                            { id: 'c', name: 'plan', label: 'Plan', type: 'select' },
+                        ],
+                    },
+                },
+            ]
+
+            const result = validator.validateSteps(steps)
+
+            expect(result.isValid).toBe(false)
+            const messages = result.errors.filter((e) => e.errorType === 'INVALID_PAYLOAD').map((e) => e.message)
+            expect(messages).toHaveLength(3)
+            expect(messages[0]).toContain('fields')
+            expect(messages[1]).toContain("named 'email'")
+            expect(messages[2]).toContain('options')
+        })
+
+        it('should validate SUBFLOW payloads and their child steps', () => {
+            const steps: OnboardingStep[] = [
+                { id: 'step1', type: 'SUBFLOW', payload: {} },
+                { id: 'step2', type: 'SUBFLOW', payload: { steps: [] } },
+                {
+                    id: 'step3',
+                    type: 'SUBFLOW',
+                    payload: {
+                        steps: [
+                            { id: 'child', type: 'CUSTOM_COMPONENT', payload: {} },
+                            { id: 'child', type: 'INFORMATION', payload: {} },
+                        ],
+                    },
+                },
+                { id: 'step4', type: 'SUBFLOW', payload: { flowId: 'invite' } },
+            ]
+
+            const result = validator.validateSteps(steps)
+
+            expect(result.isValid).toBe(false)
+            const messages = result.errors.map((e) => e.message)
+            expect(messages).toHaveLength(4)
+            expect(messages[0]).toContain("either a 'steps' array or a 'flowId'")
+            expect(messages[1]).toContain("non-empty 'steps' array")
+            expect(messages[2]).toBe("Subflow 'step3': Duplicate step ID 'child' found at indices 0 and 1")
+            expect(messages[3]).toContain("Subflow 'step3': Step 'child' of type 'CUSTOM_COMPONENT'")
+        })
+
         it('should pass valid step structures', () => {
             const steps: OnboardingStep[] = [
                 {
@@ -454,6 +508,24 @@ describe('StepValidator', () => {
             expect(warnings.length).toBeGreaterThan(0)
             expect(warnings.every((w) => w.warningType)).toBe(true)
         })
+
+        it('does not log the results when logResults is false', () => {
+            const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+            const steps: OnboardingStep[] = [
+                { id: 'step1', type: 'INFORMATION', payload: {}, nextStep: 'nonexistent' },
+                { id: 'step1', type: 'INFORMATION', payload: {} },
+            ]
+
+            const result = new StepValidator<OnboardingContext>(100, false, false).validateSteps(steps)
+
+            expect(result.errors).not.toHaveLength(0)
+            expect(result.warnings).not.toHaveLength(0)
+            expect(errorSpy).not.toHaveBeenCalled()
+            expect(warnSpy).not.toHaveBeenCalled()
+            errorSpy.mockRestore()
+            warnSpy.mockRestore()
+        })
     })
 
     describe('Complex Flow Validation', () => {
@@ -3,6 +3,7 @@
 
 import { OnboardingStep, OnboardingContext } from '../types'
 import { findStepById } from '../utils/step-utils'
+import { getConditionalStepTargetIds, isConditionalStepTarget } from '../utils/condition-utils'
 import { Logger } from '../services/Logger'
 
 export interface StepValidationResult {
@@ -34,9 +35,14 @@ export interface StepValidationWarning {
 export class StepValidator<TContext extends OnboardingContext = OnboardingContext> {
     private _logger: Logger
     private readonly _maxDepth: number
+    private readonly _logResults: boolean
 
-    constructor(maxDepth: number = 100, debugMode: boolean = false) {
+    /**
+     * @param logResults - Whether to log the errors and warnings found. Turn off when reporting them yourself.
+     */
+    constructor(maxDepth: number = 100, debugMode: boolean = false, logResults: boolean = true) {
         this._maxDepth = maxDepth
+        this._logResults = logResults
         this._logger = Logger.getInstance({
             debugMode,
             prefix: 'StepValidator',
@@ -78,12 +84,12 @@ export class StepValidator<TContext extends OnboardingContext = OnboardingContex
 
         const isValid = errors.length === 0
 
-        if (!isValid) {
+        if (!isValid && this._logResults) {
             this._logger.error(`Step validation failed with ${errors.length} error(s)`)
             errors.forEach((err) => this._logger.error(`  - ${err.message}`, err.details))
         }
 
-        if (warnings.length > 0) {
+        if (warnings.length > 0 && this._logResults) {
             this._logger.warn(`Step validation completed with ${warnings.length} warning(s)`)
             warnings.forEach((warn) => this._logger.warn(`  - ${warn.message}`, warn.details))
         }
@@ -172,6 +178,104 @@ export class StepValidator<TContext extends OnboardingContext = OnboardingContex
                 })
             }
         }
+
+        if (step.type === 'SUBFLOW') {
+            this._validateSubflowStep(step, errors)
+        }
+
+        if (step.type === 'FORM') {
+            const payload = step.payload as any
+            if (!payload?.fields || !Array.isArray(payload.fields) || payload.fields.length === 0) {
+                errors.push({
+                    stepId: step.id,
+                    errorType: 'INVALID_PAYLOAD',
+                    message: `Step '${step.id}' of type 'FORM' must have a non-empty 'fields' array in its payload`,
+                    details: { stepType: step.type },
+                })
+                return
+            }
+
+            const fieldNames = new Set<string>()
+            payload.fields.forEach((field: any, index: number) => {
+                if (!field?.name || !field?.type) {
+                    errors.push({
+                        stepId: step.id,
+                        errorType: 'INVALID_PAYLOAD',
+                        message: `Field at index ${index} in step '${step.id}' must have a 'name' and a 'type'`,
+                        details: { stepType: step.type, fieldIndex: index },
+                    })
+                    return
+                }
+
+                if (fieldNames.has(field.name)) {
+                    errors.push({
+                        stepId: step.id,
+                        errorType: 'INVALID_PAYLOAD',
+                        message: `Step '${step.id}' has more than one field named '${field.name}'`,
+                        details: { stepType: step.type, fieldName: field.name },
+                    })
+                }
+                fieldNames.add(field.name)
+
+                if (
+                    (field.type === 'select' || field.type === 'radio_group') &&
+                    (!Array.isArray(field.options) || field.options.length === 0)
+                ) {
+                    errors.push({
+                        stepId: step.id,
+                        errorType: 'INVALID_PAYLOAD',
+                        message: `Field '${field.name}' in step '${step.id}' of type '${field.type}' must have a non-empty 'options' array`,
+                        details: { stepType: step.type, fieldName: field.name },
+                    })
+                }
+            })
+        }
+    }
+
+    /**
+     * Validates a SUBFLOW step's payload and the structure of its inline child steps.
+     * Child step IDs only need to be unique within the child flow.
+     */
+    private _validateSubflowStep(step: OnboardingStep<TContext>, errors: StepValidationError[]): void {
+        const payload = step.payload as any
+        const hasSteps = Array.isArray(payload?.steps)
+
+        if (hasSteps === !!payload?.flowId) {
+            errors.push({
+                stepId: step.id,
+                errorType: 'INVALID_PAYLOAD',
+                message: `Step '${step.id}' of type 'SUBFLOW' must have either a 'steps' array or a 'flowId' in its payload`,
+                details: { stepType: step.type },
+            })
+            return
+        }
+
+        if (!hasSteps) {
+            return
+        }
+
+        if (payload.steps.length === 0) {
+            errors.push({
+                stepId: step.id,
+                errorType: 'INVALID_PAYLOAD',
+                message: `Step '${step.id}' of type 'SUBFLOW' must have a non-empty 'steps' array`,
+                details: { stepType: step.type },
+            })
+            return
+        }
+
+        const childErrors: StepValidationError[] = []
+        this._validateIdUniqueness(payload.steps, childErrors)
+        payload.steps.forEach((childStep: OnboardingStep<TContext>) =>
+            this._validateStepStructure(childStep, childErrors)
+        )
+        childErrors.forEach((error) =>
+            errors.push({
+                ...error,
+                message: `Subflow '${step.id}': ${error.message}`,
+                details: { ...error.details, subflowStepId: step.id },
+            })
+        )
     }
 
     /**
@@ -288,6 +392,27 @@ export class StepValidator<TContext extends OnboardingContext = OnboardingContex
                     details: { targetStep: step.skipToStep },
                 })
             }
+
+            // Check every branch of declarative targets
+            const declarativeTargets = {
+                nextStep: step.nextStep,
+                previousStep: step.previousStep,
+                skipToStep: step.skipToStep,
+            }
+            Object.entries(declarativeTargets).forEach(([propertyName, target]) => {
+                if (!isConditionalStepTarget(target)) return
+
+                getConditionalStepTargetIds(target)
+                    .filter((targetId) => !findStepById(steps, targetId))
+                    .forEach((targetId) => {
+                        warnings.push({
+                            stepId: step.id,
+                            warningType: 'BROKEN_LINK',
+                            message: `Step '${step.id}' has a '${propertyName}' reference to non-existent step '${targetId}'`,
+                            details: { targetStep: targetId },
+                        })
+                    })
+            })
         })
     }
 
@@ -329,6 +454,11 @@ export class StepValidator<TContext extends OnboardingContext = OnboardingContex
                 toVisit.push(currentStep.nextStep)
             }
 
+            // Add every branch of a declarative nextStep
+            if (isConditionalStepTarget(currentStep.nextStep)) {
+                toVisit.push(...getConditionalStepTargetIds(currentStep.nextStep))
+            }
+
             // Add skipToStep
             if (
                 currentStep.isSkippable &&
@@ -337,6 +467,10 @@ export class StepValidator<TContext extends OnboardingContext = OnboardingContex
             ) {
                 toVisit.push(currentStep.skipToStep)
             }
+
+            if (currentStep.isSkippable && isConditionalStepTarget(currentStep.skipToStep)) {
+                toVisit.push(...getConditionalStepTargetIds(currentStep.skipToStep))
+            }
         }
 
         // Check which steps are not reachable
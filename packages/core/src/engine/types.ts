@@ -2,8 +2,20 @@
 
 import { AnalyticsConfig } from '../analytics/types'
 import { OnboardingPlugin } from '../plugins'
-import { OnboardingStep, OnboardingContext } from '../types'
+import {
+    OnboardingStep,
+    OnboardingContext,
+    FormFieldError,
+    FormFieldValidation,
+    StepGuardDirection,
+    ChecklistItemState,
+    ExperimentAssignments,
+    FlowExperiment,
+    FeatureFlagProvider,
+    JSONSchema,
+} from '../types'
 import type { OnboardingEngineRegistry } from './OnboardingEngineRegistry'
+import type { StepJSONParserOptions, StepJSONSchema } from '../parser/types'
 
 // =============================================================================
 // Engine State & Base Types
@@ -27,6 +39,60 @@ export interface FlowInfo {
     createdAt: number
 }
 
+export type StepDataValidationRule =
+    | 'minSelections'
+    | 'maxSelections'
+    | 'invalidOption'
+    | 'invalidType'
+    | 'schema'
+    | keyof FormFieldValidation
+
+/**
+ * A typed validation error raised when the data submitted for a step does not satisfy the step's payload.
+ */
+export interface StepDataValidationError {
+    stepId: string | number
+    /** The `flowData` key (or form field name) the error applies to. */
+    key: string
+    rule: StepDataValidationRule
+    /** For `schema` errors, the JSON Schema keyword that failed. */
+    keyword?: string
+    message: string
+}
+
+/**
+ * A flow-level grouping of steps into a section (or chapter).
+ */
+export interface FlowSection {
+    id: string
+    title?: string
+    /** The steps that belong to this section. A step's own `section` property takes precedence. */
+    stepIds: Array<string | number>
+    meta?: Record<string, unknown>
+}
+
+/**
+ * Progress and boundaries of a section, computed over the relevant steps only.
+ */
+export interface SectionProgress {
+    id: string
+    title: string | null
+    meta: Record<string, unknown> | null
+    /** IDs of the section's relevant steps, in flow order. */
+    stepIds: Array<string | number>
+    totalSteps: number
+    completedSteps: number
+    progressPercentage: number
+    isCompleted: boolean
+    isCurrent: boolean
+    /** 1-based position of the section's first relevant step in the flow, like `currentStepNumber`. */
+    firstStepNumber: number
+    /** 1-based position of the section's last relevant step in the flow. */
+    lastStepNumber: number
+    /** 1-based position of the current step within the section, or 0 if the current step is not in it. */
+    currentStepNumber: number
+}
+
 export interface EngineState<TContext extends OnboardingContext = OnboardingContext> {
     // Flow identification
     flowId: string | null
@@ -53,6 +119,60 @@ export interface EngineState<TContext extends OnboardingContext = OnboardingCont
     completedSteps: number
     progressPercentage: number
     currentStepNumber: number
+    /** Validation errors for the current step from the last `next()` attempt. */
+    validationErrors: StepDataValidationError[]
+    /** Sections with at least one relevant step, in flow order. */
+    sections: SectionProgress[]
+    /** The section containing the current step, or null if it is not in a section. */
+    currentSection: SectionProgress | null
+    /** Whether `undo()` can restore an earlier snapshot. */
+    canUndo: boolean
+    /** Whether `redo()` can restore a later snapshot. */
+    canRedo: boolean
+    /** The variant assigned to the user in each experiment of the flow, by experiment ID. */
+    experiments: ExperimentAssignments
+    /** Whether the latest state has been written with `persistData`. */
+    persistenceStatus: PersistenceSyncStatus
+}
+
+/**
+ * The state of the persistence write queue.
+ * - `saved`: the latest state has been written (or there was nothing to write)
+ * - `saving`: a write is in progress
+ * - `pending`: the latest state waits for the persistence schedule, or for a failed write to be retried
+ * - `error`: a write failed and will not be retried until the next change or `flushPersistence()`
+ */
+export type PersistenceSyncStatus = 'saved' | 'saving' | 'pending' | 'error'
+
+/**
+ * A full copy of the engine state recorded for undo, redo and time-travel.
+ */
+export interface EngineStateSnapshot<TContext extends OnboardingContext = OnboardingContext> {
+    currentStepId: string | number | null
+    context: TContext
+    /** The navigation history (step IDs) at the time of the snapshot. */
+    history: string[]
+    isCompleted: boolean
+    timestamp: number
+}
+
+/**
+ * A versioned, JSON-serializable export of an engine's state, created by `engine.exportSnapshot()`.
+ */
+export interface ExportedEngineSnapshot<TContext extends OnboardingContext = OnboardingContext> {
+    /** The version of the snapshot format. */
+    version: number
+    /** The identity of the flow the snapshot was exported from. */
+    flow: FlowInfo
+    currentStepId: string | number | null
+    /** The navigation history (step IDs). */
+    history: string[]
+    /** The full context, including the `flowData._internal` timestamps. */
+    context: TContext
+    isCompleted: boolean
+    /** Item state of every CHECKLIST step, keyed by step ID. Takes precedence over the checklist data in `context`. */
+    checklists: Record<string, ChecklistItemState[]>
+    exportedAt: number
 }
 
 export type EngineStateChangeListener<TContext extends OnboardingContext = OnboardingContext> = (event: {
@@ -61,6 +181,49 @@ export type EngineStateChangeListener<TContext extends OnboardingContext = Onboa
 
 export type UnsubscribeFunction = () => void
 
+/**
+ * Derives a value from the engine state, e.g. for `engine.select()`.
+ */
+export type StateSelector<TContext extends OnboardingContext = OnboardingContext, TSelected = unknown> = (
+    state: EngineState<TContext>
+) => TSelected
+
+// =============================================================================
+// Navigation Middleware
+// =============================================================================
+
+export type NavigationDirection = 'next' | 'previous' | 'skip' | 'goto' | 'initial'
+
+/**
+ * Describes a navigation while it passes through the middleware chain.
+ * `toStep`, `outcome` and `duration` are set once the inner middleware has run.
+ */
+export interface NavigationTransition<TContext extends OnboardingContext = OnboardingContext> {
+    direction: NavigationDirection
+    fromStep: OnboardingStep<TContext> | null
+    /** The requested target. Middleware can change it before calling `next()`. */
+    targetStepId: string | number | null | undefined
+    /** The data passed to `next()` or `goToStep()`. */
+    stepData?: unknown
+    context: TContext
+    startedAt: number
+    /** The step the flow moved to, or null when the flow completed. */
+    toStep?: OnboardingStep<TContext> | null
+    /** `cancelled` when the navigation was cancelled or a middleware did not call `next()`. */
+    outcome?: 'navigated' | 'cancelled' | 'denied'
+    /** Milliseconds from the start of the transition until the target step was activated. */
+    duration?: number
+}
+
+/**
+ * Koa-style navigation middleware. Call `next()` to continue the transition;
+ * return without calling it to stop the navigation.
+ */
+export type NavigationMiddleware<TContext extends OnboardingContext = OnboardingContext> = (
+    transition: NavigationTransition<TContext>,
+    next: () => Promise<void>
+) => Promise<void> | void
+
 // =============================================================================
 // Event Object Interfaces
 // =============================================================================
@@ -147,6 +310,10 @@ export interface StepValidationFailedEvent<TContext extends OnboardingContext =
     step: OnboardingStep<TContext>
     context: TContext
     validationErrors: string[]
+    /** Typed errors, present when the failure was detected by the engine or reported with them. */
+    errors?: StepDataValidationError[]
+    /** Per-field errors, present when a FORM step fails validation. */
+    fieldErrors?: FormFieldError[]
 }
 
 export interface StepHelpRequestedEvent<TContext extends OnboardingContext = OnboardingContext> {
@@ -179,6 +346,28 @@ export interface NavigationJumpEvent<TContext extends OnboardingContext = Onboar
     context: TContext
 }
 
+export interface NavigationDeniedEvent<TContext extends OnboardingContext = OnboardingContext> {
+    /** The step whose guard denied the transition. */
+    step: OnboardingStep<TContext>
+    guard: 'canEnter' | 'canLeave'
+    /** The step navigation started from. The flow stays on it. */
+    fromStep: OnboardingStep<TContext> | null
+    /** The step that was about to become active, or null when the flow was about to complete. */
+    toStep: OnboardingStep<TContext> | null
+    direction: StepGuardDirection
+    reason?: string
+    context: TContext
+}
+
+export interface ExperimentExposedEvent<TContext extends OnboardingContext = OnboardingContext> {
+    experimentId: string
+    variantId: string
+    /** The step the experiment is declared on, or null for a flow-level experiment. */
+    step: OnboardingStep<TContext> | null
+    userId: string | null
+    context: TContext
+}
+
 export interface UserIdleEvent<TContext extends OnboardingContext = OnboardingContext> {
     step: OnboardingStep<TContext>
     context: TContext
@@ -211,6 +400,29 @@ export interface PersistenceSuccessEvent<TContext extends OnboardingContext = On
 export interface PersistenceFailureEvent<TContext extends OnboardingContext = OnboardingContext> {
     context: TContext
     error: Error
+    /** The number of attempts made to write this state so far. */
+    attempt: number
+    /** Whether the write will be retried. */
+    willRetry: boolean
+}
+
+export interface PersistenceExpiredEvent<TContext extends OnboardingContext = OnboardingContext> {
+    /** The persisted data as loaded, before the expiry action was applied. */
+    data: LoadedData<TContext>
+    reason: PersistenceExpiryReason
+    action: PersistenceExpiryAction
+    /** When the data was last saved, if known. */
+    savedAt: number | null
+}
+
+export interface CrossTabConflictEvent<TContext extends OnboardingContext = OnboardingContext> {
+    /** The state of this tab when the conflict was detected. */
+    local: ExportedEngineSnapshot<TContext>
+    /** The state another tab changed to at the same time. */
+    remote: ExportedEngineSnapshot<TContext>
+    /** Which state both tabs continue with. */
+    resolution: 'local' | 'remote'
+    context: TContext
 }
 
 export interface ChecklistItemToggledEvent<TContext extends OnboardingContext = OnboardingContext> {
@@ -284,6 +496,10 @@ export interface EventListenerMap<TContext extends OnboardingContext = Onboardin
     navigationBack: (event: NavigationBackEvent<TContext>) => void | Promise<void>
     navigationForward: (event: NavigationForwardEvent<TContext>) => void | Promise<void>
     navigationJump: (event: NavigationJumpEvent<TContext>) => void | Promise<void>
+    navigationDenied: (event: NavigationDeniedEvent<TContext>) => void | Promise<void>
+
+    // Experiment events
+    experimentExposed: (event: ExperimentExposedEvent<TContext>) => void | Promise<void>
 
     // Interaction events
     userIdle: (event: UserIdleEvent<TContext>) => void | Promise<void>
@@ -294,6 +510,10 @@ export interface EventListenerMap<TContext extends OnboardingContext = Onboardin
     stepRenderTime: (event: StepRenderTimeEvent<TContext>) => void | Promise<void>
     persistenceSuccess: (event: PersistenceSuccessEvent<TContext>) => void | Promise<void>
     persistenceFailure: (event: PersistenceFailureEvent<TContext>) => void | Promise<void>
+    persistenceExpired: (event: PersistenceExpiredEvent<TContext>) => void | Promise<void>
+
+    // Cross-tab sync events
+    crossTabConflict: (event: CrossTabConflictEvent<TContext>) => void | Promise<void>
 
     // Checklist-specific events
     checklistItemToggled: (event: ChecklistItemToggledEvent<TContext>) => void | Promise<void>
@@ -327,6 +547,223 @@ export type DataPersistFn<TContext extends OnboardingContext = OnboardingContext
     currentStepId: string | number | null
 ) => Promise<void> | void
 
+/**
+ * The top-level `flowData` keys that changed since the last successful write.
+ */
+export interface PersistencePatch<TContext extends OnboardingContext = OnboardingContext> {
+    currentStepId: string | number | null
+    /** The changed and added keys, with their new values. */
+    flowData: Partial<TContext['flowData']>
+    changedKeys: string[]
+    removedKeys: string[]
+}
+
+export type DataPatchFn<TContext extends OnboardingContext = OnboardingContext> = (
+    patch: PersistencePatch<TContext>,
+    context: TContext
+) => Promise<void> | void
+
+/**
+ * The result of fetching a remote flow definition.
+ */
+export interface FlowSourceResponse {
+    /** The fetched document. Omitted when `notModified` is set. */
+    schema?: StepJSONSchema
+    /** The ETag of the fetched document, sent back as `etag` on the next request. */
+    etag?: string
+    /** The document matching the requested ETag has not changed. */
+    notModified?: boolean
+}
+
+/**
+ * Fetches a remote flow definition. `etag` is the ETag of the cached document, if any.
+ */
+export type FlowSourceFetcher = (url: string, options: { etag?: string }) => Promise<FlowSourceResponse>
+
+/**
+ * A cached remote flow definition.
+ */
+export interface FlowSourceCacheEntry {
+    schema: StepJSONSchema
+    /** The `version` of the cached document. */
+    version: string
+    etag?: string
+    /** When the document was last fetched or confirmed unchanged (ms since epoch). */
+    fetchedAt: number
+}
+
+/**
+ * Storage for remote flow definitions, e.g. in memory or in localStorage.
+ */
+export interface FlowSourceCache {
+    get(key: string): FlowSourceCacheEntry | null | undefined | Promise<FlowSourceCacheEntry | null | undefined>
+    set(key: string, entry: FlowSourceCacheEntry): void | Promise<void>
+}
+
+/**
+ * Where and how to load a remote flow definition.
+ */
+export interface FlowSourceConfig {
+    /** The URL of the `StepJSONSchema` document. */
+    url: string
+    /** Fetches the document. Defaults to `fetch` with an `If-None-Match` header. */
+    fetcher?: FlowSourceFetcher
+    /** Where fetched documents are cached. Defaults to an in-memory cache. */
+    cache?: FlowSourceCache
+    /** The cache key. Defaults to `url`. */
+    cacheKey?: string
+    /** How long (ms) a cached document is used without revalidating it. Defaults to 0 (always revalidate). */
+    maxAge?: number
+    /** Options for deserializing the document's steps. */
+    parserOptions?: Partial<StepJSONParserOptions>
+}
+
+/**
+ * Upgrades persisted data written by one flow version to the next.
+ */
+export interface FlowMigration<TContext extends OnboardingContext = OnboardingContext> {
+    /** The flow version the data was written by. */
+    from: string
+    /** The flow version the migrated data matches. */
+    to: string
+    migrate: (data: LoadedData<TContext>) => LoadedData<TContext> | Promise<LoadedData<TContext>>
+}
+
+/**
+ * What to do with persisted data that cannot be migrated to the current flow version.
+ * - `restart`: discard the data and start the flow from the beginning
+ * - `nearestStep`: keep the data and resume at the nearest valid step
+ */
+export type MigrationFallback = 'restart' | 'nearestStep'
+
+/**
+ * What to do with persisted data that has expired.
+ * - `discard`: ignore the data and start the flow from the beginning. The stored data is overwritten on the next save
+ * - `restart`: like `discard`, and also clear the stored data right away with `clearPersistedData`
+ * - `resetPosition`: keep the collected `flowData` but start the flow from the beginning
+ */
+export type PersistenceExpiryAction = 'discard' | 'restart' | 'resetPosition'
+
+/**
+ * Why persisted data expired: its `ttl` or `inactivityTimeout` passed, or it was written by another `flowVersion`.
+ */
+export type PersistenceExpiryReason = 'ttl' | 'inactivity' | 'flowVersionChanged'
+
+/**
+ * When persisted data is too stale to resume. The engine stamps `flowData._internal.firstSavedAt` and
+ * `savedAt` on every save while a policy is set; data saved without these stamps never expires by time.
+ */
+export interface PersistenceExpiryPolicy {
+    /** Maximum age (ms) of persisted data, counted from its first save. */
+    ttl?: number
+    /** Maximum time (ms) since persisted data was last saved. */
+    inactivityTimeout?: number
+    /**
+     * Expire persisted data written by a different `flowVersion` instead of migrating it.
+     * Data without a recorded version is not affected.
+     */
+    expireOnFlowVersionChange?: boolean
+    /** What to do with expired data. Defaults to `discard`. */
+    onExpired?: PersistenceExpiryAction
+}
+
+/**
+ * A state that could not be persisted yet.
+ */
+export interface PendingPersistence<TContext extends OnboardingContext = OnboardingContext> {
+    context: TContext
+    currentStepId: string | number | null
+    /** When the state was first queued. */
+    queuedAt: number
+}
+
+/**
+ * Keeps the latest state that could not be persisted, e.g. in localStorage, so it survives a reload.
+ */
+export interface PersistenceFallbackStore<TContext extends OnboardingContext = OnboardingContext> {
+    get(): PendingPersistence<TContext> | null | undefined | Promise<PendingPersistence<TContext> | null | undefined>
+    set(entry: PendingPersistence<TContext>): void | Promise<void>
+    clear(): void | Promise<void>
+}
+
+/**
+ * How failed `persistData` writes are retried.
+ */
+export interface PersistenceRetryConfig<TContext extends OnboardingContext = OnboardingContext> {
+    /** Maximum attempts per write, including the first. Defaults to 5. */
+    maxAttempts?: number
+    /** Delay (ms) before the first retry, doubled for every further retry. Defaults to 1000. */
+    initialDelay?: number
+    /** Upper bound (ms) for the delay between retries. Defaults to 30000. */
+    maxDelay?: number
+    /** How much each delay is randomly varied, as a share of the delay (0 to 1). Defaults to 0.5. */
+    jitter?: number
+    /**
+     * Keeps the latest state that could not be persisted. Loaded instead of `loadData` after a reload,
+     * and written with `persistData` once it succeeds again.
+     */
+    fallbackStore?: PersistenceFallbackStore<TContext>
+}
+
+/**
+ * When state changes are written.
+ * - `immediate`: on every change
+ * - `debounced`: once no change was made for `debounceMs`
+ * - `onStepChange`: only when the current step changes or the flow completes
+ */
+export type PersistenceScheduleMode = 'immediate' | 'debounced' | 'onStepChange'
+
+export interface PersistenceScheduleConfig {
+    mode: PersistenceScheduleMode
+    /** With `debounced`, how long (ms) to wait for further changes. Defaults to 1000. */
+    debounceMs?: number
+    /** With `debounced`, the longest (ms) a change may wait while changes keep coming. Unlimited by default. */
+    maxWait?: number
+}
+
+/**
+ * A message exchanged between the engines of one flow open in several tabs.
+ * - `heartbeat`: announces a tab for leader election, with the latest state revision it has seen
+ * - `leave`: the tab's engine was destroyed
+ * - `state`: the tab's state changed
+ */
+export type CrossTabMessage<TContext extends OnboardingContext = OnboardingContext> =
+    | { type: 'heartbeat'; tabId: string; revision: number }
+    | { type: 'leave'; tabId: string }
+    | { type: 'state'; tabId: string; revision: number; snapshot: ExportedEngineSnapshot<TContext> }
+
+/**
+ * Delivers cross-tab messages to the other tabs, e.g. over a BroadcastChannel.
+ * A transport does not deliver a tab's messages back to itself.
+ */
+export interface CrossTabTransport<TContext extends OnboardingContext = OnboardingContext> {
+    postMessage(message: CrossTabMessage<TContext>): void
+    /** Listen for messages from other tabs. Returns a function that stops listening. */
+    subscribe(listener: (message: CrossTabMessage<TContext>) => void): () => void
+    close(): void
+}
+
+/**
+ * Which state wins when two tabs change it at the same time.
+ * - `leader`: the state of the older tab, which is the persistence leader
+ * - `furthestProgress`: the state with more completed steps, then the older tab's
+ */
+export type CrossTabConflictStrategy = 'leader' | 'furthestProgress'
+
+/**
+ * Keeps the engines of one flow and user in sync across browser tabs.
+ */
+export interface CrossTabSyncConfig<TContext extends OnboardingContext = OnboardingContext> {
+    /** The channel the tabs share. Defaults to `onboardjs:<flowId>:<userId>`. */
+    channelName?: string
+    /** Delivers the messages. Defaults to a BroadcastChannel, or `storage` events where it is not available. */
+    transport?: CrossTabTransport<TContext>
+    /** How often (ms) each tab announces itself. A tab is gone after three missed heartbeats. Defaults to 1000. */
+    heartbeatInterval?: number
+    /** Defaults to `leader`. */
+    conflictStrategy?: CrossTabConflictStrategy
+}
+
 export interface OnboardingEngineConfig<TContext extends OnboardingContext = OnboardingContext> {
     /**
      * Unique identifier for this onboarding flow.
@@ -353,8 +790,21 @@ export interface OnboardingEngineConfig<TContext extends OnboardingContext = Onb
     /**
      * The list of steps in the onboarding flow.
      * Each step should implement the OnboardingStep interface.
+     * When `flowSource` is set, these are the bundled steps used if the remote flow cannot be loaded.
+     */
+    steps?: OnboardingStep<TContext>[]
+
+    /**
+     * Load the flow's steps from a remote `StepJSONSchema` document instead of `steps`.
+     * The document is fetched while the engine hydrates.
+     */
+    flowSource?: FlowSourceConfig
+
+    /**
+     * Optional section groupings for the flow's steps.
+     * Steps can also declare their section directly with the `section` property.
      */
-    steps: OnboardingStep<TContext>[]
+    sections?: FlowSection[]
 
     /**
      * The initial step ID to start the onboarding flow.
@@ -377,6 +827,84 @@ export interface OnboardingEngineConfig<TContext extends OnboardingContext = Onb
     persistData?: DataPersistFn<TContext>
     clearPersistedData?: () => Promise<void> | void
 
+    /**
+     * Writes only the top-level `flowData` keys that changed since the last write, instead of `persistData`.
+     */
+    persistPatch?: DataPatchFn<TContext>
+
+    /**
+     * A flow-level A/B experiment. Each user is assigned one variant, deterministically from `userId`,
+     * and sees that variant's step overrides. Steps can also declare their own `experiment`.
+     */
+    experiment?: FlowExperiment<TContext>
+
+    /**
+     * Resolves the feature flags required by steps and checklist items (`featureFlag`).
+     * Can also be set later with `engine.setFeatureFlagProvider()`, e.g. by a plugin.
+     */
+    featureFlagProvider?: FeatureFlagProvider<TContext>
+
+    /**
+     * JSON Schema for `context.flowData` (without `_internal`). Checked on `next()`, on `updateContext()`
+     * and after persisted data is loaded. Steps can declare a `dataSchema` for the data passed to `next()`.
+     */
+    flowDataSchema?: JSONSchema
+
+    /**
+     * Navigation middleware, run in order around every navigation.
+     * More can be added with `engine.useNavigationMiddleware()`, e.g. by a plugin.
+     */
+    navigationMiddleware?: NavigationMiddleware<TContext>[]
+
+    /**
+     * Ordered migrations applied to persisted data written by an older `flowVersion`.
+     * Starting at the version recorded in the data, each migration whose `from` matches is applied
+     * until the data matches the current `flowVersion`.
+     */
+    migrations?: FlowMigration<TContext>[]
+
+    /**
+     * What to do when persisted data cannot be migrated to the current `flowVersion`.
+     * Defaults to `restart`.
+     */
+    migrationFallback?: MigrationFallback
+
+    /**
+     * When persisted data is too stale to resume, and what to do with it.
+     * Checked when the data is loaded, before `migrations` are applied.
+     */
+    persistenceExpiry?: PersistenceExpiryPolicy
+
+    /**
+     * Retry failed `persistData` writes with exponential backoff. Without it, a failed write is not retried
+     * until the next change. Writes made while another one is in progress are coalesced either way.
+     */
+    persistenceRetry?: PersistenceRetryConfig<TContext>
+
+    /**
+     * When state changes are written. Defaults to `immediate`. Changes still waiting are written
+     * when the page is hidden, on `flushPersistence()` and on `destroy()`.
+     */
+    persistenceSchedule?: PersistenceScheduleMode | PersistenceScheduleConfig
+
+    /**
+     * An exported snapshot to start from instead of loading persisted data.
+     * See `OnboardingEngine.fromSnapshot`.
+     */
+    initialSnapshot?: ExportedEngineSnapshot<TContext>
+
+    /**
+     * Sync step changes and context updates with the engines of the same `flowId` and `userId` in other tabs.
+     * Only the leader tab (the oldest one) calls `persistData`.
+     */
+    crossTabSync?: boolean | CrossTabSyncConfig<TContext>
+
+    /**
+     * Maximum number of state snapshots kept for `undo()`, `redo()` and `jumpToSnapshot()`.
+     * Defaults to 50. Set to 0 to disable the snapshot history.
+     */
+    undoLimit?: number
+
     /**
      * Optional plugins to extend the functionality of the onboarding engine.
      * Each plugin should implement the OnboardingPlugin interface.
@@ -442,4 +970,16 @@ export interface OnboardingEngineConfig<TContext extends OnboardingContext = Onb
      * ```
      */
     registry?: OnboardingEngineRegistry
+
+    /**
+     * Flows that must be completed (or reach a step) before this flow becomes available.
+     * Registered with the `registry` under this engine's `flowId`.
+     */
+    prerequisites?: FlowPrerequisite[]
 }
+
+/**
+ * A prerequisite of a flow in an `OnboardingEngineRegistry`: the ID of a flow that must be completed,
+ * or a flow and a step that must be reached (completed or current).
+ */
+export type FlowPrerequisite = string | { flowId: string; stepId?: string | number }
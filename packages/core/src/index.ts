@@ -3,11 +3,23 @@
 export * from './types'
 export * from './engine/OnboardingEngine'
 export * from './engine/OnboardingEngineRegistry'
+export * from './engine/FlowTriggerManager'
 export * from './engine/ConfigurationBuilder'
 export * from './engine/StepValidator'
 export * from './engine/types' // Export engine-specific types like EngineState
 export * from './utils/step-utils'
 export * from './utils/flow-utils'
+export * from './utils/condition-utils'
+export * from './utils/subflow-utils'
+export * from './utils/section-utils'
+export * from './utils/snapshot-utils'
+export * from './utils/migration-utils'
+export * from './utils/experiment-utils'
+export * from './utils/feature-flag-utils'
+export * from './utils/json-schema-utils'
+export * from './utils/define-flow'
+export * from './utils/selector-utils'
+export * from './utils/flow-analyzer'
 export * from './plugins'
 export * from './parser'
 export * from './analytics/aha-tracker'
@@ -30,3 +42,19 @@ export { map, mapErr, andThen, safeSync, safeAsync, fromPromise } from './types/
 
 // Export AsyncOperationQueue for advanced async operation management
 export { AsyncOperationQueue, type QueueStats } from './services/AsyncOperationQueue'
+
+// Remote flow definitions
+export { FlowSourceLoader, InMemoryFlowSourceCache, type FlowSourceResult } from './services/FlowSourceLoader'
+
+// Feature flags
+export { InMemoryFeatureFlagProvider } from './services/FeatureFlagService'
+
+// Schema validation
+export { FlowDataValidationError } from './services/SchemaValidationService'
+
+// Cross-tab sync
+export {
+    BroadcastChannelTransport,
+    StorageEventTransport,
+    createCrossTabTransport,
+} from './services/CrossTabSyncService'
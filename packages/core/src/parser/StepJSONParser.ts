@@ -8,8 +8,13 @@ import {
     SingleChoiceStepPayload,
     CustomComponentStepPayload,
     ChecklistStepPayload,
+    ConditionExpression,
+    FormStepPayload,
+    FormField,
+    SubflowStepPayload,
 } from '../types'
 import { Logger } from '../services/Logger'
+import { isConditionExpression, isConditionalStepTarget } from '../utils/condition-utils'
 import {
     StepJSONParserOptions,
     ParseResult,
@@ -25,6 +30,10 @@ import {
     SerializedChecklistPayload,
     SerializedChoiceOption,
     SerializedChecklistItem,
+    SerializedFormPayload,
+    SerializedFormField,
+    SerializedRegExp,
+    SerializedSubflowPayload,
     ExportData,
 } from './types'
 
@@ -214,8 +223,16 @@ export class StepJSONParser {
                 )
             }
 
-            if (step.condition && options.functionHandling !== 'omit') {
-                serialized.condition = this._serializeFunction(step.condition, 'condition', step.id, options)
+            if (step.canEnter && options.functionHandling !== 'omit') {
+                serialized.canEnter = this._serializeFunction(step.canEnter, 'canEnter', step.id, options)
+            }
+
+            if (step.canLeave && options.functionHandling !== 'omit') {
+                serialized.canLeave = this._serializeFunction(step.canLeave, 'canLeave', step.id, options)
+            }
+
+            if (step.condition) {
+                serialized.condition = this._serializeCondition(step.condition, step.id, options)
             }
 
             // Handle payload
@@ -223,6 +240,32 @@ export class StepJSONParser {
                 serialized.payload = this._serializePayload(step, options, errors, warnings)
             }
 
+            // Handle section
+            if (step.section) {
+                serialized.section = step.section
+            }
+
+            // Handle feature flag
+            if (step.featureFlag) {
+                serialized.featureFlag = step.featureFlag
+            }
+
+            // Handle data schema
+            if (step.dataSchema) {
+                serialized.dataSchema = step.dataSchema
+            }
+
+            // Handle experiment
+            if (step.experiment) {
+                serialized.experiment = {
+                    id: step.experiment.id,
+                    variants: step.experiment.variants.map((variant) => ({
+                        ...variant,
+                        nextStep: this._serializeStepProperty(variant.nextStep, 'nextStep', step.id, options),
+                    })),
+                }
+            }
+
             // Handle metadata
             if (options.includeMeta && step.meta) {
                 serialized.meta = { ...step.meta }
@@ -300,6 +343,21 @@ export class StepJSONParser {
         }
     }
 
+    /**
+     * Declarative conditions are plain data and are always kept; functions follow `functionHandling`.
+     */
+    private static _serializeCondition(
+        condition: Function | ConditionExpression,
+        stepId: string | number,
+        options: StepJSONParserOptions
+    ): ConditionExpression | SerializedFunction | undefined {
+        if (typeof condition !== 'function') {
+            return JSON.parse(JSON.stringify(condition))
+        }
+        if (options.functionHandling === 'omit') return undefined
+        return this._serializeFunction(condition, 'condition', stepId, options)
+    }
+
     private static _serializePayload<TContext extends OnboardingContext>(
         step: OnboardingStep<TContext>,
         options: StepJSONParserOptions,
@@ -367,15 +425,36 @@ export class StepJSONParser {
                                 label: item.label,
                                 description: item.description,
                                 isMandatory: item.isMandatory,
-                                condition:
-                                    item.condition && options.functionHandling !== 'omit'
-                                        ? this._serializeFunction(item.condition, 'condition', step.id, options)
-                                        : undefined,
+                                condition: item.condition
+                                    ? this._serializeCondition(item.condition, step.id, options)
+                                    : undefined,
+                                featureFlag: item.featureFlag,
                                 meta: item.meta,
                             })) || [],
                     } as SerializedChecklistPayload<TContext>
                 }
 
+                case 'FORM': {
+                    const formPayload = step.payload as FormStepPayload
+                    return {
+                        ...formPayload,
+                        __payloadType: 'FORM',
+                        fields:
+                            formPayload.fields?.map((field) => this._serializeFormField(field, step.id, options)) || [],
+                    } as SerializedFormPayload
+                }
+
+                case 'SUBFLOW': {
+                    const subflowPayload = step.payload as SubflowStepPayload<TContext>
+                    return {
+                        ...subflowPayload,
+                        __payloadType: 'SUBFLOW',
+                        steps: subflowPayload.steps?.map((childStep, childIndex) =>
+                            this._serializeStep(childStep, childIndex, options, errors, warnings)
+                        ),
+                    } as SerializedSubflowPayload
+                }
+
                 default:
                     warnings.push(`Unknown step type '${stepType}' for step ${step.id}`)
                     return step.payload as any
@@ -452,15 +531,28 @@ export class StepJSONParser {
                 ) as any
             }
 
-            if (serializedStep.condition) {
-                step.condition = this._deserializeFunction(
-                    serializedStep.condition,
-                    'condition',
+            if (serializedStep.canEnter) {
+                step.canEnter = this._deserializeFunction(
+                    serializedStep.canEnter,
+                    'canEnter',
                     serializedStep.id,
                     options
                 ) as any
             }
 
+            if (serializedStep.canLeave) {
+                step.canLeave = this._deserializeFunction(
+                    serializedStep.canLeave,
+                    'canLeave',
+                    serializedStep.id,
+                    options
+                ) as any
+            }
+
+            if (serializedStep.condition) {
+                step.condition = this._deserializeCondition(serializedStep.condition, serializedStep.id, options)
+            }
+
             // Handle payload
             if (serializedStep.payload) {
                 step.payload = this._deserializePayload(
@@ -472,6 +564,37 @@ export class StepJSONParser {
                 )
             }
 
+            // Handle section
+            if (serializedStep.section) {
+                step.section = serializedStep.section
+            }
+
+            // Handle feature flag
+            if (serializedStep.featureFlag) {
+                step.featureFlag = serializedStep.featureFlag
+            }
+
+            // Handle data schema
+            if (serializedStep.dataSchema) {
+                step.dataSchema = serializedStep.dataSchema
+            }
+
+            // Handle experiment
+            if (serializedStep.experiment) {
+                step.experiment = {
+                    id: serializedStep.experiment.id,
+                    variants: serializedStep.experiment.variants.map((variant) => ({
+                        ...variant,
+                        nextStep: this._deserializeStepProperty(
+                            variant.nextStep,
+                            'nextStep',
+                            serializedStep.id,
+                            options
+                        ),
+                    })),
+                }
+            }
+
             // Handle metadata
             if (serializedStep.meta) {
                 step.meta = { ...serializedStep.meta }
@@ -512,15 +635,23 @@ export class StepJSONParser {
             return options.customFunctionDeserializer(serializedFunction.__functionBody, propertyName, stepId)
         }
 
-        try {
-            // Create function from string
-            // This is a security risk in production - consider alternatives
-            return new Function(`return ${serializedFunction.__functionBody}`)()
-        } catch (error) {
-            this._logger.warn(`Failed to deserialize function ${propertyName} for step ${stepId}:`, error)
-            // Return a no-op function as fallback
-            return () => {}
+        // Function bodies are never evaluated. Use declarative conditions and targets for flows
+        // loaded from untrusted sources, or provide a customFunctionDeserializer.
+        this._logger.warn(
+            `Cannot deserialize function ${propertyName} for step ${stepId} without a customFunctionDeserializer; using a no-op.`
+        )
+        return () => {}
+    }
+
+    private static _deserializeCondition(
+        condition: ConditionExpression | SerializedFunction,
+        stepId: string | number,
+        options: StepJSONParserOptions
+    ): any {
+        if (this._isSerializedFunction(condition)) {
+            return this._deserializeFunction(condition, 'condition', stepId, options)
         }
+        return condition
     }
 
     private static _deserializePayload(
@@ -574,16 +705,40 @@ export class StepJSONParser {
                             label: item.label,
                             description: item.description,
                             isMandatory: item.isMandatory,
-                            condition:
-                                item.condition && this._isSerializedFunction(item.condition)
-                                    ? this._deserializeFunction(item.condition, 'condition', item.id, options!)
-                                    : undefined,
+                            condition: item.condition
+                                ? this._deserializeCondition(item.condition, item.id, options!)
+                                : undefined,
+                            featureFlag: item.featureFlag,
                             meta: item.meta,
                         }))
                     }
                     return checklistPayload
                 }
 
+                case 'FORM': {
+                    const formPayload = { ...serializedPayload } as any
+                    delete formPayload.__payloadType
+                    if (formPayload.fields) {
+                        formPayload.fields = formPayload.fields.map((field: SerializedFormField) =>
+                            this._deserializeFormField(field, options!)
+                        )
+                    }
+                    return formPayload
+                }
+
+                case 'SUBFLOW': {
+                    const subflowPayload = { ...serializedPayload } as any
+                    delete subflowPayload.__payloadType
+                    if (subflowPayload.steps) {
+                        subflowPayload.steps = subflowPayload.steps
+                            .map((childStep: SerializedStep, childIndex: number) =>
+                                this._deserializeStep(childStep, childIndex, options!, errors ?? [], warnings ?? [])
+                            )
+                            .filter((childStep: OnboardingStep | null) => childStep !== null)
+                    }
+                    return subflowPayload
+                }
+
                 default:
                     warnings?.push(`Unknown payload type '${payloadType}'`)
                     return serializedPayload
@@ -596,10 +751,64 @@ export class StepJSONParser {
         }
     }
 
+    private static _serializeFormField(
+        field: FormField,
+        stepId: string | number,
+        options: StepJSONParserOptions
+    ): SerializedFormField {
+        if (!field.validation) {
+            return { ...field } as SerializedFormField
+        }
+
+        const { pattern, custom, ...rules } = field.validation
+        return {
+            ...field,
+            validation: {
+                ...rules,
+                pattern: pattern
+                    ? {
+                          value: { __isRegExp: true, source: pattern.value.source, flags: pattern.value.flags },
+                          message: pattern.message,
+                      }
+                    : undefined,
+                custom:
+                    custom && options.functionHandling !== 'omit'
+                        ? this._serializeFunction(custom, 'custom', stepId, options)
+                        : undefined,
+            },
+        }
+    }
+
+    private static _deserializeFormField(field: SerializedFormField, options: StepJSONParserOptions): FormField {
+        if (!field.validation) {
+            return { ...field } as FormField
+        }
+
+        const { pattern, custom, ...rules } = field.validation
+        return {
+            ...field,
+            validation: {
+                ...rules,
+                pattern:
+                    pattern && this._isSerializedRegExp(pattern.value)
+                        ? { value: new RegExp(pattern.value.source, pattern.value.flags), message: pattern.message }
+                        : undefined,
+                custom:
+                    custom && this._isSerializedFunction(custom)
+                        ? (this._deserializeFunction(custom, 'custom', field.id, options) as any)
+                        : undefined,
+            },
+        }
+    }
+
     private static _isSerializedFunction(obj: any): obj is SerializedFunction {
         return obj && typeof obj === 'object' && obj.__isFunction === true
     }
 
+    private static _isSerializedRegExp(obj: any): obj is SerializedRegExp {
+        return obj && typeof obj === 'object' && obj.__isRegExp === true
+    }
+
     private static _extractFunctionParameters(functionString: string): string[] {
         try {
             const match = functionString.match(/\(([^)]*)\)/)
@@ -622,11 +831,19 @@ export class StepJSONParser {
                 typeof (step as any).skipToStep === 'function' ||
                 typeof step.onStepActive === 'function' ||
                 typeof step.onStepComplete === 'function' ||
+                typeof step.canEnter === 'function' ||
+                typeof step.canLeave === 'function' ||
                 typeof step.condition === 'function' ||
                 (step.type === 'CHECKLIST' &&
                     (step.payload as ChecklistStepPayload<TContext>)?.items?.some(
                         (item) => typeof item.condition === 'function'
-                    ))
+                    )) ||
+                (step.type === 'FORM' &&
+                    (step.payload as FormStepPayload)?.fields?.some(
+                        (field) => typeof field.validation?.custom === 'function'
+                    )) ||
+                (step.type === 'SUBFLOW' &&
+                    this._hasAnyFunctions((step.payload as SubflowStepPayload<TContext>)?.steps ?? []))
         )
     }
 
@@ -663,12 +880,17 @@ export class StepJSONParser {
                 'CONFIRMATION',
                 'CUSTOM_COMPONENT',
                 'CHECKLIST',
+                'FORM',
+                'SUBFLOW',
             ]
 
             if (step.type && !validTypes.includes(step.type)) {
                 warnings.push(`Step '${step.id}' has unknown type '${step.type}'`)
             }
 
+            // Validate declarative conditions and navigation targets
+            this._validateDeclarativeProperties(step, errors)
+
             // Validate payload based on type
             this._validateStepPayload(step, errors, warnings)
         })
@@ -676,6 +898,22 @@ export class StepJSONParser {
         return { errors, warnings }
     }
 
+    private static _validateDeclarativeProperties<TContext extends OnboardingContext>(
+        step: OnboardingStep<TContext>,
+        errors: string[]
+    ): void {
+        if (step.condition && typeof step.condition !== 'function' && !isConditionExpression(step.condition)) {
+            errors.push(`Step '${step.id}' has an invalid declarative condition`)
+        }
+
+        const targets = { nextStep: step.nextStep, previousStep: step.previousStep, skipToStep: step.skipToStep }
+        Object.entries(targets).forEach(([propertyName, target]) => {
+            if (target && typeof target === 'object' && !isConditionalStepTarget(target)) {
+                errors.push(`Step '${step.id}' has an invalid declarative '${propertyName}'`)
+            }
+        })
+    }
+
     private static _validateStepPayload<TContext extends OnboardingContext>(
         step: OnboardingStep<TContext>,
         errors: string[],
@@ -717,6 +955,40 @@ export class StepJSONParser {
                 break
             }
 
+            case 'FORM': {
+                const formPayload = step.payload as FormStepPayload
+                if (!formPayload.fields || !Array.isArray(formPayload.fields) || formPayload.fields.length === 0) {
+                    errors.push(`Step '${step.id}' of type 'FORM' must have non-empty fields array`)
+                    break
+                }
+                const fieldNames = new Set<string>()
+                formPayload.fields.forEach((field, fieldIndex) => {
+                    if (!field.id || !field.name) {
+                        errors.push(`Field at index ${fieldIndex} in step '${step.id}' must have id and name`)
+                        return
+                    }
+                    if (fieldNames.has(field.name)) {
+                        errors.push(`Step '${step.id}' has duplicate field name '${field.name}'`)
+                    }
+                    fieldNames.add(field.name)
+                })
+                break
+            }
+
+            case 'SUBFLOW': {
+                const subflowPayload = step.payload as SubflowStepPayload<TContext>
+                if (!subflowPayload.steps && !subflowPayload.flowId) {
+                    errors.push(`Step '${step.id}' of type 'SUBFLOW' must have steps or a flowId`)
+                    break
+                }
+                if (subflowPayload.steps) {
+                    const childResult = this._validateSteps(subflowPayload.steps)
+                    errors.push(...childResult.errors.map((error) => `Subflow '${step.id}': ${error}`))
+                    warnings.push(...childResult.warnings.map((warning) => `Subflow '${step.id}': ${warning}`))
+                }
+                break
+            }
+
             case 'CUSTOM_COMPONENT': {
                 const customPayload = step.payload as CustomComponentStepPayload
                 if (!customPayload.componentKey) {
@@ -878,6 +1150,8 @@ export namespace StepJSONParserUtils {
                         StepJSONParser['_isSerializedFunction'](step.skipToStep) ||
                         StepJSONParser['_isSerializedFunction'](step.onStepActive) ||
                         StepJSONParser['_isSerializedFunction'](step.onStepComplete) ||
+                        StepJSONParser['_isSerializedFunction'](step.canEnter) ||
+                        StepJSONParser['_isSerializedFunction'](step.canLeave) ||
                         StepJSONParser['_isSerializedFunction'](step.condition)
                 )
             )
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { TypeScriptExporter } from './TypeScriptExporter'
+import { OnboardingStep } from '../types'
+
+const steps: OnboardingStep[] = [
+    {
+        id: 'welcome',
+        type: 'INFORMATION',
+        payload: { title: "It's\nhere" },
+        nextStep: (context) => context.flowData.nextStepId,
+    },
+    {
+        id: 'billing',
+        type: 'CHECKLIST',
+        condition: { logic: 'AND', rules: [{ field: 'plan', operator: 'equals', value: 'pro' }] },
+        payload: {
+            dataKey: 'billing',
+            items: [{ id: 'card', label: 'Add a card', meta: { 'data-test': true } }],
+        },
+    },
+]
+
+describe('TypeScriptExporter', () => {
+    it('hoists functions and writes the steps array', () => {
+        const result = TypeScriptExporter.exportToTypeScript(steps, {
+            includeComments: false,
+            includeImports: true,
+            includeTypes: true,
+            variableName: 'steps',
+        })
+
+        expect(result).toMatchObject({ success: true, errors: [], warnings: [] })
+        expect(result.code).toBe(
+            [
+                "import type { OnboardingStep } from '@onboardjs/core'",
+                '',
+                'const step0NextStep = (context) => context.flowData.nextStepId',
+                '',
+                'export const steps: OnboardingStep[] = [',
+                '  {',
+                "    id: 'welcome',",
+                "    type: 'INFORMATION',",
+                '    nextStep: step0NextStep,',
+                '    payload: {',
+                "      title: 'It\\'s\\nhere',",
+                '    },',
+                '  },',
+                '  {',
+                "    id: 'billing',",
+                "    type: 'CHECKLIST',",
+                '    condition: {',
+                "      logic: 'AND',",
+                '      rules: [',
+                '        {',
+                "          field: 'plan',",
+                "          operator: 'equals',",
+                "          value: 'pro',",
+                '        },',
+                '      ],',
+                '    },',
+                '    payload: {',
+                "      dataKey: 'billing',",
+                '      items: [',
+                '        {',
+                "          id: 'card',",
+                "          label: 'Add a card',",
+                '          meta: {',
+                "            'data-test': true,",
+                '          },',
+                '        },',
+                '      ],',
+                '    },',
+                '  },',
+                ']',
+                '',
+            ].join('\n')
+        )
+    })
+
+    it('writes functions inline and warns about empty flows', () => {
+        const inline = TypeScriptExporter.exportToTypeScript(steps, { inlineFunctions: true })
+        expect(inline.code).toContain('nextStep: (context) => context.flowData.nextStepId,')
+        expect(inline.code).toContain('// Step 2: billing')
+
+        const empty = TypeScriptExporter.exportToTypeScript([])
+        expect(empty.warnings).toEqual(['No steps provided for export'])
+        expect(empty.code).toContain('export const onboardingSteps = [\n]')
+    })
+
+    it('appends a duplicate ID check when asked to', () => {
+        const result = TypeScriptExporter.exportToTypeScript([{ id: 'welcome' }], {
+            includeComments: false,
+            includeTypes: true,
+            includeValidation: true,
+            variableName: 'steps',
+        })
+
+        expect(result.code).toContain(
+            [
+                ']',
+                '',
+                'export function validateSteps(): { isValid: boolean; errors: string[] } {',
+                '  const errors: string[] = []',
+                '  const ids = new Set()',
+                '  steps.forEach((step) => {',
+                '    if (ids.has(step.id)) {',
+                '      errors.push(`Duplicate step ID: ${step.id}`)',
+                '    }',
+                '    ids.add(step.id)',
+                '  })',
+                '  return { isValid: errors.length === 0, errors }',
+                '}',
+                '',
+            ].join('\n')
+        )
+    })
+})
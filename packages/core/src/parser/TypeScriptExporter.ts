@@ -0,0 +1,254 @@
+// @onboardjs/core/src/parser/TypeScriptExporter.ts
+// Generates TypeScript source for a steps array. Used by the CLI and the visualizer.
+
+import { OnboardingContext, OnboardingStep } from '../types'
+
+export interface TypeScriptExportOptions {
+    /** Whether to include imports at the top */
+    includeImports: boolean
+    /** Whether to include type annotations */
+    includeTypes: boolean
+    /** Whether to export as const assertion */
+    useConstAssertion: boolean
+    /** Variable name for the exported steps */
+    variableName: string
+    /** Whether to include comments */
+    includeComments: boolean
+    /** Whether to format functions inline or as separate variables */
+    inlineFunctions: boolean
+    /** Indentation style */
+    indentation: 'spaces' | 'tabs'
+    /** Number of spaces for indentation (if using spaces) */
+    spacesCount: 2 | 4
+    /** Whether to include a function that checks the exported steps for duplicate IDs */
+    includeValidation: boolean
+}
+
+export interface TypeScriptExportResult {
+    success: boolean
+    code?: string
+    errors: string[]
+    warnings: string[]
+}
+
+// Step properties in the order they are written
+const STEP_PROPERTIES = [
+    'type',
+    'section',
+    'nextStep',
+    'previousStep',
+    'isSkippable',
+    'skipToStep',
+    'condition',
+    'canEnter',
+    'canLeave',
+    'onStepActive',
+    'onStepComplete',
+    'featureFlag',
+    'experiment',
+    'dataSchema',
+    'payload',
+    'meta',
+] as const
+
+// Function names, by property, for functions that are hoisted out of the steps array
+const FUNCTION_SUFFIXES: Record<string, string> = {
+    nextStep: 'NextStep',
+    previousStep: 'PreviousStep',
+    skipToStep: 'SkipToStep',
+    condition: 'Condition',
+    canEnter: 'CanEnter',
+    canLeave: 'CanLeave',
+    onStepActive: 'OnActive',
+    onStepComplete: 'OnComplete',
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+export class TypeScriptExporter {
+    private static readonly _DEFAULT_OPTIONS: TypeScriptExportOptions = {
+        includeImports: false,
+        includeTypes: false,
+        useConstAssertion: false,
+        variableName: 'onboardingSteps',
+        includeComments: true,
+        inlineFunctions: false,
+        indentation: 'spaces',
+        spacesCount: 2,
+        includeValidation: false,
+    }
+
+    /**
+     * Generate a TypeScript module that exports the steps. Functions are written from their source,
+     * so the generated code only runs if that source is valid in the target file.
+     */
+    static exportToTypeScript<TContext extends OnboardingContext = OnboardingContext>(
+        steps: OnboardingStep<TContext>[],
+        options: Partial<TypeScriptExportOptions> = {}
+    ): TypeScriptExportResult {
+        const opts = { ...this._DEFAULT_OPTIONS, ...options }
+        const errors: string[] = []
+        const warnings: string[] = []
+
+        if (!steps || steps.length === 0) {
+            warnings.push('No steps provided for export')
+        }
+
+        try {
+            const indent = opts.indentation === 'spaces' ? ' '.repeat(opts.spacesCount) : '\t'
+            const functions: string[] = []
+            const stepLines: string[] = []
+
+            ;(steps ?? []).forEach((step, stepIndex) => {
+                try {
+                    stepLines.push(...this._generateStepObject(step, stepIndex, opts, indent, functions))
+                    stepLines[stepLines.length - 1] += ','
+                } catch (error) {
+                    errors.push(
+                        `Failed to generate step '${step.id}': ${error instanceof Error ? error.message : String(error)}`
+                    )
+                }
+            })
+
+            const codeLines: string[] = []
+
+            if (opts.includeComments) {
+                codeLines.push('// Generated by OnboardJS', `// Total Steps: ${steps?.length ?? 0}`, '')
+            }
+
+            if (opts.includeImports && opts.includeTypes) {
+                codeLines.push(`import type { OnboardingStep } from '@onboardjs/core'`, '')
+            }
+
+            // Each function definition is followed by a blank line
+            codeLines.push(...functions)
+
+            const typeAnnotation = opts.includeTypes ? ': OnboardingStep[]' : ''
+            const constAssertion = opts.useConstAssertion ? ' as const' : ''
+            codeLines.push(`export const ${opts.variableName}${typeAnnotation} = [`, ...stepLines, `]${constAssertion}`)
+
+            if (opts.includeValidation) {
+                codeLines.push('', ...this._generateValidationHelper(opts, indent))
+            }
+
+            return {
+                success: errors.length === 0,
+                code: codeLines.join('\n') + '\n',
+                errors,
+                warnings,
+            }
+        } catch (error) {
+            errors.push(`TypeScript export failed: ${error instanceof Error ? error.message : String(error)}`)
+            return {
+                success: false,
+                errors,
+                warnings,
+            }
+        }
+    }
+
+    private static _generateStepObject<TContext extends OnboardingContext>(
+        step: OnboardingStep<TContext>,
+        stepIndex: number,
+        options: TypeScriptExportOptions,
+        indent: string,
+        functions: string[]
+    ): string[] {
+        const lines: string[] = []
+        const propIndent = indent + indent
+
+        if (options.includeComments) {
+            if (stepIndex > 0) {
+                lines.push('')
+            }
+            lines.push(`${indent}// Step ${stepIndex + 1}: ${step.id}`)
+        }
+
+        lines.push(`${indent}{`)
+        lines.push(`${propIndent}id: ${this._formatValue(step.id, propIndent, indent)},`)
+
+        STEP_PROPERTIES.forEach((property) => {
+            const value = (step as Record<string, unknown>)[property]
+            if (value === undefined) {
+                return
+            }
+
+            if (typeof value === 'function') {
+                if (options.inlineFunctions) {
+                    lines.push(`${propIndent}${property}: ${this._formatFunction(value)},`)
+                    return
+                }
+                const functionName = `step${stepIndex}${FUNCTION_SUFFIXES[property] ?? property}`
+                if (options.includeComments) {
+                    functions.push(`// ${property} for step '${step.id}'`)
+                }
+                functions.push(`const ${functionName} = ${this._formatFunction(value)}`, '')
+                lines.push(`${propIndent}${property}: ${functionName},`)
+                return
+            }
+
+            lines.push(`${propIndent}${property}: ${this._formatValue(value, propIndent, indent)},`)
+        })
+
+        lines.push(`${indent}}`)
+        return lines
+    }
+
+    private static _generateValidationHelper(options: TypeScriptExportOptions, indent: string): string[] {
+        const name = `validate${options.variableName.charAt(0).toUpperCase()}${options.variableName.slice(1)}`
+        const returnType = options.includeTypes ? ': { isValid: boolean; errors: string[] }' : ''
+        const errorsType = options.includeTypes ? ': string[]' : ''
+
+        return [
+            ...(options.includeComments ? ['// Check the steps for duplicate IDs'] : []),
+            `export function ${name}()${returnType} {`,
+            `${indent}const errors${errorsType} = []`,
+            `${indent}const ids = new Set()`,
+            `${indent}${options.variableName}.forEach((step) => {`,
+            `${indent}${indent}if (ids.has(step.id)) {`,
+            `${indent}${indent}${indent}errors.push(\`Duplicate step ID: \${step.id}\`)`,
+            `${indent}${indent}}`,
+            `${indent}${indent}ids.add(step.id)`,
+            `${indent}})`,
+            `${indent}return { isValid: errors.length === 0, errors }`,
+            '}',
+        ]
+    }
+
+    private static _formatFunction(fn: Function): string {
+        const functionString = fn.toString()
+
+        // Convert regular functions to arrow functions for cleaner syntax
+        const match = functionString.match(/^(async\s+)?function[^(]*\(([^)]*)\)\s*{([\s\S]*)}$/)
+        if (match) {
+            return `${match[1] ?? ''}(${match[2]}) => {${match[3]}}`
+        }
+
+        return functionString
+    }
+
+    private static _formatValue(value: unknown, indent: string, unit: string): string {
+        if (value === null) return 'null'
+        if (value === undefined) return 'undefined'
+        if (typeof value === 'string') {
+            return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+        }
+        if (typeof value === 'function') return this._formatFunction(value)
+        if (value instanceof RegExp) return value.toString()
+        if (Array.isArray(value)) {
+            if (value.length === 0) return '[]'
+            const items = value.map((item) => `${indent}${unit}${this._formatValue(item, indent + unit, unit)},`)
+            return `[\n${items.join('\n')}\n${indent}]`
+        }
+        if (typeof value === 'object') {
+            const entries = Object.entries(value).filter(([key, item]) => item !== undefined && key !== '__payloadType')
+            if (entries.length === 0) return '{}'
+            const props = entries.map(
+                ([key, item]) =>
+                    `${indent}${unit}${IDENTIFIER.test(key) ? key : this._formatValue(key, '', unit)}: ${this._formatValue(item, indent + unit, unit)},`
+            )
+            return `{\n${props.join('\n')}\n${indent}}`
+        }
+        return String(value)
+    }
+}
@@ -1,2 +1,3 @@
 export * from './StepJSONParser'
 export * from './types'
+export * from './TypeScriptExporter'
@@ -8,6 +8,15 @@ import {
     OnboardingContext,
     ChecklistStepPayload,
     ChoiceOption,
+    FormStepPayload,
+    FormField,
+    SubflowStepPayload,
+    FormFieldValidation,
+    ConditionExpression,
+    StepVariant,
+    ConditionalStepTarget,
+    FeatureFlagRequirement,
+    JSONSchema,
 } from '../types'
 
 export interface StepJSONParserOptions {
@@ -67,10 +76,10 @@ export interface SerializedStep {
     id: string | number
     type?: OnboardingStepType
 
-    // Navigation properties (can be functions serialized as strings)
-    nextStep?: string | number | null | SerializedFunction
-    previousStep?: string | number | null | SerializedFunction
-    skipToStep?: string | number | null | SerializedFunction
+    // Navigation properties (declarative targets, or functions serialized as strings)
+    nextStep?: string | number | null | ConditionalStepTarget | SerializedFunction
+    previousStep?: string | number | null | ConditionalStepTarget | SerializedFunction
+    skipToStep?: string | number | null | ConditionalStepTarget | SerializedFunction
 
     // Boolean properties
     isSkippable?: boolean
@@ -78,10 +87,23 @@ export interface SerializedStep {
     // Function properties
     onStepActive?: SerializedFunction
     onStepComplete?: SerializedFunction
-    condition?: SerializedFunction
+    canEnter?: SerializedFunction
+    canLeave?: SerializedFunction
+    condition?: ConditionExpression | SerializedFunction
 
     // Payload and metadata
     payload?: SerializedPayload
+    section?: string
+    featureFlag?: FeatureFlagRequirement
+    dataSchema?: JSONSchema
+    experiment?: {
+        id: string
+        variants: Array<
+            Omit<StepVariant, 'nextStep'> & {
+                nextStep?: string | number | null | ConditionalStepTarget | SerializedFunction
+            }
+        >
+    }
     meta?: Record<string, any>
 
     // Type preservation
@@ -103,6 +125,8 @@ export type SerializedPayload =
     | SerializedConfirmationPayload
     | SerializedCustomComponentPayload
     | SerializedChecklistPayload
+    | SerializedFormPayload
+    | SerializedSubflowPayload
 
 export interface SerializedInformationPayload extends InformationStepPayload {
     __payloadType: 'INFORMATION'
@@ -134,6 +158,16 @@ export interface SerializedChecklistPayload<TContext extends OnboardingContext =
     items: SerializedChecklistItem[]
 }
 
+export interface SerializedFormPayload extends Omit<FormStepPayload, 'fields'> {
+    __payloadType: 'FORM'
+    fields: SerializedFormField[]
+}
+
+export interface SerializedSubflowPayload extends Omit<SubflowStepPayload, 'steps'> {
+    __payloadType: 'SUBFLOW'
+    steps?: SerializedStep[]
+}
+
 export interface SerializedChoiceOption extends Omit<ChoiceOption, 'value'> {
     value: string | number
 }
@@ -143,10 +177,26 @@ export interface SerializedChecklistItem {
     label: string
     description?: string
     isMandatory?: boolean
-    condition?: SerializedFunction
+    condition?: ConditionExpression | SerializedFunction
+    featureFlag?: FeatureFlagRequirement
     meta?: Record<string, unknown>
 }
 
+export interface SerializedFormField extends Omit<FormField, 'validation'> {
+    validation?: SerializedFormFieldValidation
+}
+
+export interface SerializedFormFieldValidation extends Omit<FormFieldValidation, 'pattern' | 'custom'> {
+    pattern?: { value: SerializedRegExp; message: string }
+    custom?: SerializedFunction
+}
+
+export interface SerializedRegExp {
+    __isRegExp: true
+    source: string
+    flags: string
+}
+
 export interface StepJSONSchema {
     version: string
     steps: SerializedStep[]
@@ -13,6 +13,7 @@ const mockEngine = {
     addFlowCompletedListener: vi.fn(() => vi.fn()),
     addContextUpdateListener: vi.fn(() => vi.fn()),
     addErrorListener: vi.fn(() => vi.fn()),
+    useNavigationMiddleware: vi.fn(() => vi.fn()),
 } as unknown as OnboardingEngine<OnboardingContext>
 
 interface TestConfig extends PluginConfig {
@@ -278,6 +279,19 @@ describe('BasePlugin', () => {
             expect(unsubscribeFunctions).toHaveLength(1)
             expect(unsubscribeFunctions).toContain(unsubActive)
         })
+
+        it('should register navigation middleware and remove it on cleanup', async () => {
+            const middleware = vi.fn()
+            plugin.hooksToReturn = { navigationMiddleware: middleware }
+            const removeMiddleware = vi.fn()
+            vi.mocked(mockEngine.useNavigationMiddleware).mockReturnValue(removeMiddleware)
+
+            const cleanup = await plugin.install(mockEngine)
+            expect(mockEngine.useNavigationMiddleware).toHaveBeenCalledWith(middleware)
+
+            await cleanup()
+            expect(removeMiddleware).toHaveBeenCalledTimes(1)
+        })
     })
 
     describe('Lifecycle: onInstall, onUninstall (as implemented by TestableBasePlugin)', () => {
@@ -62,16 +62,21 @@ export abstract class BasePlugin<
             onNavigationBack: 'addEventListener',
             onNavigationForward: 'addEventListener',
             onNavigationJump: 'addEventListener',
+            onNavigationDenied: 'addEventListener',
+            onExperimentExposed: 'addEventListener',
             onUserIdle: 'addEventListener',
             onUserReturned: 'addEventListener',
             onDataChanged: 'addEventListener',
             onStepRenderTime: 'addEventListener',
             onPersistenceSuccess: 'addEventListener',
             onPersistenceFailure: 'addEventListener',
+            onPersistenceExpired: 'addEventListener',
+            onCrossTabConflict: 'addEventListener',
             onChecklistItemToggled: 'addEventListener',
             onChecklistProgressChanged: 'addEventListener',
             onPluginInstalled: 'addEventListener',
             onPluginError: 'addEventListener',
+            navigationMiddleware: 'useNavigationMiddleware',
         }
 
         for (const [hookName, handler] of Object.entries(hooks)) {
@@ -22,16 +22,21 @@ import {
     NavigationBackEvent,
     NavigationForwardEvent,
     NavigationJumpEvent,
+    NavigationDeniedEvent,
+    ExperimentExposedEvent,
     UserIdleEvent,
     UserReturnedEvent,
     DataChangedEvent,
     StepRenderTimeEvent,
     PersistenceSuccessEvent,
     PersistenceFailureEvent,
+    PersistenceExpiredEvent,
+    CrossTabConflictEvent,
     ChecklistItemToggledEvent,
     ChecklistProgressChangedEvent,
     PluginInstalledEvent,
     PluginErrorEvent,
+    NavigationMiddleware,
 } from '../engine/types'
 import { OnboardingContext, OnboardingStep } from '../types'
 
@@ -126,6 +131,12 @@ export interface PluginHooks<TContext extends OnboardingContext = OnboardingCont
     /** Called on navigation jump */
     onNavigationJump?: (event: NavigationJumpEvent<TContext>) => void | Promise<void>
 
+    /** Called when a step guard denies navigation */
+    onNavigationDenied?: (event: NavigationDeniedEvent<TContext>) => void | Promise<void>
+
+    /** Called when the user is first exposed to an experiment variant */
+    onExperimentExposed?: (event: ExperimentExposedEvent<TContext>) => void | Promise<void>
+
     /** Called when user is idle */
     onUserIdle?: (event: UserIdleEvent<TContext>) => void | Promise<void>
 
@@ -144,6 +155,12 @@ export interface PluginHooks<TContext extends OnboardingContext = OnboardingCont
     /** Called on persistence failure */
     onPersistenceFailure?: (event: PersistenceFailureEvent<TContext>) => void | Promise<void>
 
+    /** Called when persisted data has expired */
+    onPersistenceExpired?: (event: PersistenceExpiredEvent<TContext>) => void | Promise<void>
+
+    /** Called when another tab changed the state at the same time as this one */
+    onCrossTabConflict?: (event: CrossTabConflictEvent<TContext>) => void | Promise<void>
+
     /** Called when a checklist item is toggled */
     onChecklistItemToggled?: (event: ChecklistItemToggledEvent<TContext>) => void | Promise<void>
 
@@ -155,6 +172,9 @@ export interface PluginHooks<TContext extends OnboardingContext = OnboardingCont
 
     /** Called on plugin error */
     onPluginError?: (event: PluginErrorEvent<TContext>) => void | Promise<void>
+
+    /** Navigation middleware, removed when the plugin is uninstalled */
+    navigationMiddleware?: NavigationMiddleware<TContext>
 }
 
 export interface PluginConfig {
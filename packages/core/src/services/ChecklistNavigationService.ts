@@ -6,6 +6,7 @@ import { Logger } from './Logger'
 import { OnboardingContext, OnboardingStep, ChecklistStepPayload, ChecklistItemState } from '../types'
 import { ErrorHandler } from '../engine/ErrorHandler'
 import { EventManager } from '../engine/EventManager'
+import { evaluateStepCondition } from '../utils/step-utils'
 
 /**
  * Checklist progress information
@@ -77,7 +78,7 @@ export class ChecklistNavigationService<TContext extends OnboardingContext = Onb
         let completedItems = 0
 
         for (const def of itemDefinitions) {
-            if (def.condition && !def.condition(context)) {
+            if (!evaluateStepCondition(def.condition, context)) {
                 continue
             }
 
@@ -144,7 +145,7 @@ export class ChecklistNavigationService<TContext extends OnboardingContext = Onb
         let mandatoryPending = 0
 
         for (const def of itemDefinitions) {
-            if (def.condition && !def.condition(context)) {
+            if (!evaluateStepCondition(def.condition, context)) {
                 continue
             }
 
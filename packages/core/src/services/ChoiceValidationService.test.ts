@@ -0,0 +1,97 @@
+// src/services/ChoiceValidationService.test.ts
+// Tests for SINGLE_CHOICE / MULTIPLE_CHOICE constraint enforcement
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { ChoiceValidationService } from './ChoiceValidationService'
+import { Logger } from './Logger'
+import type { OnboardingContext, OnboardingStep } from '../types'
+
+const options = [
+    { id: 'a', label: 'A', value: 'a' },
+    { id: 'b', label: 'B', value: 'b' },
+    { id: 'c', label: 'C', value: 'c' },
+]
+
+function createContext(flowData: Record<string, any> = {}): OnboardingContext {
+    return { flowData }
+}
+
+describe('ChoiceValidationService', () => {
+    let service: ChoiceValidationService<OnboardingContext>
+
+    beforeEach(() => {
+        const logger = new Logger({ prefix: 'ChoiceValidationService' })
+        vi.spyOn(logger, 'debug').mockImplementation(() => {})
+        service = new ChoiceValidationService(logger)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should not validate steps without a dataKey', () => {
+        const step: OnboardingStep = { id: 'choice', type: 'SINGLE_CHOICE', payload: { options } }
+        expect(service.validate(step, { anything: 'x' }, createContext())).toEqual([])
+    })
+
+    it('should ignore non-choice steps', () => {
+        const step: OnboardingStep = { id: 'info', type: 'INFORMATION', payload: { dataKey: 'x' } }
+        expect(service.validate(step, { x: 'nope' }, createContext())).toEqual([])
+    })
+
+    describe('SINGLE_CHOICE', () => {
+        const step: OnboardingStep = { id: 'role', type: 'SINGLE_CHOICE', payload: { options, dataKey: 'role' } }
+
+        it('should accept a value from the options', () => {
+            expect(service.validate(step, { role: 'b' }, createContext())).toEqual([])
+        })
+
+        it('should accept a missing selection', () => {
+            expect(service.validate(step, {}, createContext())).toEqual([])
+        })
+
+        it('should reject a value not in the options', () => {
+            expect(service.validate(step, { role: 'z' }, createContext())).toEqual([
+                { stepId: 'role', key: 'role', rule: 'invalidOption', message: "'z' is not a valid option" },
+            ])
+        })
+
+        it('should fall back to the value stored in flowData', () => {
+            const errors = service.validate(step, undefined, createContext({ role: 'z' }))
+            expect(errors[0]?.rule).toBe('invalidOption')
+        })
+    })
+
+    describe('MULTIPLE_CHOICE', () => {
+        const step: OnboardingStep = {
+            id: 'tools',
+            type: 'MULTIPLE_CHOICE',
+            payload: { options, dataKey: 'tools', minSelections: 1, maxSelections: 2 },
+        }
+
+        it('should accept a selection within bounds', () => {
+            expect(service.validate(step, { tools: ['a', 'c'] }, createContext())).toEqual([])
+        })
+
+        it('should enforce minSelections, treating a missing selection as empty', () => {
+            expect(service.validate(step, {}, createContext()).map((e) => e.rule)).toEqual(['minSelections'])
+        })
+
+        it('should enforce maxSelections', () => {
+            expect(service.validate(step, { tools: ['a', 'b', 'c'] }, createContext()).map((e) => e.rule)).toEqual([
+                'maxSelections',
+            ])
+        })
+
+        it('should report every value not in the options', () => {
+            const errors = service.validate(step, { tools: ['a', 'x', 'y'] }, createContext())
+            expect(errors.map((e) => e.rule)).toEqual(['invalidOption', 'invalidOption', 'maxSelections'])
+        })
+
+        it('should reject a selection that is not an array', () => {
+            expect(service.validate(step, { tools: 'a' }, createContext())).toEqual([
+                { stepId: 'tools', key: 'tools', rule: 'invalidType', message: 'Selection must be an array of values' },
+            ])
+        })
+    })
+})
@@ -0,0 +1,133 @@
+// src/services/ChoiceValidationService.ts
+// Enforces SINGLE_CHOICE and MULTIPLE_CHOICE payload constraints before navigation proceeds.
+
+import { Logger } from './Logger'
+import { OnboardingContext, OnboardingStep, MultipleChoiceStepPayload, SingleChoiceStepPayload } from '../types'
+import { StepDataValidationError } from '../engine/types'
+
+/**
+ * ChoiceValidationService validates the selection stored under a choice step's `dataKey`.
+ * Responsible for:
+ * - Checking that selected values are present in the step's options
+ * - Enforcing minSelections / maxSelections for MULTIPLE_CHOICE steps
+ */
+export class ChoiceValidationService<TContext extends OnboardingContext = OnboardingContext> {
+    private readonly _logger: Logger
+
+    constructor(logger?: Logger) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'ChoiceValidationService' })
+    }
+
+    /**
+     * Validate the selection for a choice step. Steps without a `dataKey` are not validated,
+     * since the engine cannot know where their selection is stored.
+     * Values present in `stepData` take precedence over values already stored in `flowData`.
+     */
+    validate(
+        step: OnboardingStep<TContext>,
+        stepData: Record<string, any> | undefined,
+        context: TContext
+    ): StepDataValidationError[] {
+        if (step.type !== 'SINGLE_CHOICE' && step.type !== 'MULTIPLE_CHOICE') {
+            return []
+        }
+
+        const payload = step.payload as SingleChoiceStepPayload | MultipleChoiceStepPayload
+        const dataKey = payload?.dataKey
+        if (!dataKey) {
+            return []
+        }
+
+        const value = stepData && dataKey in stepData ? stepData[dataKey] : context.flowData[dataKey]
+        const errors =
+            step.type === 'SINGLE_CHOICE'
+                ? this._validateSingle(step.id, dataKey, payload, value)
+                : this._validateMultiple(step.id, dataKey, payload as MultipleChoiceStepPayload, value)
+
+        if (errors.length > 0) {
+            this._logger.debug(
+                `[ChoiceValidationService] Step '${step.id}' failed validation: ${errors.map((e) => e.rule).join(', ')}`
+            )
+        }
+
+        return errors
+    }
+
+    // =========================================================================
+    // Private Methods
+    // =========================================================================
+
+    private _validateSingle(
+        stepId: string | number,
+        dataKey: string,
+        payload: SingleChoiceStepPayload,
+        value: unknown
+    ): StepDataValidationError[] {
+        if (value === undefined || value === null) {
+            return []
+        }
+
+        if (!this._isOption(payload, value)) {
+            return [
+                {
+                    stepId,
+                    key: dataKey,
+                    rule: 'invalidOption',
+                    message: `'${String(value)}' is not a valid option`,
+                },
+            ]
+        }
+
+        return []
+    }
+
+    private _validateMultiple(
+        stepId: string | number,
+        dataKey: string,
+        payload: MultipleChoiceStepPayload,
+        value: unknown
+    ): StepDataValidationError[] {
+        const selected = value === undefined || value === null ? [] : value
+
+        if (!Array.isArray(selected)) {
+            return [{ stepId, key: dataKey, rule: 'invalidType', message: 'Selection must be an array of values' }]
+        }
+
+        const errors: StepDataValidationError[] = []
+
+        selected
+            .filter((item) => !this._isOption(payload, item))
+            .forEach((item) => {
+                errors.push({
+                    stepId,
+                    key: dataKey,
+                    rule: 'invalidOption',
+                    message: `'${String(item)}' is not a valid option`,
+                })
+            })
+
+        if (payload.minSelections !== undefined && selected.length < payload.minSelections) {
+            errors.push({
+                stepId,
+                key: dataKey,
+                rule: 'minSelections',
+                message: `Select at least ${payload.minSelections} option(s)`,
+            })
+        }
+
+        if (payload.maxSelections !== undefined && selected.length > payload.maxSelections) {
+            errors.push({
+                stepId,
+                key: dataKey,
+                rule: 'maxSelections',
+                message: `Select at most ${payload.maxSelections} option(s)`,
+            })
+        }
+
+        return errors
+    }
+
+    private _isOption(payload: SingleChoiceStepPayload | MultipleChoiceStepPayload, value: unknown): boolean {
+        return (payload.options || []).some((option) => option.value === value)
+    }
+}
@@ -3,10 +3,11 @@
 // This is the consolidated service replacing StateManager with a cleaner interface.
 
 import { OnboardingContext, OnboardingStep } from '../types'
-import { evaluateStepId, findStepById } from '../utils/step-utils'
+import { evaluateStepId, findStepById, evaluateStepCondition } from '../utils/step-utils'
 import { EventManager } from '../engine/EventManager'
 import { Logger } from './Logger'
-import { EngineState, FlowContext } from '../engine/types'
+import { EngineState, FlowContext, FlowSection, PersistenceSyncStatus, StepDataValidationError } from '../engine/types'
+import { calculateSectionProgress } from '../utils/section-utils'
 import type { ICoreEngineService } from './interfaces'
 
 /**
@@ -36,14 +37,19 @@ export class CoreEngineService<
     private _isHydrating = true
     private _error: Error | null = null
     private _isCompleted = false
+    private _validationErrors: StepDataValidationError[] = []
+    private _canUndo = false
+    private _canRedo = false
+    private _persistenceStatus: PersistenceSyncStatus = 'saved'
     private _logger: Logger
 
     constructor(
         private readonly _eventManager: EventManager<TContext>,
         private readonly _steps: OnboardingStep<TContext>[],
-        private readonly _initialStepId: string | number | null,
+        private _initialStepId: string | number | null,
         private readonly _flowContext: FlowContext,
-        debugMode?: boolean
+        debugMode?: boolean,
+        private readonly _sections: FlowSection[] = []
     ) {
         this._logger = Logger.getInstance({
             debugMode: debugMode ?? false,
@@ -71,6 +77,10 @@ export class CoreEngineService<
         return this._isCompleted
     }
 
+    get validationErrors(): StepDataValidationError[] {
+        return this._validationErrors
+    }
+
     get hasError(): boolean {
         return this._error !== null
     }
@@ -100,7 +110,7 @@ export class CoreEngineService<
         const completedIds = new Set(Object.keys(context.flowData?._internal?.completedSteps || {}))
 
         // Determine relevant steps based on conditions
-        const relevantSteps = this._steps.filter((step) => !step.condition || step.condition(context))
+        const relevantSteps = this._steps.filter((step) => evaluateStepCondition(step.condition, context))
         const totalRelevantSteps = relevantSteps.length
 
         // Calculate completed steps
@@ -113,6 +123,15 @@ export class CoreEngineService<
         const currentStepIndex = currentStep ? relevantSteps.findIndex((step) => step.id === currentStep.id) : -1
         const currentStepNumber = currentStepIndex !== -1 ? currentStepIndex + 1 : 0
 
+        // Section-level progress over the same relevant steps
+        const { sections, currentSection } = calculateSectionProgress(
+            this._steps,
+            relevantSteps,
+            completedIds,
+            currentStep,
+            this._sections
+        )
+
         return {
             // Flow identification
             flowId: this._flowContext.flowId,
@@ -139,6 +158,15 @@ export class CoreEngineService<
             completedSteps: completedRelevantSteps,
             progressPercentage,
             currentStepNumber,
+            validationErrors: currentStep
+                ? this._validationErrors.filter((error) => error.stepId === currentStep.id)
+                : [],
+            sections,
+            currentSection,
+            canUndo: this._canUndo,
+            canRedo: this._canRedo,
+            experiments: { ...context.flowData?._internal?.experiments },
+            persistenceStatus: this._persistenceStatus,
         }
     }
 
@@ -223,6 +251,23 @@ export class CoreEngineService<
         this._isCompleted = completed
     }
 
+    setValidationErrors(errors: StepDataValidationError[]): void {
+        this._validationErrors = errors
+    }
+
+    setUndoAvailability(canUndo: boolean, canRedo: boolean): void {
+        this._canUndo = canUndo
+        this._canRedo = canRedo
+    }
+
+    setPersistenceStatus(status: PersistenceSyncStatus): void {
+        this._persistenceStatus = status
+    }
+
+    setInitialStepId(stepId: string | number | null): void {
+        this._initialStepId = stepId
+    }
+
     // =============================================================================
     // STEP UTILITIES
     // =============================================================================
@@ -231,7 +276,7 @@ export class CoreEngineService<
      * Get all relevant steps based on current context conditions
      */
     getRelevantSteps(context: TContext): OnboardingStep<TContext>[] {
-        return this._steps.filter((step) => !step.condition || step.condition(context))
+        return this._steps.filter((step) => evaluateStepCondition(step.condition, context))
     }
 
     /**
@@ -285,7 +330,7 @@ export class CoreEngineService<
             // Find the next step that satisfies its condition
             for (let i = currentIndex + 1; i < this._steps.length; i++) {
                 const candidateStep = this._steps[i]
-                if (!candidateStep.condition || candidateStep.condition(context)) {
+                if (evaluateStepCondition(candidateStep.condition, context)) {
                     return candidateStep
                 }
             }
@@ -324,7 +369,7 @@ export class CoreEngineService<
         let candidateStep = findStepById(this._steps, targetId)
 
         while (candidateStep) {
-            if (!candidateStep.condition || candidateStep.condition(context)) {
+            if (evaluateStepCondition(candidateStep.condition, context)) {
                 return candidateStep
             }
 
@@ -0,0 +1,219 @@
+// src/services/CrossTabSyncService.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CrossTabSyncService, CrossTabSyncTarget, StorageEventTransport } from './CrossTabSyncService'
+import { EventManager } from '../engine/EventManager'
+import { OnboardingContext } from '../types'
+import type { CrossTabMessage, CrossTabSyncConfig, CrossTabTransport, ExportedEngineSnapshot } from '../engine/types'
+
+/**
+ * Connects transports like a BroadcastChannel, but only delivers messages on `deliver()`.
+ */
+const createHub = () => {
+    const listeners = new Map<CrossTabTransport, (message: CrossTabMessage) => void>()
+    const queue: { from: CrossTabTransport; message: CrossTabMessage }[] = []
+    const sent: CrossTabMessage[] = []
+
+    return {
+        sent,
+        createTransport(): CrossTabTransport {
+            const transport: CrossTabTransport = {
+                postMessage: (message) => {
+                    sent.push(message)
+                    queue.push({ from: transport, message: JSON.parse(JSON.stringify(message)) })
+                },
+                subscribe: (listener) => {
+                    listeners.set(transport, listener)
+                    return () => listeners.delete(transport)
+                },
+                close: () => listeners.delete(transport),
+            }
+            return transport
+        },
+        deliver() {
+            while (queue.length > 0) {
+                const { from, message } = queue.shift()!
+                listeners.forEach((listener, transport) => transport !== from && listener(message))
+            }
+        },
+    }
+}
+
+const snapshot = (currentStepId: string, completedSteps: Record<string, number> = {}): ExportedEngineSnapshot => ({
+    version: 1,
+    flow: { flowId: 'signup', flowName: null, flowVersion: null, flowMetadata: null, instanceId: 1 },
+    currentStepId,
+    history: [],
+    context: { flowData: { _internal: { completedSteps, startedAt: 0, stepStartTimes: {} } } },
+    isCompleted: false,
+    checklists: {},
+    exportedAt: 0,
+})
+
+const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+        await Promise.resolve()
+    }
+}
+
+const createTab = (
+    hub: ReturnType<typeof createHub>,
+    state: ExportedEngineSnapshot,
+    config: Partial<CrossTabSyncConfig> = {}
+) => {
+    const eventManager = new EventManager<OnboardingContext>()
+    const target: CrossTabSyncTarget & { state: ExportedEngineSnapshot } = {
+        state,
+        getSnapshot: () => target.state,
+        applySnapshot: vi.fn(async (remote: ExportedEngineSnapshot) => {
+            target.state = remote
+        }),
+        onLeadershipChange: vi.fn(),
+    }
+    const service = new CrossTabSyncService(
+        { transport: hub.createTransport(), heartbeatInterval: 1000, ...config },
+        'test',
+        target,
+        eventManager
+    )
+    const change = (next: ExportedEngineSnapshot) => {
+        target.state = next
+        eventManager.notifyListeners('stateChange', { state: { isHydrating: false } as any })
+    }
+    return { service, target, eventManager, change }
+}
+
+describe('CrossTabSyncService', () => {
+    let hub: ReturnType<typeof createHub>
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        hub = createHub()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should elect the oldest tab as leader and hand over when it leaves', () => {
+        const first = createTab(hub, snapshot('a'))
+        vi.advanceTimersByTime(1)
+        const second = createTab(hub, snapshot('a'))
+
+        first.service.start()
+        second.service.start()
+        hub.deliver()
+
+        expect(first.service.isLeader).toBe(true)
+        expect(second.service.isLeader).toBe(false)
+        expect(second.target.onLeadershipChange).toHaveBeenCalledWith(false)
+
+        first.service.stop()
+        hub.deliver()
+
+        expect(second.service.isLeader).toBe(true)
+        expect(second.target.onLeadershipChange).toHaveBeenLastCalledWith(true)
+    })
+
+    it('should take over when the leader misses its heartbeats', () => {
+        const tab = createTab(hub, snapshot('a'))
+        tab.service.start()
+        hub.createTransport().postMessage({ type: 'heartbeat', tabId: '0', revision: 0 })
+        hub.deliver()
+        expect(tab.service.isLeader).toBe(false)
+
+        vi.advanceTimersByTime(4000)
+
+        expect(tab.service.isLeader).toBe(true)
+    })
+
+    it('should apply newer states and answer stale ones with the current state', async () => {
+        const first = createTab(hub, snapshot('a'))
+        const second = createTab(hub, snapshot('a'))
+        first.service.start()
+        second.service.start()
+        hub.deliver()
+
+        first.change(snapshot('b'))
+        first.change(snapshot('c'))
+        hub.deliver()
+        await flush()
+        expect(second.target.state.currentStepId).toBe('c')
+
+        // A tab that missed the latest changes sends an older revision
+        hub.sent.length = 0
+        hub.createTransport().postMessage({ type: 'state', tabId: 'late', revision: 1, snapshot: snapshot('b') })
+        hub.deliver()
+        await flush()
+
+        expect(second.target.applySnapshot).toHaveBeenCalledTimes(2)
+        expect(hub.sent).toContainEqual(
+            expect.objectContaining({ type: 'state', revision: 2, tabId: first.service.tabId })
+        )
+    })
+
+    it('should resolve simultaneous changes the same way in both tabs', async () => {
+        const first = createTab(hub, snapshot('a'))
+        vi.advanceTimersByTime(1)
+        const second = createTab(hub, snapshot('a'))
+        const conflicts = vi.fn()
+        first.eventManager.addEventListener('crossTabConflict', conflicts)
+        second.eventManager.addEventListener('crossTabConflict', conflicts)
+        first.service.start()
+        second.service.start()
+        hub.deliver()
+
+        first.change(snapshot('b', { a: 1 }))
+        second.change(snapshot('c', { a: 1, b: 2 }))
+        hub.deliver()
+        await flush()
+
+        expect(first.target.state.currentStepId).toBe('b')
+        expect(second.target.state.currentStepId).toBe('b')
+        expect(conflicts.mock.calls.map(([event]) => event.resolution)).toEqual(['local', 'remote'])
+    })
+
+    it('should prefer the state with more completed steps with furthestProgress', async () => {
+        const tab = createTab(hub, snapshot('a'), { conflictStrategy: 'furthestProgress' })
+        tab.service.start()
+
+        tab.change(snapshot('b', { a: 1 }))
+        hub.createTransport().postMessage({
+            type: 'state',
+            tabId: 'z',
+            revision: 1,
+            snapshot: snapshot('c', { a: 1, b: 2 }),
+        })
+        hub.deliver()
+        await flush()
+
+        expect(tab.target.state.currentStepId).toBe('c')
+    })
+})
+
+describe('StorageEventTransport', () => {
+    it('should send messages through storage events', () => {
+        const items = new Map<string, string>()
+        const storage = {
+            setItem: vi.fn((key: string, value: string) => items.set(key, value)),
+            removeItem: vi.fn((key: string) => items.delete(key)),
+        } as unknown as Storage
+        const target = new EventTarget()
+        const transport = new StorageEventTransport('channel', storage, target)
+        const listener = vi.fn()
+        transport.subscribe(listener)
+
+        transport.postMessage({ type: 'leave', tabId: 'a' })
+        const written = (storage.setItem as ReturnType<typeof vi.fn>).mock.calls[0][1]
+        expect(items.has('channel')).toBe(false)
+
+        const dispatch = (key: string, newValue: string | null) =>
+            target.dispatchEvent(Object.assign(new Event('storage'), { key, newValue }))
+        dispatch('channel', written)
+        dispatch('channel', null)
+        dispatch('other', written)
+        dispatch('channel', '{ not json')
+
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(listener).toHaveBeenCalledWith({ type: 'leave', tabId: 'a' })
+    })
+})
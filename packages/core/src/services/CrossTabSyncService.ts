@@ -0,0 +1,353 @@
+// src/services/CrossTabSyncService.ts
+// Keeps the engines of one flow in sync across browser tabs, with leader election for persistence.
+
+import { OnboardingContext } from '../types'
+import type {
+    CrossTabConflictStrategy,
+    CrossTabMessage,
+    CrossTabSyncConfig,
+    CrossTabTransport,
+    ExportedEngineSnapshot,
+} from '../engine/types'
+import { EventManager } from '../engine/EventManager'
+import { Logger } from './Logger'
+
+const DEFAULT_HEARTBEAT_INTERVAL = 1000
+
+/**
+ * A CrossTabTransport over a BroadcastChannel.
+ */
+export class BroadcastChannelTransport<
+    TContext extends OnboardingContext = OnboardingContext,
+> implements CrossTabTransport<TContext> {
+    private readonly _channel: BroadcastChannel
+
+    constructor(channelName: string) {
+        this._channel = new BroadcastChannel(channelName)
+    }
+
+    postMessage(message: CrossTabMessage<TContext>): void {
+        this._channel.postMessage(message)
+    }
+
+    subscribe(listener: (message: CrossTabMessage<TContext>) => void): () => void {
+        const handler = (event: MessageEvent) => listener(event.data)
+        this._channel.addEventListener('message', handler)
+        return () => this._channel.removeEventListener('message', handler)
+    }
+
+    close(): void {
+        this._channel.close()
+    }
+}
+
+/**
+ * A CrossTabTransport over `storage` events, for browsers without BroadcastChannel.
+ * Each message is written to `key` and removed right away; other tabs receive it as a `storage` event.
+ */
+export class StorageEventTransport<
+    TContext extends OnboardingContext = OnboardingContext,
+> implements CrossTabTransport<TContext> {
+    constructor(
+        private readonly _key: string,
+        private readonly _storage: Storage = window.localStorage,
+        private readonly _target: Pick<Window, 'addEventListener' | 'removeEventListener'> = window
+    ) {}
+
+    postMessage(message: CrossTabMessage<TContext>): void {
+        // The nonce makes sure a storage event fires even if the same message is sent twice
+        this._storage.setItem(this._key, JSON.stringify({ message, nonce: `${Date.now()}:${Math.random()}` }))
+        this._storage.removeItem(this._key)
+    }
+
+    subscribe(listener: (message: CrossTabMessage<TContext>) => void): () => void {
+        const handler = (event: StorageEvent) => {
+            if (event.key !== this._key || !event.newValue) {
+                return
+            }
+            try {
+                listener(JSON.parse(event.newValue).message)
+            } catch {
+                // Not a message written by a StorageEventTransport
+            }
+        }
+        this._target.addEventListener('storage', handler)
+        return () => this._target.removeEventListener('storage', handler)
+    }
+
+    close(): void {}
+}
+
+/**
+ * Creates the default transport: a BroadcastChannel where available, otherwise `storage` events.
+ * Returns null outside the browser.
+ */
+export function createCrossTabTransport<TContext extends OnboardingContext = OnboardingContext>(
+    channelName: string
+): CrossTabTransport<TContext> | null {
+    if (typeof BroadcastChannel !== 'undefined') {
+        return new BroadcastChannelTransport<TContext>(channelName)
+    }
+    if (typeof window !== 'undefined' && window.localStorage) {
+        return new StorageEventTransport<TContext>(channelName)
+    }
+    return null
+}
+
+/**
+ * The engine as seen by CrossTabSyncService.
+ */
+export interface CrossTabSyncTarget<TContext extends OnboardingContext = OnboardingContext> {
+    getSnapshot(): ExportedEngineSnapshot<TContext>
+    applySnapshot(snapshot: ExportedEngineSnapshot<TContext>): Promise<void>
+    onLeadershipChange?(isLeader: boolean): void
+}
+
+/**
+ * CrossTabSyncService keeps the engines of one flow and user in sync across tabs.
+ *
+ * This service is responsible for:
+ * - Broadcasting the engine state whenever a step change or context update changes it
+ * - Applying the state broadcast by other tabs
+ * - Electing the oldest open tab as leader, the only tab that persists data
+ * - Resolving conflicting changes made by two tabs at the same time
+ *
+ * Every broadcast state carries a revision. A newer revision replaces the state, an older one is
+ * answered with the current state, and an equal one is a conflict, resolved the same way in both tabs.
+ */
+export class CrossTabSyncService<TContext extends OnboardingContext = OnboardingContext> {
+    /** Identifies this tab. Tab IDs sort by creation time, so the oldest tab has the smallest ID. */
+    readonly tabId = `${Date.now().toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 10)}`
+
+    private readonly _heartbeatInterval: number
+    private readonly _conflictStrategy: CrossTabConflictStrategy
+    private readonly _tabs = new Map<string, number>() // tabId -> last seen
+    private readonly _logger: Logger
+    private _transport: CrossTabTransport<TContext> | null = null
+    private _unsubscribers: (() => void)[] = []
+    private _heartbeatTimer: ReturnType<typeof setInterval> | null = null
+    private _revision = 0
+    private _lastStateKey: string | null = null
+    private _isApplying = false
+    private _isLeader = true
+
+    constructor(
+        private readonly _config: CrossTabSyncConfig<TContext>,
+        private readonly _channelName: string,
+        private readonly _target: CrossTabSyncTarget<TContext>,
+        private readonly _eventManager: EventManager<TContext>,
+        logger?: Logger
+    ) {
+        this._heartbeatInterval = _config.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+        this._conflictStrategy = _config.conflictStrategy ?? 'leader'
+        this._logger = logger ?? Logger.getInstance({ prefix: 'CrossTabSyncService' })
+    }
+
+    /**
+     * Whether this tab is the leader. True until another, older tab is seen.
+     */
+    get isLeader(): boolean {
+        return this._isLeader
+    }
+
+    /**
+     * Start syncing. Does nothing if already started, or if no transport is available.
+     */
+    start(): void {
+        if (this._transport) {
+            return
+        }
+
+        this._transport = this._config.transport ?? createCrossTabTransport<TContext>(this._channelName)
+        if (!this._transport) {
+            this._logger.warn('Cross-tab sync is not available in this environment.')
+            return
+        }
+
+        this._lastStateKey = getStateKey(this._target.getSnapshot())
+        this._unsubscribers = [
+            this._transport.subscribe((message) => this._handleMessage(message)),
+            this._eventManager.addEventListener('stateChange', ({ state }) => {
+                if (!state.isHydrating) {
+                    this._handleStateChange()
+                }
+            }),
+        ]
+        this._heartbeatTimer = setInterval(() => this._heartbeat(), this._heartbeatInterval)
+        this._heartbeat()
+    }
+
+    /**
+     * Stop syncing and tell the other tabs this one is gone.
+     */
+    stop(): void {
+        if (!this._transport) {
+            return
+        }
+
+        if (this._heartbeatTimer) {
+            clearInterval(this._heartbeatTimer)
+            this._heartbeatTimer = null
+        }
+        this._unsubscribers.forEach((unsubscribe) => unsubscribe())
+        this._unsubscribers = []
+        this._transport.postMessage({ type: 'leave', tabId: this.tabId })
+        this._transport.close()
+        this._transport = null
+        this._tabs.clear()
+        this._isLeader = true
+    }
+
+    private _heartbeat(): void {
+        this._transport?.postMessage({ type: 'heartbeat', tabId: this.tabId, revision: this._revision })
+        this._updateLeader()
+    }
+
+    private _handleStateChange(): void {
+        if (this._isApplying) {
+            return
+        }
+
+        const snapshot = this._target.getSnapshot()
+        const key = getStateKey(snapshot)
+        if (key === this._lastStateKey) {
+            return
+        }
+
+        this._lastStateKey = key
+        this._revision += 1
+        this._postState(snapshot)
+    }
+
+    private _handleMessage(message: CrossTabMessage<TContext>): void {
+        if (message.tabId === this.tabId) {
+            return
+        }
+
+        if (message.type === 'leave') {
+            this._tabs.delete(message.tabId)
+            this._updateLeader()
+            return
+        }
+
+        const isNewTab = !this._tabs.has(message.tabId)
+        this._tabs.set(message.tabId, Date.now())
+
+        if (message.type === 'heartbeat') {
+            this._revision = Math.max(this._revision, message.revision)
+            // Answer a new tab right away, so it doesn't have to wait a heartbeat to find the leader
+            if (isNewTab) {
+                this._heartbeat()
+            } else {
+                this._updateLeader()
+            }
+            return
+        }
+
+        this._updateLeader()
+        void this._handleRemoteState(message.tabId, message.revision, message.snapshot)
+    }
+
+    private async _handleRemoteState(
+        tabId: string,
+        revision: number,
+        snapshot: ExportedEngineSnapshot<TContext>
+    ): Promise<void> {
+        if (revision < this._revision) {
+            // The other tab missed a change, so it gets the current state
+            this._postState(this._target.getSnapshot())
+            return
+        }
+
+        if (revision > this._revision) {
+            this._revision = revision
+            await this._apply(snapshot)
+            return
+        }
+
+        const local = this._target.getSnapshot()
+        if (getStateKey(local) === getStateKey(snapshot)) {
+            return
+        }
+
+        const resolution = this._resolveConflict(local, tabId, snapshot) ? 'remote' : 'local'
+        this._logger.debug(`Conflicting change from tab ${tabId}, keeping the ${resolution} state`)
+        if (resolution === 'remote') {
+            await this._apply(snapshot)
+        }
+
+        this._eventManager.notifyListeners('crossTabConflict', {
+            local,
+            remote: snapshot,
+            resolution,
+            context: resolution === 'remote' ? snapshot.context : local.context,
+        })
+    }
+
+    /**
+     * Returns whether the remote state wins. Both tabs reach the same decision.
+     */
+    private _resolveConflict(
+        local: ExportedEngineSnapshot<TContext>,
+        remoteTabId: string,
+        remote: ExportedEngineSnapshot<TContext>
+    ): boolean {
+        if (this._conflictStrategy === 'furthestProgress') {
+            const localProgress = getProgress(local)
+            const remoteProgress = getProgress(remote)
+            if (localProgress !== remoteProgress) {
+                return remoteProgress > localProgress
+            }
+        }
+        return remoteTabId < this.tabId
+    }
+
+    private async _apply(snapshot: ExportedEngineSnapshot<TContext>): Promise<void> {
+        this._isApplying = true
+        try {
+            await this._target.applySnapshot(snapshot)
+        } catch (error) {
+            this._logger.warn('Could not apply the state of another tab:', error)
+        } finally {
+            this._isApplying = false
+            this._lastStateKey = getStateKey(this._target.getSnapshot())
+        }
+    }
+
+    private _postState(snapshot: ExportedEngineSnapshot<TContext>): void {
+        this._transport?.postMessage({ type: 'state', tabId: this.tabId, revision: this._revision, snapshot })
+    }
+
+    private _updateLeader(): void {
+        const now = Date.now()
+        for (const [tabId, lastSeen] of this._tabs) {
+            if (now - lastSeen > this._heartbeatInterval * 3) {
+                this._tabs.delete(tabId)
+            }
+        }
+        this._setLeader([...this._tabs.keys()].every((tabId) => this.tabId < tabId))
+    }
+
+    private _setLeader(isLeader: boolean): void {
+        if (isLeader === this._isLeader) {
+            return
+        }
+
+        this._isLeader = isLeader
+        this._logger.debug(isLeader ? 'This tab is now the leader' : 'Another tab is now the leader')
+        this._target.onLeadershipChange?.(isLeader)
+    }
+}
+
+/**
+ * The parts of a snapshot that are synced, serialized for comparison.
+ */
+function getStateKey(snapshot: ExportedEngineSnapshot): string {
+    return JSON.stringify([snapshot.currentStepId, snapshot.isCompleted, snapshot.history, snapshot.context])
+}
+
+function getProgress(snapshot: ExportedEngineSnapshot): number {
+    return snapshot.isCompleted
+        ? Infinity
+        : Object.keys(snapshot.context.flowData._internal?.completedSteps ?? {}).length
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FeatureFlagService, InMemoryFeatureFlagProvider } from './FeatureFlagService'
+import type { OnboardingContext } from '../types'
+
+const context: OnboardingContext = { flowData: {} }
+
+describe('FeatureFlagService', () => {
+    it('resolves flags and reports whether they changed', async () => {
+        const service = new FeatureFlagService(vi.fn())
+        service.setKeys(['beta', 'plan'])
+        service.setProvider({ getFlag: async (key) => (key === 'beta' ? true : 'pro') })
+
+        expect(service.isMet('beta')).toBe(false)
+        expect(await service.refresh(context)).toBe(true)
+        expect(service.getValues()).toEqual({ beta: true, plan: 'pro' })
+        expect(service.isMet({ key: 'plan', value: 'pro' })).toBe(true)
+        expect(await service.refresh(context)).toBe(false)
+    })
+
+    it('treats a flag that fails to resolve as unset', async () => {
+        const service = new FeatureFlagService(vi.fn())
+        service.setKeys(['beta'])
+        service.setProvider({
+            getFlag: () => {
+                throw new Error('offline')
+            },
+        })
+
+        await service.refresh(context)
+        expect(service.isMet('beta')).toBe(false)
+    })
+
+    it('forwards provider changes and unsubscribes from replaced providers', async () => {
+        const onChange = vi.fn()
+        const provider = new InMemoryFeatureFlagProvider({ beta: false })
+        const service = new FeatureFlagService(onChange)
+        service.setKeys(['beta'])
+        service.setProvider(provider)
+
+        provider.setFlags({ beta: true })
+        expect(onChange).toHaveBeenCalledWith(['beta'])
+
+        service.setProvider(null)
+        provider.setFlags({ beta: false })
+        expect(onChange).toHaveBeenCalledTimes(1)
+        expect(service.getValues()).toEqual({})
+    })
+})
@@ -0,0 +1,139 @@
+// src/services/FeatureFlagService.ts
+// Resolves feature flags through a pluggable provider and keeps their current values.
+
+import { FeatureFlagProvider, FeatureFlagRequirement, FeatureFlagValue, OnboardingContext } from '../types'
+import { getFeatureFlagKey, isFeatureFlagRequirementMet } from '../utils/feature-flag-utils'
+import { Logger } from './Logger'
+
+/**
+ * A FeatureFlagProvider backed by a plain object. Useful in tests and for local overrides.
+ */
+export class InMemoryFeatureFlagProvider implements FeatureFlagProvider {
+    private _flags: Record<string, FeatureFlagValue>
+    private readonly _listeners = new Set<(keys?: string[]) => void>()
+
+    constructor(flags: Record<string, FeatureFlagValue> = {}) {
+        this._flags = { ...flags }
+    }
+
+    getFlag(key: string): FeatureFlagValue {
+        return this._flags[key]
+    }
+
+    /**
+     * Set flag values and notify subscribers. Flags not listed keep their value.
+     */
+    setFlags(flags: Record<string, FeatureFlagValue>): void {
+        this._flags = { ...this._flags, ...flags }
+        this._listeners.forEach((listener) => listener(Object.keys(flags)))
+    }
+
+    subscribe(listener: (keys?: string[]) => void): () => void {
+        this._listeners.add(listener)
+        return () => this._listeners.delete(listener)
+    }
+}
+
+/**
+ * FeatureFlagService keeps the values of the flags a flow depends on.
+ *
+ * This service is responsible for:
+ * - Resolving flag values (sync or async) from the registered provider
+ * - Answering flag requirements synchronously from the resolved values, so conditions stay sync
+ * - Subscribing to provider changes and reporting them to the engine
+ *
+ * Until a flag is resolved, or when reading it fails, it has no value and requirements on it are not met.
+ */
+export class FeatureFlagService<TContext extends OnboardingContext = OnboardingContext> {
+    private _provider: FeatureFlagProvider<TContext> | null = null
+    private _unsubscribe: (() => void) | null = null
+    private _keys: string[] = []
+    private _values = new Map<string, FeatureFlagValue>()
+    private readonly _logger: Logger
+
+    constructor(
+        private readonly _onProviderChange: (keys?: string[]) => void,
+        logger?: Logger
+    ) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'FeatureFlagService' })
+    }
+
+    get provider(): FeatureFlagProvider<TContext> | null {
+        return this._provider
+    }
+
+    /**
+     * Replace the provider. Resolved values are dropped until the next `refresh()`.
+     */
+    setProvider(provider: FeatureFlagProvider<TContext> | null): void {
+        this._unsubscribe?.()
+        this._unsubscribe = null
+        this._provider = provider
+        this._values.clear()
+
+        if (provider?.subscribe) {
+            this._unsubscribe = provider.subscribe((keys) => this._onProviderChange(keys))
+        }
+    }
+
+    /**
+     * Set the flags to resolve.
+     */
+    setKeys(keys: string[]): void {
+        this._keys = keys
+    }
+
+    /**
+     * Resolve the values of all flags. Returns true if any value changed.
+     */
+    async refresh(context: TContext): Promise<boolean> {
+        if (!this._provider) {
+            return false
+        }
+
+        const provider = this._provider
+        const entries = await Promise.all(
+            this._keys.map(async (key): Promise<[string, FeatureFlagValue]> => {
+                try {
+                    return [key, await provider.getFlag(key, context)]
+                } catch (error) {
+                    this._logger.warn(`[FeatureFlagService] Failed to read flag '${key}':`, error)
+                    return [key, undefined]
+                }
+            })
+        )
+
+        // The provider was replaced while resolving
+        if (provider !== this._provider) {
+            return false
+        }
+
+        let changed = false
+        for (const [key, value] of entries) {
+            if (!this._values.has(key) || this._values.get(key) !== value) {
+                this._values.set(key, value)
+                changed = true
+            }
+        }
+        return changed
+    }
+
+    getValue(key: string): FeatureFlagValue {
+        return this._values.get(key)
+    }
+
+    /**
+     * Get the resolved values of all flags.
+     */
+    getValues(): Record<string, FeatureFlagValue> {
+        return Object.fromEntries(this._values)
+    }
+
+    isMet(requirement: FeatureFlagRequirement): boolean {
+        return isFeatureFlagRequirementMet(requirement, this._values.get(getFeatureFlagKey(requirement)))
+    }
+
+    destroy(): void {
+        this.setProvider(null)
+    }
+}
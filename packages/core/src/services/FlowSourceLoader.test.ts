@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { FlowSourceLoader, InMemoryFlowSourceCache } from './FlowSourceLoader'
+import type { FlowSourceFetcher } from '../engine/types'
+import type { StepJSONSchema } from '../parser/types'
+
+const schema = (version: string, ids: string[] = ['intro', 'done']): StepJSONSchema => ({
+    version,
+    steps: ids.map((id) => ({ id, type: 'INFORMATION', payload: { mainText: id } })),
+})
+
+describe('FlowSourceLoader', () => {
+    let cache: InMemoryFlowSourceCache
+    let fetcher: ReturnType<typeof vi.fn<FlowSourceFetcher>>
+
+    beforeEach(() => {
+        cache = new InMemoryFlowSourceCache()
+        fetcher = vi.fn<FlowSourceFetcher>()
+    })
+
+    it('should fetch, validate and cache the document', async () => {
+        fetcher.mockResolvedValue({ schema: schema('1'), etag: '"a"' })
+        const loader = new FlowSourceLoader({ url: '/flow.json', fetcher, cache })
+
+        const result = await loader.load()
+
+        expect(result).toMatchObject({ source: 'remote', version: '1', errors: [] })
+        expect(result.steps?.map((step) => step.id)).toEqual(['intro', 'done'])
+        expect(fetcher).toHaveBeenCalledWith('/flow.json', { etag: undefined })
+        expect(cache.get('/flow.json')).toMatchObject({ version: '1', etag: '"a"' })
+    })
+
+    it('should revalidate the cached document by ETag', async () => {
+        cache.set('flow', { schema: schema('1'), version: '1', etag: '"a"', fetchedAt: 0 })
+        fetcher.mockResolvedValue({ notModified: true })
+        const loader = new FlowSourceLoader({ url: '/flow.json', cacheKey: 'flow', fetcher, cache })
+
+        const result = await loader.load()
+
+        expect(fetcher).toHaveBeenCalledWith('/flow.json', { etag: '"a"' })
+        expect(result).toMatchObject({ source: 'cache', version: '1' })
+        expect(cache.get('flow')?.fetchedAt).toBeGreaterThan(0)
+    })
+
+    it('should use a fresh cached document without fetching', async () => {
+        cache.set('/flow.json', { schema: schema('1'), version: '1', fetchedAt: Date.now() })
+        const loader = new FlowSourceLoader({ url: '/flow.json', fetcher, cache, maxAge: 60_000 })
+
+        expect((await loader.load()).source).toBe('cache')
+        expect(fetcher).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid documents and fall back to the cached document', async () => {
+        cache.set('/flow.json', { schema: schema('1'), version: '1', fetchedAt: 0 })
+        fetcher.mockResolvedValue({ schema: schema('2', ['same', 'same']) })
+        const loader = new FlowSourceLoader({ url: '/flow.json', fetcher, cache })
+
+        const result = await loader.load()
+
+        expect(result).toMatchObject({ source: 'cache', version: '1' })
+        expect(result.errors).toContain('Flow source document is invalid')
+        expect(cache.get('/flow.json')?.version).toBe('1')
+    })
+
+    it('should fall back to the bundled steps when nothing can be loaded', async () => {
+        fetcher.mockRejectedValue(new Error('offline'))
+        const loader = new FlowSourceLoader({ url: '/flow.json', fetcher, cache })
+
+        expect(await loader.load()).toEqual({ steps: null, source: 'bundled', version: null, errors: ['offline'] })
+    })
+})
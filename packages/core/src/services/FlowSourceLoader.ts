@@ -0,0 +1,191 @@
+// src/services/FlowSourceLoader.ts
+// Loads flow definitions from a remote StepJSONSchema document, with caching and fallback.
+
+import { OnboardingContext, OnboardingStep } from '../types'
+import type { FlowSourceCache, FlowSourceCacheEntry, FlowSourceConfig, FlowSourceFetcher } from '../engine/types'
+import type { StepJSONSchema } from '../parser/types'
+import { StepJSONParser } from '../parser/StepJSONParser'
+import { StepValidator } from '../engine/StepValidator'
+import { Logger } from './Logger'
+
+export interface FlowSourceResult<TContext extends OnboardingContext = OnboardingContext> {
+    /** The loaded steps, or null if the bundled steps should be used. */
+    steps: OnboardingStep<TContext>[] | null
+    /** Where the steps came from. */
+    source: 'remote' | 'cache' | 'bundled'
+    /** The `version` of the loaded document, if any. */
+    version: string | null
+    /** Why the remote document could not be used, if it wasn't. */
+    errors: string[]
+}
+
+/**
+ * A FlowSourceCache that keeps documents in memory for the lifetime of the cache instance.
+ */
+export class InMemoryFlowSourceCache implements FlowSourceCache {
+    private readonly _entries = new Map<string, FlowSourceCacheEntry>()
+
+    get(key: string): FlowSourceCacheEntry | undefined {
+        return this._entries.get(key)
+    }
+
+    set(key: string, entry: FlowSourceCacheEntry): void {
+        this._entries.set(key, entry)
+    }
+}
+
+/**
+ * FlowSourceLoader loads the steps of a flow from a remote `StepJSONSchema` document.
+ *
+ * This service is responsible for:
+ * - Fetching the document through the configured fetcher, revalidating cached documents by ETag
+ * - Deserializing the document and validating its steps with StepValidator
+ * - Caching valid documents with their version and ETag
+ * - Falling back to a cached document, then to the bundled steps, when fetching or validation fails
+ *
+ * @example
+ * ```typescript
+ * const loader = new FlowSourceLoader({ url: '/flows/signup.json' })
+ * const { steps, source } = await loader.load()
+ * ```
+ */
+export class FlowSourceLoader<TContext extends OnboardingContext = OnboardingContext> {
+    private readonly _fetcher: FlowSourceFetcher
+    private readonly _cache: FlowSourceCache
+    private readonly _cacheKey: string
+    private readonly _logger: Logger
+
+    constructor(
+        private readonly _config: FlowSourceConfig,
+        logger?: Logger
+    ) {
+        this._fetcher = _config.fetcher ?? defaultFetcher
+        this._cache = _config.cache ?? new InMemoryFlowSourceCache()
+        this._cacheKey = _config.cacheKey ?? _config.url
+        this._logger = logger ?? Logger.getInstance({ prefix: 'FlowSourceLoader' })
+    }
+
+    /**
+     * Load the flow's steps. Never throws: failures are reported in `errors` and fall back
+     * to the last cached document or, without one, to the bundled steps (`steps: null`).
+     */
+    async load(): Promise<FlowSourceResult<TContext>> {
+        const errors: string[] = []
+        const cached = await this._readCache(errors)
+
+        // A fresh cached document is used without revalidating it
+        const maxAge = this._config.maxAge ?? 0
+        if (cached && maxAge > 0 && Date.now() - cached.fetchedAt < maxAge) {
+            const steps = this._parse(cached.schema, errors)
+            if (steps) {
+                return { steps, source: 'cache', version: cached.version, errors }
+            }
+        }
+
+        try {
+            const response = await this._fetcher(this._config.url, { etag: cached?.etag })
+
+            if (response.notModified) {
+                if (!cached) {
+                    throw new Error('Flow source reported the document as not modified, but nothing is cached')
+                }
+                const steps = this._parse(cached.schema, errors)
+                if (steps) {
+                    await this._writeCache({ ...cached, fetchedAt: Date.now() }, errors)
+                    this._logger.debug(`[FlowSourceLoader] Cached flow version ${cached.version} is up to date.`)
+                    return { steps, source: 'cache', version: cached.version, errors }
+                }
+                throw new Error('Cached flow document is invalid')
+            }
+
+            if (!response.schema || !Array.isArray(response.schema.steps)) {
+                throw new Error('Flow source response is not a StepJSONSchema document')
+            }
+
+            const steps = this._parse(response.schema, errors)
+            if (!steps) {
+                throw new Error('Flow source document is invalid')
+            }
+
+            await this._writeCache(
+                {
+                    schema: response.schema,
+                    version: response.schema.version,
+                    etag: response.etag,
+                    fetchedAt: Date.now(),
+                },
+                errors
+            )
+            this._logger.debug(`[FlowSourceLoader] Loaded flow version ${response.schema.version}.`)
+            return { steps, source: 'remote', version: response.schema.version, errors }
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error))
+        }
+
+        // Fall back to the last cached document, even if it is stale
+        if (cached) {
+            const steps = this._parse(cached.schema, [])
+            if (steps) {
+                this._logger.warn(`Could not load the flow source, using cached version ${cached.version}:`, errors)
+                return { steps, source: 'cache', version: cached.version, errors }
+            }
+        }
+
+        this._logger.warn('Could not load the flow source, using the bundled steps:', errors)
+        return { steps: null, source: 'bundled', version: null, errors }
+    }
+
+    // =========================================================================
+    // Private Helper Methods
+    // =========================================================================
+
+    /**
+     * Deserialize and validate a document. Returns null, and adds to `errors`, if it is invalid.
+     */
+    private _parse(schema: StepJSONSchema, errors: string[]): OnboardingStep<TContext>[] | null {
+        const result = StepJSONParser.fromJSON<TContext>(JSON.stringify(schema), this._config.parserOptions)
+        if (!result.success || !result.data) {
+            errors.push(...result.errors)
+            return null
+        }
+
+        const validation = new StepValidator<TContext>().validateSteps(result.data)
+        if (!validation.isValid) {
+            errors.push(...validation.errors.map((error) => error.message))
+            return null
+        }
+
+        return result.data
+    }
+
+    private async _readCache(errors: string[]): Promise<FlowSourceCacheEntry | null> {
+        try {
+            return (await this._cache.get(this._cacheKey)) ?? null
+        } catch (error) {
+            errors.push(`Failed to read the flow source cache: ${error instanceof Error ? error.message : error}`)
+            return null
+        }
+    }
+
+    private async _writeCache(entry: FlowSourceCacheEntry, errors: string[]): Promise<void> {
+        try {
+            await this._cache.set(this._cacheKey, entry)
+        } catch (error) {
+            errors.push(`Failed to write the flow source cache: ${error instanceof Error ? error.message : error}`)
+        }
+    }
+}
+
+/**
+ * Fetch a document with `fetch`, sending the cached ETag as `If-None-Match`.
+ */
+const defaultFetcher: FlowSourceFetcher = async (url, { etag }) => {
+    const response = await fetch(url, { headers: etag ? { 'If-None-Match': etag } : {} })
+    if (response.status === 304) {
+        return { notModified: true, etag }
+    }
+    if (!response.ok) {
+        throw new Error(`Failed to fetch flow source: ${response.status} ${response.statusText}`)
+    }
+    return { schema: await response.json(), etag: response.headers.get('ETag') ?? undefined }
+}
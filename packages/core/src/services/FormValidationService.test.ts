@@ -0,0 +1,158 @@
+// src/services/FormValidationService.test.ts
+// Tests for FORM step field validation
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { FormValidationService } from './FormValidationService'
+import { Logger } from './Logger'
+import type { OnboardingContext, OnboardingStep, FormField } from '../types'
+
+function createContext(flowData: Record<string, any> = {}): OnboardingContext {
+    return { flowData }
+}
+
+function createFormStep(fields: FormField[], dataKey?: string): OnboardingStep<OnboardingContext> & { type: 'FORM' } {
+    return {
+        id: 'form-step',
+        type: 'FORM',
+        payload: { fields, dataKey },
+    } as OnboardingStep<OnboardingContext> & { type: 'FORM' }
+}
+
+describe('FormValidationService', () => {
+    let service: FormValidationService<OnboardingContext>
+    let logger: Logger
+
+    beforeEach(() => {
+        logger = new Logger({ prefix: 'FormValidationService' })
+        vi.spyOn(logger, 'debug').mockImplementation(() => {})
+        vi.spyOn(logger, 'error').mockImplementation(() => {})
+        service = new FormValidationService(logger)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('required', () => {
+        const step = createFormStep([
+            { id: 'name', name: 'name', label: 'Name', type: 'text', validation: { required: true } },
+            { id: 'terms', name: 'terms', label: 'Terms', type: 'checkbox', validation: { required: 'Accept terms' } },
+        ])
+
+        it('should fail for missing, blank and unchecked values', async () => {
+            const result = await service.validate(step, { name: '   ', terms: false }, createContext())
+
+            expect(result.isValid).toBe(false)
+            expect(result.errors).toEqual([
+                { fieldId: 'name', fieldName: 'name', rule: 'required', message: 'Name is required' },
+                { fieldId: 'terms', fieldName: 'terms', rule: 'required', message: 'Accept terms' },
+            ])
+        })
+
+        it('should pass when values are present', async () => {
+            const result = await service.validate(step, { name: 'Ada', terms: true }, createContext())
+            expect(result.isValid).toBe(true)
+            expect(result.errors).toEqual([])
+        })
+    })
+
+    describe('length and pattern rules', () => {
+        const step = createFormStep([
+            {
+                id: 'username',
+                name: 'username',
+                label: 'Username',
+                type: 'text',
+                validation: {
+                    minLength: { value: 3, message: 'Too short' },
+                    maxLength: { value: 8, message: 'Too long' },
+                    pattern: { value: /^[a-z]+$/g, message: 'Lowercase only' },
+                },
+            },
+        ])
+
+        it.each([
+            ['ab', 'minLength'],
+            ['abcdefghi', 'maxLength'],
+            ['Abc', 'pattern'],
+        ])('should report %s as failing %s', async (username, rule) => {
+            const result = await service.validate(step, { username }, createContext())
+            expect(result.errors[0].rule).toBe(rule)
+        })
+
+        it('should behave consistently with global patterns across calls', async () => {
+            expect((await service.validate(step, { username: 'abcd' }, createContext())).isValid).toBe(true)
+            expect((await service.validate(step, { username: 'abcd' }, createContext())).isValid).toBe(true)
+        })
+
+        it('should skip rules for empty optional fields', async () => {
+            const result = await service.validate(step, {}, createContext())
+            expect(result.isValid).toBe(true)
+        })
+    })
+
+    describe('custom validators', () => {
+        it('should await async validators and receive all form values', async () => {
+            const custom = vi.fn(async (value: string, all: Record<string, any>) =>
+                value === all.password ? null : 'Passwords do not match'
+            )
+            const step = createFormStep([
+                { id: 'password', name: 'password', label: 'Password', type: 'password' },
+                { id: 'confirm', name: 'confirm', label: 'Confirm', type: 'password', validation: { custom } },
+            ])
+
+            const result = await service.validate(step, { password: 'a', confirm: 'b' }, createContext())
+
+            expect(custom).toHaveBeenCalledWith('b', { password: 'a', confirm: 'b' })
+            expect(result.errors).toEqual([
+                { fieldId: 'confirm', fieldName: 'confirm', rule: 'custom', message: 'Passwords do not match' },
+            ])
+        })
+
+        it('should treat a throwing validator as a failure', async () => {
+            const step = createFormStep([
+                {
+                    id: 'email',
+                    name: 'email',
+                    label: 'Email',
+                    type: 'email',
+                    validation: {
+                        custom: async () => {
+                            throw new Error('Lookup failed')
+                        },
+                    },
+                },
+            ])
+
+            const result = await service.validate(step, { email: 'a@b.c' }, createContext())
+
+            expect(result.errors[0]).toMatchObject({ rule: 'custom', message: 'Lookup failed' })
+            expect(logger.error).toHaveBeenCalled()
+        })
+    })
+
+    describe('resolveValues', () => {
+        const fields: FormField[] = [
+            { id: 'first', name: 'first', label: 'First', type: 'text' },
+            { id: 'last', name: 'last', label: 'Last', type: 'text' },
+        ]
+
+        it('should prefer step data and fall back to flowData', () => {
+            const values = service.resolveValues(
+                createFormStep(fields),
+                { first: 'Ada' },
+                createContext({ first: 'Old', last: 'Lovelace' })
+            )
+            expect(values).toEqual({ first: 'Ada', last: 'Lovelace' })
+        })
+
+        it('should read values nested under dataKey', () => {
+            const values = service.resolveValues(
+                createFormStep(fields, 'profile'),
+                { profile: { first: 'Ada' } },
+                createContext({ profile: { last: 'Lovelace' } })
+            )
+            expect(values).toEqual({ first: 'Ada', last: 'Lovelace' })
+        })
+    })
+})
@@ -0,0 +1,150 @@
+// src/services/FormValidationService.ts
+// Runs FormFieldValidation rules for FORM steps before navigation proceeds.
+
+import { Logger } from './Logger'
+import { OnboardingContext, OnboardingStep, FormField, FormFieldError } from '../types'
+
+/**
+ * Result of validating the data submitted for a FORM step
+ */
+export interface FormValidationResult {
+    isValid: boolean
+    errors: FormFieldError[]
+    /** The resolved value of every field, keyed by field name. */
+    values: Record<string, any>
+}
+
+/**
+ * FormValidationService validates step data against the `FormField` definitions of a FORM step.
+ * Responsible for:
+ * - Resolving field values from step data and flowData
+ * - Running required, minLength, maxLength and pattern rules
+ * - Running (possibly async) custom validators
+ */
+export class FormValidationService<TContext extends OnboardingContext = OnboardingContext> {
+    private readonly _logger: Logger
+
+    constructor(logger?: Logger) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'FormValidationService' })
+    }
+
+    /**
+     * Validate the data submitted for a FORM step.
+     * Values present in `stepData` take precedence over values already stored in `flowData`.
+     */
+    async validate(
+        step: OnboardingStep<TContext> & { type: 'FORM' },
+        stepData: Record<string, any> | undefined,
+        context: TContext
+    ): Promise<FormValidationResult> {
+        const values = this.resolveValues(step, stepData, context)
+        const fieldResults = await Promise.all(
+            (step.payload.fields || []).map((field) => this._validateField(field, values))
+        )
+        const errors = fieldResults.filter((error): error is FormFieldError => error !== null)
+
+        if (errors.length > 0) {
+            this._logger.debug(
+                `[FormValidationService] Step '${step.id}' failed validation for fields: ${errors
+                    .map((e) => e.fieldName)
+                    .join(', ')}`
+            )
+        }
+
+        return { isValid: errors.length === 0, errors, values }
+    }
+
+    /**
+     * Resolve the current value of every field of a FORM step.
+     */
+    resolveValues(
+        step: OnboardingStep<TContext> & { type: 'FORM' },
+        stepData: Record<string, any> | undefined,
+        context: TContext
+    ): Record<string, any> {
+        const { dataKey, fields = [] } = step.payload
+        const submitted = (dataKey ? stepData?.[dataKey] : stepData) || {}
+        const stored = (dataKey ? context.flowData[dataKey] : context.flowData) || {}
+
+        const values: Record<string, any> = {}
+        for (const field of fields) {
+            values[field.name] = field.name in submitted ? submitted[field.name] : stored[field.name]
+        }
+        return values
+    }
+
+    // =========================================================================
+    // Private Methods
+    // =========================================================================
+
+    /**
+     * Validate a single field. Returns the first failing rule, or null if the field is valid.
+     */
+    private async _validateField(field: FormField, values: Record<string, any>): Promise<FormFieldError | null> {
+        const validation = field.validation
+        if (!validation) {
+            return null
+        }
+
+        const value = values[field.name]
+        const fail = (rule: FormFieldError['rule'], message: string): FormFieldError => ({
+            fieldId: field.id,
+            fieldName: field.name,
+            rule,
+            message,
+        })
+
+        if (this._isEmpty(value)) {
+            if (validation.required) {
+                return fail(
+                    'required',
+                    typeof validation.required === 'string' ? validation.required : `${field.label} is required`
+                )
+            }
+        } else {
+            const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined
+
+            if (validation.minLength && length !== undefined && length < validation.minLength.value) {
+                return fail('minLength', validation.minLength.message)
+            }
+
+            if (validation.maxLength && length !== undefined && length > validation.maxLength.value) {
+                return fail('maxLength', validation.maxLength.message)
+            }
+
+            if (validation.pattern && !this._matchesPattern(validation.pattern.value, value)) {
+                return fail('pattern', validation.pattern.message)
+            }
+        }
+
+        if (validation.custom) {
+            try {
+                const message = await validation.custom(value, values)
+                if (message) {
+                    return fail('custom', message)
+                }
+            } catch (error) {
+                this._logger.error(`[FormValidationService] Custom validator for field '${field.name}' threw:`, error)
+                return fail('custom', error instanceof Error ? error.message : String(error))
+            }
+        }
+
+        return null
+    }
+
+    private _isEmpty(value: unknown): boolean {
+        return (
+            value === undefined ||
+            value === null ||
+            value === false ||
+            (typeof value === 'string' && value.trim() === '') ||
+            (Array.isArray(value) && value.length === 0)
+        )
+    }
+
+    private _matchesPattern(pattern: RegExp, value: unknown): boolean {
+        // Reset lastIndex so global/sticky patterns behave consistently across calls
+        pattern.lastIndex = 0
+        return pattern.test(String(value))
+    }
+}
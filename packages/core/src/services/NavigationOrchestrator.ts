@@ -1,6 +1,6 @@
 // src/services/NavigationOrchestrator.ts
 // Orchestrates navigation using StepTransitionService, BeforeNavigationHandler,
-// and ChecklistNavigationService
+// StepGuardHandler and ChecklistNavigationService
 // Extracted from NavigationService as part of decomposition.
 
 import { Logger } from './Logger'
@@ -9,17 +9,23 @@ import { evaluateStepId, findStepById } from '../utils/step-utils'
 import { ErrorHandler } from '../engine/ErrorHandler'
 import { EventManager } from '../engine/EventManager'
 import { StateManager } from '../engine/StateManager'
+import type { NavigationDirection, NavigationMiddleware, NavigationTransition } from '../engine/types'
 import type { IPersistenceService } from './interfaces'
 import { StepTransitionService } from './StepTransitionService'
 import { BeforeNavigationHandler } from './BeforeNavigationHandler'
+import { StepGuardHandler } from './StepGuardHandler'
 import { ChecklistNavigationService } from './ChecklistNavigationService'
 
 /**
- * NavigationOrchestrator coordinates the three navigation services:
+ * NavigationOrchestrator coordinates the navigation services:
  * - StepTransitionService: Direction-aware step navigation
- * - BeforeNavigationHandler: Event handling and cancellation
+ * - BeforeNavigationHandler: Event handling and cancellation (built-in middleware)
+ * - StepGuardHandler: Step canLeave/canEnter guards (built-in middleware)
  * - ChecklistNavigationService: Checklist-specific operations
  *
+ * Every navigation runs through a Koa-style middleware chain. Registered middleware wraps the
+ * built-in beforeStepChange and step guard middleware and the activation of the target step.
+ *
  * This replaces the monolithic NavigationService with a more modular design.
  * It maintains the same public API while delegating to specialized services.
  */
@@ -27,6 +33,7 @@ export class NavigationOrchestrator<TContext extends OnboardingContext = Onboard
     private readonly _logger: Logger
     private readonly _stepTransitionService: StepTransitionService<TContext>
     private readonly _beforeNavigationHandler: BeforeNavigationHandler<TContext>
+    private readonly _stepGuardHandler: StepGuardHandler<TContext>
     private readonly _checklistService: ChecklistNavigationService<TContext>
 
     constructor(
@@ -35,7 +42,8 @@ export class NavigationOrchestrator<TContext extends OnboardingContext = Onboard
         private readonly _stateManager: StateManager<TContext>,
         private readonly _persistenceService: IPersistenceService<TContext>,
         private readonly _errorHandler: ErrorHandler<TContext>,
-        logger?: Logger
+        logger?: Logger,
+        private readonly _middleware: NavigationMiddleware<TContext>[] = []
     ) {
         this._logger = logger ?? Logger.getInstance({ prefix: 'NavigationOrchestrator' })
 
@@ -47,16 +55,23 @@ export class NavigationOrchestrator<TContext extends OnboardingContext = Onboard
             this._errorHandler,
             this._logger
         )
+        this._stepGuardHandler = new StepGuardHandler(
+            this._steps,
+            this._stepTransitionService,
+            this._eventManager,
+            this._errorHandler,
+            this._logger
+        )
         this._checklistService = new ChecklistNavigationService(this._eventManager, this._errorHandler, this._logger)
     }
 
     /**
      * Navigate to a specific step with full event handling.
-     * Orchestrates the three services: beforeStepChange → transition → activation.
+     * Runs the navigation middleware chain: registered middleware → beforeStepChange → step guards → activation.
      */
     async navigateToStep(
         requestedTargetStepId: string | number | null | undefined,
-        direction: 'next' | 'previous' | 'skip' | 'goto' | 'initial' = 'goto',
+        direction: NavigationDirection = 'goto',
         currentStep: OnboardingStep<TContext> | null,
         context: TContext,
         history: string[],
@@ -65,64 +80,131 @@ export class NavigationOrchestrator<TContext extends OnboardingContext = Onboard
             oldStep: OnboardingStep<TContext> | null,
             context: TContext
         ) => void,
-        onFlowComplete?: (context: TContext) => Promise<void> | void
+        onFlowComplete?: (context: TContext) => Promise<void> | void,
+        stepData?: unknown
     ): Promise<OnboardingStep<TContext> | null> {
         this._stateManager.setLoading(true)
         this._stateManager.setError(null)
 
-        // Step 1: Handle beforeStepChange event
-        const { isCancelled, finalTargetStepId } = await this._beforeNavigationHandler.handle(
-            requestedTargetStepId,
+        const transition: NavigationTransition<TContext> = {
             direction,
-            currentStep,
-            context
-        )
-
-        if (isCancelled) {
-            this._logger.debug('[NavigationOrchestrator] Navigation cancelled.')
-            this._stateManager.setLoading(false)
-            return currentStep
+            fromStep: currentStep,
+            targetStepId: requestedTargetStepId,
+            stepData,
+            context,
+            startedAt: Date.now(),
         }
 
-        // Step 2: Find candidate step and skip conditionals
-        let candidateStep: OnboardingStep<TContext> | undefined | null = findStepById(this._steps, finalTargetStepId)
-        candidateStep = this._stepTransitionService.skipConditionalSteps(
-            candidateStep,
-            context,
-            direction === 'previous' ? 'previous' : 'next'
-        )
+        // The step resolved by the guard middleware, reused unless a middleware changes the target afterwards
+        let resolved: {
+            targetStepId: string | number | null | undefined
+            step: OnboardingStep<TContext> | null
+        } | null = null
+
+        const beforeStepChangeMiddleware: NavigationMiddleware<TContext> = async (transition, next) => {
+            const { isCancelled, finalTargetStepId } = await this._beforeNavigationHandler.handle(
+                transition.targetStepId,
+                direction,
+                currentStep,
+                context
+            )
 
-        const oldStep = currentStep
-        const newCurrentStep = candidateStep ?? null
+            if (isCancelled) {
+                this._logger.debug('[NavigationOrchestrator] Navigation cancelled.')
+                transition.outcome = 'cancelled'
+                return
+            }
 
-        // Step 3: Emit navigation events
-        this._emitNavigationEvents(direction, currentStep, newCurrentStep, context)
+            transition.targetStepId = finalTargetStepId
+            await next()
+        }
+
+        const stepGuardMiddleware: NavigationMiddleware<TContext> = (transition, next) => {
+            const candidateStep = this._resolveTargetStep(transition.targetStepId, direction, context)
+
+            if (direction === 'initial' || !this._stepGuardHandler.hasGuards(currentStep, candidateStep)) {
+                transition.targetStepId = candidateStep?.id ?? null
+                resolved = { targetStepId: transition.targetStepId, step: candidateStep }
+                return next()
+            }
 
-        // Step 4: Handle step activation or flow completion
-        if (newCurrentStep) {
-            await this._handleStepActivation(newCurrentStep, oldStep, direction, context, history)
-        } else {
-            await this._handleFlowComplete(oldStep, direction, context, onFlowComplete)
+            // Guards may be async; let listeners see the loading state while they run
+            this._stateManager.notifyStateChange(currentStep, context, history)
+
+            return this._stepGuardHandler
+                .handle(currentStep, candidateStep, direction, context)
+                .then(({ isDenied, finalTargetStep }) => {
+                    if (isDenied) {
+                        this._logger.debug('[NavigationOrchestrator] Navigation denied by a step guard.')
+                        transition.outcome = 'denied'
+                        return
+                    }
+
+                    transition.targetStepId = finalTargetStep?.id ?? null
+                    resolved = { targetStepId: transition.targetStepId, step: finalTargetStep ?? null }
+                    return next()
+                })
         }
 
-        // Step 5: Execute change callback
-        if (onStepChangeCallback) {
-            try {
-                onStepChangeCallback(newCurrentStep, oldStep, context)
-            } catch (error) {
-                this._errorHandler.handleError(error, 'onStepChangeCallback', context)
+        const activationMiddleware: NavigationMiddleware<TContext> = async (transition) => {
+            const newCurrentStep =
+                resolved && resolved.targetStepId === transition.targetStepId
+                    ? resolved.step
+                    : this._resolveTargetStep(transition.targetStepId, direction, context)
+
+            const oldStep = currentStep
+
+            // Emit navigation events
+            this._emitNavigationEvents(direction, oldStep, newCurrentStep, context)
+
+            // Handle step activation or flow completion
+            if (newCurrentStep) {
+                await this._handleStepActivation(newCurrentStep, oldStep, direction, context, history)
+            } else {
+                await this._handleFlowComplete(oldStep, direction, context, onFlowComplete)
+            }
+
+            // Execute change callback
+            if (onStepChangeCallback) {
+                try {
+                    onStepChangeCallback(newCurrentStep, oldStep, context)
+                } catch (error) {
+                    this._errorHandler.handleError(error, 'onStepChangeCallback', context)
+                }
             }
+
+            // Emit stepChange event
+            this._eventManager.notifyListeners('stepChange', {
+                oldStep,
+                newStep: newCurrentStep,
+                context,
+            })
+
+            transition.toStep = newCurrentStep
+            transition.outcome = 'navigated'
+            transition.duration = Date.now() - transition.startedAt
         }
 
-        // Step 6: Emit stepChange event
-        this._eventManager.notifyListeners('stepChange', {
-            oldStep,
-            newStep: newCurrentStep,
-            context,
-        })
+        // Registered middleware wraps the built-in middleware. beforeStepChange only runs when there are listeners.
+        try {
+            await this._runMiddleware(
+                [
+                    ...this._middleware,
+                    ...(this._eventManager.hasListeners('beforeStepChange') ? [beforeStepChangeMiddleware] : []),
+                    stepGuardMiddleware,
+                    activationMiddleware,
+                ],
+                this._middleware.length,
+                transition
+            )
+        } catch (error) {
+            this._errorHandler.handleError(error, 'navigation middleware', context)
+        }
 
+        this._markStopped(transition)
         this._stateManager.setLoading(false)
-        return newCurrentStep
+
+        return transition.outcome === 'navigated' ? (transition.toStep ?? null) : currentStep
     }
 
     /**
@@ -214,6 +296,59 @@ export class NavigationOrchestrator<TContext extends OnboardingContext = Onboard
     // Private Helper Methods
     // =========================================================================
 
+    /**
+     * Run the middleware chain. Returns the innermost promise directly so that the built-in
+     * middleware adds no extra ticks when nothing needs to be awaited.
+     */
+    private _runMiddleware(
+        middleware: NavigationMiddleware<TContext>[],
+        registeredCount: number,
+        transition: NavigationTransition<TContext>
+    ): Promise<void> {
+        const dispatch = (index: number): Promise<void> => {
+            const current = middleware[index]
+            if (!current) {
+                return Promise.resolve()
+            }
+
+            let called = false
+            const next = () => {
+                if (called) {
+                    return Promise.reject(new Error('next() called multiple times in navigation middleware'))
+                }
+                called = true
+                const inner = dispatch(index + 1)
+                // Let registered middleware see that an inner middleware stopped the navigation
+                return index + 1 < registeredCount ? inner.then(() => this._markStopped(transition)) : inner
+            }
+
+            return Promise.resolve(current(transition, next))
+        }
+
+        return dispatch(0)
+    }
+
+    private _markStopped(transition: NavigationTransition<TContext>): void {
+        if (!transition.outcome) {
+            transition.outcome = 'cancelled'
+        }
+    }
+
+    private _resolveTargetStep(
+        targetStepId: string | number | null | undefined,
+        direction: NavigationDirection,
+        context: TContext
+    ): OnboardingStep<TContext> | null {
+        const candidateStep = findStepById(this._steps, targetStepId)
+        return (
+            this._stepTransitionService.skipConditionalSteps(
+                candidateStep,
+                context,
+                direction === 'previous' ? 'previous' : 'next'
+            ) ?? null
+        )
+    }
+
     private _emitNavigationEvents(
         direction: string,
         currentStep: OnboardingStep<TContext> | null,
@@ -167,6 +167,47 @@ describe('NavigationService', () => {
             const result = svc.calculateNextStep(stepsWithFn[0], context)
             expect(result?.id).toBe('step3')
         })
+
+        it('should handle declarative nextStep and conditions', () => {
+            const stepsWithDeclarative = [
+                createStep({
+                    id: 'step1',
+                    nextStep: {
+                        when: { logic: 'AND', rules: [{ field: 'plan', operator: 'equals', value: 'pro' }] },
+                        then: 'step2',
+                        else: 'step3',
+                    },
+                }),
+                createStep({
+                    id: 'step2',
+                    condition: { logic: 'AND', rules: [{ field: 'seats', operator: 'greater_than', value: 1 }] },
+                }),
+                createStep({ id: 'step3' }),
+            ]
+            const svc = new NavigationService(
+                stepsWithDeclarative,
+                eventManager,
+                stateManager,
+                persistenceManager,
+                errorHandler,
+                logger
+            )
+
+            const context = createContext()
+            expect(svc.calculateNextStep(stepsWithDeclarative[0], context)?.id).toBe('step3')
+
+            context.flowData.plan = 'pro'
+            expect(svc.calculateNextStep(stepsWithDeclarative[0], context)?.id).toBe('step2')
+
+            // step2's declarative condition is checked when it is reached by default navigation
+            expect(svc.calculateNextStep({ ...stepsWithDeclarative[0], nextStep: undefined }, context)?.id).toBe(
+                'step3'
+            )
+            context.flowData.seats = 5
+            expect(svc.calculateNextStep({ ...stepsWithDeclarative[0], nextStep: undefined }, context)?.id).toBe(
+                'step2'
+            )
+        })
     })
 
     describe('calculatePreviousStep', () => {
@@ -363,6 +404,128 @@ describe('NavigationService', () => {
             const result = await service.next(steps[0], {}, context, [])
             expect(result).toBe(steps[0])
         })
+
+        describe('FORM steps', () => {
+            let formSteps: OnboardingStep<OnboardingContext>[]
+            let formService: NavigationService<OnboardingContext>
+
+            beforeEach(() => {
+                formSteps = [
+                    {
+                        id: 'form',
+                        type: 'FORM',
+                        payload: {
+                            fields: [
+                                {
+                                    id: 'email',
+                                    name: 'email',
+                                    label: 'Email',
+                                    type: 'email',
+                                    validation: { required: true },
+                                },
+                            ],
+                        },
+                    },
+                    createStep({ id: 'step2' }),
+                ]
+                formService = new NavigationService(
+                    formSteps,
+                    eventManager,
+                    stateManager,
+                    persistenceManager,
+                    errorHandler,
+                    logger
+                )
+            })
+
+            it('should block navigation and emit stepValidationFailed when fields are invalid', async () => {
+                const listener = vi.fn()
+                eventManager.addEventListener('stepValidationFailed', listener)
+
+                const context = createContext()
+                const result = await formService.next(formSteps[0], {}, context, [])
+
+                expect(result?.id).toBe('form')
+                expect(stateManager.isLoading).toBe(false)
+                expect(listener).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        step: formSteps[0],
+                        validationErrors: ['Email is required'],
+                        fieldErrors: [
+                            { fieldId: 'email', fieldName: 'email', rule: 'required', message: 'Email is required' },
+                        ],
+                    })
+                )
+            })
+
+            it('should navigate when all fields are valid', async () => {
+                const context = createContext()
+                const result = await formService.next(formSteps[0], { email: 'ada@example.com' }, context, [])
+
+                expect(result?.id).toBe('step2')
+                expect(context.flowData.email).toBe('ada@example.com')
+            })
+        })
+
+        describe('choice steps', () => {
+            let choiceSteps: OnboardingStep<OnboardingContext>[]
+            let choiceService: NavigationService<OnboardingContext>
+
+            beforeEach(() => {
+                choiceSteps = [
+                    {
+                        id: 'tools',
+                        type: 'MULTIPLE_CHOICE',
+                        payload: {
+                            dataKey: 'tools',
+                            maxSelections: 1,
+                            options: [
+                                { id: 'a', label: 'A', value: 'a' },
+                                { id: 'b', label: 'B', value: 'b' },
+                            ],
+                        },
+                    },
+                    createStep({ id: 'step2' }),
+                ]
+                choiceService = new NavigationService(
+                    choiceSteps,
+                    eventManager,
+                    stateManager,
+                    persistenceManager,
+                    errorHandler,
+                    logger
+                )
+            })
+
+            it('should block navigation and record typed errors on the state', async () => {
+                const listener = vi.fn()
+                eventManager.addEventListener('stepValidationFailed', listener)
+
+                const context = createContext()
+                const result = await choiceService.next(choiceSteps[0], { tools: ['a', 'b'] }, context, [])
+
+                expect(result?.id).toBe('tools')
+                expect(context.flowData.tools).toBeUndefined()
+                expect(stateManager.getState(choiceSteps[0], context, []).validationErrors).toEqual([
+                    { stepId: 'tools', key: 'tools', rule: 'maxSelections', message: 'Select at most 1 option(s)' },
+                ])
+                expect(listener).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        validationErrors: ['Select at most 1 option(s)'],
+                        errors: [expect.objectContaining({ rule: 'maxSelections' })],
+                    })
+                )
+            })
+
+            it('should clear errors once the selection is valid', async () => {
+                const context = createContext()
+                await choiceService.next(choiceSteps[0], { tools: ['a', 'b'] }, context, [])
+                const result = await choiceService.next(choiceSteps[0], { tools: ['a'] }, context, [])
+
+                expect(result?.id).toBe('step2')
+                expect(stateManager.validationErrors).toEqual([])
+            })
+        })
     })
 
     describe('previous', () => {
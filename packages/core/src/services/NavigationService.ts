@@ -3,13 +3,18 @@
 // Maintains backward compatibility while improving code quality
 
 import { Logger } from './Logger'
-import { OnboardingContext, OnboardingStep, ChecklistItemState } from '../types'
+import { OnboardingContext, OnboardingStep, ChecklistItemState, FormFieldError, JSONSchema } from '../types'
 import { ErrorHandler } from '../engine/ErrorHandler'
 import { EventManager } from '../engine/EventManager'
 import { StateManager } from '../engine/StateManager'
 import type { INavigationService, IPersistenceService } from './interfaces'
 import { NavigationOrchestrator } from './NavigationOrchestrator'
 import { ChecklistNavigationService } from './ChecklistNavigationService'
+import { FormValidationService } from './FormValidationService'
+import { ChoiceValidationService } from './ChoiceValidationService'
+import { FlowDataValidationError, SchemaValidationService } from './SchemaValidationService'
+import type { NavigationDirection, NavigationMiddleware, StepDataValidationError } from '../engine/types'
+import { getScopedFlowData, mergeScopedFlowData } from '../utils/subflow-utils'
 
 /**
  * Checklist progress information
@@ -34,6 +39,9 @@ export class NavigationService<
     private readonly _logger: Logger
     private readonly _orchestrator: NavigationOrchestrator<TContext>
     private readonly _checklistService: ChecklistNavigationService<TContext>
+    private readonly _formValidationService: FormValidationService<TContext>
+    private readonly _choiceValidationService: ChoiceValidationService<TContext>
+    private readonly _schemaValidationService: SchemaValidationService<TContext>
 
     constructor(
         private readonly _steps: OnboardingStep<TContext>[],
@@ -41,7 +49,9 @@ export class NavigationService<
         private readonly _stateManager: StateManager<TContext>,
         private readonly _persistenceService: IPersistenceService<TContext>,
         private readonly _errorHandler: ErrorHandler<TContext>,
-        logger?: Logger
+        logger?: Logger,
+        flowDataSchema?: JSONSchema,
+        middleware?: NavigationMiddleware<TContext>[]
     ) {
         this._logger = logger ?? Logger.getInstance({ prefix: 'NavigationService' })
 
@@ -52,11 +62,16 @@ export class NavigationService<
             this._stateManager,
             this._persistenceService,
             this._errorHandler,
-            this._logger
+            this._logger,
+            middleware
         )
 
         // Expose checklist service
         this._checklistService = this._orchestrator.getChecklistService()
+
+        this._formValidationService = new FormValidationService(this._logger)
+        this._choiceValidationService = new ChoiceValidationService(this._logger)
+        this._schemaValidationService = new SchemaValidationService(flowDataSchema, this._logger)
     }
 
     // =========================================================================
@@ -68,7 +83,7 @@ export class NavigationService<
      */
     async navigateToStep(
         requestedTargetStepId: string | number | null | undefined,
-        direction: 'next' | 'previous' | 'skip' | 'goto' | 'initial' = 'goto',
+        direction: NavigationDirection = 'goto',
         currentStep: OnboardingStep<TContext> | null,
         context: TContext,
         history: string[],
@@ -77,7 +92,8 @@ export class NavigationService<
             oldStep: OnboardingStep<TContext> | null,
             context: TContext
         ) => void,
-        onFlowComplete?: (context: TContext) => Promise<void> | void
+        onFlowComplete?: (context: TContext) => Promise<void> | void,
+        stepData?: unknown
     ): Promise<OnboardingStep<TContext> | null> {
         return this._orchestrator.navigateToStep(
             requestedTargetStepId,
@@ -86,7 +102,8 @@ export class NavigationService<
             context,
             history,
             onStepChangeCallback,
-            onFlowComplete
+            onFlowComplete,
+            stepData
         )
     }
 
@@ -178,16 +195,19 @@ export class NavigationService<
             }
         }
 
+        // Validate step data against the step's payload constraints
+        if (!(await this._validateStepData(currentStep, stepSpecificData, context))) {
+            return currentStep
+        }
+
         this._stateManager.setLoading(true)
         this._stateManager.setError(null)
 
         try {
             // Update context with step-specific data
+            // Steps inside a sub-flow store their data in the sub-flow's scope
             if (stepSpecificData && Object.keys(stepSpecificData).length > 0) {
-                const newFlowData = {
-                    ...context.flowData,
-                    ...stepSpecificData,
-                }
+                const newFlowData = mergeScopedFlowData(currentStep, context.flowData, stepSpecificData)
                 if (JSON.stringify(context.flowData) !== JSON.stringify(newFlowData)) {
                     context.flowData = newFlowData
                 }
@@ -218,7 +238,8 @@ export class NavigationService<
                 context,
                 history,
                 onStepChangeCallback,
-                onFlowComplete
+                onFlowComplete,
+                stepSpecificData
             )
 
             await this._persistenceService.persistDataIfNeeded(
@@ -258,12 +279,11 @@ export class NavigationService<
         const prevStepId = candidate ? candidate.id : null
 
         // Pop from history if history was the source and previousStep was undefined
-        if (history.length > 0 && history[history.length - 1] === prevStepId) {
-            history.pop()
-        }
+        const poppedStepId =
+            history.length > 0 && history[history.length - 1] === prevStepId ? history.pop() : undefined
 
         if (prevStepId) {
-            return this.navigateToStep(
+            const newCurrentStep = await this.navigateToStep(
                 prevStepId,
                 'previous',
                 currentStep,
@@ -272,6 +292,13 @@ export class NavigationService<
                 onStepChangeCallback,
                 onFlowComplete
             )
+
+            // Navigation was cancelled or denied; keep the history entry
+            if (poppedStepId !== undefined && newCurrentStep === currentStep) {
+                history.push(poppedStepId)
+            }
+
+            return newCurrentStep
         }
 
         return currentStep
@@ -358,7 +385,8 @@ export class NavigationService<
             context,
             history,
             onStepChangeCallback,
-            onFlowComplete
+            onFlowComplete,
+            stepSpecificData
         )
     }
 
@@ -377,6 +405,71 @@ export class NavigationService<
     // Private Helper Methods
     // =========================================================================
 
+    /**
+     * Run FORM field, choice constraint and JSON Schema validation for the current step.
+     * Records the errors on the engine state and emits `stepValidationFailed` on failure.
+     * @returns true if navigation may proceed
+     */
+    private async _validateStepData(
+        currentStep: OnboardingStep<TContext>,
+        stepSpecificData: any,
+        context: TContext
+    ): Promise<boolean> {
+        let errors: StepDataValidationError[] = []
+        let fieldErrors: FormFieldError[] | undefined
+        // Steps inside a sub-flow validate against the sub-flow's data
+        const scopedContext = { ...context, flowData: getScopedFlowData(currentStep, context.flowData) }
+
+        if (currentStep.type === 'FORM') {
+            this._stateManager.setLoading(true)
+            const result = await this._formValidationService.validate(
+                currentStep as OnboardingStep<TContext> & { type: 'FORM' },
+                stepSpecificData,
+                scopedContext
+            )
+            this._stateManager.setLoading(false)
+
+            fieldErrors = result.errors
+            errors = result.errors.map((e) => ({
+                stepId: currentStep.id,
+                key: e.fieldName,
+                rule: e.rule,
+                message: e.message,
+            }))
+        } else {
+            errors = this._choiceValidationService.validate(currentStep, stepSpecificData, scopedContext)
+        }
+
+        const schemaErrors = this._schemaValidationService.validateStepData(currentStep, stepSpecificData, context)
+        if (schemaErrors.length > 0) {
+            this._errorHandler.handleError(
+                new FlowDataValidationError(schemaErrors, 'next'),
+                'next',
+                context,
+                currentStep.id
+            )
+            errors = [...errors, ...this._schemaValidationService.toStepErrors(currentStep.id, schemaErrors)]
+        }
+
+        this._stateManager.setValidationErrors(errors)
+
+        if (errors.length === 0) {
+            return true
+        }
+
+        this._logger.warn(
+            `[NavigationService] Cannot proceed from step '${currentStep.id}': ${errors.length} validation error(s).`
+        )
+        this._eventManager.notifyListeners('stepValidationFailed', {
+            step: currentStep,
+            context,
+            validationErrors: errors.map((e) => e.message),
+            errors,
+            ...(fieldErrors && { fieldErrors }),
+        })
+        return false
+    }
+
     private _markStepCompleted(step: OnboardingStep<TContext>, context: TContext): void {
         if (!context.flowData._internal) {
             context.flowData._internal = {
@@ -1,11 +1,11 @@
 // src/services/PersistenceService.test.ts
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { PersistenceService } from './PersistenceService'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PersistenceService, getRetryDelay } from './PersistenceService'
 import { ErrorHandler } from '../engine/ErrorHandler'
 import { EventManager } from '../engine/EventManager'
 import { StateManager } from '../engine/StateManager'
 import { OnboardingContext } from '../types'
-import { FlowContext, LoadedData } from '../engine/types'
+import { FlowContext, LoadedData, PendingPersistence } from '../engine/types'
 
 const createFlowContext = (): FlowContext => ({
     flowId: 'test-flow',
@@ -151,6 +151,375 @@ describe('PersistenceService', () => {
         })
     })
 
+    describe('expiry', () => {
+        const DAY = 24 * 60 * 60 * 1000
+        const now = Date.UTC(2026, 0, 31)
+
+        const savedData = (firstSavedAt: number, savedAt: number, flowVersion = '1.0.0'): LoadedData => ({
+            currentStepId: 'step-3',
+            flowData: {
+                plan: 'pro',
+                _internal: {
+                    completedSteps: { 'step-1': 1, 'step-2': 2 },
+                    startedAt: firstSavedAt,
+                    stepStartTimes: {},
+                    flowVersion,
+                    experiments: { pricing: 'b' },
+                    firstSavedAt,
+                    savedAt,
+                },
+            },
+        })
+
+        beforeEach(() => {
+            vi.useFakeTimers()
+            vi.setSystemTime(now)
+        })
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should stamp the first and last save only while a policy is set', async () => {
+            const persistHandler = vi.fn()
+            const service = new PersistenceService(undefined, persistHandler)
+            const context: OnboardingContext = {
+                flowData: { _internal: { completedSteps: {}, startedAt: 0, stepStartTimes: {} } },
+            }
+
+            await service.persistDataIfNeeded(context, 'step-1', false)
+            expect(persistHandler.mock.lastCall?.[0].flowData._internal.savedAt).toBeUndefined()
+
+            service.setExpiryPolicy({ ttl: DAY })
+            await service.persistDataIfNeeded(context, 'step-1', false)
+            vi.setSystemTime(now + 1000)
+            await service.persistDataIfNeeded(context, 'step-2', false)
+
+            expect(persistHandler.mock.lastCall?.[0].flowData._internal).toMatchObject({
+                firstSavedAt: now,
+                savedAt: now + 1000,
+            })
+            // The stamps are written to a copy of the context
+            expect(context.flowData._internal).toEqual({ completedSteps: {}, startedAt: 0, stepStartTimes: {} })
+
+            // A restarted flow has its own first save
+            vi.setSystemTime(now + 2000)
+            await service.persistDataIfNeeded(
+                { flowData: { _internal: { completedSteps: {}, startedAt: now + 2000, stepStartTimes: {} } } },
+                'step-1',
+                false
+            )
+            expect(persistHandler.mock.lastCall?.[0].flowData._internal).toMatchObject({
+                firstSavedAt: now + 2000,
+                savedAt: now + 2000,
+            })
+        })
+
+        it('should discard data older than the ttl or inactive for too long', async () => {
+            const listener = vi.fn()
+            eventManager.addEventListener('persistenceExpired', listener)
+            const data = savedData(now - 10 * DAY, now - DAY)
+            const service = new PersistenceService(() => data, undefined, undefined, undefined, eventManager)
+
+            service.setExpiryPolicy({ ttl: 30 * DAY, inactivityTimeout: 2 * DAY })
+            expect((await service.loadPersistedData('1.0.0')).data).toBe(data)
+
+            service.setExpiryPolicy({ ttl: 7 * DAY })
+            expect(await service.loadPersistedData('1.0.0')).toEqual({ data: null, error: null })
+            expect(listener).toHaveBeenLastCalledWith({ data, reason: 'ttl', action: 'discard', savedAt: now - DAY })
+
+            service.setExpiryPolicy({ inactivityTimeout: DAY / 2 })
+            expect((await service.loadPersistedData('1.0.0')).data).toBeNull()
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'inactivity' }))
+        })
+
+        it('should never expire data without stamps or a recorded version by those rules', async () => {
+            const service = new PersistenceService(() => ({ currentStepId: 'step-2', flowData: { plan: 'pro' } }))
+            service.setExpiryPolicy({ ttl: 0, inactivityTimeout: 0, expireOnFlowVersionChange: true })
+
+            expect((await service.loadPersistedData('2.0.0')).data).toMatchObject({ currentStepId: 'step-2' })
+        })
+
+        it('should clear expired data with restart', async () => {
+            const clearHandler = vi.fn().mockRejectedValue(new Error('Clear failed'))
+            const service = new PersistenceService(() => savedData(now, now, '1.0.0'), undefined, clearHandler)
+            service.setExpiryPolicy({ expireOnFlowVersionChange: true, onExpired: 'restart' })
+
+            expect(await service.loadPersistedData('1.0.0')).toMatchObject({ data: { currentStepId: 'step-3' } })
+            expect(clearHandler).not.toHaveBeenCalled()
+
+            expect(await service.loadPersistedData('2.0.0')).toEqual({ data: null, error: null })
+            expect(clearHandler).toHaveBeenCalledTimes(1)
+        })
+
+        it('should keep the collected data but not the position with resetPosition', async () => {
+            const listener = vi.fn()
+            eventManager.addEventListener('persistenceExpired', listener)
+            const service = new PersistenceService(
+                () => ({ ...savedData(now - 3 * DAY, now - 3 * DAY), currentUser: { id: 'u1' } }),
+                undefined,
+                undefined,
+                undefined,
+                eventManager
+            )
+            service.setExpiryPolicy({ inactivityTimeout: DAY, onExpired: 'resetPosition' })
+
+            const { data } = await service.loadPersistedData('2.0.0')
+
+            expect(data).toEqual({
+                currentUser: { id: 'u1' },
+                flowData: {
+                    plan: 'pro',
+                    _internal: {
+                        completedSteps: {},
+                        startedAt: now,
+                        stepStartTimes: {},
+                        flowVersion: '1.0.0',
+                        experiments: { pricing: 'b' },
+                    },
+                },
+            })
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({ reason: 'inactivity', action: 'resetPosition' })
+            )
+        })
+    })
+
+    describe('write queue', () => {
+        beforeEach(() => {
+            vi.useFakeTimers()
+            vi.spyOn(Math, 'random').mockReturnValue(0.5)
+        })
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+            vi.useRealTimers()
+        })
+
+        const contextWith = (testValue: string): OnboardingContext => ({ flowData: { testValue } })
+
+        it('should only write the latest of the states queued during a write', async () => {
+            let finishWrite = () => {}
+            const persistHandler = vi.fn(() => new Promise<void>((resolve) => (finishWrite = resolve)))
+            const statuses: string[] = []
+            const service = new PersistenceService(undefined, persistHandler)
+            service.setStatusListener((status) => statuses.push(status))
+
+            const first = service.persistDataIfNeeded(contextWith('a'), 'step-1', false)
+            void service.persistDataIfNeeded(contextWith('b'), 'step-2', false)
+            const last = service.persistDataIfNeeded(contextWith('c'), 'step-3', false)
+            finishWrite()
+            await vi.waitFor(() => expect(persistHandler).toHaveBeenCalledTimes(2))
+            finishWrite()
+            await Promise.all([first, last])
+
+            expect(persistHandler.mock.calls.map(([, stepId]) => stepId)).toEqual(['step-1', 'step-3'])
+            expect(statuses).toEqual(['saving', 'saved'])
+        })
+
+        it('should retry failed writes with backoff and give up after maxAttempts', async () => {
+            const persistHandler = vi.fn().mockRejectedValue(new Error('Offline'))
+            const failures = vi.fn()
+            eventManager.addEventListener('persistenceFailure', failures)
+            const handleError = vi.spyOn(errorHandler, 'handleError')
+            const service = new PersistenceService(undefined, persistHandler, undefined, errorHandler, eventManager)
+            service.setRetryConfig({ maxAttempts: 3, initialDelay: 100 })
+
+            await service.persistDataIfNeeded(createTestContext(), 'step-1', false)
+            expect(service.getStatus()).toBe('pending')
+            expect(handleError).not.toHaveBeenCalled()
+
+            await vi.advanceTimersByTimeAsync(99)
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+            await vi.advanceTimersByTimeAsync(1)
+            expect(persistHandler).toHaveBeenCalledTimes(2)
+            await vi.advanceTimersByTimeAsync(200)
+            expect(persistHandler).toHaveBeenCalledTimes(3)
+
+            expect(service.getStatus()).toBe('error')
+            expect(failures.mock.calls.map(([event]) => [event.attempt, event.willRetry])).toEqual([
+                [1, true],
+                [2, true],
+                [3, false],
+            ])
+            expect(handleError).toHaveBeenCalledTimes(1)
+
+            await vi.advanceTimersByTimeAsync(60000)
+            expect(persistHandler).toHaveBeenCalledTimes(3)
+        })
+
+        it('should write a state queued while waiting with the retry, or right away on flush', async () => {
+            const persistHandler = vi.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined)
+            const service = new PersistenceService(undefined, persistHandler)
+            service.setRetryConfig({ initialDelay: 1000 })
+
+            await service.persistDataIfNeeded(contextWith('a'), 'step-1', false)
+            await service.persistDataIfNeeded(contextWith('b'), 'step-2', false)
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+
+            await service.flush()
+
+            expect(persistHandler).toHaveBeenCalledTimes(2)
+            expect(persistHandler).toHaveBeenLastCalledWith(contextWith('b'), 'step-2')
+            expect(service.getStatus()).toBe('saved')
+            await vi.advanceTimersByTimeAsync(60000)
+            expect(persistHandler).toHaveBeenCalledTimes(2)
+        })
+
+        it('should keep unsaved state in the fallback store and load it after a reload', async () => {
+            let stored: PendingPersistence | null = null
+            const fallbackStore = {
+                get: () => stored,
+                set: vi.fn((entry: PendingPersistence) => {
+                    stored = entry
+                }),
+                clear: vi.fn(() => {
+                    stored = null
+                }),
+            }
+            const failing = new PersistenceService(undefined, vi.fn().mockRejectedValue(new Error('Offline')))
+            failing.setRetryConfig({ maxAttempts: 1, fallbackStore })
+            await failing.persistDataIfNeeded(contextWith('unsaved'), 'step-2', false)
+            expect(failing.getStatus()).toBe('error')
+
+            const persistHandler = vi.fn()
+            const reloaded = new PersistenceService(() => ({ flowData: { testValue: 'old' } }), persistHandler)
+            reloaded.setRetryConfig({ fallbackStore })
+            const { data } = await reloaded.loadPersistedData()
+            await reloaded.flush()
+
+            expect(data).toEqual({ flowData: { testValue: 'unsaved' }, currentStepId: 'step-2' })
+            expect(persistHandler).toHaveBeenCalledWith(contextWith('unsaved'), 'step-2')
+            expect(stored).toBeNull()
+        })
+
+        it('should not write the waiting state after clearData', async () => {
+            const persistHandler = vi.fn().mockRejectedValueOnce(new Error('Offline'))
+            const service = new PersistenceService(undefined, persistHandler)
+            service.setRetryConfig({ initialDelay: 100 })
+
+            await service.persistDataIfNeeded(createTestContext(), 'step-1', false)
+            await service.clearData()
+            await vi.advanceTimersByTimeAsync(60000)
+
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+            expect(service.getStatus()).toBe('saved')
+        })
+
+        it('should compute exponential delays capped at maxDelay', () => {
+            expect([1, 2, 3, 4].map((attempt) => getRetryDelay(attempt, { initialDelay: 100, maxDelay: 500 }))).toEqual(
+                [100, 200, 400, 500]
+            )
+
+            vi.spyOn(Math, 'random').mockReturnValue(0)
+            expect(getRetryDelay(1, { initialDelay: 100, jitter: 0.5 })).toBe(50)
+        })
+    })
+
+    describe('schedule', () => {
+        beforeEach(() => {
+            vi.useFakeTimers()
+        })
+
+        afterEach(() => {
+            vi.unstubAllGlobals()
+            vi.useRealTimers()
+        })
+
+        const contextWith = (flowData: Record<string, unknown>): OnboardingContext => ({ flowData })
+
+        it('should write once no change was made for debounceMs, or after maxWait', async () => {
+            const persistHandler = vi.fn()
+            const service = new PersistenceService(undefined, persistHandler)
+            service.setSchedule({ mode: 'debounced', debounceMs: 100, maxWait: 250 })
+
+            for (let i = 1; i <= 3; i++) {
+                await service.persistDataIfNeeded(contextWith({ count: i }), 'step-1', false)
+                await vi.advanceTimersByTimeAsync(50)
+            }
+            expect(persistHandler).not.toHaveBeenCalled()
+            expect(service.getStatus()).toBe('pending')
+
+            await vi.advanceTimersByTimeAsync(50)
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+            expect(persistHandler).toHaveBeenCalledWith(contextWith({ count: 3 }), 'step-1')
+            expect(service.getStatus()).toBe('saved')
+
+            for (let i = 4; i <= 10; i++) {
+                await service.persistDataIfNeeded(contextWith({ count: i }), 'step-1', false)
+                await vi.advanceTimersByTimeAsync(50)
+            }
+            expect(persistHandler).toHaveBeenCalledTimes(2)
+        })
+
+        it('should only write on step changes with onStepChange, or on flush', async () => {
+            const persistHandler = vi.fn()
+            const service = new PersistenceService(() => ({ currentStepId: 'step-1' }), persistHandler)
+            service.setSchedule('onStepChange')
+            await service.loadPersistedData()
+
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada' }), 'step-1', false)
+            await vi.advanceTimersByTimeAsync(60000)
+            expect(persistHandler).not.toHaveBeenCalled()
+
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada', plan: 'pro' }), 'step-2', false)
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada Lovelace', plan: 'pro' }), 'step-2', false)
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+            expect(persistHandler).toHaveBeenCalledWith(contextWith({ name: 'Ada', plan: 'pro' }), 'step-2')
+
+            await service.flush()
+            expect(persistHandler).toHaveBeenCalledTimes(2)
+            expect(persistHandler).toHaveBeenLastCalledWith(
+                contextWith({ name: 'Ada Lovelace', plan: 'pro' }),
+                'step-2'
+            )
+        })
+
+        it('should write the scheduled state when the page is hidden', async () => {
+            vi.stubGlobal('window', new EventTarget())
+            const persistHandler = vi.fn()
+            const service = new PersistenceService(undefined, persistHandler)
+            service.setSchedule('debounced')
+
+            await service.persistDataIfNeeded(createTestContext(), 'step-1', false)
+            window.dispatchEvent(new Event('pagehide'))
+            await vi.waitFor(() => expect(persistHandler).toHaveBeenCalledTimes(1))
+
+            window.dispatchEvent(new Event('pagehide'))
+            await vi.advanceTimersByTimeAsync(60000)
+            expect(persistHandler).toHaveBeenCalledTimes(1)
+        })
+
+        it('should pass only the keys changed since the last write to the patch handler', async () => {
+            const patchHandler = vi.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined)
+            const service = new PersistenceService(() => ({
+                currentStepId: 'step-1',
+                flowData: { name: 'Ada', plan: 'free', coupon: 'X1' },
+            }))
+            service.setDataPatchHandler(patchHandler)
+            await service.loadPersistedData()
+
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada', plan: 'pro' }), 'step-2', false)
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada', plan: 'pro', seats: 3 }), 'step-2', false)
+            await service.persistDataIfNeeded(contextWith({ name: 'Ada', plan: 'pro', seats: 3 }), 'step-3', false)
+
+            expect(patchHandler.mock.calls.map(([patch]) => patch)).toEqual([
+                { currentStepId: 'step-2', flowData: { plan: 'pro' }, changedKeys: ['plan'], removedKeys: ['coupon'] },
+                {
+                    currentStepId: 'step-2',
+                    flowData: { plan: 'pro', seats: 3 },
+                    changedKeys: ['plan', 'seats'],
+                    removedKeys: ['coupon'],
+                },
+                { currentStepId: 'step-3', flowData: {}, changedKeys: [], removedKeys: [] },
+            ])
+            expect(patchHandler).toHaveBeenLastCalledWith(
+                expect.any(Object),
+                contextWith({ name: 'Ada', plan: 'pro', seats: 3 })
+            )
+        })
+    })
+
     describe('clearData', () => {
         it('should do nothing if no clear handler configured', async () => {
             const service = new PersistenceService()
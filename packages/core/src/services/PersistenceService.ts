@@ -6,16 +6,50 @@ import { OnboardingContext } from '../types'
 import { ErrorHandler } from '../engine/ErrorHandler'
 import { EventManager } from '../engine/EventManager'
 import { Logger } from './Logger'
-import { DataLoadFn, DataPersistFn, LoadedData } from '../engine/types'
+import {
+    DataLoadFn,
+    DataPatchFn,
+    DataPersistFn,
+    LoadedData,
+    PersistencePatch,
+    PersistenceExpiryAction,
+    PersistenceExpiryPolicy,
+    PersistenceExpiryReason,
+    PendingPersistence,
+    PersistenceRetryConfig,
+    PersistenceScheduleConfig,
+    PersistenceScheduleMode,
+    PersistenceSyncStatus,
+} from '../engine/types'
 import type { IPersistenceService } from './interfaces'
 
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_INITIAL_DELAY = 1000
+const DEFAULT_MAX_DELAY = 30000
+const DEFAULT_JITTER = 0.5
+const DEFAULT_DEBOUNCE_MS = 1000
+
+/**
+ * The delay before retry number `attempt` (1-based): exponential backoff, randomly varied by `jitter`.
+ */
+export function getRetryDelay(attempt: number, config: PersistenceRetryConfig = {}): number {
+    const delay = Math.min(
+        (config.initialDelay ?? DEFAULT_INITIAL_DELAY) * 2 ** (attempt - 1),
+        config.maxDelay ?? DEFAULT_MAX_DELAY
+    )
+    const jitter = config.jitter ?? DEFAULT_JITTER
+    return Math.round(delay * (1 - jitter + Math.random() * 2 * jitter))
+}
+
 /**
  * PersistenceService handles data persistence operations for the onboarding flow.
  *
  * This service is responsible for:
  * - Loading persisted state on initialization
- * - Persisting state changes during navigation
+ * - Persisting state changes during navigation, coalescing writes and retrying failed ones
+ * - Scheduling writes (immediately, debounced or on step change) and writing only changed keys with a patch handler
  * - Clearing persisted data on reset
+ * - Expiring stale persisted data according to the expiry policy
  * - Emitting persistence events for monitoring
  *
  * @example
@@ -40,7 +74,24 @@ export class PersistenceService<
 > implements IPersistenceService<TContext> {
     private _loadData?: DataLoadFn<TContext>
     private _persistData?: DataPersistFn<TContext>
+    private _persistPatch?: DataPatchFn<TContext>
     private _clearPersistedData?: () => Promise<void> | void
+    private _expiryPolicy?: PersistenceExpiryPolicy
+    private _persistGate?: () => boolean
+    private _retryConfig?: PersistenceRetryConfig<TContext>
+    private _statusListener?: (status: PersistenceSyncStatus) => void
+    private _status: PersistenceSyncStatus = 'saved'
+    private _pending: PendingPersistence<TContext> | null = null
+    private _draining: Promise<void> | null = null
+    private _retryTimer: ReturnType<typeof setTimeout> | null = null
+    private _attempt = 0
+    private _schedule: PersistenceScheduleConfig = { mode: 'immediate' }
+    private _scheduled: PendingPersistence<TContext> | null = null
+    private _scheduleTimer: ReturnType<typeof setTimeout> | null = null
+    private _lastStepId: string | number | null | undefined = undefined
+    private _firstSave: { startedAt: number; savedAt: number } | null = null // first save of the flow, by its start
+    private _writtenFlowData = new Map<string, string>() // flowData key -> serialized value, as last written
+    private _windowListener: ((event: Event) => void) | null = null
     private _logger: Logger
 
     constructor(
@@ -65,9 +116,12 @@ export class PersistenceService<
     // =============================================================================
 
     /**
-     * Load persisted data from storage
+     * Load persisted data from storage. Data that has expired under the expiry policy is
+     * discarded, cleared or reset to the start of the flow, and `persistenceExpired` is emitted.
+     *
+     * @param currentFlowVersion The version of the current flow, for the `expireOnFlowVersionChange` rule.
      */
-    async loadPersistedData(): Promise<{
+    async loadPersistedData(currentFlowVersion: string | null = null): Promise<{
         data: LoadedData<TContext> | null
         error: Error | null
     }> {
@@ -77,7 +131,8 @@ export class PersistenceService<
 
         try {
             this._logger.debug('Attempting to load persisted data...')
-            const loadedData = await this._loadData()
+            const unsavedData = await this._loadUnsavedData()
+            const loadedData = unsavedData ?? (await this._loadData())
             this._logger.debug('Data loaded successfully:', {
                 hasFlowData: !!loadedData?.flowData,
                 currentStepId: loadedData?.currentStepId,
@@ -85,7 +140,18 @@ export class PersistenceService<
                     ? Object.keys(loadedData).filter((k) => k !== 'flowData' && k !== 'currentStepId')
                     : [],
             })
-            return { data: loadedData ?? null, error: null }
+            if (!loadedData) {
+                return { data: null, error: null }
+            }
+
+            // Patches are computed against the stored data. Unsaved data is newer, so it is written in full.
+            this._lastStepId = loadedData.currentStepId
+            if (this._persistPatch && !unsavedData) {
+                this._writtenFlowData = serializeFlowData(loadedData.flowData)
+            }
+
+            const expiryReason = this._getExpiryReason(loadedData, currentFlowVersion)
+            return { data: expiryReason ? await this._expire(loadedData, expiryReason) : loadedData, error: null }
         } catch (error) {
             this._logger.error('Error during loadData:', error)
             const processedError = error instanceof Error ? error : new Error(String(error))
@@ -95,24 +161,169 @@ export class PersistenceService<
     }
 
     /**
-     * Persist data if persistence is configured and not currently hydrating
+     * The state left in the fallback store by writes that failed before a reload. It is newer than
+     * the stored data, so it is loaded instead and written again.
+     */
+    private async _loadUnsavedData(): Promise<LoadedData<TContext> | null> {
+        const fallbackStore = this._retryConfig?.fallbackStore
+        if (!fallbackStore) {
+            return null
+        }
+
+        let entry: PendingPersistence<TContext> | null | undefined
+        try {
+            entry = await fallbackStore.get()
+        } catch (error) {
+            this._logger.error('Error reading the fallback store:', error)
+            return null
+        }
+        if (!entry) {
+            return null
+        }
+
+        this._logger.debug('Loaded unsaved state from the fallback store, queued for writing')
+        this._pending = entry
+        void this._drain()
+        return { ...entry.context, currentStepId: entry.currentStepId }
+    }
+
+    /**
+     * Persist data if persistence is configured and not currently hydrating.
+     *
+     * Writes are queued: a state passed while a write is in progress replaces any other waiting
+     * state and is written next. Resolves once the state is written or its first attempt failed;
+     * with a retry config, failed writes are retried in the background with exponential backoff.
+     * With a `debounced` or `onStepChange` schedule, the state may only be scheduled for writing.
      */
     async persistDataIfNeeded(
         context: TContext,
         currentStepId: string | number | null,
         isHydrating: boolean
     ): Promise<void> {
-        if (isHydrating || !this._persistData) {
+        if (isHydrating || !this._hasWriter() || (this._persistGate && !this._persistGate())) {
             return
         }
 
+        if (this._expiryPolicy) {
+            context = this._stampSavedAt(context)
+        }
+        const isStepChange = currentStepId !== this._lastStepId
+        this._lastStepId = currentStepId
+        const entry = {
+            context,
+            currentStepId,
+            queuedAt: this._scheduled?.queuedAt ?? this._pending?.queuedAt ?? Date.now(),
+        }
+
+        if (!this._retryTimer && this._shouldDefer(isStepChange)) {
+            this._defer(entry)
+            return
+        }
+
+        // The new state includes the scheduled changes
+        this._clearScheduleTimer()
+        this._scheduled = null
+        this._pending = entry
+
+        // While waiting to retry, the new state is written with the retry
+        if (this._retryTimer) {
+            await this._storeFallback(this._pending)
+            return
+        }
+
+        await this._drain()
+    }
+
+    /**
+     * Drop the state waiting to be written and forget what was written, e.g. before the persisted data is cleared
+     */
+    async discardPending(): Promise<void> {
+        this._pending = null
+        this._scheduled = null
+        this._attempt = 0
+        this._lastStepId = undefined
+        this._writtenFlowData.clear()
+        this._clearRetryTimer()
+        this._clearScheduleTimer()
+        this._setWindowListeners(false)
+        this._setStatus('saved')
+        await this._clearFallback()
+    }
+
+    /**
+     * Write the waiting state now, without waiting for the schedule or the next retry
+     */
+    async flush(): Promise<void> {
+        this._clearRetryTimer()
+        this._clearScheduleTimer()
+        if (this._scheduled) {
+            this._pending = this._scheduled
+            this._scheduled = null
+        }
+        await this._drain()
+    }
+
+    /**
+     * Stop retrying and listening for page events. Call `flush()` first to write the waiting state.
+     */
+    dispose(): void {
+        this._clearRetryTimer()
+        this._clearScheduleTimer()
+        this._setWindowListeners(false)
+    }
+
+    /**
+     * Get the state of the write queue
+     */
+    getStatus(): PersistenceSyncStatus {
+        return this._status
+    }
+
+    private _drain(): Promise<void> {
+        this._draining ??= this._writePending().finally(() => {
+            this._draining = null
+        })
+        return this._draining
+    }
+
+    private async _writePending(): Promise<void> {
+        while (this._pending && !this._retryTimer && this._hasWriter()) {
+            const entry = this._pending
+            this._pending = null
+            if (!(await this._write(entry))) {
+                // A newer state queued during the write replaces the failed one
+                this._pending ??= entry
+                await this._handleWriteFailure()
+                return
+            }
+        }
+    }
+
+    private async _write(entry: PendingPersistence<TContext>): Promise<boolean> {
+        const { context, currentStepId } = entry
         const startTime = Date.now()
+        this._setStatus('saving')
+        this._attempt += 1
 
         try {
             this._logger.debug('Persisting data for step:', currentStepId)
-            await this._persistData(context, currentStepId)
+            if (this._persistPatch) {
+                const written = serializeFlowData(context.flowData)
+                await this._persistPatch(this._createPatch(context, currentStepId, written), context)
+                this._writtenFlowData = written
+            } else {
+                await this._persistData?.(context, currentStepId)
+            }
 
             const persistenceTime = Date.now() - startTime
+            this._attempt = 0
+            if (!this._pending) {
+                this._setStatus(this._scheduled ? 'pending' : 'saved')
+                if (!this._scheduled) {
+                    this._setWindowListeners(false)
+                }
+                await this._clearFallback()
+            }
 
             this._eventManager?.notifyListeners('persistenceSuccess', {
                 context,
@@ -120,16 +331,162 @@ export class PersistenceService<
             })
 
             this._logger.debug('Data persisted successfully')
+            return true
         } catch (error) {
+            const willRetry = this._attempt < this._getMaxAttempts()
             this._eventManager?.notifyListeners('persistenceFailure', {
                 context,
                 error: error as Error,
+                attempt: this._attempt,
+                willRetry,
             })
             this._logger.error('Error during persistData:', error)
-            if (this._errorHandler) {
+            if (!willRetry && this._errorHandler) {
                 this._errorHandler.handleError(error, 'persistData', context)
             }
             // Don't throw - persistence errors shouldn't block core functionality
+            return false
+        }
+    }
+
+    private async _handleWriteFailure(): Promise<void> {
+        // Retry when the connection comes back, even after giving up
+        this._setWindowListeners(true)
+        await this._storeFallback(this._pending!)
+
+        if (this._attempt >= this._getMaxAttempts()) {
+            // The state is kept, but not written again until the next change, flush() or reconnect
+            this._attempt = 0
+            this._setStatus('error')
+            return
+        }
+
+        const delay = getRetryDelay(this._attempt, this._retryConfig ?? {})
+        this._logger.debug(`Retrying persistData in ${delay}ms`)
+        this._setStatus('pending')
+        this._retryTimer = setTimeout(() => {
+            this._retryTimer = null
+            void this._drain()
+        }, delay)
+    }
+
+    private _createPatch(
+        context: TContext,
+        currentStepId: string | number | null,
+        written: Map<string, string>
+    ): PersistencePatch<TContext> {
+        const changedKeys = [...written.keys()].filter((key) => this._writtenFlowData.get(key) !== written.get(key))
+        return {
+            currentStepId,
+            flowData: Object.fromEntries(changedKeys.map((key) => [key, context.flowData[key]])) as Partial<
+                TContext['flowData']
+            >,
+            changedKeys,
+            removedKeys: [...this._writtenFlowData.keys()].filter((key) => !written.has(key)),
+        }
+    }
+
+    private _hasWriter(): boolean {
+        return !!(this._persistData || this._persistPatch)
+    }
+
+    private _shouldDefer(isStepChange: boolean): boolean {
+        switch (this._schedule.mode) {
+            case 'debounced':
+                return true
+            case 'onStepChange':
+                return !isStepChange
+            default:
+                return false
+        }
+    }
+
+    private _defer(entry: PendingPersistence<TContext>): void {
+        this._scheduled = entry
+        // Make sure the state is written before the page goes away
+        this._setWindowListeners(true)
+        if (this._status === 'saved') {
+            this._setStatus('pending')
+        }
+
+        if (this._schedule.mode !== 'debounced') {
+            return
+        }
+
+        let delay = this._schedule.debounceMs ?? DEFAULT_DEBOUNCE_MS
+        if (this._schedule.maxWait !== undefined) {
+            delay = Math.max(0, Math.min(delay, entry.queuedAt + this._schedule.maxWait - Date.now()))
+        }
+        this._clearScheduleTimer()
+        this._scheduleTimer = setTimeout(() => {
+            this._scheduleTimer = null
+            void this.flush()
+        }, delay)
+    }
+
+    private _clearScheduleTimer(): void {
+        if (this._scheduleTimer) {
+            clearTimeout(this._scheduleTimer)
+            this._scheduleTimer = null
+        }
+    }
+
+    private _getMaxAttempts(): number {
+        return this._retryConfig ? (this._retryConfig.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) : 1
+    }
+
+    private _clearRetryTimer(): void {
+        if (this._retryTimer) {
+            clearTimeout(this._retryTimer)
+            this._retryTimer = null
+        }
+    }
+
+    private _setStatus(status: PersistenceSyncStatus): void {
+        if (status !== this._status) {
+            this._status = status
+            this._statusListener?.(status)
+        }
+    }
+
+    /**
+     * While a state waits to be written, write it when the connection comes back or the page is hidden
+     */
+    private _setWindowListeners(listening: boolean): void {
+        if (typeof window === 'undefined' || listening === !!this._windowListener) {
+            return
+        }
+
+        if (listening) {
+            this._windowListener = (event) => {
+                if (event.type !== 'visibilitychange' || document.visibilityState === 'hidden') {
+                    void this.flush()
+                }
+            }
+            window.addEventListener('online', this._windowListener)
+            window.addEventListener('pagehide', this._windowListener)
+            window.addEventListener('visibilitychange', this._windowListener)
+        } else {
+            window.removeEventListener('online', this._windowListener!)
+            window.removeEventListener('pagehide', this._windowListener!)
+            window.removeEventListener('visibilitychange', this._windowListener!)
+            this._windowListener = null
+        }
+    }
+
+    private async _storeFallback(entry: PendingPersistence<TContext>): Promise<void> {
+        try {
+            await this._retryConfig?.fallbackStore?.set(entry)
+        } catch (error) {
+            this._logger.error('Error storing the unsaved state in the fallback store:', error)
+        }
+    }
+
+    private async _clearFallback(): Promise<void> {
+        try {
+            await this._retryConfig?.fallbackStore?.clear()
+        } catch (error) {
+            this._logger.error('Error clearing the fallback store:', error)
         }
     }
 
@@ -137,6 +494,8 @@ export class PersistenceService<
      * Clear all persisted data
      */
     async clearData(): Promise<void> {
+        await this.discardPending()
+
         if (!this._clearPersistedData) {
             this._logger.debug('No clearPersistedData handler configured')
             return
@@ -152,6 +511,137 @@ export class PersistenceService<
         }
     }
 
+    // =============================================================================
+    // EXPIRY
+    // =============================================================================
+
+    /**
+     * Set the policy deciding when persisted data is too stale to resume
+     */
+    setExpiryPolicy(policy?: PersistenceExpiryPolicy): void {
+        this._expiryPolicy = policy
+    }
+
+    /**
+     * Get the current expiry policy
+     */
+    getExpiryPolicy(): PersistenceExpiryPolicy | undefined {
+        return this._expiryPolicy
+    }
+
+    /**
+     * Return a copy of the context with the time of its first and last save in `_internal`. The live
+     * context is not changed, so the first save of a flow that was not loaded is remembered here.
+     */
+    private _stampSavedAt(context: TContext): TContext {
+        const internal = context.flowData._internal
+        if (!internal) {
+            return context
+        }
+
+        const now = Date.now()
+        if (internal.firstSavedAt === undefined && this._firstSave?.startedAt !== internal.startedAt) {
+            this._firstSave = { startedAt: internal.startedAt, savedAt: now }
+        }
+
+        return {
+            ...context,
+            flowData: {
+                ...context.flowData,
+                _internal: {
+                    ...internal,
+                    firstSavedAt: internal.firstSavedAt ?? this._firstSave?.savedAt ?? now,
+                    savedAt: now,
+                },
+            },
+        }
+    }
+
+    private _getExpiryReason(
+        data: LoadedData<TContext>,
+        currentFlowVersion: string | null
+    ): PersistenceExpiryReason | null {
+        const policy = this._expiryPolicy
+        if (!policy) {
+            return null
+        }
+
+        const internal = data.flowData?._internal
+        const now = Date.now()
+
+        if (
+            policy.ttl !== undefined &&
+            internal?.firstSavedAt !== undefined &&
+            now - internal.firstSavedAt > policy.ttl
+        ) {
+            return 'ttl'
+        }
+        if (
+            policy.inactivityTimeout !== undefined &&
+            internal?.savedAt !== undefined &&
+            now - internal.savedAt > policy.inactivityTimeout
+        ) {
+            return 'inactivity'
+        }
+        if (
+            policy.expireOnFlowVersionChange &&
+            currentFlowVersion &&
+            internal?.flowVersion &&
+            internal.flowVersion !== currentFlowVersion
+        ) {
+            return 'flowVersionChanged'
+        }
+        return null
+    }
+
+    private async _expire(
+        data: LoadedData<TContext>,
+        reason: PersistenceExpiryReason
+    ): Promise<LoadedData<TContext> | null> {
+        const action: PersistenceExpiryAction = this._expiryPolicy?.onExpired ?? 'discard'
+        this._logger.debug(`Persisted data expired (${reason}), applying '${action}'`)
+
+        if (action === 'restart') {
+            this._writtenFlowData.clear()
+            try {
+                await this._clearPersistedData?.()
+            } catch (error) {
+                // The expired data is not used either way, so a failed clear is not fatal
+                this._logger.error('Error clearing expired persisted data:', error)
+            }
+        }
+
+        this._eventManager?.notifyListeners('persistenceExpired', {
+            data,
+            reason,
+            action,
+            savedAt: data.flowData?._internal?.savedAt ?? null,
+        })
+
+        if (action !== 'resetPosition') {
+            return null
+        }
+
+        // Keep the collected data and experiment assignments, but nothing about the user's position.
+        // The flow version is kept so that the kept data is still migrated.
+        // eslint-disable-next-line no-unused-vars, @typescript-eslint/no-unused-vars
+        const { currentStepId: _currentStepId, flowData, ...otherProps } = data
+        const { _internal: internal, ...collectedData } = flowData ?? {}
+        return {
+            ...otherProps,
+            flowData: {
+                ...collectedData,
+                _internal: {
+                    completedSteps: {},
+                    startedAt: Date.now(),
+                    stepStartTimes: {},
+                    ...(internal?.flowVersion && { flowVersion: internal.flowVersion }),
+                    ...(internal?.experiments && { experiments: internal.experiments }),
+                },
+            },
+        } as LoadedData<TContext>
+    }
+
     // =============================================================================
     // HANDLER MANAGEMENT
     // =============================================================================
@@ -195,6 +685,48 @@ export class PersistenceService<
         return this._persistData
     }
 
+    /**
+     * Set how failed writes are retried
+     */
+    setRetryConfig(config?: PersistenceRetryConfig<TContext>): void {
+        this._retryConfig = config
+    }
+
+    /**
+     * Set when state changes are written
+     */
+    setSchedule(schedule?: PersistenceScheduleMode | PersistenceScheduleConfig): void {
+        this._schedule = typeof schedule === 'string' ? { mode: schedule } : (schedule ?? { mode: 'immediate' })
+    }
+
+    /**
+     * Set the handler writing only the changed flowData keys, used instead of the persist handler
+     */
+    setDataPatchHandler(handler?: DataPatchFn<TContext>): void {
+        this._persistPatch = handler
+    }
+
+    /**
+     * Get the current data patch handler
+     */
+    getDataPatchHandler(): DataPatchFn<TContext> | undefined {
+        return this._persistPatch
+    }
+
+    /**
+     * Set the listener notified when the state of the write queue changes
+     */
+    setStatusListener(listener?: (status: PersistenceSyncStatus) => void): void {
+        this._statusListener = listener
+    }
+
+    /**
+     * Only persist while the gate returns true, e.g. only in the leader tab
+     */
+    setPersistGate(gate?: () => boolean): void {
+        this._persistGate = gate
+    }
+
     /**
      * Get the current clear persisted data handler
      */
@@ -202,3 +734,10 @@ export class PersistenceService<
         return this._clearPersistedData
     }
 }
+
+/**
+ * Serializes each top-level flowData key, to find the keys that changed.
+ */
+function serializeFlowData(flowData: object | undefined): Map<string, string> {
+    return new Map(Object.entries(flowData ?? {}).map(([key, value]) => [key, JSON.stringify(value) ?? 'undefined']))
+}
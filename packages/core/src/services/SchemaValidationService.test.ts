@@ -0,0 +1,96 @@
+// src/services/SchemaValidationService.test.ts
+// Tests for flowData and step data schema validation
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { FlowDataValidationError, SchemaValidationService } from './SchemaValidationService'
+import { Logger } from './Logger'
+import type { JSONSchema, OnboardingContext, OnboardingStep } from '../types'
+
+function createContext(flowData: Record<string, any> = {}): OnboardingContext {
+    return { flowData }
+}
+
+const flowDataSchema: JSONSchema = {
+    type: 'object',
+    properties: { plan: { enum: ['free', 'pro'] }, seats: { type: 'integer', minimum: 1 } },
+}
+
+describe('SchemaValidationService', () => {
+    let service: SchemaValidationService<OnboardingContext>
+    let logger: Logger
+
+    beforeEach(() => {
+        logger = new Logger({ prefix: 'SchemaValidationService' })
+        vi.spyOn(logger, 'debug').mockImplementation(() => {})
+        service = new SchemaValidationService(flowDataSchema, logger)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('validateFlowData', () => {
+        it('should validate flowData without the engine bookkeeping', () => {
+            const flowData = {
+                plan: 'pro',
+                seats: 0,
+                _internal: { completedSteps: {}, startedAt: 0, stepStartTimes: {} },
+            }
+
+            expect(service.validateFlowData(flowData)).toEqual([
+                { path: 'seats', keyword: 'minimum', message: 'seats must be >= 1' },
+            ])
+        })
+
+        it('should accept anything without a flow schema', () => {
+            const withoutSchema = new SchemaValidationService(undefined, logger)
+
+            expect(withoutSchema.hasFlowDataSchema).toBe(false)
+            expect(withoutSchema.validateFlowData({ seats: 'many' })).toEqual([])
+        })
+    })
+
+    describe('validateStepData', () => {
+        const step: OnboardingStep = {
+            id: 'team',
+            dataSchema: { type: 'object', required: ['teamName'] },
+        }
+
+        it('should validate the step data and the flowData it would produce', () => {
+            const errors = service.validateStepData(step, { seats: 2.5 }, createContext({ plan: 'pro' }))
+
+            expect(errors.map((error) => [error.path, error.keyword])).toEqual([
+                ['teamName', 'required'],
+                ['seats', 'type'],
+            ])
+        })
+
+        it('should return no errors for valid data', () => {
+            expect(service.validateStepData(step, { teamName: 'Core', seats: 3 }, createContext())).toEqual([])
+        })
+    })
+
+    it('should convert schema errors to step validation errors', () => {
+        const errors = service.validateFlowData({ plan: 'team' })
+
+        expect(service.toStepErrors('plan-step', errors)).toEqual([
+            {
+                stepId: 'plan-step',
+                key: 'plan',
+                rule: 'schema',
+                keyword: 'enum',
+                message: errors[0].message,
+            },
+        ])
+    })
+
+    it('should carry the schema errors and the operation in FlowDataValidationError', () => {
+        const errors = service.validateFlowData({ seats: 0 })
+        const error = new FlowDataValidationError(errors, 'next')
+
+        expect(error.name).toBe('FlowDataValidationError')
+        expect(error.operation).toBe('next')
+        expect(error.errors).toBe(errors)
+        expect(error.message).toContain('seats must be >= 1')
+    })
+})
@@ -0,0 +1,92 @@
+// src/services/SchemaValidationService.ts
+// Validates flowData and step data against the JSON Schemas declared by the flow and its steps.
+
+import { Logger } from './Logger'
+import { JSONSchema, JSONSchemaError, OnboardingContext, OnboardingStep } from '../types'
+import { StepDataValidationError } from '../engine/types'
+import { validateJSONSchema } from '../utils/json-schema-utils'
+import { mergeScopedFlowData } from '../utils/subflow-utils'
+
+/**
+ * Raised through the ErrorHandler when flowData does not satisfy the flow's `flowDataSchema`,
+ * or the data passed to `next()` does not satisfy the step's `dataSchema`.
+ */
+export class FlowDataValidationError extends Error {
+    constructor(
+        readonly errors: JSONSchemaError[],
+        readonly operation: string
+    ) {
+        super(`Data does not match its schema (${operation}): ${errors.map((e) => e.message).join('; ')}`)
+        this.name = 'FlowDataValidationError'
+    }
+}
+
+/**
+ * SchemaValidationService validates data against JSON Schemas.
+ * Responsible for:
+ * - Validating the data passed to `next()` against the step's `dataSchema`
+ * - Validating flowData against the flow-level `flowDataSchema`
+ * - Converting schema errors to typed step validation errors
+ */
+export class SchemaValidationService<TContext extends OnboardingContext = OnboardingContext> {
+    private readonly _logger: Logger
+
+    constructor(
+        private readonly _flowDataSchema?: JSONSchema,
+        logger?: Logger
+    ) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'SchemaValidationService' })
+    }
+
+    get hasFlowDataSchema(): boolean {
+        return !!this._flowDataSchema
+    }
+
+    /**
+     * Validate the data submitted for a step: the data itself against the step's `dataSchema`,
+     * and the flowData it would produce against the flow's schema.
+     */
+    validateStepData(
+        step: OnboardingStep<TContext>,
+        stepData: Record<string, any> | undefined,
+        context: TContext
+    ): JSONSchemaError[] {
+        const errors: JSONSchemaError[] = []
+        if (step.dataSchema) {
+            errors.push(...validateJSONSchema(step.dataSchema, stepData ?? {}))
+        }
+        if (this._flowDataSchema) {
+            errors.push(...this.validateFlowData(mergeScopedFlowData(step, context.flowData, stepData ?? {})))
+        }
+
+        if (errors.length > 0) {
+            this._logger.debug(
+                `[SchemaValidationService] Step '${step.id}' failed schema validation: ${errors.map((e) => e.path).join(', ')}`
+            )
+        }
+
+        return errors
+    }
+
+    /**
+     * Validate flowData against the flow's schema. The engine's `_internal` bookkeeping is not validated.
+     */
+    validateFlowData(flowData: TContext['flowData']): JSONSchemaError[] {
+        if (!this._flowDataSchema) {
+            return []
+        }
+        // eslint-disable-next-line no-unused-vars, @typescript-eslint/no-unused-vars
+        const { _internal, ...data } = flowData ?? {}
+        return validateJSONSchema(this._flowDataSchema, data)
+    }
+
+    toStepErrors(stepId: string | number, errors: JSONSchemaError[]): StepDataValidationError[] {
+        return errors.map((error) => ({
+            stepId,
+            key: error.path,
+            rule: 'schema',
+            keyword: error.keyword,
+            message: error.message,
+        }))
+    }
+}
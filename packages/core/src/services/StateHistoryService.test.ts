@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { StateHistoryService } from './StateHistoryService'
+import type { OnboardingContext } from '../types'
+
+const snapshot = (currentStepId: string | null, flowData: Record<string, any> = {}) => ({
+    currentStepId,
+    context: { flowData } as OnboardingContext,
+    history: [],
+    isCompleted: false,
+})
+
+describe('StateHistoryService', () => {
+    let stateHistory: StateHistoryService
+
+    beforeEach(() => {
+        stateHistory = new StateHistoryService(3)
+    })
+
+    it('should move between recorded snapshots', () => {
+        stateHistory.record(snapshot('a'))
+        stateHistory.record(snapshot('b'))
+
+        expect(stateHistory.canUndo).toBe(true)
+        expect(stateHistory.canRedo).toBe(false)
+
+        expect(stateHistory.undo()?.currentStepId).toBe('a')
+        expect(stateHistory.canUndo).toBe(false)
+        expect(stateHistory.undo()).toBeNull()
+
+        expect(stateHistory.redo()?.currentStepId).toBe('b')
+        expect(stateHistory.redo()).toBeNull()
+    })
+
+    it('should skip snapshots equal to the current one', () => {
+        stateHistory.record(snapshot('a', { x: 1 }))
+        stateHistory.record(snapshot('a', { x: 1 }))
+
+        expect(stateHistory.getSnapshots()).toHaveLength(1)
+    })
+
+    it('should drop the redo branch when recording after an undo', () => {
+        stateHistory.record(snapshot('a'))
+        stateHistory.record(snapshot('b'))
+        stateHistory.undo()
+        stateHistory.record(snapshot('c'))
+
+        expect(stateHistory.getSnapshots().map((s) => s.currentStepId)).toEqual(['a', 'c'])
+        expect(stateHistory.canRedo).toBe(false)
+    })
+
+    it('should keep at most the configured number of snapshots', () => {
+        ;['a', 'b', 'c', 'd'].forEach((id) => stateHistory.record(snapshot(id)))
+
+        expect(stateHistory.getSnapshots().map((s) => s.currentStepId)).toEqual(['b', 'c', 'd'])
+        expect(stateHistory.currentIndex).toBe(2)
+    })
+
+    it('should jump to a snapshot by index and reject out-of-range indexes', () => {
+        ;['a', 'b', 'c'].forEach((id) => stateHistory.record(snapshot(id)))
+
+        expect(stateHistory.jumpTo(0)?.currentStepId).toBe('a')
+        expect(stateHistory.canRedo).toBe(true)
+        expect(stateHistory.jumpTo(5)).toBeNull()
+        expect(stateHistory.currentIndex).toBe(0)
+    })
+
+    it('should store copies of the context', () => {
+        const recorded = snapshot('a', { nested: { value: 1 } })
+        stateHistory.record(recorded)
+        recorded.context.flowData.nested.value = 2
+
+        const restored = stateHistory.jumpTo(0)!
+        expect(restored.context.flowData.nested.value).toBe(1)
+
+        restored.context.flowData.nested.value = 3
+        expect(stateHistory.jumpTo(0)!.context.flowData.nested.value).toBe(1)
+    })
+
+    it('should record nothing when the limit is 0', () => {
+        stateHistory = new StateHistoryService(0)
+        stateHistory.record(snapshot('a'))
+
+        expect(stateHistory.getSnapshots()).toEqual([])
+        expect(stateHistory.canUndo).toBe(false)
+    })
+})
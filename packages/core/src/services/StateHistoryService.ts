@@ -0,0 +1,129 @@
+// src/services/StateHistoryService.ts
+// Keeps a bounded history of engine state snapshots for undo, redo and time-travel.
+
+import { OnboardingContext } from '../types'
+import type { EngineStateSnapshot } from '../engine/types'
+import { Logger } from './Logger'
+
+/** Default number of snapshots kept by the engine. */
+export const DEFAULT_UNDO_LIMIT = 50
+
+/**
+ * StateHistoryService records full engine state snapshots.
+ *
+ * This service is responsible for:
+ * - Recording snapshots after state-changing operations, skipping unchanged ones
+ * - Dropping the redo branch when a new snapshot is recorded after an undo
+ * - Keeping at most `limit` snapshots, discarding the oldest
+ * - Moving the cursor for undo, redo and jumps to a specific snapshot
+ *
+ * Snapshots are copies: later changes to the engine context don't affect them,
+ * and restoring one hands out a fresh copy.
+ */
+export class StateHistoryService<TContext extends OnboardingContext = OnboardingContext> {
+    private _snapshots: EngineStateSnapshot<TContext>[] = []
+    private _currentIndex = -1
+    private readonly _logger: Logger
+
+    constructor(
+        private readonly _limit: number = DEFAULT_UNDO_LIMIT,
+        logger?: Logger
+    ) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'StateHistoryService' })
+    }
+
+    get canUndo(): boolean {
+        return this._currentIndex > 0
+    }
+
+    get canRedo(): boolean {
+        return this._currentIndex < this._snapshots.length - 1
+    }
+
+    get currentIndex(): number {
+        return this._currentIndex
+    }
+
+    /**
+     * Get copies of all recorded snapshots, oldest first.
+     */
+    getSnapshots(): EngineStateSnapshot<TContext>[] {
+        return this._snapshots.map((snapshot) => copySnapshot(snapshot))
+    }
+
+    /**
+     * Record a snapshot. Does nothing if it matches the current snapshot or history is disabled.
+     */
+    record(snapshot: Omit<EngineStateSnapshot<TContext>, 'timestamp'>): void {
+        if (this._limit <= 0) {
+            return
+        }
+
+        const current = this._snapshots[this._currentIndex]
+        if (current && serializeSnapshot(current) === serializeSnapshot(snapshot)) {
+            return
+        }
+
+        // Recording after an undo discards the redo branch
+        this._snapshots = this._snapshots.slice(0, this._currentIndex + 1)
+        this._snapshots.push(copySnapshot({ ...snapshot, timestamp: Date.now() }))
+
+        if (this._snapshots.length > this._limit) {
+            this._snapshots = this._snapshots.slice(this._snapshots.length - this._limit)
+        }
+        this._currentIndex = this._snapshots.length - 1
+
+        this._logger.debug(`[StateHistoryService] Recorded snapshot ${this._currentIndex}`)
+    }
+
+    /**
+     * Step back one snapshot. Returns the snapshot to restore, or null if there is none.
+     */
+    undo(): EngineStateSnapshot<TContext> | null {
+        return this.canUndo ? this.jumpTo(this._currentIndex - 1) : null
+    }
+
+    /**
+     * Step forward one snapshot. Returns the snapshot to restore, or null if there is none.
+     */
+    redo(): EngineStateSnapshot<TContext> | null {
+        return this.canRedo ? this.jumpTo(this._currentIndex + 1) : null
+    }
+
+    /**
+     * Move to the snapshot at `index`. Returns the snapshot to restore, or null if the index is out of range.
+     */
+    jumpTo(index: number): EngineStateSnapshot<TContext> | null {
+        if (!Number.isInteger(index) || index < 0 || index >= this._snapshots.length) {
+            this._logger.warn(`[StateHistoryService] Snapshot index ${index} is out of range.`)
+            return null
+        }
+
+        this._currentIndex = index
+        return copySnapshot(this._snapshots[index])
+    }
+
+    /**
+     * Remove all snapshots.
+     */
+    clear(): void {
+        this._snapshots = []
+        this._currentIndex = -1
+    }
+}
+
+/**
+ * Copy a snapshot. `flowData` is JSON data (it is what gets persisted), so it is deep-copied;
+ * other context properties such as `currentUser` are copied shallowly.
+ */
+function copySnapshot<TSnapshot extends Omit<EngineStateSnapshot, 'timestamp'>>(snapshot: TSnapshot): TSnapshot {
+    return {
+        ...snapshot,
+        context: { ...snapshot.context, flowData: JSON.parse(JSON.stringify(snapshot.context.flowData ?? {})) },
+        history: [...snapshot.history],
+    }
+}
+
+function serializeSnapshot(snapshot: Omit<EngineStateSnapshot, 'timestamp'>): string {
+    return JSON.stringify([snapshot.currentStepId, snapshot.isCompleted, snapshot.history, snapshot.context])
+}
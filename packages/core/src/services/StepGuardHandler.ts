@@ -0,0 +1,207 @@
+// src/services/StepGuardHandler.ts
+// Runs the canLeave/canEnter guards of the steps involved in a transition
+
+import { Logger } from './Logger'
+import { OnboardingContext, OnboardingStep, StepGuardDecision, StepGuardDirection, StepGuardResult } from '../types'
+import { findStepById } from '../utils/step-utils'
+import { ErrorHandler } from '../engine/ErrorHandler'
+import { EventManager } from '../engine/EventManager'
+import { StepTransitionService } from './StepTransitionService'
+
+export interface StepGuardHandlerResult<TContext extends OnboardingContext = OnboardingContext> {
+    isDenied: boolean
+    finalTargetStep: OnboardingStep<TContext> | null
+}
+
+/**
+ * StepGuardHandler manages step guard evaluation.
+ * Responsible for:
+ * - Running the current step's `canLeave` guard
+ * - Running the target step's `canEnter` guard, following redirects
+ * - Detecting redirect loops and unknown redirect targets
+ * - Emitting `navigationDenied` when a guard denies the transition
+ */
+export class StepGuardHandler<TContext extends OnboardingContext = OnboardingContext> {
+    private readonly _logger: Logger
+
+    constructor(
+        private readonly _steps: OnboardingStep<TContext>[],
+        private readonly _stepTransitionService: StepTransitionService<TContext>,
+        private readonly _eventManager: EventManager<TContext>,
+        private readonly _errorHandler: ErrorHandler<TContext>,
+        logger?: Logger
+    ) {
+        this._logger = logger ?? Logger.getInstance({ prefix: 'StepGuardHandler' })
+    }
+
+    /**
+     * Whether any guard could run for a transition from `currentStep` to `targetStep`.
+     */
+    hasGuards(currentStep: OnboardingStep<TContext> | null, targetStep: OnboardingStep<TContext> | null): boolean {
+        return !!(currentStep?.canLeave || targetStep?.canEnter)
+    }
+
+    /**
+     * Run the guards of a transition and return the step that should become active.
+     * If a guard denies the transition (or throws), `isDenied` is set and `finalTargetStep` is the current step.
+     */
+    async handle(
+        currentStep: OnboardingStep<TContext> | null,
+        targetStep: OnboardingStep<TContext> | null,
+        direction: StepGuardDirection,
+        context: TContext
+    ): Promise<StepGuardHandlerResult<TContext>> {
+        const denied = { isDenied: true, finalTargetStep: currentStep }
+        let target = targetStep
+
+        // Leaving the current step
+        if (currentStep?.canLeave && target?.id !== currentStep.id) {
+            const decision = await this._runGuard(
+                () => currentStep.canLeave!(context, direction),
+                'canLeave',
+                currentStep,
+                context
+            )
+            if (!decision) {
+                return denied
+            }
+            if (decision.action === 'deny') {
+                this._notifyDenied(currentStep, 'canLeave', currentStep, target, direction, decision.reason, context)
+                return denied
+            }
+            if (decision.action === 'redirect') {
+                const redirectTarget = this._resolveRedirect(decision.stepId, direction, context)
+                if (redirectTarget === undefined) {
+                    return denied
+                }
+                target = redirectTarget
+            }
+        }
+
+        // Entering the target step, following redirects
+        const visitedIds = new Set<string | number>()
+        while (target?.canEnter && target.id !== currentStep?.id) {
+            if (visitedIds.has(target.id)) {
+                this._errorHandler.handleError(
+                    new Error(`Step guards redirected in a loop at step '${target.id}'`),
+                    'canEnter guard',
+                    context
+                )
+                return denied
+            }
+            visitedIds.add(target.id)
+
+            const enteringStep: OnboardingStep<TContext> = target
+            const decision = await this._runGuard(
+                () => enteringStep.canEnter!(context),
+                'canEnter',
+                enteringStep,
+                context
+            )
+            if (!decision) {
+                return denied
+            }
+            if (decision.action === 'allow') {
+                break
+            }
+            if (decision.action === 'deny') {
+                this._notifyDenied(
+                    enteringStep,
+                    'canEnter',
+                    currentStep,
+                    enteringStep,
+                    direction,
+                    decision.reason,
+                    context
+                )
+                return denied
+            }
+
+            const redirectTarget = this._resolveRedirect(decision.stepId, direction, context)
+            if (redirectTarget === undefined) {
+                return denied
+            }
+            target = redirectTarget
+        }
+
+        return { isDenied: false, finalTargetStep: target }
+    }
+
+    // =========================================================================
+    // Private Helper Methods
+    // =========================================================================
+
+    /**
+     * Run a guard and normalize its result. Returns null if the guard threw.
+     */
+    private async _runGuard(
+        guard: () => StepGuardResult | Promise<StepGuardResult>,
+        guardName: 'canEnter' | 'canLeave',
+        step: OnboardingStep<TContext>,
+        context: TContext
+    ): Promise<StepGuardDecision | null> {
+        try {
+            const result = await guard()
+            if (result === undefined || result === true) {
+                return { action: 'allow' }
+            }
+            if (result === false) {
+                return { action: 'deny' }
+            }
+            return result as StepGuardDecision
+        } catch (error) {
+            this._errorHandler.handleError(error, `${guardName} guard for ${step.id}`, context)
+            return null
+        }
+    }
+
+    /**
+     * Resolve a redirect target, skipping steps whose condition fails.
+     * Returns undefined if the step does not exist.
+     */
+    private _resolveRedirect(
+        stepId: string | number,
+        direction: StepGuardDirection,
+        context: TContext
+    ): OnboardingStep<TContext> | null | undefined {
+        const step = findStepById(this._steps, stepId)
+        if (!step) {
+            this._errorHandler.handleError(
+                new Error(`Step guard redirected to unknown step '${stepId}'`),
+                'step guard redirect',
+                context
+            )
+            return undefined
+        }
+
+        this._logger.debug(`[StepGuardHandler] Navigation redirected to ${stepId}`)
+        return (
+            this._stepTransitionService.skipConditionalSteps(
+                step,
+                context,
+                direction === 'previous' ? 'previous' : 'next'
+            ) ?? null
+        )
+    }
+
+    private _notifyDenied(
+        step: OnboardingStep<TContext>,
+        guard: 'canEnter' | 'canLeave',
+        fromStep: OnboardingStep<TContext> | null,
+        toStep: OnboardingStep<TContext> | null,
+        direction: StepGuardDirection,
+        reason: string | undefined,
+        context: TContext
+    ): void {
+        this._logger.debug(`[StepGuardHandler] Navigation denied by ${guard} of step '${step.id}'.`)
+        this._eventManager.notifyListeners('navigationDenied', {
+            step,
+            guard,
+            fromStep,
+            toStep,
+            direction,
+            ...(reason !== undefined && { reason }),
+            context,
+        })
+    }
+}
@@ -4,7 +4,7 @@
 
 import { Logger } from './Logger'
 import { OnboardingContext, OnboardingStep } from '../types'
-import { findStepById, evaluateStepId } from '../utils/step-utils'
+import { findStepById, evaluateStepId, evaluateStepCondition } from '../utils/step-utils'
 
 /**
  * StepTransitionService handles direction-aware navigation logic.
@@ -50,7 +50,7 @@ export class StepTransitionService<TContext extends OnboardingContext = Onboardi
         // Find the first valid step after current
         for (let i = currentIndex + 1; i < this._steps.length; i++) {
             const candidateStep = this._steps[i]
-            if (!candidateStep.condition || candidateStep.condition(context)) {
+            if (evaluateStepCondition(candidateStep.condition, context)) {
                 return candidateStep
             }
         }
@@ -85,7 +85,7 @@ export class StepTransitionService<TContext extends OnboardingContext = Onboardi
         if (currentIndex > 0) {
             for (let i = currentIndex - 1; i >= 0; i--) {
                 const candidateStep = this._steps[i]
-                if (!candidateStep.condition || candidateStep.condition(context)) {
+                if (evaluateStepCondition(candidateStep.condition, context)) {
                     return candidateStep
                 }
             }
@@ -114,7 +114,7 @@ export class StepTransitionService<TContext extends OnboardingContext = Onboardi
         if (currentIndex !== -1 && currentIndex < this._steps.length - 1) {
             for (let i = currentIndex + 1; i < this._steps.length; i++) {
                 const step = this._steps[i]
-                if (!step.condition || step.condition(context)) {
+                if (evaluateStepCondition(step.condition, context)) {
                     this._logger.debug(
                         `[StepTransitionService] calculateSkipTarget(): No explicit skip/next target. Using next valid step: '${step.id}'`
                     )
@@ -137,7 +137,7 @@ export class StepTransitionService<TContext extends OnboardingContext = Onboardi
     ): OnboardingStep<TContext> | undefined | null {
         let current = candidateStep
 
-        while (current && current.condition && !current.condition(context)) {
+        while (current && !evaluateStepCondition(current.condition, context)) {
             this._logger.debug(`[StepTransitionService] Skipping conditional step: ${current.id}`)
 
             if (direction === 'previous') {
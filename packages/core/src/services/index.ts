@@ -15,6 +15,20 @@ export {
     type ChecklistProgress as ChecklistProgressInfo,
 } from './ChecklistNavigationService'
 export { BeforeNavigationHandler, type BeforeNavigationResult } from './BeforeNavigationHandler'
+export { StepGuardHandler, type StepGuardHandlerResult } from './StepGuardHandler'
+export { FormValidationService, type FormValidationResult } from './FormValidationService'
+export { ChoiceValidationService } from './ChoiceValidationService'
+export { StateHistoryService, DEFAULT_UNDO_LIMIT } from './StateHistoryService'
+export { FlowSourceLoader, InMemoryFlowSourceCache, type FlowSourceResult } from './FlowSourceLoader'
+export { FeatureFlagService, InMemoryFeatureFlagProvider } from './FeatureFlagService'
+export { SchemaValidationService, FlowDataValidationError } from './SchemaValidationService'
+export {
+    CrossTabSyncService,
+    BroadcastChannelTransport,
+    StorageEventTransport,
+    createCrossTabTransport,
+    type CrossTabSyncTarget,
+} from './CrossTabSyncService'
 
 // Existing Services
 export { AsyncOperationQueue, type QueueStats } from './AsyncOperationQueue'
@@ -3,7 +3,19 @@
 // These contracts define the boundaries between consolidated services
 
 import type { OnboardingContext, OnboardingStep } from '../../types'
-import type { EngineState, LoadedData, DataLoadFn, DataPersistFn } from '../../engine/types'
+import type {
+    EngineState,
+    LoadedData,
+    DataLoadFn,
+    DataPatchFn,
+    DataPersistFn,
+    PersistenceExpiryPolicy,
+    PersistenceRetryConfig,
+    PersistenceScheduleConfig,
+    PersistenceScheduleMode,
+    PersistenceSyncStatus,
+    StepDataValidationError,
+} from '../../engine/types'
 import type { Result } from '../../types/Result'
 
 /**
@@ -19,6 +31,7 @@ export interface ICoreEngineService<TContext extends OnboardingContext = Onboard
     readonly error: Error | null
     readonly isCompleted: boolean
     readonly hasError: boolean
+    readonly validationErrors: StepDataValidationError[]
 
     // State management
     getState(currentStep: OnboardingStep<TContext> | null, context: TContext, history: string[]): EngineState<TContext>
@@ -38,6 +51,10 @@ export interface ICoreEngineService<TContext extends OnboardingContext = Onboard
     setHydrating(hydrating: boolean): void
     setError(error: Error | null): void
     setCompleted(completed: boolean): void
+    setValidationErrors(errors: StepDataValidationError[]): void
+    setUndoAvailability(canUndo: boolean, canRedo: boolean): void
+    setPersistenceStatus(status: PersistenceSyncStatus): void
+    setInitialStepId(stepId: string | number | null): void
 
     // Step utilities
     getRelevantSteps(context: TContext): OnboardingStep<TContext>[]
@@ -53,7 +70,7 @@ export interface ICoreEngineService<TContext extends OnboardingContext = Onboard
  */
 export interface IPersistenceService<TContext extends OnboardingContext = OnboardingContext> {
     // Core operations
-    loadPersistedData(): Promise<{
+    loadPersistedData(currentFlowVersion?: string | null): Promise<{
         data: LoadedData<TContext> | null
         error: Error | null
     }>
@@ -61,11 +78,25 @@ export interface IPersistenceService<TContext extends OnboardingContext = Onboar
     persistDataIfNeeded(context: TContext, currentStepId: string | number | null, isHydrating: boolean): Promise<void>
 
     clearData(): Promise<void>
+    flush(): Promise<void>
+    discardPending(): Promise<void>
+    dispose(): void
+    getStatus(): PersistenceSyncStatus
+
+    // Expiry
+    setExpiryPolicy(policy?: PersistenceExpiryPolicy): void
+    getExpiryPolicy(): PersistenceExpiryPolicy | undefined
 
     // Handler management
     setDataLoadHandler(handler?: DataLoadFn<TContext>): void
     setDataPersistHandler(handler?: DataPersistFn<TContext>): void
     setClearPersistedDataHandler(handler?: () => Promise<void> | void): void
+    setPersistGate(gate?: () => boolean): void
+    setRetryConfig(config?: PersistenceRetryConfig<TContext>): void
+    setSchedule(schedule?: PersistenceScheduleMode | PersistenceScheduleConfig): void
+    setDataPatchHandler(handler?: DataPatchFn<TContext>): void
+    getDataPatchHandler(): DataPatchFn<TContext> | undefined
+    setStatusListener(listener?: (status: PersistenceSyncStatus) => void): void
 
     // Handler getters
     getDataLoadHandler(): DataLoadFn<TContext> | undefined
@@ -120,7 +151,8 @@ export interface INavigationService<TContext extends OnboardingContext = Onboard
             oldStep: OnboardingStep<TContext> | null,
             context: TContext
         ) => void,
-        onFlowComplete?: (context: TContext) => Promise<void> | void
+        onFlowComplete?: (context: TContext) => Promise<void> | void,
+        stepData?: unknown
     ): Promise<OnboardingStep<TContext> | null>
 
     calculateNextStep(currentStep: OnboardingStep<TContext>, context: TContext): OnboardingStep<TContext> | null
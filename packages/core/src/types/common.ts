@@ -1,4 +1,9 @@
 import { type ChecklistItemState } from './payloads'
+import type { ConditionExpression, ConditionalStepTarget } from './conditions'
+import type { StepGuardDirection, StepGuardResult } from './guards'
+import type { ExperimentAssignments, StepExperiment } from './experiments'
+import type { FeatureFlagRequirement } from './feature-flags'
+import type { JSONSchema } from './json-schema'
 
 /**
  * Represents the shared context available throughout the onboarding flow.
@@ -12,6 +17,10 @@ export interface OnboardingContext<TUser = any> {
             completedSteps: Record<string | number, number> // stepId -> completionTimestamp
             startedAt: number // timestamp when the overall flow started
             stepStartTimes: Record<string | number, number> // stepId -> timestamp when step became active
+            flowVersion?: string // the flow version that wrote this data
+            experiments?: ExperimentAssignments // experimentId -> assigned variantId
+            firstSavedAt?: number // timestamp of the first save, written when a persistence expiry policy is set
+            savedAt?: number // timestamp of the last save, written when a persistence expiry policy is set
         }
 
         [key: string]: any // Additional data can be added by steps
@@ -37,7 +46,11 @@ export type StepDataForStep<TStepType extends string, TPayload> = TStepType exte
         ? TPayload extends { dataKey: infer K extends string }
             ? { [P in K]: ChecklistItemState[] }
             : Record<string, any>
-        : Record<string, any>
+        : TStepType extends 'FORM'
+          ? TPayload extends { dataKey: infer K extends string }
+              ? { [P in K]: Record<string, any> }
+              : Record<string, any>
+          : Record<string, any>
 
 type SkipableStep<TContext extends OnboardingContext = OnboardingContext> = {
     isSkippable: true
@@ -46,6 +59,7 @@ type SkipableStep<TContext extends OnboardingContext = OnboardingContext> = {
         | number
         | null
         | ((context: TContext) => string | null | undefined) // Use TContext
+        | ConditionalStepTarget
         | undefined
 }
 
@@ -69,23 +83,38 @@ export type BaseOnboardingStep<
         | number
         | null
         | ((context: TContext) => string | null | undefined) // Use TContext
+        | ConditionalStepTarget
         | undefined
     /**
      * Determines the ID of the previous step.
-     * Can be a static string, null (no previous), undefined, or a function.
+     * Can be a static string, null (no previous), undefined, a function or a declarative `ConditionalStepTarget`.
      */
     previousStep?:
         | string
         | number
         | null
         | ((context: TContext) => string | null | undefined) // Use TContext
+        | ConditionalStepTarget
         | undefined
     onStepActive?: (context: TContext) => Promise<void> | void // Use TContext
     onStepComplete?: (
         stepData: StepDataForStep<TStepType, TPayload>,
         context: TContext // Use TContext
     ) => Promise<void> | void
-    condition?: (context: TContext) => boolean // Use TContext
+    /** Determines whether the step is part of the flow. A function or a declarative `ConditionExpression`. */
+    condition?: ((context: TContext) => boolean) | ConditionExpression
+    /** Async guard run before the step becomes active. Can allow, deny or redirect the transition. */
+    canEnter?: (context: TContext) => StepGuardResult | Promise<StepGuardResult>
+    /** Async guard run before navigating away from the step. Can allow, deny or redirect the transition. */
+    canLeave?: (context: TContext, direction: StepGuardDirection) => StepGuardResult | Promise<StepGuardResult>
+    /** The ID of the section (or chapter) the step belongs to. Used for section-level progress. */
+    section?: string
+    /** An A/B experiment on this step. Each user sees the overrides of the variant they are assigned to. */
+    experiment?: StepExperiment<TContext>
+    /** The feature flag the step requires. Without it, the step is left out of the flow like a failing `condition`. */
+    featureFlag?: FeatureFlagRequirement
+    /** JSON Schema for the data passed to `next()` when leaving the step. */
+    dataSchema?: JSONSchema
     /** Arbitrary metadata for custom use cases or extensions. */
     meta?: Record<string, any>
 } & (SkipableStep<TContext> | NonSkipableStep) // Pass TContext to SkipableStep
@@ -0,0 +1,73 @@
+// @onboardjs/core/src/types/conditions.ts
+
+/**
+ * Declarative, JSON-serializable conditions.
+ *
+ * The shape is a superset of the visualizer's `ConditionGroup`/`ConditionRule`, so conditions built
+ * in the visualizer can be used directly. Conditions are evaluated by the engine without `eval`.
+ */
+
+export type ConditionOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'greater_than'
+    | 'less_than'
+    | 'greater_than_or_equal'
+    | 'less_than_or_equal'
+    | 'exists'
+    | 'not_exists'
+    | 'in'
+    | 'not_in'
+    | 'starts_with'
+    | 'ends_with'
+    | 'matches'
+    | 'is_empty'
+    | 'is_not_empty'
+
+export type ConditionValue = string | number | boolean | null | Array<string | number | boolean | null>
+
+export interface ConditionRule {
+    id?: string
+    /**
+     * Dot-separated path to the value being tested, relative to `context.flowData`
+     * (e.g. `'profile.role'`). Prefix with `context.` to read from the whole context
+     * (e.g. `'context.currentUser.plan'`).
+     */
+    field: string
+    operator: ConditionOperator
+    /**
+     * The value to compare against. Not used by `exists`, `not_exists`, `is_empty` and `is_not_empty`.
+     * For `matches`, a regular expression of up to 200 characters, tested against values of up to 1000
+     * characters. Patterns that repeat a group containing a quantifier or an alternation (e.g. `(a+)+`, `(a|b)*`)
+     * or use backreferences never match.
+     */
+    value?: ConditionValue
+    /** Coerces `value` before comparing. Useful when values come from text inputs. */
+    valueType?: 'string' | 'number' | 'boolean'
+}
+
+export interface ConditionGroup {
+    id?: string
+    logic: 'AND' | 'OR'
+    /** Rules or nested groups combined with `logic`. */
+    rules: Array<ConditionRule | ConditionGroup>
+}
+
+/**
+ * A declarative condition. An array of groups is satisfied when every group is satisfied.
+ */
+export type ConditionExpression = ConditionGroup | ConditionGroup[]
+
+/**
+ * A declarative navigation target, usable wherever `nextStep`, `previousStep` or `skipToStep` accept a function.
+ * `else` may itself be a `ConditionalStepTarget` to express a chain of branches.
+ * When `else` is omitted and `when` is not satisfied, the target evaluates to `undefined`
+ * and the default navigation applies.
+ */
+export interface ConditionalStepTarget {
+    when: ConditionExpression
+    then: string | number | null
+    else?: string | number | null | ConditionalStepTarget
+}
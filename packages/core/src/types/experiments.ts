@@ -0,0 +1,50 @@
+// @onboardjs/core/src/types/experiments.ts
+
+import type { OnboardingContext } from './common'
+import type { ConditionalStepTarget } from './conditions'
+
+/**
+ * Experiments (A/B tests) assign each user one variant, deterministically from their user ID.
+ */
+
+/** Changes a variant makes to a step. */
+export interface StepVariantOverride<TContext extends OnboardingContext = OnboardingContext> {
+    /** Replaces the step's payload. */
+    payload?: Record<string, any>
+    /** Replaces the step's `nextStep`. */
+    nextStep?: string | number | null | ((context: TContext) => string | null | undefined) | ConditionalStepTarget
+    /** Set to `false` to leave the step out of the flow for this variant. */
+    include?: boolean
+}
+
+export interface ExperimentVariant {
+    /** A unique identifier for the variant within its experiment. */
+    id: string
+    /** The relative share of users assigned to this variant. Defaults to 1. */
+    weight?: number
+}
+
+/** A variant of a single step. */
+export interface StepVariant<TContext extends OnboardingContext = OnboardingContext>
+    extends ExperimentVariant, StepVariantOverride<TContext> {}
+
+/** A variant of a whole flow, overriding any of its steps. */
+export interface FlowVariant<TContext extends OnboardingContext = OnboardingContext> extends ExperimentVariant {
+    /** Step overrides keyed by step ID. */
+    steps?: Record<string, StepVariantOverride<TContext>>
+}
+
+export interface StepExperiment<TContext extends OnboardingContext = OnboardingContext> {
+    /** A unique identifier for the experiment. Users are assigned independently per experiment. */
+    id: string
+    variants: StepVariant<TContext>[]
+}
+
+export interface FlowExperiment<TContext extends OnboardingContext = OnboardingContext> {
+    /** A unique identifier for the experiment. Users are assigned independently per experiment. */
+    id: string
+    variants: FlowVariant<TContext>[]
+}
+
+/** Experiment ID -> assigned variant ID. */
+export type ExperimentAssignments = Record<string, string>
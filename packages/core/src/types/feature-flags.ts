@@ -0,0 +1,28 @@
+// @onboardjs/core/src/types/feature-flags.ts
+
+import type { OnboardingContext } from './common'
+
+/**
+ * Feature flags gate steps and checklist items through a pluggable provider (PostHog, LaunchDarkly, ...).
+ */
+
+export type FeatureFlagValue = boolean | string | number | null | undefined
+
+/**
+ * Reads feature flags from a flag service.
+ */
+export interface FeatureFlagProvider<TContext extends OnboardingContext = OnboardingContext> {
+    /** Get the value of a flag. May be async. */
+    getFlag(key: string, context: TContext): FeatureFlagValue | Promise<FeatureFlagValue>
+    /**
+     * Call `listener` whenever flag values may have changed. Pass the changed keys if they are known.
+     * Returns a function that removes the listener.
+     */
+    subscribe?(listener: (keys?: string[]) => void): () => void
+}
+
+/**
+ * The flag a step or checklist item requires.
+ * A flag key requires the flag to be truthy; `{ key, value }` requires the flag to equal `value`.
+ */
+export type FeatureFlagRequirement = string | { key: string; value: FeatureFlagValue }
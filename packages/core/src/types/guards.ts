@@ -0,0 +1,31 @@
+// @onboardjs/core/src/types/guards.ts
+
+/**
+ * Step guards (`canEnter` / `canLeave`) decide whether a transition may happen.
+ */
+
+/** The navigation directions a `canLeave` guard can be asked about. */
+export type StepGuardDirection = 'next' | 'previous' | 'skip' | 'goto'
+
+export interface StepGuardAllow {
+    action: 'allow'
+}
+
+export interface StepGuardDeny {
+    action: 'deny'
+    /** Why the transition was denied. Reported on the `navigationDenied` event. */
+    reason?: string
+}
+
+export interface StepGuardRedirect {
+    action: 'redirect'
+    /** The step to navigate to instead. */
+    stepId: string | number
+}
+
+export type StepGuardDecision = StepGuardAllow | StepGuardDeny | StepGuardRedirect
+
+/**
+ * The result of a step guard. `true` (or no return value) allows the transition and `false` denies it.
+ */
+export type StepGuardResult = boolean | void | StepGuardDecision
@@ -3,3 +3,8 @@
 export * from './common'
 export * from './payloads'
 export * from './step'
+export * from './conditions'
+export * from './guards'
+export * from './experiments'
+export * from './feature-flags'
+export * from './json-schema'
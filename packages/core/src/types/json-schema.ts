@@ -0,0 +1,63 @@
+// @onboardjs/core/src/types/json-schema.ts
+
+/**
+ * The subset of JSON Schema (draft 2020-12) understood by the built-in validator.
+ * `$ref` and remote schemas are not supported.
+ */
+
+export type JSONSchemaTypeName = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+export interface JSONSchema {
+    type?: JSONSchemaTypeName | JSONSchemaTypeName[]
+    enum?: unknown[]
+    const?: unknown
+
+    // Objects
+    properties?: Record<string, JSONSchema>
+    required?: string[]
+    additionalProperties?: boolean | JSONSchema
+    minProperties?: number
+    maxProperties?: number
+
+    // Arrays
+    items?: JSONSchema
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+
+    // Strings
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    format?: 'email' | 'uri' | 'date' | 'date-time' | (string & {})
+
+    // Numbers
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number
+    exclusiveMaximum?: number
+    multipleOf?: number
+
+    // Composition
+    allOf?: JSONSchema[]
+    anyOf?: JSONSchema[]
+    oneOf?: JSONSchema[]
+    not?: JSONSchema
+
+    // Annotations
+    title?: string
+    description?: string
+    /** Overrides the validator's message for errors raised by this schema. */
+    errorMessage?: string
+}
+
+/**
+ * A value that does not satisfy a JSON Schema.
+ */
+export interface JSONSchemaError {
+    /** Dotted path to the value, e.g. `profile.age` or `tags.0`. Empty for the root value. */
+    path: string
+    /** The schema keyword that failed, e.g. `type` or `required`. */
+    keyword: string
+    message: string
+}
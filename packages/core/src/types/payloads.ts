@@ -1,4 +1,7 @@
 import { OnboardingContext } from './common'
+import type { ConditionExpression } from './conditions'
+import type { FeatureFlagRequirement } from './feature-flags'
+import type { OnboardingStep } from './step'
 
 export interface BasePayload {
     [key: string]: any
@@ -31,6 +34,25 @@ export interface FormField {
     helperText?: string
 }
 
+/** Payload for a form step. */
+export interface FormStepPayload extends BasePayload {
+    /** The fields rendered by the form. Each field's value is stored under its `name`. */
+    fields: FormField[]
+    /**
+     * Optional key under which the form values are stored in `flowData` as a single object.
+     * If omitted, each value is stored at the top level of `flowData` under the field's `name`.
+     */
+    dataKey?: string
+}
+
+/** A single failed field validation reported for a FORM step. */
+export interface FormFieldError {
+    fieldId: string
+    fieldName: string
+    rule: keyof FormFieldValidation
+    message: string
+}
+
 // --- Example: Multiple Choice Selection Step ---
 export interface ChoiceOption<TValue = string | number> {
     id: string
@@ -42,6 +64,11 @@ export interface ChoiceOption<TValue = string | number> {
 
 export interface MultipleChoiceStepPayload extends BasePayload {
     options: ChoiceOption[]
+    /**
+     * Key in `flowData` under which the selected values are stored.
+     * When set, `next()` validates the selection against `options`, `minSelections` and `maxSelections`.
+     */
+    dataKey?: string
     minSelections?: number
     maxSelections?: number
 }
@@ -49,6 +76,11 @@ export interface MultipleChoiceStepPayload extends BasePayload {
 // --- Example: Single Choice Selection Step ---
 export interface SingleChoiceStepPayload extends BasePayload {
     options: ChoiceOption[]
+    /**
+     * Key in `flowData` under which the selected value is stored.
+     * When set, `next()` validates that the selection is one of `options`.
+     */
+    dataKey?: string
 }
 
 /** Defines the structure of an item in a checklist step's payload. */
@@ -58,7 +90,9 @@ export interface ChecklistItemDefinition<TContext extends OnboardingContext = On
     description?: string
     isMandatory?: boolean // Defaults to true if not specified by the engine's logic
     /** Optional condition to determine if this item should be shown/considered. */
-    condition?: (context: TContext) => boolean // Use TContext
+    condition?: ((context: TContext) => boolean) | ConditionExpression
+    /** The feature flag the item requires. Without it, the item is not shown or considered. */
+    featureFlag?: FeatureFlagRequirement
     meta?: Record<string, unknown> // For custom data per item
 }
 
@@ -90,3 +124,29 @@ export type ConfirmationStepPayload = BasePayload
 export interface CustomComponentStepPayload extends BasePayload {
     componentKey?: string
 }
+
+// --- Sub-flows ---
+/**
+ * Payload for a step that embeds another flow. Provide either inline `steps` or the `flowId`
+ * of a flow definition registered with `OnboardingEngineRegistry.registerFlowDefinition`.
+ */
+export interface SubflowStepPayload<TContext extends OnboardingContext = OnboardingContext> extends BasePayload {
+    /** The child flow's steps. Their IDs only need to be unique within the child flow. */
+    steps?: OnboardingStep<TContext>[]
+    /** The ID of a registered flow definition to embed. */
+    flowId?: string
+    /**
+     * Key under which the child flow's data is stored in `flowData`. Defaults to the sub-flow step's ID.
+     */
+    dataKey?: string
+}
+
+/** Stored in `step.meta.subflow` on every step that belongs to an expanded sub-flow. */
+export interface SubflowStepMeta {
+    /** The (namespaced) ID of the SUBFLOW step the step belongs to. */
+    parentStepId: string
+    /** The registered flow the step came from, if any. */
+    flowId?: string
+    /** Path of `flowData` keys the step's data is scoped to, outermost first. */
+    dataPath: string[]
+}
@@ -6,6 +6,8 @@ import {
     CustomComponentStepPayload,
     ChecklistStepPayload, // This will now be ChecklistStepPayload<TContext>
     InformationStepPayload,
+    FormStepPayload,
+    SubflowStepPayload,
 } from './payloads'
 
 export type OnboardingStepType =
@@ -15,6 +17,8 @@ export type OnboardingStepType =
     | 'CONFIRMATION'
     | 'CUSTOM_COMPONENT'
     | 'CHECKLIST'
+    | 'FORM'
+    | 'SUBFLOW'
 
 // Make OnboardingStep generic for TContext
 export type OnboardingStep<TContext extends OnboardingContext = OnboardingContext> =
@@ -46,6 +50,14 @@ export type OnboardingStep<TContext extends OnboardingContext = OnboardingContex
           type: 'CHECKLIST'
           payload: ChecklistStepPayload<TContext> // Use generic ChecklistStepPayload
       })
+    | (BaseOnboardingStep<'FORM', FormStepPayload, TContext> & {
+          type: 'FORM'
+          payload: FormStepPayload
+      })
+    | (BaseOnboardingStep<'SUBFLOW', SubflowStepPayload<TContext>, TContext> & {
+          type: 'SUBFLOW'
+          payload: SubflowStepPayload<TContext>
+      })
     | (BaseOnboardingStep<'CUSTOM_COMPONENT', CustomComponentStepPayload, TContext> & {
           type: 'CUSTOM_COMPONENT'
           payload?: CustomComponentStepPayload
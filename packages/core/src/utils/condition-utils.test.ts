@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+    evaluateConditionExpression,
+    evaluateConditionalStepTarget,
+    getConditionalStepTargetIds,
+    isConditionExpression,
+    isConditionalStepTarget,
+} from './condition-utils'
+import type { ConditionGroup, ConditionRule, ConditionalStepTarget, OnboardingContext } from '../types'
+
+const context: OnboardingContext = {
+    flowData: {
+        role: 'developer',
+        age: 30,
+        ageText: '30',
+        tools: ['git', 'docker'],
+        email: 'ada@example.com',
+        longText: 'a'.repeat(1001),
+        attack: 'a'.repeat(40) + 'b',
+        empty: '',
+        profile: { plan: 'pro', seats: 5 },
+        newsletter: true,
+    },
+    currentUser: { tier: 'gold' },
+}
+
+const rule = (r: ConditionRule): ConditionGroup => ({ logic: 'AND', rules: [r] })
+const evaluate = (r: ConditionRule) => evaluateConditionExpression(rule(r), context)
+
+describe('evaluateConditionExpression', () => {
+    describe('operators', () => {
+        it.each<[ConditionRule, boolean]>([
+            [{ field: 'role', operator: 'equals', value: 'developer' }, true],
+            [{ field: 'role', operator: 'not_equals', value: 'developer' }, false],
+            [{ field: 'age', operator: 'equals', value: '30' }, true],
+            [{ field: 'ageText', operator: 'equals', value: '30', valueType: 'number' }, true],
+            [{ field: 'newsletter', operator: 'equals', value: 'true', valueType: 'boolean' }, true],
+            [{ field: 'email', operator: 'contains', value: '@example' }, true],
+            [{ field: 'tools', operator: 'contains', value: 'git' }, true],
+            [{ field: 'tools', operator: 'not_contains', value: 'npm' }, true],
+            [{ field: 'age', operator: 'greater_than', value: 18 }, true],
+            [{ field: 'age', operator: 'less_than', value: 18 }, false],
+            [{ field: 'age', operator: 'greater_than_or_equal', value: 30 }, true],
+            [{ field: 'age', operator: 'less_than_or_equal', value: 29 }, false],
+            [{ field: 'ageText', operator: 'greater_than', value: 20 }, true],
+            [{ field: 'missing', operator: 'greater_than', value: -1 }, false],
+            [{ field: 'role', operator: 'exists' }, true],
+            [{ field: 'missing', operator: 'not_exists' }, true],
+            [{ field: 'role', operator: 'in', value: ['designer', 'developer'] }, true],
+            [{ field: 'role', operator: 'not_in', value: ['designer', 'developer'] }, false],
+            [{ field: 'email', operator: 'starts_with', value: 'ada' }, true],
+            [{ field: 'email', operator: 'ends_with', value: '.org' }, false],
+            [{ field: 'email', operator: 'matches', value: '^[a-z]+@' }, true],
+            [{ field: 'email', operator: 'matches', value: '([' }, false],
+            [{ field: 'email', operator: 'matches', value: '^([a-z]+)+@' }, false],
+            [{ field: 'attack', operator: 'matches', value: '^(a|a)*$' }, false],
+            [{ field: 'email', operator: 'matches', value: '^(a|d)+@' }, false],
+            [{ field: 'email', operator: 'matches', value: '^(?:ad)+a@(example|test)\\.com$' }, true],
+            [{ field: 'email', operator: 'matches', value: '^(?:[a-z]|\\w)+@' }, false],
+            [{ field: 'email', operator: 'matches', value: '^(a)d\\1' }, false],
+            [{ field: 'email', operator: 'matches', value: 'a'.repeat(201) }, false],
+            [{ field: 'longText', operator: 'matches', value: '^a' }, false],
+            [{ field: 'empty', operator: 'is_empty' }, true],
+            [{ field: 'tools', operator: 'is_not_empty' }, true],
+        ])('%o evaluates to %s', (r, expected) => {
+            expect(evaluate(r)).toBe(expected)
+        })
+    })
+
+    it('reads nested flowData paths', () => {
+        expect(evaluate({ field: 'profile.plan', operator: 'equals', value: 'pro' })).toBe(true)
+        expect(evaluate({ field: 'profile.missing.deep', operator: 'exists' })).toBe(false)
+    })
+
+    it('reads from the whole context with the context. prefix', () => {
+        expect(evaluate({ field: 'context.currentUser.tier', operator: 'equals', value: 'gold' })).toBe(true)
+    })
+
+    it('never reads inherited properties', () => {
+        expect(evaluate({ field: 'role.constructor', operator: 'exists' })).toBe(false)
+        expect(evaluate({ field: '__proto__', operator: 'exists' })).toBe(false)
+    })
+
+    it('combines rules with AND / OR and supports nested groups', () => {
+        const group: ConditionGroup = {
+            logic: 'AND',
+            rules: [
+                { field: 'role', operator: 'equals', value: 'developer' },
+                {
+                    logic: 'OR',
+                    rules: [
+                        { field: 'age', operator: 'less_than', value: 18 },
+                        { field: 'profile.seats', operator: 'greater_than', value: 3 },
+                    ],
+                },
+            ],
+        }
+        expect(evaluateConditionExpression(group, context)).toBe(true)
+    })
+
+    it('requires every group of an array to be satisfied', () => {
+        const groups: ConditionGroup[] = [
+            rule({ field: 'role', operator: 'equals', value: 'developer' }),
+            rule({ field: 'age', operator: 'less_than', value: 18 }),
+        ]
+        expect(evaluateConditionExpression(groups, context)).toBe(false)
+    })
+})
+
+describe('conditional step targets', () => {
+    const target: ConditionalStepTarget = {
+        when: rule({ field: 'role', operator: 'equals', value: 'designer' }),
+        then: 'design',
+        else: {
+            when: rule({ field: 'role', operator: 'equals', value: 'developer' }),
+            then: 'dev',
+            else: null,
+        },
+    }
+
+    it('follows chained branches', () => {
+        expect(evaluateConditionalStepTarget(target, context)).toBe('dev')
+        expect(evaluateConditionalStepTarget(target, { flowData: { role: 'pm' } })).toBeNull()
+    })
+
+    it('returns undefined when no branch matches and else is omitted', () => {
+        expect(evaluateConditionalStepTarget({ when: target.when, then: 'design' }, context)).toBeUndefined()
+    })
+
+    it('lists every possible target', () => {
+        expect(getConditionalStepTargetIds(target)).toEqual(['design', 'dev'])
+    })
+})
+
+describe('type guards', () => {
+    it('recognises condition expressions', () => {
+        expect(isConditionExpression({ logic: 'AND', rules: [] })).toBe(true)
+        expect(isConditionExpression([{ logic: 'OR', rules: [] }])).toBe(true)
+        expect(isConditionExpression({ logic: 'XOR', rules: [] })).toBe(false)
+        expect(isConditionExpression(() => true)).toBe(false)
+    })
+
+    it('recognises conditional step targets', () => {
+        expect(isConditionalStepTarget({ when: { logic: 'AND', rules: [] }, then: 'a' })).toBe(true)
+        expect(isConditionalStepTarget({ then: 'a' })).toBe(false)
+        expect(isConditionalStepTarget('a')).toBe(false)
+    })
+})
@@ -0,0 +1,302 @@
+// @onboardjs/core/src/utils/condition-utils.ts
+
+import {
+    OnboardingContext,
+    ConditionExpression,
+    ConditionGroup,
+    ConditionRule,
+    ConditionValue,
+    ConditionalStepTarget,
+} from '../types'
+
+const CONTEXT_FIELD_PREFIX = 'context.'
+
+// Conditions may be loaded from a CMS or database, so `matches` only runs short, simple patterns on short input
+const MAX_PATTERN_LENGTH = 200
+/** The longest string that `matches` conditions and schema `pattern`s are tested against. */
+export const MAX_MATCH_INPUT_LENGTH = 1000
+const MAX_COMPILED_PATTERNS = 500
+const compiledPatterns = new Map<string, RegExp | null>()
+
+/**
+ * Checks whether a value is a declarative condition (a `ConditionGroup` or an array of them).
+ */
+export function isConditionExpression(value: unknown): value is ConditionExpression {
+    if (Array.isArray(value)) {
+        return value.every(isConditionGroup)
+    }
+    return isConditionGroup(value)
+}
+
+/**
+ * Checks whether a value is a `ConditionGroup`.
+ */
+export function isConditionGroup(value: unknown): value is ConditionGroup {
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        ((value as ConditionGroup).logic === 'AND' || (value as ConditionGroup).logic === 'OR') &&
+        Array.isArray((value as ConditionGroup).rules)
+    )
+}
+
+/**
+ * Checks whether a value is a declarative `ConditionalStepTarget`.
+ */
+export function isConditionalStepTarget(value: unknown): value is ConditionalStepTarget {
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        'when' in value &&
+        'then' in value &&
+        isConditionExpression((value as ConditionalStepTarget).when)
+    )
+}
+
+/**
+ * Evaluates a declarative condition against the context. Never uses `eval`.
+ * An empty group is satisfied.
+ */
+export function evaluateConditionExpression<TContext extends OnboardingContext = OnboardingContext>(
+    expression: ConditionExpression,
+    context: TContext
+): boolean {
+    if (Array.isArray(expression)) {
+        return expression.every((group) => evaluateConditionGroup(group, context))
+    }
+    return evaluateConditionGroup(expression, context)
+}
+
+/**
+ * Resolves a declarative navigation target to a step ID.
+ */
+export function evaluateConditionalStepTarget<TContext extends OnboardingContext = OnboardingContext>(
+    target: ConditionalStepTarget,
+    context: TContext
+): string | number | null | undefined {
+    if (evaluateConditionExpression(target.when, context)) {
+        return target.then
+    }
+    if (isConditionalStepTarget(target.else)) {
+        return evaluateConditionalStepTarget(target.else, context)
+    }
+    return target.else
+}
+
+/**
+ * Lists every step ID a declarative navigation target can resolve to.
+ * Useful for static analysis such as reference and reachability checks.
+ */
+export function getConditionalStepTargetIds(target: ConditionalStepTarget): Array<string | number> {
+    const ids: Array<string | number> = []
+    if (target.then !== null) {
+        ids.push(target.then)
+    }
+    if (isConditionalStepTarget(target.else)) {
+        ids.push(...getConditionalStepTargetIds(target.else))
+    } else if (target.else !== undefined && target.else !== null) {
+        ids.push(target.else)
+    }
+    return ids
+}
+
+function evaluateConditionGroup(group: ConditionGroup, context: OnboardingContext): boolean {
+    const results = group.rules.map((rule) =>
+        isConditionGroup(rule) ? evaluateConditionGroup(rule, context) : evaluateConditionRule(rule, context)
+    )
+    return group.logic === 'OR' ? results.some(Boolean) : results.every(Boolean)
+}
+
+function evaluateConditionRule(rule: ConditionRule, context: OnboardingContext): boolean {
+    const actual = resolveField(rule.field, context)
+    const expected = coerceValue(rule.value, rule.valueType)
+
+    switch (rule.operator) {
+        case 'equals':
+            return isEqual(actual, expected)
+        case 'not_equals':
+            return !isEqual(actual, expected)
+        case 'contains':
+            return contains(actual, expected)
+        case 'not_contains':
+            return !contains(actual, expected)
+        case 'greater_than':
+            return compare(actual, expected, (a, b) => a > b)
+        case 'less_than':
+            return compare(actual, expected, (a, b) => a < b)
+        case 'greater_than_or_equal':
+            return compare(actual, expected, (a, b) => a >= b)
+        case 'less_than_or_equal':
+            return compare(actual, expected, (a, b) => a <= b)
+        case 'exists':
+            return actual !== undefined && actual !== null
+        case 'not_exists':
+            return actual === undefined || actual === null
+        case 'in':
+            return Array.isArray(expected) && expected.some((item) => isEqual(actual, item))
+        case 'not_in':
+            return !Array.isArray(expected) || !expected.some((item) => isEqual(actual, item))
+        case 'starts_with':
+            return typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected)
+        case 'ends_with':
+            return typeof actual === 'string' && typeof expected === 'string' && actual.endsWith(expected)
+        case 'matches':
+            return matches(actual, expected)
+        case 'is_empty':
+            return isEmpty(actual)
+        case 'is_not_empty':
+            return !isEmpty(actual)
+        default:
+            return false
+    }
+}
+
+/**
+ * Reads a dot-separated path from `context.flowData`, or from the whole context when the
+ * path starts with `context.`. Only own properties are read, so prototype members are never reached.
+ */
+function resolveField(field: string, context: OnboardingContext): unknown {
+    const fromContext = field.startsWith(CONTEXT_FIELD_PREFIX)
+    const path = (fromContext ? field.slice(CONTEXT_FIELD_PREFIX.length) : field).split('.')
+
+    let current: unknown = fromContext ? context : context.flowData
+    for (const key of path) {
+        if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+            return undefined
+        }
+        current = (current as Record<string, unknown>)[key]
+    }
+    return current
+}
+
+function coerceValue(value: ConditionValue | undefined, valueType: ConditionRule['valueType']): unknown {
+    if (value === undefined || value === null || !valueType) {
+        return value
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => coerceValue(item, valueType))
+    }
+    switch (valueType) {
+        case 'number':
+            return Number(value)
+        case 'boolean':
+            return value === true || value === 'true'
+        default:
+            return String(value)
+    }
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'number' && typeof expected === 'string') {
+        return String(actual) === expected
+    }
+    if (typeof actual === 'string' && typeof expected === 'number') {
+        return actual === String(expected)
+    }
+    return actual === expected
+}
+
+function contains(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'string') {
+        return expected !== undefined && expected !== null && actual.includes(String(expected))
+    }
+    if (Array.isArray(actual)) {
+        return actual.some((item) => isEqual(item, expected))
+    }
+    return false
+}
+
+function compare(actual: unknown, expected: unknown, comparator: (a: number, b: number) => boolean): boolean {
+    if (actual === undefined || actual === null || actual === '' || expected === undefined || expected === null) {
+        return false
+    }
+    const a = Number(actual)
+    const b = Number(expected)
+    return !Number.isNaN(a) && !Number.isNaN(b) && comparator(a, b)
+}
+
+function matches(actual: unknown, pattern: unknown): boolean {
+    if (typeof actual !== 'string' || typeof pattern !== 'string' || actual.length > MAX_MATCH_INPUT_LENGTH) {
+        return false
+    }
+    return compileSafePattern(pattern)?.test(actual) ?? false
+}
+
+/**
+ * Compiles (once) a regular expression from a condition or schema, or returns null if the pattern is invalid,
+ * longer than 200 characters, or may take exponential time to fail: a repeated group that contains a
+ * quantifier or an alternation (`(a+)+`, `(a|a)*`), or a backreference.
+ */
+export function compileSafePattern(pattern: string, flags = ''): RegExp | null {
+    const key = `${flags}/${pattern}`
+    if (compiledPatterns.has(key)) {
+        return compiledPatterns.get(key)!
+    }
+
+    let compiled: RegExp | null = null
+    if (pattern.length <= MAX_PATTERN_LENGTH && !isUnsafePattern(pattern)) {
+        try {
+            compiled = new RegExp(pattern, flags)
+        } catch {
+            // An invalid pattern never matches
+        }
+    }
+
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+        compiledPatterns.clear()
+    }
+    compiledPatterns.set(key, compiled)
+    return compiled
+}
+
+function isUnsafePattern(pattern: string): boolean {
+    // For each open group, whether it contains a quantifier or an alternation
+    const groups: Array<{ quantified: boolean; alternation: boolean }> = [{ quantified: false, alternation: false }]
+    const isRepeat = (index: number) => pattern[index] === '*' || pattern[index] === '+' || pattern[index] === '{'
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        const group = groups[groups.length - 1]
+
+        if (char === '\\') {
+            if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+                return true
+            }
+            i++
+        } else if (char === '[') {
+            // Skip the character class
+            while (++i < pattern.length && pattern[i] !== ']') {
+                if (pattern[i] === '\\') i++
+            }
+        } else if (char === '(') {
+            groups.push({ quantified: false, alternation: false })
+        } else if (char === ')' && groups.length > 1) {
+            groups.pop()
+            if (isRepeat(i + 1) && (group.quantified || group.alternation)) {
+                return true
+            }
+            const parent = groups[groups.length - 1]
+            parent.quantified ||= group.quantified || isRepeat(i + 1) || pattern[i + 1] === '?'
+            parent.alternation ||= group.alternation
+        } else if (char === '|') {
+            group.alternation = true
+        } else if (isRepeat(i) || (char === '?' && pattern[i - 1] !== '(')) {
+            group.quantified = true
+        }
+    }
+    return false
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === '') {
+        return true
+    }
+    if (Array.isArray(value)) {
+        return value.length === 0
+    }
+    if (typeof value === 'object') {
+        return Object.keys(value as object).length === 0
+    }
+    return false
+}
@@ -0,0 +1,140 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import { ChecklistItemState } from '../types'
+import { defineFlow, FlowData, FlowStepId } from './define-flow'
+
+const flow = defineFlow([
+    { id: 'welcome', nextStep: 'role' },
+    {
+        id: 'role',
+        type: 'SINGLE_CHOICE',
+        payload: {
+            dataKey: 'role',
+            options: [
+                { id: 'dev', label: 'Developer', value: 'developer' },
+                { id: 'pm', label: 'Product Manager', value: 'pm' },
+            ],
+        },
+        nextStep: (context) => (context.flowData.role === 'developer' ? 'setup' : 'done'),
+    },
+    {
+        id: 'setup',
+        type: 'FORM',
+        payload: { fields: [{ id: 'team', name: 'teamName', label: 'Team', type: 'text' }] },
+        condition: (context) => context.flowData.role === 'developer',
+    },
+    {
+        id: 'tasks',
+        type: 'CHECKLIST',
+        payload: { dataKey: 'tasks', items: [{ id: 'invite', label: 'Invite your team' }] },
+    },
+    { id: 'done' },
+])
+
+describe('defineFlow', () => {
+    it('infers the union of step IDs', () => {
+        expectTypeOf<FlowStepId<typeof flow>>().toEqualTypeOf<'welcome' | 'role' | 'setup' | 'tasks' | 'done'>()
+        expectTypeOf(flow.stepIds).toEqualTypeOf<Array<'welcome' | 'role' | 'setup' | 'tasks' | 'done'>>()
+    })
+
+    it('infers flowData from data keys and form fields', () => {
+        expectTypeOf<FlowData<typeof flow>>().toEqualTypeOf<{
+            role?: string | number
+            tasks?: ChecklistItemState[]
+            teamName?: unknown
+        }>()
+    })
+
+    it('types goToStep with the step IDs', () => {
+        const engine = flow.createEngine()
+        expectTypeOf(engine.goToStep).parameter(0).toEqualTypeOf<'welcome' | 'role' | 'setup' | 'tasks' | 'done'>()
+
+        // @ts-expect-error unknown step ID
+        void engine.goToStep('setpu')
+    })
+
+    it('rejects unknown step IDs in nextStep', () => {
+        defineFlow([
+            // @ts-expect-error unknown step ID
+            { id: 'welcome', nextStep: 'rol' },
+            { id: 'role' },
+        ])
+
+        defineFlow([
+            { id: 'welcome', nextStep: () => 'role' },
+            // @ts-expect-error unknown step ID returned by a function
+            { id: 'role', previousStep: () => 'welcom' },
+        ])
+    })
+
+    it('rejects unknown data keys in callbacks', () => {
+        defineFlow([
+            {
+                id: 'role',
+                type: 'SINGLE_CHOICE',
+                payload: { dataKey: 'role', options: [] },
+                // @ts-expect-error unknown data key
+                condition: (context) => context.flowData.rol === 'developer',
+            },
+        ])
+    })
+
+    it('types the data of each step type', () => {
+        defineFlow([
+            {
+                id: 'topics',
+                type: 'MULTIPLE_CHOICE',
+                payload: { dataKey: 'topics', options: [] },
+                condition: (context) => {
+                    expectTypeOf(context.flowData.topics).toEqualTypeOf<Array<string | number> | undefined>()
+                    expectTypeOf(context.flowData.profile).toEqualTypeOf<{ bio?: unknown } | undefined>()
+                    expectTypeOf(context.flowData._internal?.startedAt).toEqualTypeOf<number | undefined>()
+                    return true
+                },
+            },
+            {
+                id: 'profile',
+                type: 'FORM',
+                payload: { dataKey: 'profile', fields: [{ id: 'bio', name: 'bio', label: 'Bio', type: 'textarea' }] },
+            },
+        ])
+    })
+
+    it('types the fields of a form with a dataKey under that key', () => {
+        const formFlow = defineFlow([
+            {
+                id: 'profile',
+                type: 'FORM',
+                payload: {
+                    dataKey: 'profile',
+                    fields: [
+                        { id: 'email', name: 'email', label: 'Email', type: 'email' },
+                        {
+                            id: 'plan',
+                            name: 'plan',
+                            label: 'Plan',
+                            type: 'select',
+                            options: [{ label: 'Pro', value: 'pro' }],
+                        },
+                    ],
+                },
+            },
+            {
+                id: 'team',
+                type: 'FORM',
+                payload: { fields: [{ id: 'team', name: 'teamName', label: 'Team', type: 'text' }] },
+                condition: (context) => {
+                    expectTypeOf(context.flowData.profile?.email).toEqualTypeOf<unknown>()
+                    // @ts-expect-error the field is stored under the form's dataKey
+                    void context.flowData.email
+                    return true
+                },
+            },
+        ])
+
+        expectTypeOf(formFlow.stepIds).toEqualTypeOf<Array<'profile' | 'team'>>()
+        expectTypeOf<FlowData<typeof formFlow>>().toEqualTypeOf<{
+            profile?: { email?: unknown; plan?: unknown }
+            teamName?: unknown
+        }>()
+    })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { defineFlow } from './define-flow'
+
+describe('defineFlow', () => {
+    const flow = defineFlow([
+        { id: 'welcome', nextStep: 'role' },
+        {
+            id: 'role',
+            type: 'SINGLE_CHOICE',
+            payload: {
+                dataKey: 'role',
+                options: [
+                    { id: 'dev', label: 'Developer', value: 'developer' },
+                    { id: 'pm', label: 'Product Manager', value: 'pm' },
+                ],
+            },
+            nextStep: (context) => (context.flowData.role === 'developer' ? 'setup' : 'done'),
+        },
+        { id: 'setup', nextStep: 'done' },
+        { id: 'done' },
+    ])
+
+    it('returns the steps and their IDs', () => {
+        expect(flow.steps.map((step) => step.id)).toEqual(['welcome', 'role', 'setup', 'done'])
+        expect(flow.stepIds).toEqual(['welcome', 'role', 'setup', 'done'])
+    })
+
+    it('creates an engine that runs the flow', async () => {
+        const engine = flow.createEngine({ flowId: 'typed-flow' })
+        await engine.ready()
+
+        await engine.goToStep('role')
+        await engine.next({ role: 'developer' })
+
+        expect(engine.getState().currentStep?.id).toBe('setup')
+        expect(engine.getContext().flowData.role).toBe('developer')
+    })
+})
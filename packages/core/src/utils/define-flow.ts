@@ -0,0 +1,215 @@
+// @onboardjs/core/src/utils/define-flow.ts
+
+import { OnboardingEngine } from '../engine/OnboardingEngine'
+import type { OnboardingEngineConfig } from '../engine/types'
+import type {
+    BaseOnboardingStep,
+    ChecklistItemState,
+    ChecklistStepPayload,
+    ConditionalStepTarget,
+    ConfirmationStepPayload,
+    CustomComponentStepPayload,
+    FormField,
+    FormFieldOption,
+    FormStepPayload,
+    InformationStepPayload,
+    MultipleChoiceStepPayload,
+    OnboardingContext,
+    OnboardingStep,
+    SingleChoiceStepPayload,
+    SubflowStepPayload,
+} from '../types'
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/**
+ * An OnboardingContext whose `flowData` only has the given keys, so that reading an unknown key fails type-checking.
+ */
+export type TypedOnboardingContext<TFlowData, TUser = any> = {
+    flowData: TFlowData & { _internal?: NonNullable<OnboardingContext['flowData']['_internal']> }
+    currentUser?: TUser
+    [key: string]: any
+}
+
+/**
+ * The payload of a FORM step accepted by `defineFlow`. Its `dataKey` and field names are inferred per step.
+ */
+export type DefinedFormPayload = Omit<FormStepPayload, 'dataKey' | 'fields'> & {
+    dataKey?: string
+    fields: ReadonlyArray<Omit<FormField, 'name' | 'options'> & { name: string; options?: readonly FormFieldOption[] }>
+}
+
+type FormFieldName<TForm> = TForm extends { fields: ReadonlyArray<{ name: infer TName extends string }> }
+    ? TName
+    : never
+
+/**
+ * The flowData written by the given FORM payloads. A form with a `dataKey` stores its fields in an object under
+ * that key; a form without one stores each field at the top level.
+ */
+type FormFlowData<TForm> = {
+    [F in TForm as F extends { dataKey: infer TKey extends string } ? TKey : never]?: {
+        [K in FormFieldName<F>]?: unknown
+    }
+} & { [K in FormFieldName<Exclude<TForm, { dataKey: string }>>]?: unknown }
+
+/**
+ * The flowData written by a flow's steps, keyed by the `dataKey` of its choice, checklist, form and sub-flow steps
+ * and by the field names of its forms without a `dataKey`.
+ */
+export type DefinedFlowData<
+    TSingle extends string = never,
+    TMultiple extends string = never,
+    TChecklist extends string = never,
+    TObject extends string = never,
+    TForm extends DefinedFormPayload = never,
+> = Simplify<
+    { [K in TSingle]?: string | number } & { [K in TMultiple]?: Array<string | number> } & {
+        [K in TChecklist]?: ChecklistItemState[]
+    } & { [K in TObject]?: Record<string, unknown> } & FormFlowData<TForm>
+>
+
+type StepTarget<TStepId, TContext> =
+    | TStepId
+    | null
+    | ((context: TContext) => TStepId | null | undefined)
+    | ConditionalStepTarget
+    | undefined
+
+type DefinedStepBase<TStepId, TType extends string, TPayload, TContext extends OnboardingContext> = Omit<
+    BaseOnboardingStep<TType, TPayload, TContext>,
+    'id' | 'nextStep' | 'previousStep' | 'isSkippable' | 'skipToStep' | 'onStepComplete'
+> & {
+    id: TStepId
+    nextStep?: StepTarget<NoInfer<TStepId>, TContext>
+    previousStep?: StepTarget<NoInfer<TStepId>, TContext>
+    isSkippable?: boolean
+    skipToStep?: StepTarget<NoInfer<TStepId>, TContext>
+    onStepComplete?: (stepData: Record<string, any>, context: TContext) => Promise<void> | void
+}
+
+/**
+ * A step accepted by `defineFlow`. Each step type declares where its `dataKey` is inferred from.
+ * FORM payloads are inferred as a whole, so that each form's field names stay with its `dataKey`.
+ */
+export type DefinedStep<
+    TStepId extends string,
+    TSingle extends string,
+    TMultiple extends string,
+    TChecklist extends string,
+    TObject extends string,
+    TForm extends DefinedFormPayload,
+    TContext extends OnboardingContext,
+> =
+    | (DefinedStepBase<TStepId, 'INFORMATION', InformationStepPayload, TContext> & {
+          type?: 'INFORMATION' | 'CONFIRMATION' | 'CUSTOM_COMPONENT'
+          payload?: InformationStepPayload | ConfirmationStepPayload | CustomComponentStepPayload
+      })
+    | (DefinedStepBase<TStepId, 'SINGLE_CHOICE', SingleChoiceStepPayload, TContext> & {
+          type: 'SINGLE_CHOICE'
+          payload: Omit<SingleChoiceStepPayload, 'dataKey'> & { dataKey?: TSingle }
+      })
+    | (DefinedStepBase<TStepId, 'MULTIPLE_CHOICE', MultipleChoiceStepPayload, TContext> & {
+          type: 'MULTIPLE_CHOICE'
+          payload: Omit<MultipleChoiceStepPayload, 'dataKey'> & { dataKey?: TMultiple }
+      })
+    | (DefinedStepBase<TStepId, 'CHECKLIST', ChecklistStepPayload<TContext>, TContext> & {
+          type: 'CHECKLIST'
+          payload: Omit<ChecklistStepPayload<TContext>, 'dataKey'> & { dataKey: TChecklist }
+      })
+    | (DefinedStepBase<TStepId, 'FORM', FormStepPayload, TContext> & {
+          type: 'FORM'
+          payload: TForm
+      })
+    | (DefinedStepBase<TStepId, 'SUBFLOW', SubflowStepPayload<TContext>, TContext> & {
+          type: 'SUBFLOW'
+          payload: Omit<SubflowStepPayload<TContext>, 'dataKey'> & { dataKey?: TObject }
+      })
+
+/**
+ * An OnboardingEngine whose `goToStep` only accepts the flow's step IDs.
+ */
+export type TypedOnboardingEngine<TStepId extends string, TContext extends OnboardingContext> = Omit<
+    OnboardingEngine<TContext>,
+    'goToStep'
+> & {
+    goToStep(stepId: TStepId, stepSpecificData?: unknown): Promise<void>
+}
+
+/**
+ * A flow created with `defineFlow`. Its type carries the union of step IDs and the flowData type.
+ */
+export interface DefinedFlow<TStepId extends string, TFlowData> {
+    steps: OnboardingStep<TypedOnboardingContext<TFlowData>>[]
+    stepIds: TStepId[]
+    /**
+     * Create an engine for the flow.
+     */
+    createEngine(
+        config?: Omit<OnboardingEngineConfig<TypedOnboardingContext<TFlowData>>, 'steps'>
+    ): TypedOnboardingEngine<TStepId, TypedOnboardingContext<TFlowData>>
+}
+
+/** The union of step IDs of a flow created with `defineFlow`. */
+export type FlowStepId<TFlow> = TFlow extends DefinedFlow<infer TStepId, any> ? TStepId : never
+
+/** The flowData type of a flow created with `defineFlow`. */
+export type FlowData<TFlow> = TFlow extends DefinedFlow<any, infer TFlowData> ? TFlowData : never
+
+/**
+ * Define a flow with typed step IDs and flowData.
+ *
+ * The step IDs and the flowData keys (from each step's `dataKey` and the field names of forms without one) are
+ * inferred from the steps. `nextStep`, `previousStep` and `skipToStep` only accept the flow's step IDs, and
+ * `condition` and the other callbacks receive a context whose `flowData` only has the inferred keys,
+ * so a typo in a step ID or data key fails type-checking.
+ *
+ * Data written by other means, such as custom components, is not part of the inferred type.
+ * The inference relies on `const` type parameters and `NoInfer`, so it requires TypeScript 5.4 or later.
+ *
+ * @example
+ * ```typescript
+ * const flow = defineFlow([
+ *   { id: 'welcome', nextStep: 'role' },
+ *   {
+ *     id: 'role',
+ *     type: 'SINGLE_CHOICE',
+ *     payload: { dataKey: 'role', options: [...] },
+ *     nextStep: (context) => (context.flowData.role === 'developer' ? 'setup' : 'done'),
+ *   },
+ *   { id: 'setup' },
+ *   { id: 'done' },
+ * ])
+ *
+ * const engine = flow.createEngine()
+ * await engine.goToStep('setup')
+ * ```
+ */
+export function defineFlow<
+    const TStepId extends string,
+    const TSingle extends string = never,
+    const TMultiple extends string = never,
+    const TChecklist extends string = never,
+    const TObject extends string = never,
+    const TForm extends DefinedFormPayload = never,
+>(
+    steps: DefinedStep<
+        TStepId,
+        TSingle,
+        TMultiple,
+        TChecklist,
+        TObject,
+        TForm,
+        NoInfer<TypedOnboardingContext<DefinedFlowData<TSingle, TMultiple, TChecklist, TObject, TForm>>>
+    >[]
+): DefinedFlow<TStepId, DefinedFlowData<TSingle, TMultiple, TChecklist, TObject, TForm>> {
+    type TContext = TypedOnboardingContext<DefinedFlowData<TSingle, TMultiple, TChecklist, TObject, TForm>>
+    const flowSteps = steps as unknown as OnboardingStep<TContext>[]
+
+    return {
+        steps: flowSteps,
+        stepIds: flowSteps.map((step) => step.id as TStepId),
+        createEngine: (config) =>
+            new OnboardingEngine<TContext>({ ...config, steps: flowSteps }) as TypedOnboardingEngine<TStepId, TContext>,
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+    applyExperimentVariants,
+    assignVariant,
+    getFlowExperiments,
+    hashToUnitInterval,
+    resolveExperimentAssignments,
+} from './experiment-utils'
+import type { FlowExperiment, OnboardingStep } from '../types'
+
+const steps: OnboardingStep[] = [
+    { id: 'welcome', payload: { mainText: 'Hello' }, nextStep: 'profile' },
+    {
+        id: 'profile',
+        payload: { mainText: 'Profile' },
+        experiment: {
+            id: 'profile-copy',
+            variants: [{ id: 'control' }, { id: 'short', payload: { mainText: 'You' }, nextStep: 'done' }],
+        },
+    },
+    { id: 'done' },
+]
+
+const flowExperiment: FlowExperiment = {
+    id: 'onboarding-length',
+    variants: [{ id: 'full' }, { id: 'lean', steps: { profile: { include: false } } }],
+}
+
+describe('assignVariant', () => {
+    it('assigns the same variant for the same user', () => {
+        const variants = [{ id: 'a' }, { id: 'b' }]
+        const first = assignVariant('exp', variants, 'user-1')
+
+        expect(assignVariant('exp', variants, 'user-1')).toBe(first)
+        expect(hashToUnitInterval('exp:user-1')).toBeGreaterThanOrEqual(0)
+        expect(hashToUnitInterval('exp:user-1')).toBeLessThan(1)
+    })
+
+    it('splits users in proportion to the weights', () => {
+        const variants = [
+            { id: 'a', weight: 3 },
+            { id: 'b', weight: 1 },
+            { id: 'never', weight: 0 },
+        ]
+        const counts: Record<string, number> = { a: 0, b: 0, never: 0 }
+        for (let i = 0; i < 2000; i++) {
+            counts[assignVariant('exp', variants, `user-${i}`)!.id]++
+        }
+
+        expect(counts.a / 2000).toBeGreaterThan(0.7)
+        expect(counts.a / 2000).toBeLessThan(0.8)
+        expect(counts.never).toBe(0)
+        expect(assignVariant('exp', [{ id: 'a', weight: 0 }], 'user')).toBeNull()
+    })
+})
+
+describe('resolveExperimentAssignments', () => {
+    it('keeps existing assignments whose variant still exists', () => {
+        const experiments = getFlowExperiments(steps, flowExperiment)
+
+        const assignments = resolveExperimentAssignments(
+            experiments,
+            { 'onboarding-length': 'lean', 'profile-copy': 'removed' },
+            'user-1'
+        )
+
+        expect(experiments.map((experiment) => experiment.id)).toEqual(['onboarding-length', 'profile-copy'])
+        expect(assignments['onboarding-length']).toBe('lean')
+        expect(assignments['profile-copy']).toBe(assignVariant('profile-copy', experiments[1].variants, 'user-1')!.id)
+    })
+})
+
+describe('applyExperimentVariants', () => {
+    it('applies step-level payload and nextStep overrides', () => {
+        const result = applyExperimentVariants(steps, { 'profile-copy': 'short' })
+
+        expect(result[1]).toMatchObject({ id: 'profile', payload: { mainText: 'You' }, nextStep: 'done' })
+        expect(result[0]).toBe(steps[0])
+        expect(steps[1].payload).toEqual({ mainText: 'Profile' })
+    })
+
+    it('excludes steps left out by a flow-level variant', () => {
+        const result = applyExperimentVariants(
+            steps,
+            { 'onboarding-length': 'lean', 'profile-copy': 'control' },
+            flowExperiment
+        )
+        const condition = result[1].condition as (context: any) => boolean
+
+        expect(condition({ flowData: {} })).toBe(false)
+    })
+})
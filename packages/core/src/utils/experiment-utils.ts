@@ -0,0 +1,144 @@
+// @onboardjs/core/src/utils/experiment-utils.ts
+
+import {
+    ExperimentAssignments,
+    ExperimentVariant,
+    FlowExperiment,
+    OnboardingContext,
+    OnboardingStep,
+    StepVariantOverride,
+} from '../types'
+
+/**
+ * An experiment of a flow, either declared on the flow or on one of its steps.
+ */
+export interface FlowExperimentInfo<TContext extends OnboardingContext = OnboardingContext> {
+    id: string
+    variants: ExperimentVariant[]
+    /** The step the experiment is declared on, or null for a flow-level experiment. */
+    step: OnboardingStep<TContext> | null
+}
+
+/**
+ * Hash a string to a number in [0, 1). Uses 32-bit FNV-1a, so the result is stable across platforms.
+ */
+export function hashToUnitInterval(key: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return (hash >>> 0) / 0x100000000
+}
+
+/**
+ * Pick a variant for `unitKey` (usually the user ID) in proportion to the variants' weights.
+ * The same experiment ID, unit key and variants always give the same variant.
+ * Returns null if no variant has a positive weight.
+ */
+export function assignVariant<TVariant extends ExperimentVariant>(
+    experimentId: string,
+    variants: TVariant[],
+    unitKey: string
+): TVariant | null {
+    const weighted = variants.filter((variant) => getWeight(variant) > 0)
+    const totalWeight = weighted.reduce((sum, variant) => sum + getWeight(variant), 0)
+    if (totalWeight === 0) {
+        return null
+    }
+
+    let remaining = hashToUnitInterval(`${experimentId}:${unitKey}`) * totalWeight
+    for (const variant of weighted) {
+        remaining -= getWeight(variant)
+        if (remaining < 0) {
+            return variant
+        }
+    }
+    return weighted[weighted.length - 1]
+}
+
+/**
+ * Collect the flow-level experiment and the experiments declared on steps.
+ */
+export function getFlowExperiments<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    flowExperiment?: FlowExperiment<TContext>
+): FlowExperimentInfo<TContext>[] {
+    const experiments: FlowExperimentInfo<TContext>[] = []
+    if (flowExperiment) {
+        experiments.push({ id: flowExperiment.id, variants: flowExperiment.variants, step: null })
+    }
+    for (const step of steps) {
+        if (step.experiment) {
+            experiments.push({ id: step.experiment.id, variants: step.experiment.variants, step })
+        }
+    }
+    return experiments
+}
+
+/**
+ * Assign a variant in every experiment. Existing assignments are kept as long as their variant still exists.
+ * Without a `userId`, new assignments are random; persist the result to keep them stable.
+ */
+export function resolveExperimentAssignments<TContext extends OnboardingContext = OnboardingContext>(
+    experiments: FlowExperimentInfo<TContext>[],
+    existing: ExperimentAssignments = {},
+    userId?: string | null
+): ExperimentAssignments {
+    const assignments: ExperimentAssignments = {}
+    for (const experiment of experiments) {
+        const current = existing[experiment.id]
+        if (current !== undefined && experiment.variants.some((variant) => variant.id === current)) {
+            assignments[experiment.id] = current
+            continue
+        }
+
+        const variant = assignVariant(experiment.id, experiment.variants, userId ?? String(Math.random()))
+        if (variant) {
+            assignments[experiment.id] = variant.id
+        }
+    }
+    return assignments
+}
+
+/**
+ * Apply the overrides of the assigned variants to the steps. Step-level overrides take precedence over
+ * flow-level ones. A step left out by its variant (`include: false`) gets a condition that never holds,
+ * so navigation skips it like any other conditional step.
+ */
+export function applyExperimentVariants<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    assignments: ExperimentAssignments,
+    flowExperiment?: FlowExperiment<TContext>
+): OnboardingStep<TContext>[] {
+    const flowVariant = flowExperiment?.variants.find((variant) => variant.id === assignments[flowExperiment.id])
+
+    return steps.map((step) => {
+        const stepVariant = step.experiment?.variants.find((variant) => variant.id === assignments[step.experiment!.id])
+        const overrides = [flowVariant?.steps?.[String(step.id)], stepVariant].filter(
+            (override): override is StepVariantOverride<TContext> => !!override
+        )
+        return overrides.reduce(applyOverride, step)
+    })
+}
+
+function applyOverride<TContext extends OnboardingContext>(
+    step: OnboardingStep<TContext>,
+    override: StepVariantOverride<TContext>
+): OnboardingStep<TContext> {
+    const result = { ...step } as OnboardingStep<TContext>
+    if (override.payload !== undefined) {
+        result.payload = override.payload as any
+    }
+    if (override.nextStep !== undefined) {
+        result.nextStep = override.nextStep
+    }
+    if (override.include === false) {
+        result.condition = () => false
+    }
+    return result
+}
+
+function getWeight(variant: ExperimentVariant): number {
+    return variant.weight ?? 1
+}
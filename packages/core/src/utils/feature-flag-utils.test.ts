@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { applyFeatureFlagRequirements, getFeatureFlagKeys, isFeatureFlagRequirementMet } from './feature-flag-utils'
+import type { ChecklistStepPayload, OnboardingStep } from '../types'
+
+const steps: OnboardingStep[] = [
+    { id: 'welcome', payload: { mainText: 'Hello' } },
+    { id: 'beta', featureFlag: 'beta', condition: (context) => !!context.flowData.ready },
+    {
+        id: 'setup',
+        type: 'CHECKLIST',
+        payload: {
+            dataKey: 'setup',
+            items: [
+                { id: 'profile', label: 'Profile' },
+                { id: 'billing', label: 'Billing', featureFlag: { key: 'plan', value: 'pro' } },
+            ],
+        },
+    },
+]
+
+describe('isFeatureFlagRequirementMet', () => {
+    it('requires a truthy value for a key and an exact match for a value requirement', () => {
+        expect(isFeatureFlagRequirementMet('beta', true)).toBe(true)
+        expect(isFeatureFlagRequirementMet('beta', 'variant-a')).toBe(true)
+        expect(isFeatureFlagRequirementMet('beta', undefined)).toBe(false)
+        expect(isFeatureFlagRequirementMet({ key: 'plan', value: 'pro' }, 'pro')).toBe(true)
+        expect(isFeatureFlagRequirementMet({ key: 'plan', value: 'pro' }, 'free')).toBe(false)
+    })
+})
+
+describe('getFeatureFlagKeys', () => {
+    it('collects the flags of steps and checklist items', () => {
+        expect(getFeatureFlagKeys(steps)).toEqual(['beta', 'plan'])
+    })
+})
+
+describe('applyFeatureFlagRequirements', () => {
+    it('combines the flag requirement with the existing condition', () => {
+        const flags: Record<string, unknown> = {}
+        const result = applyFeatureFlagRequirements(steps, (requirement) =>
+            typeof requirement === 'string' ? !!flags[requirement] : flags[requirement.key] === requirement.value
+        )
+        const condition = result[1].condition as (context: any) => boolean
+        const billing = (result[2].payload as ChecklistStepPayload).items[1].condition as (context: any) => boolean
+
+        expect(result[0]).toBe(steps[0])
+        expect(condition({ flowData: { ready: true } })).toBe(false)
+        expect(billing({ flowData: {} })).toBe(false)
+
+        flags.beta = true
+        flags.plan = 'pro'
+        expect(condition({ flowData: { ready: true } })).toBe(true)
+        expect(condition({ flowData: {} })).toBe(false)
+        expect(billing({ flowData: {} })).toBe(true)
+    })
+})
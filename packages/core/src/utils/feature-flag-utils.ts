@@ -0,0 +1,86 @@
+// @onboardjs/core/src/utils/feature-flag-utils.ts
+
+import {
+    ChecklistItemDefinition,
+    ChecklistStepPayload,
+    FeatureFlagRequirement,
+    FeatureFlagValue,
+    OnboardingContext,
+    OnboardingStep,
+} from '../types'
+import { evaluateStepCondition } from './step-utils'
+
+/**
+ * Returns the key of the flag a requirement refers to.
+ */
+export function getFeatureFlagKey(requirement: FeatureFlagRequirement): string {
+    return typeof requirement === 'string' ? requirement : requirement.key
+}
+
+/**
+ * Checks a flag value against a requirement: a flag key requires a truthy value,
+ * `{ key, value }` requires the flag to equal `value`.
+ */
+export function isFeatureFlagRequirementMet(requirement: FeatureFlagRequirement, value: FeatureFlagValue): boolean {
+    return typeof requirement === 'string' ? !!value : value === requirement.value
+}
+
+/**
+ * Collects the keys of all flags required by the steps and their checklist items.
+ */
+export function getFeatureFlagKeys<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[]
+): string[] {
+    const keys = new Set<string>()
+    for (const step of steps) {
+        if (step.featureFlag) {
+            keys.add(getFeatureFlagKey(step.featureFlag))
+        }
+        if (step.type === 'CHECKLIST') {
+            for (const item of (step.payload as ChecklistStepPayload<TContext>).items ?? []) {
+                if (item.featureFlag) {
+                    keys.add(getFeatureFlagKey(item.featureFlag))
+                }
+            }
+        }
+    }
+    return [...keys]
+}
+
+/**
+ * Folds the flag requirements of steps and checklist items into their conditions, so every place
+ * that evaluates relevance also honours the flags. `isMet` is called on every evaluation, so the
+ * result follows flag changes without rebuilding the steps.
+ */
+export function applyFeatureFlagRequirements<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    isMet: (requirement: FeatureFlagRequirement) => boolean
+): OnboardingStep<TContext>[] {
+    return steps.map((step) => {
+        let result = step
+        if (step.featureFlag) {
+            result = { ...result, condition: gateCondition(step.condition, step.featureFlag, isMet) }
+        }
+        if (step.type === 'CHECKLIST') {
+            const payload = step.payload as ChecklistStepPayload<TContext>
+            if (payload.items?.some((item) => item.featureFlag)) {
+                const items = payload.items.map(
+                    (item): ChecklistItemDefinition<TContext> =>
+                        item.featureFlag
+                            ? { ...item, condition: gateCondition(item.condition, item.featureFlag, isMet) }
+                            : item
+                )
+                result = { ...result, payload: { ...payload, items } } as OnboardingStep<TContext>
+            }
+        }
+        return result
+    })
+}
+
+function gateCondition<TContext extends OnboardingContext>(
+    condition: OnboardingStep<TContext>['condition'],
+    requirement: FeatureFlagRequirement,
+    isMet: (requirement: FeatureFlagRequirement) => boolean
+): (context: TContext) => boolean {
+    return (context) => isMet(requirement) && evaluateStepCondition(condition, context)
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeFlow } from './flow-analyzer'
+import { expandSubflowSteps } from './subflow-utils'
+import type { OnboardingContext, OnboardingStep } from '../types'
+
+const branchingSteps: OnboardingStep[] = [
+    {
+        id: 'role',
+        type: 'SINGLE_CHOICE',
+        payload: {
+            dataKey: 'role',
+            options: [
+                { id: 'dev', label: 'Developer', value: 'developer' },
+                { id: 'des', label: 'Designer', value: 'designer' },
+            ],
+        },
+        nextStep: {
+            when: { logic: 'AND', rules: [{ field: 'role', operator: 'equals', value: 'developer' }] },
+            then: 'setup',
+            else: 'tour',
+        },
+    },
+    { id: 'setup', nextStep: 'done' },
+    {
+        id: 'tour',
+        condition: { logic: 'AND', rules: [{ field: 'seats', operator: 'greater_than', value: 5 }] },
+        nextStep: 'done',
+    },
+    { id: 'done', nextStep: null },
+]
+
+describe('analyzeFlow', () => {
+    it('should enumerate the paths of declarative branches and conditions', () => {
+        const analysis = analyzeFlow(branchingSteps)
+
+        expect(analysis.truncated).toBe(false)
+        expect(analysis.paths.map((path) => path.steps)).toEqual(
+            expect.arrayContaining([
+                ['role', 'setup', 'done'],
+                ['role', 'tour', 'done'],
+                ['role', 'done'],
+            ])
+        )
+        expect(analysis.paths).toHaveLength(3)
+        expect(analysis.pathLength).toEqual({ min: 2, max: 3, average: 8 / 3 })
+        expect(analysis.unreachedSteps).toEqual([])
+        expect(analysis.deadEnds).toEqual([])
+    })
+
+    it('should report which values lead where', () => {
+        const analysis = analyzeFlow(branchingSteps)
+        const branch = analysis.branches.find((b) => b.stepId === 'role')!
+
+        const toSetup = branch.outcomes.find((outcome) => outcome.targetStepId === 'setup')!
+        const toTour = branch.outcomes.find((outcome) => outcome.targetStepId === 'tour')!
+        const toDone = branch.outcomes.find((outcome) => outcome.targetStepId === 'done')!
+
+        expect(toSetup.values.role).toEqual(['developer'])
+        expect(toTour.values.seats).toEqual([6])
+        expect(toTour.values.role).toEqual(expect.arrayContaining([undefined, 'designer']))
+        expect(toDone.values.seats).toEqual(expect.arrayContaining([undefined, 4, 5]))
+    })
+
+    it('should use context samples for function conditions', () => {
+        const steps: OnboardingStep<OnboardingContext>[] = [
+            { id: 'start', nextStep: (context) => (context.currentUser?.plan === 'pro' ? 'pro' : 'free') },
+            { id: 'free', nextStep: null },
+            { id: 'pro', nextStep: null },
+            { id: 'enterprise', condition: (context) => context.currentUser?.plan === 'enterprise' },
+        ]
+
+        const withoutSamples = analyzeFlow(steps)
+        expect(withoutSamples.unreachedSteps).toEqual(['pro', 'enterprise'])
+
+        const analysis = analyzeFlow(steps, {
+            contexts: function* () {
+                yield { currentUser: { plan: 'free' } }
+                yield { currentUser: { plan: 'pro' } }
+            },
+        })
+        expect(analysis.scenarioCount).toBe(2)
+        expect(analysis.unreachedSteps).toEqual(['enterprise'])
+        expect(analysis.branches).toEqual([
+            {
+                stepId: 'start',
+                outcomes: [
+                    { targetStepId: 'free', via: 'next', values: {}, sampleIndices: [0] },
+                    { targetStepId: 'pro', via: 'next', values: {}, sampleIndices: [1] },
+                ],
+            },
+        ])
+    })
+
+    it('should follow skips as separate paths', () => {
+        const steps: OnboardingStep[] = [
+            { id: 'intro', isSkippable: true, skipToStep: 'done' },
+            { id: 'details' },
+            { id: 'done' },
+        ]
+
+        const analysis = analyzeFlow(steps)
+        expect(analysis.paths).toEqual([
+            { steps: ['intro', 'details', 'done'], skipped: [], outcome: 'completed', scenarios: 1 },
+            { steps: ['intro', 'done'], skipped: ['intro'], outcome: 'completed', scenarios: 1 },
+        ])
+        expect(analyzeFlow(steps, { includeSkips: false }).paths).toHaveLength(1)
+    })
+
+    it('should report dead ends', () => {
+        const steps: OnboardingStep[] = [
+            {
+                id: 'start',
+                type: 'SINGLE_CHOICE',
+                payload: {
+                    dataKey: 'choice',
+                    options: [
+                        { id: 'a', label: 'A', value: 'a' },
+                        { id: 'b', label: 'B', value: 'b' },
+                        { id: 'c', label: 'C', value: 'c' },
+                    ],
+                },
+                nextStep: (context) => {
+                    if (context.flowData.choice === 'c') throw new Error('not supported')
+                    return context.flowData.choice === 'a' ? 'missing' : 'loop'
+                },
+            },
+            { id: 'loop', nextStep: 'start' },
+        ]
+
+        const analysis = analyzeFlow(steps)
+        expect(analysis.pathLength).toEqual({ min: 0, max: 0, average: 0 })
+        expect(analysis.deadEnds).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ stepId: 'start', reason: 'missing_step', targetStepId: 'missing' }),
+                expect.objectContaining({ stepId: 'loop', reason: 'cycle', targetStepId: 'start' }),
+                expect.objectContaining({ stepId: 'start', reason: 'error' }),
+            ])
+        )
+        expect(analysis.paths.every((path) => path.outcome === 'dead_end')).toBe(true)
+    })
+
+    it('should stop at maxScenarios and report truncation', () => {
+        const analysis = analyzeFlow(branchingSteps, { maxScenarios: 2 })
+
+        expect(analysis.scenarioCount).toBe(2)
+        expect(analysis.truncated).toBe(true)
+    })
+
+    it('should walk the child steps of sub-flows with conditions scoped to their dataKey', () => {
+        const teamSteps: OnboardingStep[] = [
+            { id: 'name' },
+            {
+                id: 'invite',
+                condition: { logic: 'AND', rules: [{ field: 'size', operator: 'greater_than', value: 5 }] },
+            },
+        ]
+        const steps: OnboardingStep[] = [
+            { id: 'welcome' },
+            { id: 'setup', type: 'SUBFLOW', payload: { dataKey: 'team', steps: teamSteps } },
+            { id: 'billing', type: 'SUBFLOW', payload: { flowId: 'billing' } },
+            { id: 'done', nextStep: null },
+        ]
+        const resolveFlow = (flowId: string) => (flowId === 'billing' ? [{ id: 'card' }] : undefined)
+
+        const analysis = analyzeFlow(steps, { resolveFlow })
+        expect(analysis.paths.map((path) => path.steps)).toEqual(
+            expect.arrayContaining([
+                ['welcome', 'setup/name', 'billing/card', 'done'],
+                ['welcome', 'setup/name', 'setup/invite', 'billing/card', 'done'],
+            ])
+        )
+        expect(analysis.unreachedSteps).toEqual([])
+        expect(analysis.branches).toEqual([
+            expect.objectContaining({
+                stepId: 'setup/name',
+                outcomes: expect.arrayContaining([
+                    expect.objectContaining({ targetStepId: 'setup/invite', values: { 'team.size': [6] } }),
+                ]),
+            }),
+        ])
+
+        // Already expanded steps keep the pass-through entries and the scoped conditions
+        expect(analyzeFlow(expandSubflowSteps(steps, resolveFlow)).unreachedSteps).toEqual([])
+
+        const unresolved = analyzeFlow(steps)
+        expect(unresolved.deadEnds).toEqual([
+            expect.objectContaining({
+                stepId: 'billing',
+                reason: 'error',
+                message: expect.stringContaining('billing'),
+            }),
+        ])
+    })
+})
@@ -0,0 +1,595 @@
+// @onboardjs/core/src/utils/flow-analyzer.ts
+
+import {
+    ConditionExpression,
+    ConditionRule,
+    MultipleChoiceStepPayload,
+    OnboardingContext,
+    OnboardingStep,
+    SingleChoiceStepPayload,
+    SubflowStepPayload,
+} from '../types'
+import { isConditionExpression, isConditionGroup, isConditionalStepTarget } from './condition-utils'
+import { evaluateStepCondition, evaluateStepId, findStepById, getStepIndex } from './step-utils'
+import { expandSubflowSteps, getSubflowMeta, SubflowResolver } from './subflow-utils'
+
+type StepId = string | number
+
+/**
+ * Context samples for conditions that are functions: an array, or a generator function called once.
+ */
+export type FlowContextSamples<TContext extends OnboardingContext = OnboardingContext> =
+    | Partial<TContext>[]
+    | (() => Iterable<Partial<TContext>>)
+
+export interface FlowAnalysisOptions<TContext extends OnboardingContext = OnboardingContext> {
+    /** The step the flow starts at. Defaults to the first step. */
+    initialStepId?: StepId
+    /**
+     * Contexts to analyze the flow with. The values derived from declarative conditions and choice
+     * options are combined with each sample. Without samples, they are combined with an empty context.
+     */
+    contexts?: FlowContextSamples<TContext>
+    /** Whether skipping a skippable step is followed as a separate path. Defaults to `true`. */
+    includeSkips?: boolean
+    /** The maximum number of scenarios (context combinations) to analyze. Defaults to 1000. */
+    maxScenarios?: number
+    /** The maximum number of walks through the flow across all scenarios. Defaults to 10000. */
+    maxPaths?: number
+    /** Resolves the steps of SUBFLOW steps that embed a registered flow by `flowId`. */
+    resolveFlow?: SubflowResolver<TContext>
+}
+
+export interface FlowPath {
+    /** The IDs of the visited steps, in order. */
+    steps: StepId[]
+    /** The steps on the path that were skipped rather than completed. */
+    skipped: StepId[]
+    outcome: 'completed' | 'dead_end'
+    /** The number of scenarios that can take this path. */
+    scenarios: number
+}
+
+export interface FlowDeadEnd {
+    stepId: StepId
+    reason: 'missing_step' | 'cycle' | 'error'
+    targetStepId?: StepId
+    message: string
+}
+
+export interface FlowBranchOutcome {
+    /** The step navigated to, or `null` when the flow completes. */
+    targetStepId: StepId | null
+    via: 'next' | 'skip'
+    /**
+     * The values of the analyzed fields that lead to this outcome, keyed by condition field
+     * (e.g. `role` or `context.currentUser.plan`). `undefined` means the field was not set.
+     * Only fields whose values differ between the outcomes of a branch are listed.
+     */
+    values: Record<string, unknown[]>
+    /** The indices of the context samples that lead to this outcome. */
+    sampleIndices: number[]
+}
+
+export interface FlowBranch {
+    stepId: StepId
+    outcomes: FlowBranchOutcome[]
+}
+
+export interface FlowAnalysis {
+    scenarioCount: number
+    /** `true` when `maxScenarios` or `maxPaths` was reached, so the results may be incomplete. */
+    truncated: boolean
+    paths: FlowPath[]
+    /** Statistics over the number of steps in the completed paths. */
+    pathLength: { min: number; max: number; average: number }
+    /** Steps that no analyzed scenario reaches. */
+    unreachedSteps: StepId[]
+    deadEnds: FlowDeadEnd[]
+    /** Steps that lead to more than one target, with the values that select each target. */
+    branches: FlowBranch[]
+}
+
+interface Scenario<TContext extends OnboardingContext> {
+    context: TContext
+    values: Record<string, unknown>
+    sampleIndex?: number
+}
+
+type Resolution<TContext extends OnboardingContext> =
+    | { kind: 'step'; step: OnboardingStep<TContext> }
+    | { kind: 'complete' }
+    | { kind: 'dead_end'; deadEnd: FlowDeadEnd }
+
+const DEFAULT_MAX_SCENARIOS = 1000
+const DEFAULT_MAX_PATHS = 10000
+
+/**
+ * Enumerates the paths through a flow by walking it under many contexts, following the same
+ * navigation rules as the engine (explicit targets, then array order, passing over steps whose
+ * `condition` is not met).
+ *
+ * The contexts combine the values each declarative condition and choice step can distinguish
+ * (the literals a rule compares against, the options of a choice step, and an unset value) with
+ * the given context samples. Conditions and targets that are functions only see the samples, so
+ * provide samples that cover their cases.
+ *
+ * SUBFLOW steps are expanded like the engine does, and the declarative conditions of their child
+ * steps are analyzed with fields scoped to the sub-flow's `dataKey` (e.g. `invite.count`). Pass the
+ * original steps rather than the result of `expandSubflowSteps`.
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeFlow(steps, {
+ *   contexts: [{ currentUser: { plan: 'free' } }, { currentUser: { plan: 'pro' } }],
+ * })
+ * analysis.unreachedSteps // steps no scenario reaches
+ * analysis.branches // which values lead where
+ * ```
+ */
+export function analyzeFlow<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    options: FlowAnalysisOptions<TContext> = {}
+): FlowAnalysis {
+    const { includeSkips = true, maxScenarios = DEFAULT_MAX_SCENARIOS, maxPaths = DEFAULT_MAX_PATHS } = options
+    const initialStepId = options.initialStepId ?? steps[0]?.id
+
+    const paths = new Map<string, FlowPath>()
+    const deadEnds = new Map<string, FlowDeadEnd>()
+    const recordDeadEnd = (deadEnd: FlowDeadEnd) => {
+        deadEnds.set(JSON.stringify([deadEnd.stepId, deadEnd.reason, deadEnd.targetStepId]), deadEnd)
+    }
+    const branches = new Map<StepId, Map<string, FlowBranchOutcome>>()
+    const reached = new Set<StepId>()
+    let scenarioCount = 0
+    let walkCount = 0
+    let truncated = false
+
+    const { scenarios, complete } = generateScenarios(steps, options.contexts, maxScenarios, options.resolveFlow)
+    const subflowEntryIds = new Set<StepId>()
+    const flowSteps = expandSubflows(steps, options.resolveFlow, subflowEntryIds, recordDeadEnd)
+
+    for (const scenario of scenarios) {
+        scenarioCount++
+        const pathKeys = new Set<string>()
+
+        const recordPath = (trail: StepId[], skipped: StepId[], outcome: FlowPath['outcome']) => {
+            walkCount++
+            const key = JSON.stringify([trail, skipped, outcome])
+            const path = paths.get(key) ?? { steps: trail, skipped, outcome, scenarios: 0 }
+            if (!pathKeys.has(key)) {
+                pathKeys.add(key)
+                path.scenarios++
+            }
+            paths.set(key, path)
+        }
+
+        const visit = (step: OnboardingStep<TContext>, trail: StepId[], skipped: StepId[]) => {
+            reached.add(step.id)
+            const transitions: Array<'next' | 'skip'> = includeSkips && step.isSkippable ? ['next', 'skip'] : ['next']
+
+            for (const via of transitions) {
+                if (walkCount >= maxPaths) {
+                    truncated = true
+                    return
+                }
+
+                const resolution = resolveTransition(flowSteps, step, via, scenario.context)
+                const nextSkipped = via === 'skip' ? [...skipped, step.id] : skipped
+                recordBranch(branches, step.id, via, resolution, scenario)
+
+                if (resolution.kind === 'complete') {
+                    recordPath(trail, nextSkipped, 'completed')
+                } else if (resolution.kind === 'dead_end') {
+                    recordDeadEnd(resolution.deadEnd)
+                    recordPath(trail, nextSkipped, 'dead_end')
+                } else if (trail.includes(resolution.step.id)) {
+                    recordDeadEnd({
+                        stepId: step.id,
+                        reason: 'cycle',
+                        targetStepId: resolution.step.id,
+                        message: `Step '${step.id}' leads back to step '${resolution.step.id}' without changes to the context`,
+                    })
+                    recordPath(trail, nextSkipped, 'dead_end')
+                } else {
+                    visit(resolution.step, [...trail, resolution.step.id], nextSkipped)
+                }
+            }
+        }
+
+        if (initialStepId === undefined) {
+            continue
+        }
+
+        const initial = resolveCandidate(flowSteps, initialStepId, initialStepId, scenario.context)
+        if (initial.kind === 'step') {
+            visit(initial.step, [initial.step.id], [])
+        } else if (initial.kind === 'dead_end') {
+            recordDeadEnd(initial.deadEnd)
+        }
+    }
+
+    const completedLengths = [...paths.values()]
+        .filter((path) => path.outcome === 'completed')
+        .map((path) => path.steps.length)
+
+    return {
+        scenarioCount,
+        truncated: truncated || !complete(),
+        paths: [...paths.values()],
+        pathLength: {
+            min: completedLengths.length > 0 ? Math.min(...completedLengths) : 0,
+            max: completedLengths.length > 0 ? Math.max(...completedLengths) : 0,
+            average:
+                completedLengths.length > 0
+                    ? completedLengths.reduce((sum, length) => sum + length, 0) / completedLengths.length
+                    : 0,
+        },
+        // The pass-through entries of sub-flows are never visited themselves
+        unreachedSteps: flowSteps
+            .filter((step) => !reached.has(step.id) && !subflowEntryIds.has(step.id))
+            .map((step) => step.id),
+        deadEnds: [...deadEnds.values()],
+        branches: summarizeBranches(branches),
+    }
+}
+
+/**
+ * Expands the SUBFLOW steps that were not expanded yet. A SUBFLOW step that cannot be expanded is
+ * reported and kept as a plain step. The IDs of the pass-through entries are added to `entryIds`.
+ */
+function expandSubflows<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    resolveFlow: SubflowResolver<TContext> | undefined,
+    entryIds: Set<StepId>,
+    recordDeadEnd: (deadEnd: FlowDeadEnd) => void
+): OnboardingStep<TContext>[] {
+    return steps.flatMap((step) => {
+        if (step.type !== 'SUBFLOW') {
+            return [step]
+        }
+        entryIds.add(step.id)
+        if (steps.some((other) => getSubflowMeta(other)?.parentStepId === String(step.id))) {
+            return [step]
+        }
+
+        try {
+            return expandSubflowSteps([step], resolveFlow)
+        } catch (error) {
+            entryIds.delete(step.id)
+            recordDeadEnd({
+                stepId: step.id,
+                reason: 'error',
+                message: error instanceof Error ? error.message : String(error),
+            })
+            return [step]
+        }
+    })
+}
+
+/**
+ * Resolves where `next()` or `skip()` leads from a step, the way the engine does.
+ */
+function resolveTransition<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    step: OnboardingStep<TContext>,
+    via: 'next' | 'skip',
+    context: TContext
+): Resolution<TContext> {
+    try {
+        let targetId = via === 'skip' ? evaluateStepId(step.skipToStep, context) : undefined
+        if (targetId === undefined) {
+            targetId = evaluateStepId(step.nextStep, context)
+        }
+        return resolveCandidate(steps, step.id, targetId, context)
+    } catch (error) {
+        return {
+            kind: 'dead_end',
+            deadEnd: {
+                stepId: step.id,
+                reason: 'error',
+                message: `Navigating from step '${step.id}' threw: ${error instanceof Error ? error.message : String(error)}`,
+            },
+        }
+    }
+}
+
+/**
+ * Resolves a target step ID (or the next step in array order when `undefined`) and passes over
+ * steps whose condition is not met, like `StepTransitionService.skipConditionalSteps`.
+ */
+function resolveCandidate<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    fromStepId: StepId,
+    targetId: StepId | null | undefined,
+    context: TContext,
+    passedOver: Set<StepId> = new Set()
+): Resolution<TContext> {
+    if (targetId === null) {
+        return { kind: 'complete' }
+    }
+
+    let candidate: OnboardingStep<TContext> | undefined
+    if (targetId !== undefined) {
+        candidate = findStepById(steps, targetId)
+        if (!candidate) {
+            return {
+                kind: 'dead_end',
+                deadEnd: {
+                    stepId: fromStepId,
+                    reason: 'missing_step',
+                    targetStepId: targetId,
+                    message: `Step '${fromStepId}' leads to non-existent step '${targetId}'`,
+                },
+            }
+        }
+    } else {
+        candidate = steps
+            .slice(getStepIndex(steps, fromStepId) + 1)
+            .find((step) => evaluateStepCondition(step.condition, context))
+        if (!candidate) {
+            return { kind: 'complete' }
+        }
+    }
+
+    if (evaluateStepCondition(candidate.condition, context)) {
+        return { kind: 'step', step: candidate }
+    }
+    if (passedOver.has(candidate.id)) {
+        return {
+            kind: 'dead_end',
+            deadEnd: {
+                stepId: candidate.id,
+                reason: 'cycle',
+                targetStepId: candidate.id,
+                message: `Steps passed over because of their conditions lead back to step '${candidate.id}'`,
+            },
+        }
+    }
+    passedOver.add(candidate.id)
+    return resolveCandidate(steps, candidate.id, evaluateStepId(candidate.nextStep, context), context, passedOver)
+}
+
+function recordBranch<TContext extends OnboardingContext>(
+    branches: Map<StepId, Map<string, FlowBranchOutcome>>,
+    stepId: StepId,
+    via: 'next' | 'skip',
+    resolution: Resolution<TContext>,
+    scenario: Scenario<TContext>
+): void {
+    const targetStepId =
+        resolution.kind === 'step'
+            ? resolution.step.id
+            : resolution.kind === 'dead_end'
+              ? (resolution.deadEnd.targetStepId ?? null)
+              : null
+    const key = JSON.stringify([via, targetStepId, resolution.kind])
+    const outcomes = branches.get(stepId) ?? new Map<string, FlowBranchOutcome>()
+    const outcome = outcomes.get(key) ?? { targetStepId, via, values: {}, sampleIndices: [] }
+
+    Object.entries(scenario.values).forEach(([field, value]) => {
+        const values = (outcome.values[field] ??= [])
+        if (!values.some((existing) => valueKey(existing) === valueKey(value))) {
+            values.push(value)
+        }
+    })
+    if (scenario.sampleIndex !== undefined && !outcome.sampleIndices.includes(scenario.sampleIndex)) {
+        outcome.sampleIndices.push(scenario.sampleIndex)
+    }
+
+    outcomes.set(key, outcome)
+    branches.set(stepId, outcomes)
+}
+
+function summarizeBranches(branches: Map<StepId, Map<string, FlowBranchOutcome>>): FlowBranch[] {
+    const result: FlowBranch[] = []
+
+    branches.forEach((outcomeMap, stepId) => {
+        const outcomes = [...outcomeMap.values()]
+        if (outcomes.length < 2) {
+            return
+        }
+
+        // Fields that take the same values in every outcome do not decide the branch
+        const valueSets = (outcome: FlowBranchOutcome, field: string) =>
+            JSON.stringify((outcome.values[field] ?? []).map(valueKey).sort())
+        const fields = new Set(outcomes.flatMap((outcome) => Object.keys(outcome.values)))
+        fields.forEach((field) => {
+            if (outcomes.every((outcome) => valueSets(outcome, field) === valueSets(outcomes[0], field))) {
+                outcomes.forEach((outcome) => delete outcome.values[field])
+            }
+        })
+
+        result.push({ stepId, outcomes })
+    })
+
+    return result
+}
+
+/**
+ * Builds the scenarios lazily: every combination of the collected field values, for every sample.
+ * `complete()` reports whether all of them were produced once the iterator is exhausted.
+ */
+function generateScenarios<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    contexts: FlowContextSamples<TContext> | undefined,
+    maxScenarios: number,
+    resolveFlow: SubflowResolver<TContext> | undefined
+): { scenarios: Iterable<Scenario<TContext>>; complete: () => boolean } {
+    const fields = [...collectFieldValues(steps, resolveFlow).entries()]
+    const combinationCount = fields.reduce((count, [, values]) => count * values.length, 1)
+    let complete = true
+
+    function* scenarios(): Generator<Scenario<TContext>> {
+        let produced = 0
+        const samples: Iterable<Partial<TContext> | undefined> =
+            contexts === undefined ? [undefined] : typeof contexts === 'function' ? contexts() : contexts
+        let sampleIndex = 0
+
+        for (const sample of samples) {
+            for (let combination = 0; combination < combinationCount; combination++) {
+                if (produced >= maxScenarios) {
+                    complete = false
+                    return
+                }
+
+                let context = { ...sample, flowData: { ...sample?.flowData } } as TContext
+                const values: Record<string, unknown> = {}
+                let remainder = combination
+                for (const [field, fieldValues] of fields) {
+                    const value = fieldValues[remainder % fieldValues.length]
+                    remainder = Math.floor(remainder / fieldValues.length)
+                    values[field] = value
+                    context = setField(context, field, value)
+                }
+
+                produced++
+                yield { context, values, sampleIndex: contexts === undefined ? undefined : sampleIndex }
+            }
+            sampleIndex++
+        }
+    }
+
+    return { scenarios: scenarios(), complete: () => complete }
+}
+
+/**
+ * Collects, per condition field, the values that can change the outcome of the flow's declarative
+ * conditions and choice steps. Every field can also be unset. The fields of sub-flow steps are
+ * prefixed with the sub-flow's `dataKey`.
+ */
+function collectFieldValues<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    resolveFlow: SubflowResolver<TContext> | undefined
+): Map<string, unknown[]> {
+    const fieldValues = new Map<string, unknown[]>()
+    let prefix = ''
+    const add = (ruleField: string, values: unknown[]) => {
+        const field = ruleField.startsWith('context.') ? ruleField : `${prefix}${ruleField}`
+        const existing = fieldValues.get(field) ?? [undefined]
+        values.forEach((value) => {
+            if (!existing.some((other) => valueKey(other) === valueKey(value))) {
+                existing.push(value)
+            }
+        })
+        fieldValues.set(field, existing)
+    }
+
+    const addExpression = (expression: ConditionExpression) => {
+        const groups = Array.isArray(expression) ? expression : [expression]
+        groups.forEach((group) =>
+            group.rules.forEach((rule) => {
+                if (isConditionGroup(rule)) {
+                    addExpression(rule)
+                } else {
+                    add(rule.field, getRuleValues(rule))
+                }
+            })
+        )
+    }
+
+    const addTarget = (target: unknown) => {
+        while (isConditionalStepTarget(target)) {
+            addExpression(target.when)
+            target = target.else
+        }
+    }
+
+    const addSteps = (stepList: OnboardingStep<TContext>[], resolvingFlowIds: string[]) =>
+        stepList.forEach((step) => {
+            if (isConditionExpression(step.condition)) {
+                addExpression(step.condition)
+            }
+            addTarget(step.nextStep)
+            addTarget(step.skipToStep)
+
+            if (step.type === 'SINGLE_CHOICE' || step.type === 'MULTIPLE_CHOICE') {
+                const payload = step.payload as SingleChoiceStepPayload | MultipleChoiceStepPayload
+                if (payload?.dataKey && Array.isArray(payload.options)) {
+                    const values = payload.options.map((option) => option.value)
+                    add(payload.dataKey, step.type === 'SINGLE_CHOICE' ? values : values.map((value) => [value]))
+                }
+            }
+
+            if (step.type === 'SUBFLOW') {
+                const payload = step.payload as SubflowStepPayload<TContext> | undefined
+                const flowId = payload?.flowId
+                const childSteps =
+                    payload?.steps ?? (flowId && !resolvingFlowIds.includes(flowId) ? resolveFlow?.(flowId) : undefined)
+                if (childSteps) {
+                    const parentPrefix = prefix
+                    prefix = `${prefix}${payload?.dataKey ?? String(step.id)}.`
+                    addSteps(childSteps, flowId ? [...resolvingFlowIds, flowId] : resolvingFlowIds)
+                    prefix = parentPrefix
+                }
+            }
+        })
+
+    addSteps(steps, [])
+    return fieldValues
+}
+
+/**
+ * The values that fall on either side of a rule. `matches` has none, as no value can be derived
+ * from a pattern; use context samples for it.
+ */
+function getRuleValues(rule: ConditionRule): unknown[] {
+    const coerce = (value: unknown) => {
+        if (value === undefined || value === null || !rule.valueType) {
+            return value
+        }
+        if (rule.valueType === 'number') {
+            return Number(value)
+        }
+        return rule.valueType === 'boolean' ? value === true || value === 'true' : String(value)
+    }
+
+    switch (rule.operator) {
+        case 'in':
+        case 'not_in':
+            return Array.isArray(rule.value) ? rule.value.map(coerce) : []
+        case 'greater_than':
+        case 'less_than':
+        case 'greater_than_or_equal':
+        case 'less_than_or_equal': {
+            const value = Number(coerce(rule.value))
+            return Number.isNaN(value) ? [] : [value - 1, value, value + 1]
+        }
+        case 'exists':
+        case 'not_exists':
+        case 'is_empty':
+        case 'is_not_empty':
+            return [true]
+        case 'matches':
+            return []
+        default:
+            return rule.value === undefined ? [] : [coerce(rule.value)]
+    }
+}
+
+/**
+ * Returns a copy of the context with a condition field set, copying the objects along the path.
+ */
+function setField<TContext extends OnboardingContext>(context: TContext, field: string, value: unknown): TContext {
+    if (value === undefined) {
+        return context
+    }
+
+    const fromContext = field.startsWith('context.')
+    const path = (fromContext ? field.slice('context.'.length) : field).split('.')
+    const root = fromContext ? context : context.flowData
+
+    const set = (target: unknown, index: number): Record<string, unknown> => {
+        const copy = { ...(target !== null && typeof target === 'object' ? target : {}) } as Record<string, unknown>
+        const key = path[index]
+        copy[key] = index === path.length - 1 ? value : set(copy[key], index + 1)
+        return copy
+    }
+
+    const updated = set(root, 0)
+    return (fromContext ? updated : { ...context, flowData: updated }) as TContext
+}
+
+function valueKey(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value)
+}
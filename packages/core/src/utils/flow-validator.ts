@@ -117,6 +117,24 @@ export function validateFlow(
                     stepId: step.id,
                 })
             }
+        } else if (step.type === 'FORM') {
+            const payload = step.payload
+            if (!payload || !Array.isArray(payload.fields) || payload.fields.length === 0) {
+                issues.push({
+                    level: 'error',
+                    message: `Step '${step.id}' is of type 'FORM' but has no valid 'fields'.`,
+                    stepId: step.id,
+                })
+            }
+        } else if (step.type === 'SUBFLOW') {
+            const payload = step.payload
+            if (!payload || (!Array.isArray(payload.steps) && !payload.flowId)) {
+                issues.push({
+                    level: 'error',
+                    message: `Step '${step.id}' is of type 'SUBFLOW' but has neither 'steps' nor a 'flowId'.`,
+                    stepId: step.id,
+                })
+            }
         }
     })
 
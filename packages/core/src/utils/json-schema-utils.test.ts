@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { validateJSONSchema } from './json-schema-utils'
+import type { JSONSchema } from '../types'
+
+const profileSchema: JSONSchema = {
+    type: 'object',
+    required: ['email', 'role'],
+    properties: {
+        email: { type: 'string', format: 'email' },
+        role: { enum: ['dev', 'designer'] },
+        age: { type: 'integer', minimum: 13 },
+        tags: { type: 'array', items: { type: 'string', minLength: 2 }, uniqueItems: true },
+    },
+    additionalProperties: false,
+}
+
+describe('validateJSONSchema', () => {
+    it('accepts valid data', () => {
+        expect(validateJSONSchema(profileSchema, { email: 'a@b.co', role: 'dev', age: 30, tags: ['ui'] })).toEqual([])
+    })
+
+    it('reports typed errors with the path to the invalid value', () => {
+        const errors = validateJSONSchema(profileSchema, {
+            email: 'not-an-email',
+            age: 12.5,
+            tags: ['ui', 'x', 'ui'],
+            extra: true,
+        })
+
+        expect(errors.map((error) => [error.path, error.keyword])).toEqual([
+            ['role', 'required'],
+            ['email', 'format'],
+            ['age', 'type'],
+            ['tags', 'uniqueItems'],
+            ['tags.1', 'minLength'],
+            ['extra', 'additionalProperties'],
+        ])
+        expect(errors[0].message).toBe('role is required')
+    })
+
+    it('supports numeric, string and composition keywords', () => {
+        expect(validateJSONSchema({ type: 'number', exclusiveMaximum: 10, multipleOf: 0.5 }, 10)).toHaveLength(1)
+        expect(validateJSONSchema({ type: 'string', pattern: '^[a-z]+$' }, 'Abc')[0].keyword).toBe('pattern')
+        expect(validateJSONSchema({ type: 'string', pattern: '^[a-z]+$' }, 'a'.repeat(1001))[0].keyword).toBe('pattern')
+        expect(validateJSONSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }, null)).toEqual([])
+        expect(validateJSONSchema({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 3)[0].keyword).toBe('oneOf')
+        expect(validateJSONSchema({ not: { const: 'admin' } }, 'admin')[0].keyword).toBe('not')
+        expect(validateJSONSchema({ type: ['string', 'null'] }, 1)[0].message).toBe('Value must be string or null')
+    })
+
+    it('uses a custom error message when the schema declares one', () => {
+        const errors = validateJSONSchema(
+            { type: 'object', properties: { name: { minLength: 1, errorMessage: 'Enter your name' } } },
+            { name: '' }
+        )
+
+        expect(errors).toEqual([{ path: 'name', keyword: 'minLength', message: 'Enter your name' }])
+    })
+
+    it('reports invalid and unsafe patterns as errors instead of throwing', () => {
+        expect(validateJSONSchema({ type: 'string', pattern: '(' }, 'abc')).toEqual([
+            { path: '', keyword: 'pattern', message: 'Value cannot be checked: ( is not a valid or safe pattern' },
+        ])
+        expect(validateJSONSchema({ pattern: '^(a|a)*$' }, 'a'.repeat(40) + 'b')[0].keyword).toBe('pattern')
+    })
+})
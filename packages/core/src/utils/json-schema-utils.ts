@@ -0,0 +1,188 @@
+// @onboardjs/core/src/utils/json-schema-utils.ts
+
+import { JSONSchema, JSONSchemaError, JSONSchemaTypeName } from '../types'
+import { compileSafePattern, MAX_MATCH_INPUT_LENGTH } from './condition-utils'
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uri: /^[a-z][a-z\d+\-.]*:[^\s]*$/i,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    'date-time': /^\d{4}-\d{2}-\d{2}[tT ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([zZ]|[+-]\d{2}:\d{2})?$/,
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns an empty array if the value is valid.
+ * Patterns get the same limits as `matches` conditions: an invalid or unsafe pattern is reported as a `pattern`
+ * error, and strings longer than 1000 characters never match. Nothing is evaluated. Unknown formats are ignored.
+ */
+export function validateJSONSchema(schema: JSONSchema, value: unknown, path = ''): JSONSchemaError[] {
+    const errors = validateValue(schema, value, path)
+    return schema.errorMessage ? errors.map((error) => ({ ...error, message: schema.errorMessage! })) : errors
+}
+
+/**
+ * Get the JSON Schema type name of a value (`integer` for whole numbers).
+ */
+export function getJSONSchemaType(value: unknown): JSONSchemaTypeName | 'undefined' {
+    if (value === null) {
+        return 'null'
+    }
+    if (Array.isArray(value)) {
+        return 'array'
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number'
+    }
+    if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+        return typeof value as JSONSchemaTypeName
+    }
+    return 'undefined'
+}
+
+function validateValue(schema: JSONSchema, value: unknown, path: string): JSONSchemaError[] {
+    const errors: JSONSchemaError[] = []
+    const fail = (keyword: string, message: string, errorPath = path) =>
+        errors.push({ path: errorPath, keyword, message: `${errorPath || 'Value'} ${message}` })
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+        const actual = getJSONSchemaType(value)
+        const matches = types.some((type) => type === actual || (type === 'number' && actual === 'integer'))
+        if (!matches) {
+            fail('type', `must be ${types.join(' or ')}`)
+            // Further keywords would only repeat the type mismatch
+            return errors
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+        fail('enum', `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`)
+    }
+    if ('const' in schema && !isEqual(schema.const, value)) {
+        fail('const', `must be ${JSON.stringify(schema.const)}`)
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            fail('minLength', `must be at least ${schema.minLength} characters`)
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            fail('maxLength', `must be at most ${schema.maxLength} characters`)
+        }
+        if (schema.pattern !== undefined) {
+            const pattern = compileSafePattern(schema.pattern, 'u')
+            if (!pattern) {
+                fail('pattern', `cannot be checked: ${schema.pattern} is not a valid or safe pattern`)
+            } else if (value.length > MAX_MATCH_INPUT_LENGTH || !pattern.test(value)) {
+                fail('pattern', `must match ${schema.pattern}`)
+            }
+        }
+        if (
+            schema.format !== undefined &&
+            FORMAT_PATTERNS[schema.format] &&
+            !FORMAT_PATTERNS[schema.format].test(value)
+        ) {
+            fail('format', `must be a valid ${schema.format}`)
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            fail('minimum', `must be >= ${schema.minimum}`)
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            fail('maximum', `must be <= ${schema.maximum}`)
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`)
+        }
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+            fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`)
+        }
+        if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+            fail('multipleOf', `must be a multiple of ${schema.multipleOf}`)
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            fail('minItems', `must have at least ${schema.minItems} items`)
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            fail('maxItems', `must have at most ${schema.maxItems} items`)
+        }
+        if (schema.uniqueItems && value.some((item, i) => value.findIndex((other) => isEqual(item, other)) !== i)) {
+            fail('uniqueItems', 'must not contain duplicate items')
+        }
+        if (schema.items) {
+            value.forEach((item, i) => errors.push(...validateJSONSchema(schema.items!, item, joinPath(path, i))))
+        }
+    }
+
+    if (getJSONSchemaType(value) === 'object') {
+        const object = value as Record<string, unknown>
+        const keys = Object.keys(object).filter((key) => object[key] !== undefined)
+
+        for (const key of schema.required ?? []) {
+            if (object[key] === undefined) {
+                fail('required', 'is required', joinPath(path, key))
+            }
+        }
+        if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+            fail('minProperties', `must have at least ${schema.minProperties} properties`)
+        }
+        if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+            fail('maxProperties', `must have at most ${schema.maxProperties} properties`)
+        }
+        for (const key of keys) {
+            const propertySchema = schema.properties?.[key]
+            if (propertySchema) {
+                errors.push(...validateJSONSchema(propertySchema, object[key], joinPath(path, key)))
+            } else if (schema.additionalProperties === false) {
+                fail('additionalProperties', 'is not allowed', joinPath(path, key))
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJSONSchema(schema.additionalProperties, object[key], joinPath(path, key)))
+            }
+        }
+    }
+
+    if (schema.allOf) {
+        schema.allOf.forEach((subschema) => errors.push(...validateJSONSchema(subschema, value, path)))
+    }
+    if (schema.anyOf && !schema.anyOf.some((subschema) => validateJSONSchema(subschema, value, path).length === 0)) {
+        fail('anyOf', 'must match at least one of the allowed schemas')
+    }
+    if (schema.oneOf) {
+        const matching = schema.oneOf.filter((subschema) => validateJSONSchema(subschema, value, path).length === 0)
+        if (matching.length !== 1) {
+            fail('oneOf', 'must match exactly one of the allowed schemas')
+        }
+    }
+    if (schema.not && validateJSONSchema(schema.not, value, path).length === 0) {
+        fail('not', 'must not match the disallowed schema')
+    }
+
+    return errors
+}
+
+function joinPath(path: string, key: string | number): string {
+    return path ? `${path}.${key}` : String(key)
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false
+    }
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    return (
+        aKeys.length === bKeys.length &&
+        aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+    )
+}
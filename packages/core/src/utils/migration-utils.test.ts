@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+import { migrateLoadedData, resolveNearestStep } from './migration-utils'
+import type { OnboardingStep } from '../types'
+import type { FlowMigration, LoadedData } from '../engine/types'
+
+const steps: OnboardingStep[] = [
+    { id: 'a' },
+    { id: 'b', condition: (context) => !!context.flowData.showB },
+    { id: 'c' },
+]
+
+const loaded = (
+    flowVersion: string | undefined,
+    currentStepId: string | null = 'a',
+    completedSteps: Record<string, number> = {}
+): LoadedData => ({
+    currentStepId,
+    flowData: { _internal: { completedSteps, startedAt: 0, stepStartTimes: {}, flowVersion } },
+})
+
+const migration = (from: string, to: string, migrate: FlowMigration['migrate'] = (data) => data): FlowMigration => ({
+    from,
+    to,
+    migrate,
+})
+
+describe('migrateLoadedData', () => {
+    it('returns data without a recorded or differing version as-is', async () => {
+        const migrate = vi.fn()
+        const migrations = [migration('1', '2', migrate)]
+
+        expect((await migrateLoadedData(loaded(undefined), '2', migrations, steps)).appliedMigrations).toEqual([])
+        expect((await migrateLoadedData(loaded('2'), '2', migrations, steps)).appliedMigrations).toEqual([])
+        expect((await migrateLoadedData(loaded('1'), null, migrations, steps)).appliedMigrations).toEqual([])
+        expect(migrate).not.toHaveBeenCalled()
+    })
+
+    it('chains migrations from the recorded version to the target version', async () => {
+        const migrations = [
+            migration('2', '3', (data) => ({ ...data, flowData: { ...data.flowData, three: true } })),
+            migration('1', '2', (data) => ({ ...data, flowData: { ...data.flowData, two: true } })),
+        ]
+
+        const result = await migrateLoadedData(loaded('1'), '3', migrations, steps)
+
+        expect(result.appliedMigrations.map((m) => m.to)).toEqual(['2', '3'])
+        expect(result.data?.flowData).toMatchObject({ two: true, three: true })
+        expect(result.fallback).toBeNull()
+    })
+
+    it('uses the fallback when a migration is missing, loops or throws', async () => {
+        const error = new Error('boom')
+
+        expect(await migrateLoadedData(loaded('1'), '3', [migration('1', '2')], steps)).toMatchObject({
+            data: null,
+            fallback: 'restart',
+        })
+        expect(
+            (await migrateLoadedData(loaded('1'), '3', [migration('1', '2'), migration('2', '1')], steps)).fallback
+        ).toBe('restart')
+
+        const result = await migrateLoadedData(
+            loaded('1', 'b'),
+            '2',
+            [
+                migration('1', '2', () => {
+                    throw error
+                }),
+            ],
+            steps,
+            'nearestStep'
+        )
+        expect(result).toMatchObject({ fallback: 'nearestStep', error })
+        expect(result.data).toEqual(loaded('1', 'b'))
+    })
+})
+
+describe('resolveNearestStep', () => {
+    it('keeps existing steps and replaces removed ones with the first applicable incomplete step', () => {
+        expect(resolveNearestStep(loaded('1', 'c'), steps).currentStepId).toBe('c')
+        expect(resolveNearestStep(loaded('1', 'removed', { a: 1 }), steps).currentStepId).toBe('c')
+        expect(resolveNearestStep(loaded('1', 'removed', { a: 1, c: 1 }), steps).currentStepId).toBeNull()
+    })
+})
@@ -0,0 +1,111 @@
+// @onboardjs/core/src/utils/migration-utils.ts
+
+import { OnboardingContext, OnboardingStep } from '../types'
+import type { FlowMigration, LoadedData, MigrationFallback } from '../engine/types'
+import { evaluateStepCondition, findStepById } from './step-utils'
+
+export interface MigrationResult<TContext extends OnboardingContext = OnboardingContext> {
+    /** The migrated data, or null if it was discarded by the `restart` fallback. */
+    data: LoadedData<TContext> | null
+    /** The migrations that were applied, in order. */
+    appliedMigrations: FlowMigration<TContext>[]
+    /** The fallback that was used, if the data could not be migrated. */
+    fallback: MigrationFallback | null
+    /** The error thrown by a migration, if any. */
+    error?: Error
+}
+
+/**
+ * Returns the flow version recorded in persisted data, if any.
+ */
+export function getLoadedDataVersion<TContext extends OnboardingContext = OnboardingContext>(
+    data: LoadedData<TContext> | null | undefined
+): string | undefined {
+    return data?.flowData?._internal?.flowVersion
+}
+
+/**
+ * Migrates persisted data to `targetVersion`.
+ *
+ * Starting at the version recorded in the data, the first migration whose `from` matches the current
+ * version is applied until the data reaches `targetVersion`. Data without a recorded version, or
+ * without a target version, is returned as-is.
+ *
+ * If no migration leads to `targetVersion` (or one throws), the `fallback` decides: `restart` discards
+ * the data, `nearestStep` keeps it. Whenever the data changed version, a current step that no longer
+ * exists is replaced with the nearest valid step.
+ */
+export async function migrateLoadedData<TContext extends OnboardingContext = OnboardingContext>(
+    data: LoadedData<TContext>,
+    targetVersion: string | null,
+    migrations: FlowMigration<TContext>[],
+    steps: OnboardingStep<TContext>[],
+    fallback: MigrationFallback = 'restart'
+): Promise<MigrationResult<TContext>> {
+    const fromVersion = getLoadedDataVersion(data)
+    if (!targetVersion || !fromVersion || fromVersion === targetVersion) {
+        return { data, appliedMigrations: [], fallback: null }
+    }
+
+    const appliedMigrations: FlowMigration<TContext>[] = []
+    const visitedVersions = new Set([fromVersion])
+    let version = fromVersion
+    let migrated = data
+
+    try {
+        while (version !== targetVersion) {
+            const migration = migrations.find((m) => m.from === version)
+            if (!migration || visitedVersions.has(migration.to)) {
+                return applyFallback(data, steps, fallback, appliedMigrations)
+            }
+
+            migrated = await migration.migrate(migrated)
+            appliedMigrations.push(migration)
+            visitedVersions.add(migration.to)
+            version = migration.to
+        }
+    } catch (error) {
+        return {
+            ...applyFallback(data, steps, fallback, appliedMigrations),
+            error: error instanceof Error ? error : new Error(String(error)),
+        }
+    }
+
+    return { data: resolveNearestStep(migrated, steps), appliedMigrations, fallback: null }
+}
+
+/**
+ * Replaces a current step ID that does not exist in `steps` with the nearest valid step:
+ * the first step, in flow order, whose condition holds and that has not been completed.
+ * If every such step is completed, the flow is resumed as completed (`currentStepId: null`).
+ */
+export function resolveNearestStep<TContext extends OnboardingContext = OnboardingContext>(
+    data: LoadedData<TContext>,
+    steps: OnboardingStep<TContext>[]
+): LoadedData<TContext> {
+    const currentStepId = data.currentStepId
+    if (currentStepId === null || currentStepId === undefined || findStepById(steps, currentStepId)) {
+        return data
+    }
+
+    const context = { ...data, flowData: data.flowData ?? {} } as TContext
+    const completedSteps = context.flowData._internal?.completedSteps ?? {}
+    const nearestStep = steps.find(
+        (step) => evaluateStepCondition(step.condition, context) && completedSteps[step.id] === undefined
+    )
+
+    return { ...data, currentStepId: nearestStep?.id ?? null }
+}
+
+function applyFallback<TContext extends OnboardingContext>(
+    data: LoadedData<TContext>,
+    steps: OnboardingStep<TContext>[],
+    fallback: MigrationFallback,
+    appliedMigrations: FlowMigration<TContext>[]
+): MigrationResult<TContext> {
+    return {
+        data: fallback === 'restart' ? null : resolveNearestStep(data, steps),
+        appliedMigrations,
+        fallback,
+    }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { calculateSectionProgress, getStepSectionId } from './section-utils'
+import { expandSubflowSteps } from './subflow-utils'
+import { findStepById } from './step-utils'
+import type { OnboardingStep } from '../types'
+import type { FlowSection } from '../engine/types'
+
+describe('getStepSectionId', () => {
+    const sections: FlowSection[] = [{ id: 'profile', stepIds: ['name', 'email'] }]
+
+    it('prefers the section declared on the step', () => {
+        const step: OnboardingStep = { id: 'name', section: 'account' }
+        expect(getStepSectionId(step, [step], sections)).toBe('account')
+    })
+
+    it('falls back to the flow-level section listing the step', () => {
+        const step: OnboardingStep = { id: 'email' }
+        expect(getStepSectionId(step, [step], sections)).toBe('profile')
+        expect(getStepSectionId({ id: 'other' }, [step], sections)).toBeUndefined()
+    })
+
+    it('inherits the section of the SUBFLOW step', () => {
+        const steps = expandSubflowSteps([
+            { id: 'invite', type: 'SUBFLOW', section: 'team', payload: { steps: [{ id: 'emails' }] } },
+        ])
+        expect(getStepSectionId(findStepById(steps, 'invite/emails')!, steps)).toBe('team')
+    })
+})
+
+describe('calculateSectionProgress', () => {
+    const steps: OnboardingStep[] = [
+        { id: 'welcome', section: 'intro' },
+        { id: 'name', section: 'profile' },
+        { id: 'email', section: 'profile' },
+        { id: 'loose' },
+        { id: 'invite', section: 'team' },
+    ]
+
+    it('orders configured sections first and step-declared sections by flow order', () => {
+        const { sections } = calculateSectionProgress(steps, steps, new Set(), null, [
+            { id: 'team', title: 'Team', stepIds: [], meta: { icon: 'users' } },
+        ])
+
+        expect(sections.map((s) => s.id)).toEqual(['team', 'intro', 'profile'])
+        expect(sections[0]).toMatchObject({ title: 'Team', meta: { icon: 'users' } })
+        expect(sections[1]).toMatchObject({ title: null, meta: null })
+    })
+
+    it('counts completed steps and locates the current step', () => {
+        const { sections, currentSection } = calculateSectionProgress(
+            steps,
+            steps,
+            new Set(['welcome', 'name']),
+            steps[2]
+        )
+
+        expect(sections[0]).toMatchObject({ id: 'intro', isCompleted: true, isCurrent: false, currentStepNumber: 0 })
+        expect(currentSection).toEqual({
+            id: 'profile',
+            title: null,
+            meta: null,
+            stepIds: ['name', 'email'],
+            totalSteps: 2,
+            completedSteps: 1,
+            progressPercentage: 50,
+            isCompleted: false,
+            isCurrent: true,
+            firstStepNumber: 2,
+            lastStepNumber: 3,
+            currentStepNumber: 2,
+        })
+    })
+
+    it('leaves out sections without relevant steps', () => {
+        const relevantSteps = steps.filter((step) => step.id !== 'invite')
+        const { sections, currentSection } = calculateSectionProgress(steps, relevantSteps, new Set(), null)
+
+        expect(sections.map((s) => s.id)).toEqual(['intro', 'profile'])
+        expect(currentSection).toBeNull()
+    })
+})
@@ -0,0 +1,89 @@
+// @onboardjs/core/src/utils/section-utils.ts
+
+import { OnboardingContext, OnboardingStep } from '../types'
+import type { FlowSection, SectionProgress } from '../engine/types'
+import { findStepById } from './step-utils'
+import { getSubflowMeta } from './subflow-utils'
+
+/**
+ * Resolves the section a step belongs to.
+ * Priority: the step's own `section` → a flow-level `FlowSection` listing the step →
+ * the section of the SUBFLOW step it belongs to.
+ */
+export function getStepSectionId<TContext extends OnboardingContext = OnboardingContext>(
+    step: OnboardingStep<TContext>,
+    steps: OnboardingStep<TContext>[],
+    sections: FlowSection[] = []
+): string | undefined {
+    if (step.section) {
+        return step.section
+    }
+
+    const flowSection = sections.find((section) => section.stepIds.includes(step.id))
+    if (flowSection) {
+        return flowSection.id
+    }
+
+    const subflow = getSubflowMeta(step)
+    const parentStep = subflow ? findStepById(steps, subflow.parentStepId) : undefined
+    return parentStep ? getStepSectionId(parentStep, steps, sections) : undefined
+}
+
+/**
+ * Calculates per-section progress over the relevant steps.
+ * Sections without relevant steps are left out, so progress respects step conditions
+ * the same way the flat `totalSteps` does.
+ */
+export function calculateSectionProgress<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    relevantSteps: OnboardingStep<TContext>[],
+    completedIds: Set<string>,
+    currentStep: OnboardingStep<TContext> | null,
+    sections: FlowSection[] = []
+): { sections: SectionProgress[]; currentSection: SectionProgress | null } {
+    const stepNumbersBySection = new Map<string, number[]>()
+
+    relevantSteps.forEach((step, index) => {
+        const sectionId = getStepSectionId(step, steps, sections)
+        if (sectionId === undefined) {
+            return
+        }
+        const stepNumbers = stepNumbersBySection.get(sectionId) ?? []
+        stepNumbers.push(index + 1)
+        stepNumbersBySection.set(sectionId, stepNumbers)
+    })
+
+    // Configured sections keep their order; sections only declared on steps follow in flow order
+    const orderedIds = [
+        ...sections.map((section) => section.id).filter((id) => stepNumbersBySection.has(id)),
+        ...Array.from(stepNumbersBySection.keys()).filter((id) => !sections.some((section) => section.id === id)),
+    ]
+
+    const progress = orderedIds.map((id): SectionProgress => {
+        const definition = sections.find((section) => section.id === id)
+        const stepNumbers = stepNumbersBySection.get(id)!
+        const sectionSteps = stepNumbers.map((stepNumber) => relevantSteps[stepNumber - 1])
+        const completedSteps = sectionSteps.filter((step) => completedIds.has(String(step.id))).length
+        const currentIndex = currentStep ? sectionSteps.findIndex((step) => step.id === currentStep.id) : -1
+
+        return {
+            id,
+            title: definition?.title ?? null,
+            meta: definition?.meta ?? null,
+            stepIds: sectionSteps.map((step) => step.id),
+            totalSteps: sectionSteps.length,
+            completedSteps,
+            progressPercentage: Math.round((completedSteps / sectionSteps.length) * 100),
+            isCompleted: completedSteps === sectionSteps.length,
+            isCurrent: currentIndex !== -1,
+            firstStepNumber: stepNumbers[0],
+            lastStepNumber: stepNumbers[stepNumbers.length - 1],
+            currentStepNumber: currentIndex + 1,
+        }
+    })
+
+    return {
+        sections: progress,
+        currentSection: progress.find((section) => section.isCurrent) ?? null,
+    }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createSelector, shallowEqual } from './selector-utils'
+
+describe('shallowEqual', () => {
+    it('should compare objects and arrays by their own values', () => {
+        const step = { id: 'a' }
+
+        expect(shallowEqual({ a: 1, step }, { a: 1, step })).toBe(true)
+        expect(shallowEqual([1, step], [1, step])).toBe(true)
+        expect(shallowEqual({ a: 1, step }, { a: 1, step: { id: 'a' } })).toBe(false)
+        expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+        expect(shallowEqual([1], { 0: 1 })).toBe(false)
+        expect(shallowEqual(NaN, NaN)).toBe(true)
+        expect(shallowEqual(null, {})).toBe(false)
+    })
+})
+
+describe('createSelector', () => {
+    it('should only recompute when an input changes', () => {
+        const combiner = vi.fn((total: number, completed: number) => ({ remaining: total - completed }))
+        const selectRemaining = createSelector(
+            [(state: { total: number; completed: number; other: string }) => state.total, (state) => state.completed],
+            combiner
+        )
+
+        const first = selectRemaining({ total: 5, completed: 2, other: 'a' })
+        const second = selectRemaining({ total: 5, completed: 2, other: 'b' })
+        const third = selectRemaining({ total: 5, completed: 3, other: 'b' })
+
+        expect(first).toEqual({ remaining: 3 })
+        expect(second).toBe(first)
+        expect(third).toEqual({ remaining: 2 })
+        expect(combiner).toHaveBeenCalledTimes(2)
+    })
+})
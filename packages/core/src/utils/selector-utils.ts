@@ -0,0 +1,62 @@
+// @onboardjs/core/src/utils/selector-utils.ts
+
+/**
+ * Compares two values by their own enumerable keys (or array items) with `Object.is`.
+ * Use it as the equality function of a selector that returns a new object or array on every call.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) {
+        return true
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false
+    }
+
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    return (
+        aKeys.length === bKeys.length &&
+        aKeys.every(
+            (key) =>
+                Object.prototype.hasOwnProperty.call(b, key) &&
+                Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+        )
+    )
+}
+
+type SelectorResults<TState, TSelectors extends readonly ((state: TState) => unknown)[]> = {
+    [K in keyof TSelectors]: TSelectors[K] extends (state: TState) => infer R ? R : never
+}
+
+/**
+ * Creates a memoized selector. `combiner` only runs when one of the input selectors returns
+ * a different value (`Object.is`), so derived objects keep their identity between unrelated changes.
+ *
+ * @example
+ * ```typescript
+ * const selectSectionTitles = createSelector([(state: EngineState) => state.sections], (sections) =>
+ *   sections.map((section) => section.title)
+ * )
+ * engine.select(selectSectionTitles, (titles) => renderNav(titles))
+ * ```
+ */
+export function createSelector<TState, const TSelectors extends readonly ((state: TState) => unknown)[], TResult>(
+    inputSelectors: TSelectors,
+    combiner: (...inputs: SelectorResults<TState, TSelectors>) => TResult
+): (state: TState) => TResult {
+    let memo: { inputs: unknown[]; result: TResult } | null = null
+
+    return (state: TState) => {
+        const inputs = inputSelectors.map((selector) => selector(state))
+        if (memo && inputs.every((input, i) => Object.is(input, memo!.inputs[i]))) {
+            return memo.result
+        }
+
+        const result = combiner(...(inputs as SelectorResults<TState, TSelectors>))
+        memo = { inputs, result }
+        return result
+    }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { ENGINE_SNAPSHOT_VERSION, getSnapshotContext, validateEngineSnapshot } from './snapshot-utils'
+import type { OnboardingStep } from '../types'
+import type { ExportedEngineSnapshot } from '../engine/types'
+
+const steps: OnboardingStep[] = [
+    { id: 'a' },
+    {
+        id: 'tasks',
+        type: 'CHECKLIST',
+        payload: { dataKey: 'taskState', items: [{ id: 't1', label: 'T1', isMandatory: true }] },
+    },
+]
+
+const snapshot = (overrides: Partial<ExportedEngineSnapshot> = {}): ExportedEngineSnapshot => ({
+    version: ENGINE_SNAPSHOT_VERSION,
+    flow: { flowId: 'flow', flowName: null, flowVersion: '1.0.0', flowMetadata: null, instanceId: 1, createdAt: 0 },
+    currentStepId: 'a',
+    history: [],
+    context: { flowData: {} },
+    isCompleted: false,
+    checklists: {},
+    exportedAt: 0,
+    ...overrides,
+})
+
+describe('validateEngineSnapshot', () => {
+    it('accepts a well-formed snapshot', () => {
+        expect(validateEngineSnapshot(snapshot(), steps, { flowId: 'flow', flowVersion: '1.0.0' })).toEqual({
+            isValid: true,
+            errors: [],
+            warnings: [],
+        })
+    })
+
+    it('reports malformed snapshots', () => {
+        expect(validateEngineSnapshot(null).errors).toEqual(['Snapshot must be an object'])
+        expect(
+            validateEngineSnapshot({ ...snapshot(), context: {}, history: 'a', isCompleted: 'no', checklists: [] })
+                .errors
+        ).toEqual([
+            'Snapshot context must be an object with a flowData object',
+            'Snapshot history must be an array of step IDs',
+            'Snapshot isCompleted must be a boolean',
+            'Snapshot checklists must map step IDs to item state arrays',
+        ])
+    })
+
+    it('checks steps and flow identity when given', () => {
+        const result = validateEngineSnapshot(snapshot({ currentStepId: 'x', history: ['gone'] }), steps, {
+            flowId: 'flow',
+            flowVersion: '2.0.0',
+        })
+
+        expect(result.errors).toEqual(["Snapshot current step 'x' not found in steps"])
+        expect(result.warnings).toEqual([
+            "Snapshot history references unknown step 'gone'",
+            'Snapshot was exported from flow version 1.0.0, current version is 2.0.0',
+        ])
+    })
+})
+
+describe('getSnapshotContext', () => {
+    it('returns a copy of the context with checklist state applied', () => {
+        const source = snapshot({
+            context: { flowData: { nested: { x: 1 } } },
+            checklists: { tasks: [{ id: 't1', isCompleted: true }] },
+        })
+
+        const context = getSnapshotContext(source, steps)
+
+        expect(context.flowData).toEqual({ nested: { x: 1 }, taskState: [{ id: 't1', isCompleted: true }] })
+        expect(context.flowData.nested).not.toBe(source.context.flowData.nested)
+    })
+})
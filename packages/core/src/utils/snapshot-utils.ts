@@ -0,0 +1,118 @@
+// @onboardjs/core/src/utils/snapshot-utils.ts
+
+import { ChecklistItemState, ChecklistStepPayload, OnboardingContext, OnboardingStep } from '../types'
+import type { ExportedEngineSnapshot, FlowInfo } from '../engine/types'
+import { findStepById } from './step-utils'
+
+/** The version of the snapshot format written by `engine.exportSnapshot()`. */
+export const ENGINE_SNAPSHOT_VERSION = 1
+
+/**
+ * Validates an exported engine snapshot, optionally against the steps and flow of the engine it is imported into.
+ *
+ * Errors make the snapshot unusable: an unknown format version, a malformed shape, a current step
+ * that does not exist or a snapshot of another flow. A different flow version is only a warning.
+ */
+export function validateEngineSnapshot<TContext extends OnboardingContext = OnboardingContext>(
+    snapshot: unknown,
+    steps?: OnboardingStep<TContext>[],
+    flowInfo?: Pick<FlowInfo, 'flowId' | 'flowVersion'>
+): { isValid: boolean; errors: string[]; warnings: string[] } {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (!isRecord(snapshot)) {
+        return { isValid: false, errors: ['Snapshot must be an object'], warnings }
+    }
+
+    if (snapshot.version !== ENGINE_SNAPSHOT_VERSION) {
+        errors.push(`Unsupported snapshot version: ${String(snapshot.version)}`)
+    }
+
+    if (!isRecord(snapshot.context) || !isRecord(snapshot.context.flowData)) {
+        errors.push('Snapshot context must be an object with a flowData object')
+    }
+
+    const currentStepId = snapshot.currentStepId
+    if (currentStepId !== null && typeof currentStepId !== 'string' && typeof currentStepId !== 'number') {
+        errors.push('Snapshot currentStepId must be a string, a number or null')
+    } else if (currentStepId !== null && steps && !findStepById(steps, currentStepId)) {
+        errors.push(`Snapshot current step '${currentStepId}' not found in steps`)
+    }
+
+    if (!Array.isArray(snapshot.history) || snapshot.history.some((id) => typeof id !== 'string')) {
+        errors.push('Snapshot history must be an array of step IDs')
+    } else if (steps) {
+        snapshot.history
+            .filter((id: string) => !findStepById(steps, id))
+            .forEach((id: string) => warnings.push(`Snapshot history references unknown step '${id}'`))
+    }
+
+    if (typeof snapshot.isCompleted !== 'boolean') {
+        errors.push('Snapshot isCompleted must be a boolean')
+    }
+
+    if (snapshot.checklists !== undefined) {
+        if (!isRecord(snapshot.checklists) || !Object.values(snapshot.checklists).every(Array.isArray)) {
+            errors.push('Snapshot checklists must map step IDs to item state arrays')
+        }
+    }
+
+    if (!isRecord(snapshot.flow)) {
+        errors.push('Snapshot flow must be an object')
+    } else if (flowInfo) {
+        if (flowInfo.flowId && snapshot.flow.flowId && snapshot.flow.flowId !== flowInfo.flowId) {
+            errors.push(`Snapshot belongs to flow '${snapshot.flow.flowId}', not '${flowInfo.flowId}'`)
+        }
+        if (flowInfo.flowVersion && snapshot.flow.flowVersion && snapshot.flow.flowVersion !== flowInfo.flowVersion) {
+            warnings.push(
+                `Snapshot was exported from flow version ${snapshot.flow.flowVersion}, current version is ${flowInfo.flowVersion}`
+            )
+        }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Collects the item state of every CHECKLIST step, keyed by step ID.
+ */
+export function getChecklistSnapshot<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    context: TContext
+): Record<string, ChecklistItemState[]> {
+    const checklists: Record<string, ChecklistItemState[]> = {}
+    for (const step of steps) {
+        if (step.type !== 'CHECKLIST') {
+            continue
+        }
+        const itemStates = context.flowData[(step.payload as ChecklistStepPayload<TContext>).dataKey]
+        if (Array.isArray(itemStates)) {
+            checklists[String(step.id)] = itemStates
+        }
+    }
+    return checklists
+}
+
+/**
+ * Returns the context of a snapshot with its checklist item state written back to the checklists' data keys.
+ */
+export function getSnapshotContext<TContext extends OnboardingContext = OnboardingContext>(
+    snapshot: ExportedEngineSnapshot<TContext>,
+    steps: OnboardingStep<TContext>[]
+): TContext {
+    const context: TContext = JSON.parse(JSON.stringify(snapshot.context))
+
+    for (const [stepId, itemStates] of Object.entries(snapshot.checklists ?? {})) {
+        const step = findStepById(steps, stepId)
+        if (step?.type === 'CHECKLIST') {
+            context.flowData[(step.payload as ChecklistStepPayload<TContext>).dataKey] = itemStates
+        }
+    }
+
+    return context
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
@@ -1,4 +1,4 @@
-import { evaluateStepId, findStepById, getStepIndex } from './step-utils'
+import { evaluateStepId, evaluateStepCondition, findStepById, getStepIndex } from './step-utils'
 import type { OnboardingContext, OnboardingStep } from '../types'
 import { describe, expect, it } from 'vitest'
 
@@ -31,6 +31,35 @@ describe('evaluateStepId', () => {
         const fn = () => undefined
         expect(evaluateStepId(fn, mockContext)).toBeUndefined()
     })
+
+    it('resolves a declarative conditional target', () => {
+        const target = {
+            when: { logic: 'AND' as const, rules: [{ field: 'role', operator: 'equals' as const, value: 'dev' }] },
+            then: 'dev-step',
+            else: 'other-step',
+        }
+        expect(evaluateStepId(target, { flowData: { role: 'dev' } })).toBe('dev-step')
+        expect(evaluateStepId(target, { flowData: { role: 'pm' } })).toBe('other-step')
+    })
+})
+
+describe('evaluateStepCondition', () => {
+    it('is satisfied when there is no condition', () => {
+        expect(evaluateStepCondition(undefined, { flowData: {} })).toBe(true)
+    })
+
+    it('calls function conditions', () => {
+        expect(evaluateStepCondition((ctx) => ctx.flowData.ok === true, { flowData: { ok: true } })).toBe(true)
+    })
+
+    it('evaluates declarative conditions', () => {
+        const condition = {
+            logic: 'OR' as const,
+            rules: [{ field: 'count', operator: 'greater_than' as const, value: 2 }],
+        }
+        expect(evaluateStepCondition(condition, { flowData: { count: 3 } })).toBe(true)
+        expect(evaluateStepCondition(condition, { flowData: { count: 1 } })).toBe(false)
+    })
 })
 
 describe('findStepById', () => {
@@ -1,15 +1,17 @@
 // @onboardjs/core/src/utils/step-utils.ts
 
-import { OnboardingStep, OnboardingContext } from '../types'
+import { OnboardingStep, OnboardingContext, ConditionExpression, ConditionalStepTarget } from '../types'
+import { evaluateConditionExpression, evaluateConditionalStepTarget, isConditionalStepTarget } from './condition-utils'
 
 /**
- * Evaluates a step ID that can be a string, number or a function.
+ * Evaluates a step ID that can be a string, number, a function or a declarative `ConditionalStepTarget`.
  */
 export function evaluateStepId<TContext extends OnboardingContext = OnboardingContext>(
     stepIdOrFn:
         | string
         | number
         | ((context: TContext) => string | number | null | undefined) // Use TContext
+        | ConditionalStepTarget
         | null
         | undefined,
     context: TContext // Use TContext
@@ -17,9 +19,29 @@ export function evaluateStepId<TContext extends OnboardingContext = OnboardingCo
     if (typeof stepIdOrFn === 'function') {
         return stepIdOrFn(context)
     }
+    if (isConditionalStepTarget(stepIdOrFn)) {
+        return evaluateConditionalStepTarget(stepIdOrFn, context)
+    }
     return stepIdOrFn
 }
 
+/**
+ * Evaluates a step or checklist item condition that can be a function or a declarative `ConditionExpression`.
+ * A missing condition is always satisfied.
+ */
+export function evaluateStepCondition<TContext extends OnboardingContext = OnboardingContext>(
+    condition: ((context: TContext) => boolean) | ConditionExpression | undefined,
+    context: TContext
+): boolean {
+    if (!condition) {
+        return true
+    }
+    if (typeof condition === 'function') {
+        return condition(context)
+    }
+    return evaluateConditionExpression(condition, context)
+}
+
 /**
  * Finds a step by its ID in an array of steps.
  */
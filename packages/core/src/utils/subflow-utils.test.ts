@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import { expandSubflowSteps, getScopedFlowData, mergeScopedFlowData } from './subflow-utils'
+import { evaluateStepCondition, evaluateStepId, findStepById } from './step-utils'
+import type { OnboardingContext, OnboardingStep } from '../types'
+
+const context = (flowData: Record<string, any> = {}): OnboardingContext => ({ flowData })
+
+describe('expandSubflowSteps', () => {
+    it('returns the same array when there are no SUBFLOW steps', () => {
+        const steps: OnboardingStep[] = [{ id: 'a' }, { id: 'b' }]
+        expect(expandSubflowSteps(steps)).toBe(steps)
+    })
+
+    it('inserts namespaced child steps after a pass-through SUBFLOW step', () => {
+        const steps = expandSubflowSteps([
+            { id: 'start' },
+            { id: 'invite', type: 'SUBFLOW', payload: { steps: [{ id: 'emails' }, { id: 'confirm' }] } },
+            { id: 'end' },
+        ])
+
+        expect(steps.map((s) => s.id)).toEqual(['start', 'invite', 'invite/emails', 'invite/confirm', 'end'])
+
+        const entry = findStepById(steps, 'invite')!
+        expect(evaluateStepCondition(entry.condition, context())).toBe(false)
+        expect(entry.nextStep).toBe('invite/emails')
+        expect(entry.previousStep).toBe('invite/confirm')
+    })
+
+    it('namespaces child navigation targets and leaves through the parent nextStep', () => {
+        const steps = expandSubflowSteps([
+            {
+                id: 'setup',
+                type: 'SUBFLOW',
+                payload: {
+                    steps: [
+                        { id: 'pick', nextStep: (ctx) => (ctx.flowData.tool ? 'connect' : null) },
+                        { id: 'connect', previousStep: 'pick' },
+                    ],
+                },
+                nextStep: 'finish',
+            },
+            { id: 'finish' },
+        ])
+        const pick = findStepById(steps, 'setup/pick')!
+        const connect = findStepById(steps, 'setup/connect')!
+
+        expect(evaluateStepId(pick.nextStep, context({ setup: { tool: 'slack' } }))).toBe('setup/connect')
+        expect(evaluateStepId(pick.nextStep, context())).toBe('finish')
+        expect(evaluateStepId(connect.nextStep, context())).toBe('finish')
+        expect(evaluateStepId(connect.previousStep, context())).toBe('setup/pick')
+    })
+
+    it('applies the parent condition to every child step', () => {
+        const steps = expandSubflowSteps([
+            {
+                id: 'team',
+                type: 'SUBFLOW',
+                condition: (ctx) => ctx.flowData.plan === 'team',
+                payload: { steps: [{ id: 'invite', condition: (ctx) => !ctx.flowData.skipInvite }] },
+            },
+        ])
+        const invite = findStepById(steps, 'team/invite')!
+
+        expect(evaluateStepCondition(invite.condition, context({ plan: 'solo' }))).toBe(false)
+        expect(evaluateStepCondition(invite.condition, context({ plan: 'team' }))).toBe(true)
+        expect(evaluateStepCondition(invite.condition, context({ plan: 'team', team: { skipInvite: true } }))).toBe(
+            false
+        )
+    })
+
+    it('passes the scoped flowData to child hooks', () => {
+        const seen: Record<string, any>[] = []
+        const steps = expandSubflowSteps([
+            {
+                id: 'profile',
+                type: 'SUBFLOW',
+                payload: {
+                    dataKey: 'userProfile',
+                    steps: [
+                        {
+                            id: 'name',
+                            onStepActive: (ctx) => {
+                                seen.push(ctx.flowData)
+                                ctx.flowData.visited = true
+                            },
+                        },
+                    ],
+                },
+            },
+        ])
+        const ctx = context()
+
+        findStepById(steps, 'profile/name')!.onStepActive!(ctx)
+
+        expect(seen).toEqual([{ visited: true }])
+        expect(ctx.flowData.userProfile).toEqual({ visited: true })
+    })
+
+    it('runs child guards against the scoped flowData and namespaces redirects', async () => {
+        const steps = expandSubflowSteps([
+            {
+                id: 'team',
+                type: 'SUBFLOW',
+                payload: {
+                    steps: [
+                        { id: 'invite', canEnter: (ctx) => ctx.flowData.plan === 'team' },
+                        { id: 'roles', canLeave: () => ({ action: 'redirect', stepId: 'invite' }) },
+                    ],
+                },
+            },
+        ])
+
+        expect(await findStepById(steps, 'team/invite')!.canEnter!(context({ team: { plan: 'team' } }))).toBe(true)
+        expect(await findStepById(steps, 'team/invite')!.canEnter!(context({ plan: 'team' }))).toBe(false)
+        expect(await findStepById(steps, 'team/roles')!.canLeave!(context(), 'next')).toEqual({
+            action: 'redirect',
+            stepId: 'team/invite',
+        })
+    })
+
+    it('expands nested sub-flows', () => {
+        const steps = expandSubflowSteps([
+            {
+                id: 'outer',
+                type: 'SUBFLOW',
+                payload: {
+                    steps: [{ id: 'inner', type: 'SUBFLOW', payload: { steps: [{ id: 'leaf' }] } }],
+                },
+            },
+        ])
+
+        expect(steps.map((s) => s.id)).toEqual(['outer', 'outer/inner', 'outer/inner/leaf'])
+        expect(findStepById(steps, 'outer/inner/leaf')!.meta?.subflow).toEqual({
+            parentStepId: 'outer/inner',
+            dataPath: ['outer', 'inner'],
+        })
+    })
+
+    it('resolves registered flows and rejects unknown or recursive ones', () => {
+        const flows: Record<string, OnboardingStep[]> = {
+            invite: [{ id: 'emails' }],
+            loop: [{ id: 'again', type: 'SUBFLOW', payload: { flowId: 'loop' } }],
+        }
+        const resolve = (flowId: string) => flows[flowId]
+
+        expect(
+            expandSubflowSteps([{ id: 'team', type: 'SUBFLOW', payload: { flowId: 'invite' } }], resolve).map(
+                (s) => s.id
+            )
+        ).toEqual(['team', 'team/emails'])
+        expect(() => expandSubflowSteps([{ id: 'x', type: 'SUBFLOW', payload: { flowId: 'nope' } }], resolve)).toThrow(
+            "Subflow step 'x' references unknown flow 'nope'"
+        )
+        expect(() => expandSubflowSteps([{ id: 'x', type: 'SUBFLOW', payload: { flowId: 'loop' } }], resolve)).toThrow(
+            "recursively embeds flow 'loop'"
+        )
+    })
+})
+
+describe('scoped flowData', () => {
+    const step = { id: 'a/b', meta: { subflow: { parentStepId: 'a', dataPath: ['a', 'b'] } } } as OnboardingStep
+
+    it('reads the data of a step scope', () => {
+        expect(getScopedFlowData(step, { a: { b: { x: 1 } } })).toEqual({ x: 1 })
+        expect(getScopedFlowData(step, {})).toEqual({})
+
+        const flowData = { x: 1 }
+        expect(getScopedFlowData({ id: 'top' }, flowData)).toBe(flowData)
+    })
+
+    it('merges data into a step scope without mutating flowData', () => {
+        const flowData = { a: { other: true }, top: 1 }
+        const merged = mergeScopedFlowData(step, flowData, { x: 2 })
+
+        expect(merged).toEqual({ a: { other: true, b: { x: 2 } }, top: 1 })
+        expect(flowData).toEqual({ a: { other: true }, top: 1 })
+        expect(mergeScopedFlowData({ id: 'top' }, flowData, { top: 2 }).top).toBe(2)
+    })
+})
@@ -0,0 +1,242 @@
+// @onboardjs/core/src/utils/subflow-utils.ts
+
+import {
+    OnboardingContext,
+    OnboardingStep,
+    StepGuardDirection,
+    StepGuardResult,
+    SubflowStepMeta,
+    SubflowStepPayload,
+} from '../types'
+import { evaluateStepCondition, evaluateStepId } from './step-utils'
+
+/** Separator between a SUBFLOW step's ID and the IDs of its child steps, e.g. `'invite/emails'`. */
+export const SUBFLOW_ID_SEPARATOR = '/'
+
+/**
+ * Resolves the steps of a registered flow by its ID.
+ */
+export type SubflowResolver<TContext extends OnboardingContext = OnboardingContext> = (
+    flowId: string
+) => OnboardingStep<TContext>[] | undefined
+
+type StepTarget<TContext extends OnboardingContext> = OnboardingStep<TContext>['nextStep']
+
+/**
+ * Expands every SUBFLOW step into the steps of its child flow.
+ *
+ * Child steps are inserted right after the SUBFLOW step with IDs namespaced by the SUBFLOW step's ID.
+ * They see `flowData` scoped to the sub-flow's `dataKey`, and when the child flow ends (a `null` or
+ * missing `nextStep` on its last step) navigation continues with the SUBFLOW step's own `nextStep`.
+ *
+ * The SUBFLOW step itself stays in the list as a pass-through entry, so existing references to its ID
+ * keep working: its condition never holds, navigating forward to it enters the child flow and
+ * navigating back to it lands on the child flow's last step.
+ *
+ * Nested sub-flows are expanded recursively.
+ *
+ * @throws Error if a SUBFLOW step references an unknown flow or has no steps
+ */
+export function expandSubflowSteps<TContext extends OnboardingContext = OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    resolveFlow?: SubflowResolver<TContext>
+): OnboardingStep<TContext>[] {
+    return expandSteps(steps, resolveFlow, [])
+}
+
+/**
+ * Returns the sub-flow information of a step created by `expandSubflowSteps`, if any.
+ */
+export function getSubflowMeta<TContext extends OnboardingContext = OnboardingContext>(
+    step: OnboardingStep<TContext> | null | undefined
+): SubflowStepMeta | undefined {
+    return step?.meta?.subflow as SubflowStepMeta | undefined
+}
+
+/**
+ * Returns the part of `flowData` a step reads and writes. For steps outside a sub-flow this is `flowData` itself.
+ */
+export function getScopedFlowData<TContext extends OnboardingContext = OnboardingContext>(
+    step: OnboardingStep<TContext> | null | undefined,
+    flowData: TContext['flowData']
+): Record<string, any> {
+    const meta = getSubflowMeta(step)
+    if (!meta) {
+        return flowData
+    }
+
+    let scoped: unknown = flowData
+    for (const key of meta.dataPath) {
+        scoped = isRecord(scoped) ? scoped[key] : undefined
+    }
+    return isRecord(scoped) ? scoped : {}
+}
+
+/**
+ * Returns a copy of `flowData` with `data` merged into the scope of the given step.
+ */
+export function mergeScopedFlowData<TContext extends OnboardingContext = OnboardingContext>(
+    step: OnboardingStep<TContext> | null | undefined,
+    flowData: TContext['flowData'],
+    data: Record<string, any>
+): TContext['flowData'] {
+    const dataPath = getSubflowMeta(step)?.dataPath ?? []
+
+    const merge = (target: Record<string, any>, depth: number): Record<string, any> => {
+        if (depth === dataPath.length) {
+            return { ...target, ...data }
+        }
+        const key = dataPath[depth]
+        const nested = isRecord(target[key]) ? target[key] : {}
+        return { ...target, [key]: merge(nested, depth + 1) }
+    }
+
+    return merge(flowData, 0) as TContext['flowData']
+}
+
+function expandSteps<TContext extends OnboardingContext>(
+    steps: OnboardingStep<TContext>[],
+    resolveFlow: SubflowResolver<TContext> | undefined,
+    resolvingFlowIds: string[]
+): OnboardingStep<TContext>[] {
+    if (!steps.some((step) => step.type === 'SUBFLOW')) {
+        return steps
+    }
+
+    return steps.flatMap((step) => {
+        if (step.type !== 'SUBFLOW') {
+            return [step]
+        }
+
+        const payload = step.payload as SubflowStepPayload<TContext>
+        const flowId = payload?.flowId
+
+        if (flowId && resolvingFlowIds.includes(flowId)) {
+            throw new Error(`Subflow step '${step.id}' recursively embeds flow '${flowId}'`)
+        }
+
+        const childSteps = payload?.steps ?? (flowId ? resolveFlow?.(flowId) : undefined)
+        if (!childSteps) {
+            throw new Error(`Subflow step '${step.id}' references unknown flow '${flowId}'`)
+        }
+        if (childSteps.length === 0) {
+            throw new Error(`Subflow step '${step.id}' has no steps`)
+        }
+
+        const expandedChildren = expandSteps(
+            childSteps,
+            resolveFlow,
+            flowId ? [...resolvingFlowIds, flowId] : resolvingFlowIds
+        )
+        const children = expandedChildren.map((child, index) =>
+            scopeChildStep(step, child, index, expandedChildren, flowId)
+        )
+
+        const entry = {
+            ...step,
+            condition: () => false,
+            nextStep: children[0].id,
+            previousStep: children[children.length - 1].id,
+        } as OnboardingStep<TContext>
+
+        return [entry, ...children]
+    })
+}
+
+function scopeChildStep<TContext extends OnboardingContext>(
+    parent: OnboardingStep<TContext>,
+    child: OnboardingStep<TContext>,
+    index: number,
+    siblings: OnboardingStep<TContext>[],
+    flowId: string | undefined
+): OnboardingStep<TContext> {
+    const payload = parent.payload as SubflowStepPayload<TContext>
+    const dataKey = payload?.dataKey ?? String(parent.id)
+    const prefix = `${parent.id}${SUBFLOW_ID_SEPARATOR}`
+    const namespaced = (id: string | number | null | undefined) =>
+        id === null || id === undefined ? id : `${prefix}${id}`
+
+    // Reads never create the scope; hooks get a live reference so their mutations are kept.
+    const readScope = (context: TContext): TContext => ({
+        ...context,
+        flowData: isRecord(context.flowData?.[dataKey]) ? context.flowData[dataKey] : {},
+    })
+    const hookScope = (context: TContext): TContext => {
+        if (!isRecord(context.flowData[dataKey])) {
+            context.flowData[dataKey] = {}
+        }
+        return { ...context, flowData: context.flowData[dataKey] }
+    }
+
+    // Guard redirects stay inside the child flow
+    const scopeGuardResult = (result: StepGuardResult): StepGuardResult =>
+        typeof result === 'object' && result.action === 'redirect'
+            ? { ...result, stepId: `${prefix}${result.stepId}` }
+            : result
+
+    // Leaves the child flow through the parent's own `nextStep`
+    const exit = (context: TContext) => evaluateStepId(parent.nextStep as StepTarget<TContext>, context)
+
+    const nextStep = (context: TContext) => {
+        const targetId = evaluateStepId(child.nextStep as StepTarget<TContext>, readScope(context))
+        if (targetId === null) {
+            return exit(context)
+        }
+        if (targetId !== undefined) {
+            return namespaced(targetId)
+        }
+        const hasLaterSibling = siblings
+            .slice(index + 1)
+            .some((sibling) => evaluateStepCondition(sibling.condition, readScope(context)))
+        return hasLaterSibling ? undefined : exit(context)
+    }
+
+    const innerMeta = getSubflowMeta(child)
+    const subflow: SubflowStepMeta = innerMeta
+        ? {
+              ...innerMeta,
+              parentStepId: `${prefix}${innerMeta.parentStepId}`,
+              dataPath: [dataKey, ...innerMeta.dataPath],
+          }
+        : { parentStepId: String(parent.id), ...(flowId && { flowId }), dataPath: [dataKey] }
+
+    return {
+        ...child,
+        id: `${prefix}${child.id}`,
+        meta: { ...child.meta, subflow },
+        condition:
+            parent.condition || child.condition
+                ? (context: TContext) =>
+                      evaluateStepCondition(parent.condition, context) &&
+                      evaluateStepCondition(child.condition, readScope(context))
+                : undefined,
+        nextStep,
+        ...(child.previousStep !== undefined && {
+            previousStep: (context: TContext) =>
+                namespaced(evaluateStepId(child.previousStep as StepTarget<TContext>, readScope(context))),
+        }),
+        ...(child.skipToStep !== undefined && {
+            skipToStep: (context: TContext) => {
+                const targetId = evaluateStepId(child.skipToStep as StepTarget<TContext>, readScope(context))
+                return targetId === null ? exit(context) : namespaced(targetId)
+            },
+        }),
+        ...(child.canEnter && {
+            canEnter: async (context: TContext) => scopeGuardResult(await child.canEnter!(readScope(context))),
+        }),
+        ...(child.canLeave && {
+            canLeave: async (context: TContext, direction: StepGuardDirection) =>
+                scopeGuardResult(await child.canLeave!(readScope(context), direction)),
+        }),
+        ...(child.onStepActive && {
+            onStepActive: (context: TContext) => child.onStepActive!(hookScope(context)),
+        }),
+        ...(child.onStepComplete && {
+            onStepComplete: (stepData: any, context: TContext) => child.onStepComplete!(stepData, hookScope(context)),
+        }),
+    } as OnboardingStep<TContext>
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
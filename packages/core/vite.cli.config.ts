@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Builds the `onboardjs` CLI for Node.js. Runs after the library build, so the output directory is kept.
+export default defineConfig({
+    build: {
+        ssr: path.resolve(__dirname, 'src/cli/index.ts'),
+        outDir: 'dist',
+        emptyOutDir: false,
+        target: 'node18',
+        rollupOptions: {
+            output: {
+                format: 'es',
+                entryFileNames: 'cli.mjs',
+            },
+        },
+    },
+})
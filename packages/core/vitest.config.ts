@@ -4,6 +4,11 @@ export default defineConfig({
     test: {
         environment: 'node',
         globals: true,
+        typecheck: {
+            enabled: true,
+            include: ['src/**/*.test-d.ts'],
+            tsconfig: './tsconfig.test.json',
+        },
         coverage: {
             provider: 'v8',
             exclude: [
@@ -21,6 +21,7 @@ import {
     StepRenderTimeEvent,
     PersistenceSuccessEvent,
     PersistenceFailureEvent,
+    ExperimentExposedEvent,
     ChecklistItemToggledEvent,
     ChecklistProgressChangedEvent,
     PluginInstalledEvent,
@@ -32,6 +33,7 @@ import { ChurnRiskFactors, EventNameMapping, PostHogPluginConfig, PostHogInstanc
 import { EventDataBuilder } from './utils/eventBuilder'
 import { ChurnDetectionManager } from './utils/churnDetection'
 import { PerformanceTracker } from './utils/performanceMetrics'
+import { PostHogFeatureFlagProvider } from './utils/featureFlagProvider'
 
 export class PostHogPlugin<TContext extends OnboardingContext> extends BasePlugin<TContext, PostHogPluginConfig> {
     readonly name = '@onboardjs/plugin-posthog'
@@ -105,6 +107,10 @@ export class PostHogPlugin<TContext extends OnboardingContext> extends BasePlugi
         // Hook into AhaTracker's analytics provider system
         this._setupAhaTracking()
 
+        if (this.config.useFeatureFlagProvider) {
+            await this.engine.setFeatureFlagProvider(new PostHogFeatureFlagProvider<TContext>(this._posthog))
+        }
+
         // Log installation
         if (this.config.debug) {
             console.info('[PostHogPlugin] Plugin installed successfully')
@@ -116,6 +122,10 @@ export class PostHogPlugin<TContext extends OnboardingContext> extends BasePlugi
         this._performanceTracker.cleanup()
         this._progressMilestones.clear()
 
+        if (this.config.useFeatureFlagProvider) {
+            await this.engine.setFeatureFlagProvider(null)
+        }
+
         if (this.config.debug) {
             console.info('[PostHogPlugin] Plugin uninstalled')
         }
@@ -163,6 +173,9 @@ export class PostHogPlugin<TContext extends OnboardingContext> extends BasePlugi
             onChecklistItemToggled: this._handleChecklistItemToggled.bind(this),
             onChecklistProgressChanged: this._handleChecklistProgressChanged.bind(this),
 
+            // Experiment events
+            onExperimentExposed: this._handleExperimentExposed.bind(this),
+
             // Plugin events
             onPluginInstalled: this._handlePluginInstalled.bind(this),
             onPluginError: this._handlePluginError.bind(this),
@@ -590,6 +603,20 @@ export class PostHogPlugin<TContext extends OnboardingContext> extends BasePlugi
         this._captureEvent('persistenceFailure', eventData)
     }
 
+    private async _handleExperimentExposed(event: ExperimentExposedEvent<TContext>): Promise<void> {
+        if (!this.config.enableExperimentTracking || !this._shouldTrackEvent('experimentExposed')) return
+        const { experimentId, variantId, step, userId, context } = event
+        const eventData = this._eventBuilder.buildEventData(
+            'experimentExposed',
+            { experiment_id: experimentId, variant: variantId, user_id: userId ?? context.currentUser?.id },
+            step ?? undefined,
+            context,
+            undefined,
+            this._getFlowInfo()
+        )
+        this._captureEvent('experimentExposed', eventData)
+    }
+
     private async _handleChecklistItemToggled(event: ChecklistItemToggledEvent<TContext>): Promise<void> {
         if (!this._shouldTrackEvent('checklistItemToggled')) return
         const { itemId, isCompleted, step, context } = event
@@ -15,6 +15,7 @@ export type {
 export { EventDataBuilder } from './utils/eventBuilder'
 export { ChurnDetectionManager } from './utils/churnDetection'
 export { PerformanceTracker } from './utils/performanceMetrics'
+export { PostHogFeatureFlagProvider } from './utils/featureFlagProvider'
 
 // Default configuration presets
 export const defaultPostHogConfig: Partial<PostHogPluginConfig> = {
@@ -8,6 +8,7 @@ import { PluginConfig } from '@onboardjs/core'
 export interface PostHogInstance {
     capture: (event: string, properties?: Record<string, any>) => void
     getFeatureFlag: (flag: string) => string | boolean | null | undefined
+    onFeatureFlags?: (callback: (flags: string[]) => void) => (() => void) | void
 }
 
 export interface PostHogPluginConfig extends PluginConfig {
@@ -51,6 +52,10 @@ export interface PostHogPluginConfig extends PluginConfig {
     enableExperimentTracking?: boolean
     experimentFlags?: string[]
 
+    // Feature flags
+    /** Register PostHog as the engine's feature flag provider, so steps can be gated on PostHog flags. */
+    useFeatureFlagProvider?: boolean
+
     // Performance monitoring
     enablePerformanceTracking?: boolean
     performanceThresholds?: {
@@ -0,0 +1,21 @@
+import { FeatureFlagProvider, FeatureFlagValue, OnboardingContext } from '@onboardjs/core'
+import { PostHogInstance } from '../types'
+
+/**
+ * Resolves the feature flags required by onboarding steps from PostHog.
+ * Flags that PostHog has not loaded yet resolve to undefined and are re-read once PostHog reports them.
+ */
+export class PostHogFeatureFlagProvider<
+    TContext extends OnboardingContext = OnboardingContext,
+> implements FeatureFlagProvider<TContext> {
+    constructor(private _posthog: PostHogInstance) {}
+
+    getFlag(key: string): FeatureFlagValue {
+        return this._posthog.getFeatureFlag(key) ?? undefined
+    }
+
+    subscribe(listener: (keys?: string[]) => void): () => void {
+        const unsubscribe = this._posthog.onFeatureFlags?.(() => listener())
+        return () => unsubscribe?.()
+    }
+}
@@ -0,0 +1,41 @@
+// @onboardjs/react/src/components/PersistenceStatus.test.tsx
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import React from 'react'
+import { PersistenceStatus } from './PersistenceStatus'
+
+describe('PersistenceStatus', () => {
+    it('should show the mode when everything is saved', () => {
+        render(<PersistenceStatus mode="localStorage" />)
+
+        expect(screen.getByRole('status').textContent).toContain('Progress saved locally')
+    })
+
+    it('should show writes in progress and waiting to be retried', () => {
+        const { rerender } = render(<PersistenceStatus mode="custom" status="saving" />)
+        expect(screen.getByRole('status').textContent).toContain('Saving…')
+
+        rerender(<PersistenceStatus mode="custom" status="pending" />)
+        expect(screen.getByRole('status').textContent).toContain('Waiting to save…')
+
+        rerender(<PersistenceStatus mode="custom" status="error" />)
+        expect(screen.getByRole('status').textContent).toContain('Progress not saved')
+    })
+
+    it('should pass the status to the render function', () => {
+        const children = vi.fn(() => null)
+
+        render(
+            <PersistenceStatus mode="custom" status="error">
+                {children}
+            </PersistenceStatus>
+        )
+
+        expect(children).toHaveBeenCalledWith({
+            mode: 'custom',
+            hasError: true,
+            status: 'error',
+            statusText: 'Progress not saved',
+        })
+    })
+})
@@ -2,6 +2,7 @@
 'use client'
 
 import React, { ReactNode, CSSProperties } from 'react'
+import type { PersistenceSyncStatus } from '@onboardjs/core'
 
 /**
  * The current persistence mode of the onboarding flow.
@@ -22,10 +23,21 @@ export interface PersistenceStatusProps {
      */
     hasError?: boolean
 
+    /**
+     * The state of the write queue, from `state.persistenceStatus`. `'error'` is shown like `hasError`.
+     * @default 'saved'
+     */
+    status?: PersistenceSyncStatus
+
     /**
      * Custom render function for the status indicator.
      */
-    children?: (props: { mode: PersistenceMode; hasError: boolean; statusText: string }) => ReactNode
+    children?: (props: {
+        mode: PersistenceMode
+        hasError: boolean
+        status: PersistenceSyncStatus
+        statusText: string
+    }) => ReactNode
 
     /**
      * Whether to show the status indicator.
@@ -42,10 +54,16 @@ export interface PersistenceStatusProps {
 /**
  * Gets a human-readable status text for the persistence mode.
  */
-function getStatusText(mode: PersistenceMode, hasError: boolean): string {
+function getStatusText(mode: PersistenceMode, hasError: boolean, status: PersistenceSyncStatus): string {
     if (hasError) {
         return 'Progress not saved'
     }
+    if (status === 'saving') {
+        return 'Saving…'
+    }
+    if (status === 'pending') {
+        return 'Waiting to save…'
+    }
 
     switch (mode) {
         case 'localStorage':
@@ -62,7 +80,7 @@ function getStatusText(mode: PersistenceMode, hasError: boolean): string {
 /**
  * Gets the default styles for the status indicator.
  */
-function getDefaultStyles(mode: PersistenceMode, hasError: boolean): CSSProperties {
+function getDefaultStyles(mode: PersistenceMode, hasError: boolean, status: PersistenceSyncStatus): CSSProperties {
     const baseStyles: CSSProperties = {
         display: 'inline-flex',
         alignItems: 'center',
@@ -82,6 +100,24 @@ function getDefaultStyles(mode: PersistenceMode, hasError: boolean): CSSProperti
         }
     }
 
+    if (status === 'saving') {
+        return {
+            ...baseStyles,
+            backgroundColor: '#F3F4F6',
+            color: '#6B7280',
+            border: '1px solid #D1D5DB',
+        }
+    }
+
+    if (status === 'pending') {
+        return {
+            ...baseStyles,
+            backgroundColor: '#FFFBEB',
+            color: '#92400E',
+            border: '1px solid #FCD34D',
+        }
+    }
+
     switch (mode) {
         case 'localStorage':
         case 'custom':
@@ -111,10 +147,13 @@ function getDefaultStyles(mode: PersistenceMode, hasError: boolean): CSSProperti
 /**
  * Gets the status icon character.
  */
-function getStatusIcon(mode: PersistenceMode, hasError: boolean): string {
+function getStatusIcon(mode: PersistenceMode, hasError: boolean, status: PersistenceSyncStatus): string {
     if (hasError) {
         return '⚠️'
     }
+    if (status === 'saving' || status === 'pending') {
+        return '…'
+    }
 
     switch (mode) {
         case 'localStorage':
@@ -138,9 +177,13 @@ function getStatusIcon(mode: PersistenceMode, hasError: boolean): string {
  * // With error state
  * <PersistenceStatus mode="localStorage" hasError />
  *
+ * // Following the engine's write queue
+ * const { state } = useOnboarding()
+ * <PersistenceStatus mode="custom" status={state?.persistenceStatus} />
+ *
  * // Custom render
  * <PersistenceStatus mode="localStorage">
- *   {({ mode, statusText }) => (
+ *   {({ mode, status, statusText }) => (
  *     <span className="custom-status">{statusText}</span>
  *   )}
  * </PersistenceStatus>
@@ -148,7 +191,8 @@ function getStatusIcon(mode: PersistenceMode, hasError: boolean): string {
  */
 export function PersistenceStatus({
     mode,
-    hasError = false,
+    hasError: hasErrorProp = false,
+    status = 'saved',
     children,
     visible = true,
     className,
@@ -157,16 +201,17 @@ export function PersistenceStatus({
         return null
     }
 
-    const statusText = getStatusText(mode, hasError)
+    const hasError = hasErrorProp || status === 'error'
+    const statusText = getStatusText(mode, hasError, status)
 
     // Custom render function
     if (children) {
-        return children({ mode, hasError, statusText })
+        return children({ mode, hasError, status, statusText })
     }
 
     // Default render
-    const styles = getDefaultStyles(mode, hasError)
-    const icon = getStatusIcon(mode, hasError)
+    const styles = getDefaultStyles(mode, hasError, status)
+    const icon = getStatusIcon(mode, hasError, status)
 
     return (
         <div className={className} style={styles} role="status" aria-live="polite">
@@ -94,6 +94,15 @@ function createOnboardingContext<TContext extends OnboardingContextType = Onboar
  */
 export const OnboardingContext = createOnboardingContext<OnboardingContextType>()
 
+/**
+ * Holds only the engine instance, so that consumers which subscribe to the engine themselves
+ * (such as `useOnboardingSelector`) are not re-rendered on every state change.
+ * @internal
+ */
+export const OnboardingEngineContext = createContext<OnboardingEngine<OnboardingContextType> | null | undefined>(
+    undefined
+)
+
 /**
  * Create a typed onboarding context for a specific context type.
  * Useful for cases where you need type-safe context with a custom context shape.
@@ -410,5 +419,9 @@ export function OnboardingProvider<TContext extends OnboardingContextType = Onbo
     // This is the standard pattern for generic Context in React with TypeScript.
     const contextValue = value as unknown as OnboardingContextValue<OnboardingContextType>
 
-    return <OnboardingContext.Provider value={contextValue}>{children}</OnboardingContext.Provider>
+    return (
+        <OnboardingEngineContext.Provider value={contextValue.engine}>
+            <OnboardingContext.Provider value={contextValue}>{children}</OnboardingContext.Provider>
+        </OnboardingEngineContext.Provider>
+    )
 }
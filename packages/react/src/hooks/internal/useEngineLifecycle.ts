@@ -39,7 +39,7 @@ export function useEngineLifecycle<TContext extends OnboardingContextType>(
     const configHash = useMemo(
         () =>
             createConfigHash({
-                steps: config.steps,
+                steps: config.steps ?? [],
                 initialStepId: config.initialStepId,
                 initialContext: config.initialContext,
                 debug: config.debug,
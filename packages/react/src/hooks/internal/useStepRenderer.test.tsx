@@ -58,6 +58,12 @@ function createMockEngineState<TContext extends OnboardingContext = OnboardingCo
         completedSteps: 0,
         progressPercentage: 0,
         currentStepNumber: 1,
+        validationErrors: [],
+        sections: [],
+        currentSection: null,
+        canUndo: false,
+        canRedo: false,
+        experiments: {},
     }
 }
 
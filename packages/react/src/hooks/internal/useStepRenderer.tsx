@@ -2,7 +2,7 @@
 'use client'
 
 import React, { useCallback, createElement } from 'react'
-import { EngineState, OnboardingContext as OnboardingContextType } from '@onboardjs/core'
+import { EngineState, OnboardingContext as OnboardingContextType, getScopedFlowData } from '@onboardjs/core'
 import { OnboardingStep, StepComponentProps, StepComponentRegistry } from '../../types'
 
 export interface UseStepRendererConfig<TContext extends OnboardingContextType> {
@@ -105,9 +105,11 @@ export function useStepRenderer<TContext extends OnboardingContextType>(
             )
         }
 
-        // Find initial data if dataKey is present
+        // Find initial data if dataKey is present (steps inside a sub-flow read from the sub-flow's data)
         const dataKey = (currentStep.payload as Record<string, unknown>)?.dataKey
-        const initialData = dataKey ? (context.flowData[String(dataKey)] as Record<string, unknown>) : undefined
+        const initialData = dataKey
+            ? (getScopedFlowData(currentStep, context.flowData)[String(dataKey)] as Record<string, unknown>)
+            : undefined
 
         // Build props object with full StepComponentProps
         const props: StepComponentProps<unknown, TContext> = {
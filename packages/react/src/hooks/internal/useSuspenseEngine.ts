@@ -78,7 +78,7 @@ export function useSuspenseEngine<TContext extends OnboardingContextType>(
     const configHash = useMemo(
         () =>
             createConfigHash({
-                steps: config.steps,
+                steps: config.steps ?? [],
                 initialStepId: config.initialStepId,
                 initialContext: config.initialContext,
                 debug: config.debug,
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, render, screen, act, waitFor } from '@testing-library/react'
+import React from 'react'
+import { shallowEqual } from '@onboardjs/core'
+import { useOnboardingSelector } from './useOnboardingSelector'
+import { useOnboarding } from './useOnboarding'
+import { OnboardingProvider } from '../context/OnboardingProvider'
+import { mockSteps, mockStepComponents } from '../test-utils'
+
+describe('useOnboardingSelector', () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <OnboardingProvider steps={mockSteps} componentRegistry={mockStepComponents}>
+            {children}
+        </OnboardingProvider>
+    )
+
+    it('should throw error when used outside OnboardingProvider', () => {
+        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        expect(() => {
+            renderHook(() => useOnboardingSelector((state) => state.currentStep?.id))
+        }).toThrow('useOnboardingSelector must be used within an OnboardingProvider')
+
+        consoleErrorSpy.mockRestore()
+    })
+
+    it('should re-render only when the selected value changes', async () => {
+        let renders = 0
+        let actions: ReturnType<typeof useOnboarding> | undefined
+
+        const StepId = () => {
+            renders++
+            const stepId = useOnboardingSelector((state) => state.currentStep?.id)
+            return <span data-testid="step-id">{stepId}</span>
+        }
+        const Controls = () => {
+            actions = useOnboarding()
+            return null
+        }
+
+        render(
+            <OnboardingProvider steps={mockSteps} componentRegistry={mockStepComponents}>
+                <StepId />
+                <Controls />
+            </OnboardingProvider>
+        )
+
+        await waitFor(() => expect(screen.getByTestId('step-id').textContent).toBe('step1'))
+        const rendersBeforeUpdate = renders
+
+        await act(async () => {
+            await actions!.updateContext({ flowData: { note: 'unrelated' } })
+        })
+        expect(renders).toBe(rendersBeforeUpdate)
+
+        await act(async () => {
+            await actions!.next()
+        })
+        await waitFor(() => expect(screen.getByTestId('step-id').textContent).toBe('step2'))
+        expect(renders).toBeGreaterThan(rendersBeforeUpdate)
+    })
+
+    it('should keep derived objects stable with shallowEqual', async () => {
+        let renders = 0
+        const { result } = renderHook(
+            () => {
+                renders++
+                const onboarding = useOnboarding()
+                const nav = useOnboardingSelector(
+                    (state) => ({ canGoNext: state.canGoNext, canGoPrevious: state.canGoPrevious }),
+                    shallowEqual
+                )
+                return { onboarding, nav }
+            },
+            { wrapper }
+        )
+
+        await waitFor(() => expect(result.current.nav).toEqual({ canGoNext: true, canGoPrevious: false }))
+        const nav = result.current.nav
+
+        await act(async () => {
+            await result.current.onboarding.updateContext({ flowData: { note: 'unrelated' } })
+        })
+
+        expect(renders).toBeGreaterThan(1)
+        expect(result.current.nav).toBe(nav)
+
+        await act(async () => {
+            await result.current.onboarding.next()
+        })
+
+        await waitFor(() => expect(result.current.nav).toEqual({ canGoNext: true, canGoPrevious: true }))
+    })
+})
@@ -0,0 +1,85 @@
+// @onboardjs/react/src/hooks/useOnboardingSelector.ts
+'use client'
+
+import { useCallback, useContext, useRef, useSyncExternalStore } from 'react'
+import type { OnboardingEngine, OnboardingContext as OnboardingContextType, StateSelector } from '@onboardjs/core'
+import { OnboardingEngineContext } from '../context/OnboardingProvider'
+
+interface SelectionCache<TContext extends OnboardingContextType, TSelected> {
+    engine: OnboardingEngine<TContext>
+    selector: StateSelector<TContext, TSelected>
+    value: TSelected
+}
+
+/**
+ * Hook for subscribing to a slice of the engine state.
+ *
+ * Unlike `useOnboarding`, the component only re-renders when the selected value changes,
+ * as decided by `equalityFn` (`Object.is` by default). Use `shallowEqual` from `@onboardjs/core`
+ * when the selector returns a new object or array on every call.
+ *
+ * @param selector - Derives the value from the engine state
+ * @param equalityFn - Decides whether the selected value changed
+ * @returns The selected value, or `undefined` until the engine is ready
+ *
+ * @example
+ * ```tsx
+ * const progress = useOnboardingSelector((state) => state.progressPercentage)
+ *
+ * const nav = useOnboardingSelector(
+ *   (state) => ({ canGoNext: state.canGoNext, canGoPrevious: state.canGoPrevious }),
+ *   shallowEqual
+ * )
+ * ```
+ *
+ * @throws Error if used outside of an OnboardingProvider
+ */
+export function useOnboardingSelector<TSelected, TContext extends OnboardingContextType = OnboardingContextType>(
+    selector: StateSelector<TContext, TSelected>,
+    equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+): TSelected | undefined {
+    const engine = useContext(OnboardingEngineContext) as OnboardingEngine<TContext> | null | undefined
+    if (engine === undefined) {
+        throw new Error('useOnboardingSelector must be used within an OnboardingProvider')
+    }
+
+    const cacheRef = useRef<SelectionCache<TContext, TSelected> | null>(null)
+
+    const getSnapshot = useCallback((): TSelected | undefined => {
+        if (!engine) {
+            return undefined
+        }
+
+        const cached = cacheRef.current
+        if (cached && cached.engine === engine && cached.selector === selector) {
+            return cached.value
+        }
+
+        // The selector changed (e.g. an inline function): keep the previous value if it is still equal,
+        // so that derived objects keep their identity across renders
+        const selected = selector(engine.getState())
+        const value = cached && cached.engine === engine && equalityFn(cached.value, selected) ? cached.value : selected
+        cacheRef.current = { engine, selector, value }
+        return value
+    }, [engine, selector, equalityFn])
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => {
+            if (!engine) {
+                return () => {}
+            }
+
+            return engine.select(
+                selector,
+                (value) => {
+                    cacheRef.current = { engine, selector, value }
+                    onStoreChange()
+                },
+                equalityFn
+            )
+        },
+        [engine, selector, equalityFn]
+    )
+
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+}
@@ -1,6 +1,7 @@
 export { OnboardingProvider } from './context/OnboardingProvider'
 export { useOnboarding } from './hooks/useOnboarding'
 export { useOnboardingAnalytics } from './hooks/useOnboardingAnalytics'
+export { useOnboardingSelector } from './hooks/useOnboardingSelector'
 
 // Re-export plugin system from core for convenience
 export {
@@ -47,7 +47,7 @@ export const mockStepComponents: StepComponentRegistry = {
                             type="radio"
                             name="choice"
                             value={option.value}
-                            onChange={(e) => onDataChange?.({ [payload.dataKey]: e.target.value }, true)}
+                            onChange={(e) => onDataChange?.({ [payload.dataKey as string]: e.target.value }, true)}
                         />
                         {option.label}
                     </label>
@@ -62,7 +62,7 @@ export const mockStepComponents: StepComponentRegistry = {
         const handleChange = (value: string, checked: boolean) => {
             const newSelected = checked ? [...selected, value] : selected.filter((v) => v !== value)
             setSelected(newSelected)
-            onDataChange?.({ [payload.dataKey]: newSelected }, newSelected.length > 0)
+            onDataChange?.({ [payload.dataKey as string]: newSelected }, newSelected.length > 0)
         }
 
         return (
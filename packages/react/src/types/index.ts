@@ -10,6 +10,8 @@ import {
     ConfirmationStepPayload,
     CustomComponentStepPayload,
     ChecklistStepPayload,
+    FormStepPayload,
+    SubflowStepPayload,
 } from '@onboardjs/core'
 
 // Re-export navigator types
@@ -62,6 +64,9 @@ export type StepComponentPropsMap<TContext extends OnboardingContext = Onboardin
     MULTIPLE_CHOICE: StepComponentProps<MultipleChoiceStepPayload, TContext>
     CONFIRMATION: StepComponentProps<ConfirmationStepPayload, TContext>
     CHECKLIST: StepComponentProps<ChecklistStepPayload<TContext>, TContext>
+    FORM: StepComponentProps<FormStepPayload, TContext>
+    /** SUBFLOW steps are never rendered themselves; the engine moves straight into their child steps. */
+    SUBFLOW: StepComponentProps<SubflowStepPayload<TContext>, TContext>
     CUSTOM_COMPONENT: StepComponentProps<CustomComponentStepPayload, TContext>
 }
 
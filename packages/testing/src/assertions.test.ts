@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { OnboardingEngine, type OnboardingStep } from '@onboardjs/core'
+import {
+    OnboardingAssertionError,
+    createAnalyticsRecorder,
+    expectChecklist,
+    matchesSubset,
+    recordEvents,
+} from './assertions'
+
+const steps: OnboardingStep[] = [
+    { id: 'welcome' },
+    {
+        id: 'setup',
+        type: 'CHECKLIST',
+        payload: { dataKey: 'setup', items: [{ id: 'profile', label: 'Complete your profile' }] },
+    },
+]
+
+describe('matchesSubset', () => {
+    it('should compare objects by the expected keys and everything else by value', () => {
+        expect(matchesSubset({ a: 1, b: { c: 2, d: 3 } }, { b: { c: 2 } })).toBe(true)
+        expect(matchesSubset({ a: [1, 2] }, { a: [1] })).toBe(false)
+        expect(matchesSubset({ a: 1 }, { a: '1' })).toBe(false)
+    })
+})
+
+describe('recordEvents', () => {
+    it('should record events and assert on them', async () => {
+        const engine = new OnboardingEngine({ steps })
+        const events = recordEvents(engine)
+        await engine.ready()
+        await engine.next()
+
+        events.expectEmitted('stepChange', { newStep: { id: 'setup' } }, 1)
+        events.expectEmitted('stepCompleted', (event) => event.step.id === 'welcome')
+        events.expectNotEmitted('flowCompleted')
+        expect(() => events.expectEmitted('flowCompleted')).toThrow(OnboardingAssertionError)
+        expect(() => events.expectNotEmitted('stepChange')).toThrow(
+            "Expected 'stepChange' not to be emitted, but it was emitted"
+        )
+
+        events.stop()
+        await engine.previous()
+        expect(events.ofType('stepChange')).toHaveLength(2)
+    })
+})
+
+describe('createAnalyticsRecorder', () => {
+    it('should record tracked analytics events', async () => {
+        const analytics = createAnalyticsRecorder()
+        const engine = new OnboardingEngine({ steps, analytics: { enabled: true, providers: [analytics] } })
+        await engine.ready()
+        await engine.next()
+
+        analytics.expectTracked('step_completed', { stepId: 'welcome' })
+        analytics.expectNotTracked('flow_completed')
+        expect(() => analytics.expectTracked('flow_completed')).toThrow(
+            "Expected analytics event 'flow_completed' to be tracked"
+        )
+    })
+})
+
+describe('expectChecklist', () => {
+    it('should check the completion of checklist items', async () => {
+        const engine = new OnboardingEngine({ steps, initialStepId: 'setup' })
+        await engine.ready()
+
+        expectChecklist(engine, { profile: false })
+        await engine.updateChecklistItem('profile', true)
+        expectChecklist(engine, { profile: true }, 'setup')
+
+        expect(() => expectChecklist(engine, { profile: false })).toThrow(
+            "Checklist 'setup' does not match {\"profile\":false}: 'profile' is completed"
+        )
+        expect(() => expectChecklist(engine, {}, 'welcome')).toThrow(
+            "Expected 'welcome' to be a CHECKLIST step, but it is of type INFORMATION"
+        )
+    })
+})
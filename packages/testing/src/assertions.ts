@@ -0,0 +1,318 @@
+// @onboardjs/testing/src/assertions.ts
+
+import { findStepById } from '@onboardjs/core'
+import type {
+    AnalyticsEvent,
+    AnalyticsProvider,
+    ChecklistItemState,
+    ChecklistStepPayload,
+    EventListenerMap,
+    OnboardingContext,
+    OnboardingEngine,
+} from '@onboardjs/core'
+
+/**
+ * Thrown by the assertion helpers. Test runners report it like any failed assertion.
+ */
+export class OnboardingAssertionError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'OnboardingAssertionError'
+    }
+}
+
+/**
+ * Checks that `actual` contains `expected`: objects are compared by the keys of `expected` only,
+ * everything else (including arrays) must be equal.
+ */
+export function matchesSubset(actual: unknown, expected: unknown): boolean {
+    if (Object.is(actual, expected)) {
+        return true
+    }
+    if (Array.isArray(expected)) {
+        return (
+            Array.isArray(actual) &&
+            actual.length === expected.length &&
+            expected.every((item, i) => matchesSubset(actual[i], item))
+        )
+    }
+    if (expected !== null && typeof expected === 'object') {
+        return (
+            actual !== null &&
+            typeof actual === 'object' &&
+            !Array.isArray(actual) &&
+            Object.entries(expected).every(([key, value]) =>
+                matchesSubset((actual as Record<string, unknown>)[key], value)
+            )
+        )
+    }
+    return false
+}
+
+export function formatValue(value: unknown): string {
+    if (value === undefined) {
+        return 'undefined'
+    }
+    try {
+        return JSON.stringify(value)
+    } catch {
+        return String(value)
+    }
+}
+
+export type EngineEventType = keyof EventListenerMap
+
+export type EngineEventPayload<
+    T extends EngineEventType,
+    TContext extends OnboardingContext = OnboardingContext,
+> = Parameters<EventListenerMap<TContext>[T]>[0]
+
+export interface RecordedEvent<TContext extends OnboardingContext = OnboardingContext> {
+    type: EngineEventType
+    payload: EngineEventPayload<EngineEventType, TContext>
+}
+
+/**
+ * Payloads may be matched with a partial object (see `matchesSubset`) or a predicate.
+ */
+export type PayloadMatcher<TPayload> = Partial<TPayload> | Record<string, unknown> | ((payload: TPayload) => boolean)
+
+export interface EventRecorder<TContext extends OnboardingContext = OnboardingContext> {
+    /** Every recorded event, oldest first. */
+    readonly events: RecordedEvent<TContext>[]
+    /** The payloads of the recorded events of one type. */
+    ofType<T extends EngineEventType>(type: T): EngineEventPayload<T, TContext>[]
+    /** Assert that an event was emitted, optionally a given number of times. */
+    expectEmitted<T extends EngineEventType>(
+        type: T,
+        matcher?: PayloadMatcher<EngineEventPayload<T, TContext>>,
+        times?: number
+    ): void
+    /** Assert that no matching event was emitted. */
+    expectNotEmitted<T extends EngineEventType>(
+        type: T,
+        matcher?: PayloadMatcher<EngineEventPayload<T, TContext>>
+    ): void
+    /** Forget the recorded events. */
+    clear(): void
+    /** Stop recording. */
+    stop(): void
+}
+
+// A Record so that the type-checker reports event types added to the engine but missing here
+const ENGINE_EVENT_TYPES: Record<EngineEventType, true> = {
+    stateChange: true,
+    beforeStepChange: true,
+    stepChange: true,
+    stepActive: true,
+    stepCompleted: true,
+    contextUpdate: true,
+    error: true,
+    flowStarted: true,
+    flowCompleted: true,
+    flowPaused: true,
+    flowResumed: true,
+    flowAbandoned: true,
+    flowReset: true,
+    stepSkipped: true,
+    stepRetried: true,
+    stepValidationFailed: true,
+    stepHelpRequested: true,
+    stepAbandoned: true,
+    navigationBack: true,
+    navigationForward: true,
+    navigationJump: true,
+    navigationDenied: true,
+    experimentExposed: true,
+    userIdle: true,
+    userReturned: true,
+    dataChanged: true,
+    stepRenderTime: true,
+    persistenceSuccess: true,
+    persistenceFailure: true,
+    persistenceExpired: true,
+    crossTabConflict: true,
+    checklistItemToggled: true,
+    checklistProgressChanged: true,
+    pluginInstalled: true,
+    pluginError: true,
+    flowRegistered: true,
+    flowUnregistered: true,
+}
+
+const matches = <TPayload>(payload: TPayload, matcher?: PayloadMatcher<TPayload>) =>
+    matcher === undefined || (typeof matcher === 'function' ? matcher(payload) : matchesSubset(payload, matcher))
+
+const describeMatcher = (matcher: unknown) =>
+    matcher === undefined
+        ? ''
+        : typeof matcher === 'function'
+          ? ' matching the predicate'
+          : ` with ${formatValue(matcher)}`
+
+/**
+ * Record the events an engine emits.
+ *
+ * @param types - The event types to record. Defaults to all of them.
+ *
+ * @example
+ * ```typescript
+ * const events = recordEvents(engine)
+ * await engine.next()
+ * events.expectEmitted('stepCompleted', { step: { id: 'welcome' } })
+ * ```
+ */
+export function recordEvents<TContext extends OnboardingContext = OnboardingContext>(
+    engine: OnboardingEngine<TContext>,
+    types: EngineEventType[] = Object.keys(ENGINE_EVENT_TYPES) as EngineEventType[]
+): EventRecorder<TContext> {
+    const events: RecordedEvent<TContext>[] = []
+    const unsubscribers = types.map((type) =>
+        engine.addEventListener(type, ((payload: EngineEventPayload<EngineEventType, TContext>) => {
+            events.push({ type, payload })
+        }) as EventListenerMap<TContext>[typeof type])
+    )
+
+    const ofType = <T extends EngineEventType>(type: T) =>
+        events.filter((event) => event.type === type).map((event) => event.payload as EngineEventPayload<T, TContext>)
+
+    return {
+        events,
+        ofType,
+
+        expectEmitted(type, matcher, times) {
+            const count = ofType(type).filter((payload) => matches(payload, matcher)).length
+            if (times === undefined ? count === 0 : count !== times) {
+                const expected = times === undefined ? 'at least once' : `${times} time(s)`
+                throw new OnboardingAssertionError(
+                    `Expected '${type}' to be emitted${describeMatcher(matcher)} ${expected}, but it was emitted ${count} time(s)`
+                )
+            }
+        },
+
+        expectNotEmitted(type, matcher) {
+            const count = ofType(type).filter((payload) => matches(payload, matcher)).length
+            if (count > 0) {
+                throw new OnboardingAssertionError(
+                    `Expected '${type}' not to be emitted${describeMatcher(matcher)}, but it was emitted ${count} time(s)`
+                )
+            }
+        },
+
+        clear() {
+            events.length = 0
+        },
+
+        stop() {
+            unsubscribers.forEach((unsubscribe) => unsubscribe())
+        },
+    }
+}
+
+export interface AnalyticsRecorder extends AnalyticsProvider {
+    /** Every tracked analytics event, oldest first. */
+    readonly events: AnalyticsEvent[]
+    /** The tracked events of one type. */
+    ofType(type: string): AnalyticsEvent[]
+    /** Assert that an analytics event was tracked, optionally with the given properties. */
+    expectTracked(type: string, properties?: Record<string, unknown>): void
+    /** Assert that no matching analytics event was tracked. */
+    expectNotTracked(type: string, properties?: Record<string, unknown>): void
+    /** Forget the tracked events. */
+    clear(): void
+}
+
+/**
+ * Create an analytics provider that records the events the engine tracks.
+ *
+ * @example
+ * ```typescript
+ * const analytics = createAnalyticsRecorder()
+ * const engine = new OnboardingEngine({ steps, analytics: { enabled: true, providers: [analytics] } })
+ * await engine.ready()
+ * analytics.expectTracked('flow_started')
+ * ```
+ */
+export function createAnalyticsRecorder(): AnalyticsRecorder {
+    const events: AnalyticsEvent[] = []
+    const find = (type: string, properties?: Record<string, unknown>) =>
+        events.filter(
+            (event) => event.type === type && (properties === undefined || matchesSubset(event.properties, properties))
+        )
+    const describe = (type: string, properties?: Record<string, unknown>) =>
+        `'${type}'${properties === undefined ? '' : ` with ${formatValue(properties)}`}`
+
+    return {
+        name: 'analytics-recorder',
+        events,
+
+        trackEvent(event) {
+            events.push(event)
+        },
+
+        ofType(type) {
+            return events.filter((event) => event.type === type)
+        },
+
+        expectTracked(type, properties) {
+            if (find(type, properties).length === 0) {
+                const tracked = [...new Set(events.map((event) => event.type))].join(', ') || 'none'
+                throw new OnboardingAssertionError(
+                    `Expected analytics event ${describe(type, properties)} to be tracked. Tracked: ${tracked}`
+                )
+            }
+        },
+
+        expectNotTracked(type, properties) {
+            const count = find(type, properties).length
+            if (count > 0) {
+                throw new OnboardingAssertionError(
+                    `Expected analytics event ${describe(type, properties)} not to be tracked, but it was tracked ${count} time(s)`
+                )
+            }
+        },
+
+        clear() {
+            events.length = 0
+        },
+    }
+}
+
+/**
+ * Assert the completion state of a checklist step's items. Items missing from `expected` are not checked.
+ *
+ * @param stepId - The checklist step. Defaults to the current step.
+ *
+ * @example
+ * ```typescript
+ * expectChecklist(engine, { 'connect-repo': true, 'invite-team': false })
+ * ```
+ */
+export function expectChecklist<TContext extends OnboardingContext = OnboardingContext>(
+    engine: OnboardingEngine<TContext>,
+    expected: Record<string, boolean>,
+    stepId?: string | number
+): void {
+    const state = engine.getState()
+    const step = stepId === undefined ? state.currentStep : findStepById(engine.getSteps(), stepId)
+    if (!step || step.type !== 'CHECKLIST') {
+        throw new OnboardingAssertionError(
+            `Expected '${stepId ?? step?.id ?? 'the current step'}' to be a CHECKLIST step, but it is ${step ? `of type ${step.type ?? 'INFORMATION'}` : 'not found'}`
+        )
+    }
+
+    const { dataKey } = step.payload as ChecklistStepPayload<TContext>
+    const itemStates = (state.context.flowData[dataKey] as ChecklistItemState[] | undefined) ?? []
+    const mismatches = Object.entries(expected)
+        .map(([itemId, isCompleted]) => {
+            const actual = itemStates.find((item) => item.id === itemId)?.isCompleted ?? false
+            return actual === isCompleted ? null : `'${itemId}' is ${actual ? 'completed' : 'not completed'}`
+        })
+        .filter((mismatch): mismatch is string => mismatch !== null)
+
+    if (mismatches.length > 0) {
+        throw new OnboardingAssertionError(
+            `Checklist '${step.id}' does not match ${formatValue(expected)}: ${mismatches.join(', ')}`
+        )
+    }
+}
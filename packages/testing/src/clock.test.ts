@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createTestClock, type TestClock } from './clock'
+
+describe('createTestClock', () => {
+    let clock: TestClock | undefined
+
+    afterEach(() => clock?.uninstall())
+
+    it('should control Date while installed', () => {
+        clock = createTestClock(new Date('2025-01-01T00:00:00Z')).install()
+
+        expect(Date.now()).toBe(Date.UTC(2025, 0, 1))
+        expect(new Date().toISOString()).toBe('2025-01-01T00:00:00.000Z')
+        expect(new Date('2020-05-05T00:00:00Z').getUTCFullYear()).toBe(2020)
+
+        clock.advance(1000)
+        expect(Date.now()).toBe(Date.UTC(2025, 0, 1) + 1000)
+
+        clock.uninstall()
+        expect(Date.now()).toBeGreaterThan(Date.UTC(2025, 0, 2))
+    })
+
+    it('should run timers in order as time advances', () => {
+        clock = createTestClock().install()
+        const calls: string[] = []
+
+        setTimeout(() => calls.push('late'), 200)
+        setTimeout(() => calls.push('early'), 100)
+        const interval = setInterval(() => calls.push(`tick@${Date.now()}`), 150)
+        const cancelled = setTimeout(() => calls.push('cancelled'), 50)
+        clearTimeout(cancelled)
+
+        clock.advance(99)
+        expect(calls).toEqual([])
+
+        clock.advance(201)
+        expect(calls).toEqual(['early', 'tick@150', 'late', 'tick@300'])
+
+        clearInterval(interval)
+        expect(clock.pendingTimers).toBe(0)
+    })
+
+    it('should let promises settle between timers with advanceAsync', async () => {
+        clock = createTestClock().install()
+        const done = vi.fn()
+
+        setTimeout(async () => {
+            await Promise.resolve()
+            setTimeout(done, 10)
+        }, 10)
+
+        await clock.advanceAsync(20)
+        expect(done).toHaveBeenCalledTimes(1)
+    })
+})
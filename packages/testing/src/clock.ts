@@ -0,0 +1,174 @@
+// @onboardjs/testing/src/clock.ts
+
+interface ScheduledTimer {
+    id: number
+    at: number
+    interval?: number
+    callback: () => void
+}
+
+/**
+ * A clock that only moves when told to. Once installed it replaces `Date`, `setTimeout`,
+ * `clearTimeout`, `setInterval` and `clearInterval`, so durations, timestamps and idle timers
+ * in the engine follow the test instead of the wall clock.
+ */
+export interface TestClock {
+    /** The current time in milliseconds since the epoch. */
+    now(): number
+    /** Move the clock forward, running the timers that fall due in order. */
+    advance(ms: number): void
+    /** Like `advance`, but lets promises settle after each timer so async work can follow up. */
+    advanceAsync(ms: number): Promise<void>
+    /** Move the clock to a point in time. Moving forward runs the timers that fall due on the way. */
+    set(time: number | Date): void
+    /** The number of timers waiting to run. */
+    readonly pendingTimers: number
+    /** Replace the global time functions with this clock. Returns the clock for chaining. */
+    install(): TestClock
+    /** Restore the global time functions and drop pending timers. */
+    uninstall(): void
+}
+
+/**
+ * Create a controllable clock, starting at `start` (the epoch by default).
+ *
+ * @example
+ * ```typescript
+ * const clock = createTestClock(new Date('2025-01-01')).install()
+ * try {
+ *   const engine = new OnboardingEngine({ steps })
+ *   await engine.ready()
+ *   clock.advance(5 * 60 * 1000)
+ * } finally {
+ *   clock.uninstall()
+ * }
+ * ```
+ */
+export function createTestClock(start: number | Date = 0): TestClock {
+    let current = typeof start === 'number' ? start : start.getTime()
+    let nextId = 1
+    const timers = new Map<number, ScheduledTimer>()
+
+    const real = {
+        Date: globalThis.Date,
+        setTimeout: globalThis.setTimeout,
+        clearTimeout: globalThis.clearTimeout,
+        setInterval: globalThis.setInterval,
+        clearInterval: globalThis.clearInterval,
+    }
+    let installed = false
+
+    const schedule = (callback: (...args: unknown[]) => void, delay = 0, args: unknown[], repeat: boolean) => {
+        const id = nextId++
+        const wait = Math.max(0, Number(delay) || 0)
+        timers.set(id, {
+            id,
+            at: current + wait,
+            interval: repeat ? Math.max(1, wait) : undefined,
+            callback: () => callback(...args),
+        })
+        return id
+    }
+
+    const cancel = (id: unknown) => {
+        timers.delete(Number(id))
+    }
+
+    // Returns the timer that runs next, if it falls due at or before `until`
+    const nextDue = (until: number): ScheduledTimer | undefined => {
+        let due: ScheduledTimer | undefined
+        timers.forEach((timer) => {
+            if (timer.at <= until && (!due || timer.at < due.at || (timer.at === due.at && timer.id < due.id))) {
+                due = timer
+            }
+        })
+        return due
+    }
+
+    const runTimer = (timer: ScheduledTimer) => {
+        current = timer.at
+        if (timer.interval !== undefined) {
+            timer.at += timer.interval
+        } else {
+            timers.delete(timer.id)
+        }
+        timer.callback()
+    }
+
+    const runUntil = (target: number) => {
+        for (let timer = nextDue(target); timer; timer = nextDue(target)) {
+            runTimer(timer)
+        }
+        current = Math.max(current, target)
+    }
+
+    class ClockDate extends real.Date {
+        constructor(...args: unknown[]) {
+            if (args.length === 0) {
+                super(current)
+            } else {
+                super(...(args as [string | number | Date]))
+            }
+        }
+
+        static now(): number {
+            return current
+        }
+    }
+
+    const clock: TestClock = {
+        now: () => current,
+
+        advance(ms) {
+            runUntil(current + ms)
+        },
+
+        async advanceAsync(ms) {
+            const target = current + ms
+            for (let timer = nextDue(target); timer; timer = nextDue(target)) {
+                runTimer(timer)
+                await new Promise<void>((resolve) => real.setTimeout(resolve, 0))
+            }
+            current = Math.max(current, target)
+        },
+
+        set(time) {
+            const target = typeof time === 'number' ? time : time.getTime()
+            if (target < current) {
+                current = target
+                return
+            }
+            runUntil(target)
+        },
+
+        get pendingTimers() {
+            return timers.size
+        },
+
+        install() {
+            if (installed) {
+                return clock
+            }
+            installed = true
+            globalThis.Date = ClockDate as DateConstructor
+            globalThis.setTimeout = ((callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) =>
+                schedule(callback, delay, args, false)) as unknown as typeof setTimeout
+            globalThis.setInterval = ((callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) =>
+                schedule(callback, delay, args, true)) as unknown as typeof setInterval
+            globalThis.clearTimeout = cancel as typeof clearTimeout
+            globalThis.clearInterval = cancel as typeof clearInterval
+            return clock
+        },
+
+        uninstall() {
+            if (!installed) {
+                return
+            }
+            installed = false
+            timers.clear()
+            Object.assign(globalThis, real)
+        },
+    }
+
+    return clock
+}
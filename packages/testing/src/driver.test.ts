@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { OnboardingEngine, defineFlow, type OnboardingStep } from '@onboardjs/core'
+import { walk } from './driver'
+import { createInMemoryPersistence } from './persistence'
+import { OnboardingAssertionError } from './assertions'
+
+const steps: OnboardingStep[] = [
+    {
+        id: 'plan',
+        type: 'SINGLE_CHOICE',
+        payload: {
+            dataKey: 'plan',
+            options: [
+                { id: 'free', label: 'Free', value: 'free' },
+                { id: 'pro', label: 'Pro', value: 'pro' },
+            ],
+        },
+        nextStep: (context) => (context.flowData.plan === 'pro' ? 'billing' : 'done'),
+    },
+    { id: 'billing', nextStep: 'done', isSkippable: true },
+    {
+        id: 'done',
+        type: 'CHECKLIST',
+        payload: {
+            dataKey: 'tasks',
+            items: [
+                { id: 'invite', label: 'Invite your team' },
+                { id: 'connect', label: 'Connect a repository' },
+            ],
+        },
+    },
+]
+
+describe('walk', () => {
+    it('should drive a flow with answers and assertions', async () => {
+        const state = await walk(steps)
+            .expectStep('plan')
+            .answer('plan', 'pro')
+            .next()
+            .expectStep('billing')
+            .expectFlowData({ plan: 'pro' })
+            .expectEmitted('stepCompleted', { step: { id: 'plan' } })
+            .skip()
+            .expectStep('done')
+            .checkItem('invite')
+            .expectChecklist({ invite: true, connect: false })
+
+        expect(state.currentStep?.id).toBe('done')
+    })
+
+    it('should reject with the first failed assertion and stop there', async () => {
+        let ranAfterFailure = false
+
+        await expect(
+            walk(steps)
+                .next({ plan: 'free' })
+                .expectStep('billing')
+                .run(() => {
+                    ranAfterFailure = true
+                })
+        ).rejects.toThrow(new OnboardingAssertionError("Expected the current step to be 'billing', but it is 'done'"))
+        expect(ranAfterFailure).toBe(false)
+    })
+
+    it('should accept engines, configs and defined flows', async () => {
+        const persistence = createInMemoryPersistence({ currentStepId: 'billing', flowData: { plan: 'pro' } })
+        await walk({ steps }, { config: persistence }).expectStep('billing')
+
+        const engine = new OnboardingEngine({ steps, initialStepId: 'done' })
+        const driver = walk(engine)
+        expect(driver.engine).toBe(engine)
+        await driver.expectStep('done')
+
+        const flow = defineFlow([{ id: 'intro' }, { id: 'outro' }])
+        await walk(flow).next().next().expectCompleted()
+    })
+})
@@ -0,0 +1,189 @@
+// @onboardjs/testing/src/driver.ts
+
+import { OnboardingEngine } from '@onboardjs/core'
+import type { EngineState, OnboardingContext, OnboardingEngineConfig, OnboardingStep } from '@onboardjs/core'
+import {
+    EngineEventPayload,
+    EngineEventType,
+    EventRecorder,
+    OnboardingAssertionError,
+    PayloadMatcher,
+    expectChecklist,
+    formatValue,
+    matchesSubset,
+    recordEvents,
+} from './assertions'
+
+/**
+ * Anything `walk` can drive: an engine, an engine config, an array of steps, or a flow
+ * created with `defineFlow` (anything with a `createEngine` method).
+ */
+export type WalkableFlow<TContext extends OnboardingContext = OnboardingContext> =
+    | OnboardingEngine<TContext>
+    | OnboardingEngineConfig<TContext>
+    | OnboardingStep<TContext>[]
+    | { createEngine(config?: any): unknown }
+
+export interface WalkOptions<TContext extends OnboardingContext = OnboardingContext> {
+    /** Extra engine config, such as `initialContext` or an in-memory persistence adapter. Ignored for engines. */
+    config?: Partial<OnboardingEngineConfig<TContext>>
+}
+
+/**
+ * Drives an engine through a scripted walk. Every method queues an action and returns the driver,
+ * so calls can be chained; awaiting the driver runs the queue and resolves with the engine state.
+ * The first failing action or assertion rejects, and the actions after it are not run.
+ */
+export class FlowDriver<TContext extends OnboardingContext = OnboardingContext> implements PromiseLike<
+    EngineState<TContext>
+> {
+    readonly engine: OnboardingEngine<TContext>
+    /** The events emitted by the engine since the driver was created. */
+    readonly events: EventRecorder<TContext>
+
+    private _queue: Promise<void>
+    private _answers: Record<string, unknown> = {}
+
+    constructor(engine: OnboardingEngine<TContext>) {
+        this.engine = engine
+        this.events = recordEvents(engine)
+        this._queue = engine.ready()
+    }
+
+    /** Set a value in the data passed to the next `next()` (or `goToStep()`) call. */
+    answer(key: string, value: unknown): this {
+        return this._enqueue(() => {
+            this._answers[key] = value
+        })
+    }
+
+    /** Go to the next step, passing the collected answers merged with `stepData`. */
+    next(stepData?: Record<string, unknown>): this {
+        return this._enqueue(() => this.engine.next(this._takeAnswers(stepData)))
+    }
+
+    previous(): this {
+        return this._enqueue(() => this.engine.previous())
+    }
+
+    skip(): this {
+        return this._enqueue(() => this.engine.skip())
+    }
+
+    goToStep(stepId: string, stepData?: Record<string, unknown>): this {
+        return this._enqueue(() => this.engine.goToStep(stepId, this._takeAnswers(stepData)))
+    }
+
+    updateContext(context: Partial<TContext>): this {
+        return this._enqueue(() => this.engine.updateContext(context))
+    }
+
+    /** Complete (or un-complete) an item of the current checklist step. */
+    checkItem(itemId: string, isCompleted = true): this {
+        return this._enqueue(() => this.engine.updateChecklistItem(itemId, isCompleted))
+    }
+
+    /** Run a custom action or assertion against the engine. */
+    run(action: (engine: OnboardingEngine<TContext>) => void | Promise<void>): this {
+        return this._enqueue(() => action(this.engine))
+    }
+
+    expectStep(stepId: string | number): this {
+        return this._enqueue(() => {
+            const { currentStep, isCompleted } = this.engine.getState()
+            if (currentStep?.id !== stepId) {
+                const actual = currentStep ? `'${currentStep.id}'` : isCompleted ? 'completed' : 'not started'
+                throw new OnboardingAssertionError(`Expected the current step to be '${stepId}', but it is ${actual}`)
+            }
+        })
+    }
+
+    expectCompleted(): this {
+        return this._enqueue(() => {
+            const { currentStep, isCompleted } = this.engine.getState()
+            if (!isCompleted) {
+                throw new OnboardingAssertionError(
+                    `Expected the flow to be completed, but it is at step '${currentStep?.id ?? 'none'}'`
+                )
+            }
+        })
+    }
+
+    /** Assert that `flowData` contains the given values (see `matchesSubset`). */
+    expectFlowData(expected: Record<string, unknown>): this {
+        return this._enqueue(() => {
+            const { flowData } = this.engine.getContext()
+            if (!matchesSubset(flowData, expected)) {
+                throw new OnboardingAssertionError(
+                    `Expected flowData to contain ${formatValue(expected)}, but it is ${formatValue(flowData)}`
+                )
+            }
+        })
+    }
+
+    expectEmitted<T extends EngineEventType>(
+        type: T,
+        matcher?: PayloadMatcher<EngineEventPayload<T, TContext>>,
+        times?: number
+    ): this {
+        return this._enqueue(() => this.events.expectEmitted(type, matcher, times))
+    }
+
+    expectChecklist(expected: Record<string, boolean>, stepId?: string | number): this {
+        return this._enqueue(() => expectChecklist(this.engine, expected, stepId))
+    }
+
+    then<TResult1 = EngineState<TContext>, TResult2 = never>(
+        onfulfilled?: ((state: EngineState<TContext>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this._queue.then(() => this.engine.getState()).then(onfulfilled, onrejected)
+    }
+
+    private _enqueue(action: () => void | Promise<void>): this {
+        this._queue = this._queue.then(action)
+        return this
+    }
+
+    private _takeAnswers(stepData?: Record<string, unknown>): Record<string, unknown> | undefined {
+        const data = { ...this._answers, ...stepData }
+        this._answers = {}
+        return Object.keys(data).length > 0 ? data : undefined
+    }
+}
+
+/**
+ * Start a scripted walk through a flow.
+ *
+ * @example
+ * ```typescript
+ * await walk(flow)
+ *   .expectStep('plan')
+ *   .answer('plan', 'pro')
+ *   .next()
+ *   .expectStep('billing')
+ *   .expectFlowData({ plan: 'pro' })
+ * ```
+ */
+export function walk<TContext extends OnboardingContext = OnboardingContext>(
+    flow: WalkableFlow<TContext>,
+    options: WalkOptions<TContext> = {}
+): FlowDriver<TContext> {
+    return new FlowDriver(createEngine(flow, options.config))
+}
+
+function createEngine<TContext extends OnboardingContext>(
+    flow: WalkableFlow<TContext>,
+    config: Partial<OnboardingEngineConfig<TContext>> = {}
+): OnboardingEngine<TContext> {
+    if (flow instanceof OnboardingEngine) {
+        return flow
+    }
+    if (Array.isArray(flow)) {
+        return new OnboardingEngine<TContext>({ ...config, steps: flow })
+    }
+    if ('createEngine' in flow && typeof flow.createEngine === 'function') {
+        return flow.createEngine(config) as OnboardingEngine<TContext>
+    }
+    return new OnboardingEngine<TContext>({ ...(flow as OnboardingEngineConfig<TContext>), ...config })
+}
@@ -0,0 +1,16 @@
+export { createInMemoryPersistence, type InMemoryPersistence } from './persistence'
+export { createTestClock, type TestClock } from './clock'
+export { walk, FlowDriver, type WalkableFlow, type WalkOptions } from './driver'
+export {
+    OnboardingAssertionError,
+    matchesSubset,
+    recordEvents,
+    createAnalyticsRecorder,
+    expectChecklist,
+    type EngineEventType,
+    type EngineEventPayload,
+    type RecordedEvent,
+    type PayloadMatcher,
+    type EventRecorder,
+    type AnalyticsRecorder,
+} from './assertions'
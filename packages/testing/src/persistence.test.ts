@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { OnboardingEngine, type OnboardingStep } from '@onboardjs/core'
+import { createInMemoryPersistence } from './persistence'
+
+const steps: OnboardingStep[] = [{ id: 'welcome' }, { id: 'profile' }, { id: 'done' }]
+
+describe('createInMemoryPersistence', () => {
+    it('should persist and restore an engine', async () => {
+        const persistence = createInMemoryPersistence()
+        const engine = new OnboardingEngine({ steps, ...persistence })
+        await engine.ready()
+        await engine.next({ name: 'Ada' })
+
+        expect(persistence.data).toMatchObject({ currentStepId: 'profile', flowData: { name: 'Ada' } })
+        expect(persistence.history.length).toBeGreaterThan(0)
+
+        const restored = new OnboardingEngine({ steps, ...persistence })
+        await restored.ready()
+        expect(restored.getState().currentStep?.id).toBe('profile')
+    })
+
+    it('should start from seeded data and clear it', async () => {
+        const persistence = createInMemoryPersistence({ currentStepId: 'done', flowData: {} })
+        const engine = new OnboardingEngine({ steps, ...persistence })
+        await engine.ready()
+
+        expect(engine.getState().currentStep?.id).toBe('done')
+
+        await persistence.clearPersistedData()
+        expect(persistence.data).toBeNull()
+    })
+
+    it('should fail the requested number of saves', async () => {
+        const persistence = createInMemoryPersistence()
+        persistence.failNext(new Error('offline'))
+
+        await expect(persistence.persistData({ flowData: {} }, 'welcome')).rejects.toThrow('offline')
+        await expect(persistence.persistData({ flowData: {} }, 'welcome')).resolves.toBeUndefined()
+        expect(persistence.history).toHaveLength(1)
+    })
+})
@@ -0,0 +1,80 @@
+// @onboardjs/testing/src/persistence.ts
+
+import type { LoadedData, OnboardingContext } from '@onboardjs/core'
+
+/**
+ * An in-memory stand-in for a persistence backend. Spread it into the engine config
+ * (`new OnboardingEngine({ steps, ...persistence })`) to provide `loadData`, `persistData`
+ * and `clearPersistedData`.
+ */
+export interface InMemoryPersistence<TContext extends OnboardingContext = OnboardingContext> {
+    loadData: () => Promise<LoadedData<TContext> | null>
+    persistData: (context: TContext, currentStepId: string | number | null) => Promise<void>
+    clearPersistedData: () => Promise<void>
+    /** The data as last persisted, or `null` when nothing is stored. */
+    readonly data: LoadedData<TContext> | null
+    /** Every persisted snapshot, oldest first. */
+    readonly history: LoadedData<TContext>[]
+    /** Replace the stored data, e.g. to start an engine from a saved session. */
+    setData(data: LoadedData<TContext> | null): void
+    /** Make the next `count` calls to `persistData` reject with `error`. */
+    failNext(error?: Error, count?: number): void
+}
+
+/**
+ * Create an in-memory persistence adapter. Data is stored as JSON, like browser storage,
+ * so tests see the same serialization a real backend would.
+ *
+ * @example
+ * ```typescript
+ * const persistence = createInMemoryPersistence({ currentStepId: 'billing', flowData: { plan: 'pro' } })
+ * const engine = new OnboardingEngine({ steps, ...persistence })
+ * await engine.ready()
+ * persistence.history.length // number of saves so far
+ * ```
+ */
+export function createInMemoryPersistence<TContext extends OnboardingContext = OnboardingContext>(
+    initialData: LoadedData<TContext> | null = null
+): InMemoryPersistence<TContext> {
+    let stored: string | null = initialData ? JSON.stringify(initialData) : null
+    const history: LoadedData<TContext>[] = []
+    const failures: Error[] = []
+
+    return {
+        async loadData() {
+            return stored ? JSON.parse(stored) : null
+        },
+
+        async persistData(context, currentStepId) {
+            const failure = failures.shift()
+            if (failure) {
+                throw failure
+            }
+
+            stored = JSON.stringify({ ...context, currentStepId })
+            history.push(JSON.parse(stored))
+        },
+
+        async clearPersistedData() {
+            stored = null
+        },
+
+        get data() {
+            return stored ? JSON.parse(stored) : null
+        },
+
+        get history() {
+            return history
+        },
+
+        setData(data) {
+            stored = data ? JSON.stringify(data) : null
+        },
+
+        failNext(error = new Error('Persistence failed'), count = 1) {
+            for (let i = 0; i < count; i++) {
+                failures.push(error)
+            }
+        },
+    }
+}
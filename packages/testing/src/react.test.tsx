@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { act, renderHook, screen, waitFor } from '@testing-library/react'
+import { useOnboarding } from '@onboardjs/react'
+import type { OnboardingStep } from '@onboardjs/core'
+import { createOnboardingWrapper, renderWithOnboarding } from './react'
+import { createInMemoryPersistence } from './persistence'
+
+const steps: OnboardingStep[] = [{ id: 'welcome' }, { id: 'profile' }]
+
+function CurrentStep() {
+    const { currentStep } = useOnboarding()
+    return <p>Step: {currentStep?.id}</p>
+}
+
+describe('renderWithOnboarding', () => {
+    it('should render inside a provider and expose the engine', async () => {
+        const persistence = createInMemoryPersistence({ currentStepId: 'profile', flowData: {} })
+        const { waitForEngine } = renderWithOnboarding(<CurrentStep />, { steps, persistence })
+
+        const engine = await waitForEngine()
+        await waitFor(() => expect(screen.getByText('Step: profile')).toBeTruthy())
+
+        await act(async () => {
+            await engine.previous()
+        })
+        expect(screen.getByText('Step: welcome')).toBeTruthy()
+    })
+})
+
+describe('createOnboardingWrapper', () => {
+    it('should wrap hooks in a provider', async () => {
+        const { Wrapper, getEngine, waitForEngine } = createOnboardingWrapper({ steps })
+        const { result } = renderHook(() => useOnboarding(), { wrapper: Wrapper })
+
+        expect(await waitForEngine()).toBe(getEngine())
+        await waitFor(() => expect(result.current.currentStep?.id).toBe('welcome'))
+    })
+})
@@ -0,0 +1,108 @@
+// @onboardjs/testing/src/react.tsx
+
+import { ReactElement, ReactNode, useEffect } from 'react'
+import { render, waitFor, RenderOptions, RenderResult } from '@testing-library/react'
+import { OnboardingProvider, useOnboarding, type OnboardingProviderProps } from '@onboardjs/react'
+import type { OnboardingContext, OnboardingEngine } from '@onboardjs/core'
+import type { InMemoryPersistence } from './persistence'
+
+export type OnboardingTestProviderProps<TContext extends OnboardingContext = OnboardingContext> = Omit<
+    OnboardingProviderProps<TContext>,
+    'children'
+> & {
+    /** An in-memory persistence adapter, wired to the provider's custom persistence props. */
+    persistence?: InMemoryPersistence<TContext>
+}
+
+export interface OnboardingWrapper<TContext extends OnboardingContext = OnboardingContext> {
+    /** Pass as the `wrapper` option of `render` or `renderHook`. */
+    Wrapper: (props: { children: ReactNode }) => ReactElement
+    /** The engine once the provider has made it ready, or `null`. */
+    getEngine(): OnboardingEngine<TContext> | null
+    /** Wait until the provider has made the engine ready. */
+    waitForEngine(): Promise<OnboardingEngine<TContext>>
+}
+
+export type RenderWithOnboardingResult<TContext extends OnboardingContext = OnboardingContext> = RenderResult &
+    Omit<OnboardingWrapper<TContext>, 'Wrapper'>
+
+function EngineProbe<TContext extends OnboardingContext>({
+    onEngine,
+}: {
+    onEngine: (engine: OnboardingEngine<TContext> | null) => void
+}) {
+    const { engine } = useOnboarding<TContext>()
+    useEffect(() => onEngine(engine), [engine, onEngine])
+    return null
+}
+
+/**
+ * Create a wrapper that renders children inside an `OnboardingProvider`, for use with
+ * `render` or `renderHook`, and gives tests access to the provider's engine.
+ *
+ * @example
+ * ```tsx
+ * const { Wrapper, waitForEngine } = createOnboardingWrapper({ steps })
+ * const { result } = renderHook(() => useOnboarding(), { wrapper: Wrapper })
+ * const engine = await waitForEngine()
+ * ```
+ */
+export function createOnboardingWrapper<TContext extends OnboardingContext = OnboardingContext>(
+    props: OnboardingTestProviderProps<TContext>
+): OnboardingWrapper<TContext> {
+    const { persistence, ...providerProps } = props
+    let currentEngine: OnboardingEngine<TContext> | null = null
+    const setEngine = (engine: OnboardingEngine<TContext> | null) => {
+        currentEngine = engine
+    }
+
+    const persistenceProps = persistence
+        ? {
+              customOnDataLoad: persistence.loadData,
+              customOnDataPersist: persistence.persistData,
+              customOnClearPersistedData: persistence.clearPersistedData,
+          }
+        : {}
+
+    const Wrapper = ({ children }: { children: ReactNode }) => (
+        <OnboardingProvider<TContext> {...persistenceProps} {...providerProps}>
+            <EngineProbe<TContext> onEngine={setEngine} />
+            {children}
+        </OnboardingProvider>
+    )
+    Wrapper.displayName = 'OnboardingTestWrapper'
+
+    return {
+        Wrapper,
+        getEngine: () => currentEngine,
+        waitForEngine: () =>
+            waitFor(() => {
+                if (!currentEngine) {
+                    throw new Error('The onboarding engine is not ready yet')
+                }
+                return currentEngine
+            }),
+    }
+}
+
+/**
+ * Render a component inside an `OnboardingProvider`.
+ *
+ * @example
+ * ```tsx
+ * const { getByText, waitForEngine } = renderWithOnboarding(<OnboardingUI />, {
+ *   steps,
+ *   componentRegistry,
+ *   persistence: createInMemoryPersistence(),
+ * })
+ * const engine = await waitForEngine()
+ * ```
+ */
+export function renderWithOnboarding<TContext extends OnboardingContext = OnboardingContext>(
+    ui: ReactElement,
+    props: OnboardingTestProviderProps<TContext>,
+    renderOptions?: Omit<RenderOptions, 'wrapper'>
+): RenderWithOnboardingResult<TContext> {
+    const { Wrapper, getEngine, waitForEngine } = createOnboardingWrapper(props)
+    return { ...render(ui, { ...renderOptions, wrapper: Wrapper }), getEngine, waitForEngine }
+}
@@ -0,0 +1,33 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import path from 'path'
+
+export default defineConfig({
+    plugins: [react()],
+    build: {
+        minify: 'esbuild',
+        lib: {
+            entry: {
+                index: path.resolve(__dirname, 'src/index.ts'),
+                react: path.resolve(__dirname, 'src/react.tsx'),
+            },
+            fileName: (format, entryName) => `${entryName}.${format}.js`,
+            formats: ['es', 'cjs'],
+        },
+        rollupOptions: {
+            // Externalize peer deps
+            external: [
+                'react',
+                'react-dom',
+                'react/jsx-runtime',
+                'react/jsx-dev-runtime',
+                '@onboardjs/core',
+                '@onboardjs/react',
+                '@testing-library/react',
+            ],
+            output: {
+                exports: 'named',
+            },
+        },
+    },
+})
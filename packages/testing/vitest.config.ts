@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+    plugins: [react()],
+    test: {
+        environment: 'jsdom',
+        globals: true,
+        coverage: {
+            provider: 'v8',
+            exclude: ['src/**/index.ts', 'dist/**', '*.config.ts', '**/*.test.{ts,tsx}'],
+            reporter: ['text', 'html', 'clover'],
+        },
+    },
+})
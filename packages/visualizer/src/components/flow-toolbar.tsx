@@ -1,8 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { StepJSONParserOptions } from '@onboardjs/core'
-import { TypeScriptExportOptions } from '../utils/typescript-exporter'
+import { StepJSONParserOptions, TypeScriptExportOptions } from '@onboardjs/core'
 import {
     CodeIcon,
     CogIcon,
@@ -0,0 +1,114 @@
+import { FormField } from '@onboardjs/core'
+import { PlusIcon, TrashIcon } from 'lucide-react'
+
+const FIELD_TYPES: FormField['type'][] = [
+    'text',
+    'email',
+    'password',
+    'number',
+    'textarea',
+    'select',
+    'checkbox',
+    'radio_group',
+]
+
+export function FormFieldsEditor({
+    fields,
+    onChange,
+    readonly,
+}: {
+    fields: FormField[]
+    onChange: (newFields: FormField[]) => void
+    readonly: boolean
+}) {
+    const handleFieldChange = (index: number, updates: Partial<FormField>) => {
+        const newFields = [...fields]
+        newFields[index] = { ...newFields[index], ...updates }
+        onChange(newFields)
+    }
+
+    const handleRequiredChange = (index: number, required: boolean) => {
+        const validation = { ...fields[index].validation, required: required || undefined }
+        handleFieldChange(index, { validation })
+    }
+
+    const addField = () => {
+        const newId = `field_${Date.now()}`
+        onChange([...fields, { id: newId, name: newId, label: 'New Field', type: 'text' }])
+    }
+
+    const deleteField = (index: number) => {
+        onChange(fields.filter((_, i) => i !== index))
+    }
+
+    return (
+        <div className="vis:space-y-3">
+            <label className="vis:block vis:text-sm vis:font-medium vis:text-gray-700">Fields ({fields.length})</label>
+            <div className="vis:space-y-2">
+                {fields.map((field, index) => (
+                    <div key={field.id} className="vis:p-2 vis:border vis:border-gray-200 vis:rounded-md vis:space-y-2">
+                        <div className="vis:flex vis:items-center vis:gap-2">
+                            <input
+                                type="text"
+                                placeholder="Label"
+                                value={field.label}
+                                onChange={(e) => handleFieldChange(index, { label: e.target.value })}
+                                disabled={readonly}
+                                className="vis:flex-1 vis:px-2 vis:py-1 vis:border vis:border-gray-300 vis:rounded-md vis:text-sm vis:disabled:bg-gray-50"
+                            />
+                            <button
+                                onClick={() => deleteField(index)}
+                                disabled={readonly}
+                                className="vis:p-1 vis:text-red-500 hover:vis:bg-red-100 vis:rounded-md vis:disabled:opacity-50"
+                            >
+                                <TrashIcon className="vis:size-4" />
+                            </button>
+                        </div>
+                        <div className="vis:flex vis:items-center vis:gap-2">
+                            <input
+                                type="text"
+                                placeholder="Name"
+                                value={field.name}
+                                onChange={(e) => handleFieldChange(index, { name: e.target.value })}
+                                disabled={readonly}
+                                className="vis:flex-1 vis:px-2 vis:py-1 vis:border vis:border-gray-300 vis:rounded-md vis:text-sm vis:disabled:bg-gray-50"
+                            />
+                            <select
+                                value={field.type}
+                                onChange={(e) =>
+                                    handleFieldChange(index, { type: e.target.value as FormField['type'] })
+                                }
+                                disabled={readonly}
+                                className="vis:px-2 vis:py-1 vis:border vis:border-gray-300 vis:rounded-md vis:text-sm vis:disabled:bg-gray-50"
+                            >
+                                {FIELD_TYPES.map((type) => (
+                                    <option key={type} value={type}>
+                                        {type}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <label className="vis:flex vis:items-center vis:gap-2 vis:text-sm vis:text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={!!field.validation?.required}
+                                onChange={(e) => handleRequiredChange(index, e.target.checked)}
+                                disabled={readonly}
+                            />
+                            Required
+                        </label>
+                    </div>
+                ))}
+            </div>
+            {!readonly && (
+                <button
+                    onClick={addField}
+                    className="vis:w-full vis:flex vis:items-center vis:justify-center vis:gap-2 vis:px-3 vis:py-2 vis:text-sm vis:text-blue-600 vis:border vis:border-dashed vis:border-gray-300 vis:rounded-md hover:vis:bg-blue-50"
+                >
+                    <PlusIcon className="vis:size-4" />
+                    Add Field
+                </button>
+            )}
+        </div>
+    )
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { XIcon } from 'lucide-react'
 import { OptionsListEditor } from './option-list-editor'
 import { ChecklistItemsEditor } from './checklist-item-editor'
+import { FormFieldsEditor } from './form-field-editor'
 import type { EnhancedStepNode, DeepPartial } from '../types'
 
 interface StepDetailsPanelProps {
@@ -116,6 +117,7 @@ export function StepDetailsPanel({ node, onNodeUpdate, onClose, readonly = false
                                 <option value="SINGLE_CHOICE">Single Choice</option>
                                 <option value="MULTIPLE_CHOICE">Multiple Choice</option>
                                 <option value="CHECKLIST">Checklist</option>
+                                <option value="FORM">Form</option>
                                 <option value="CONFIRMATION">Confirmation</option>
                                 <option value="CUSTOM_COMPONENT">Custom Component</option>
                             </select>
@@ -321,6 +323,29 @@ function PayloadEditor({
                 </div>
             )
 
+        case 'FORM':
+            return (
+                <div className="vis:space-y-4">
+                    <div>
+                        <label className="vis:block vis:text-sm vis:font-medium vis:text-gray-700 vis:mb-1">
+                            Data Key
+                        </label>
+                        <input
+                            type="text"
+                            value={payload.dataKey || ''}
+                            onChange={(e) => onChange({ dataKey: e.target.value || undefined })}
+                            disabled={readonly}
+                            className="vis:w-full vis:px-3 vis:py-2 vis:border vis:border-gray-300 vis:rounded-md vis:text-sm vis:disabled:bg-gray-50"
+                        />
+                    </div>
+                    <FormFieldsEditor
+                        fields={payload.fields || []}
+                        onChange={(newFields) => onChange({ fields: newFields })}
+                        readonly={readonly}
+                    />
+                </div>
+            )
+
         case 'CUSTOM_COMPONENT':
             return (
                 <div>
@@ -18,8 +18,7 @@ import {
 import '@xyflow/react/dist/style.css'
 
 import { OnboardingStep, OnboardingContext } from '@onboardjs/core'
-import { StepJSONParser, StepJSONParserOptions } from '@onboardjs/core'
-import { TypeScriptExportOptions } from './utils/typescript-exporter'
+import { StepJSONParser, StepJSONParserOptions, TypeScriptExporter, TypeScriptExportOptions } from '@onboardjs/core'
 import { StepNode } from './nodes/step-node'
 import { ConditionalEdge, ConditionalFlowEdge } from './edges/conditional-edge'
 import { FlowToolbar } from './components/flow-toolbar'
@@ -30,7 +29,7 @@ import { ConditionDetailsPanel } from './components/condition-details-panel'
 
 // Import from new modular structure
 import { FlowState, EnhancedStepNode, EnhancedConditionNode, ExportFormat } from './types'
-import { stepsToFlowState, exportFlowAsCode } from './converters'
+import { stepsToFlowState } from './converters'
 import { layoutNodes, generateId, getDefaultPayload, getStepLabel, getStepDescription } from './utils'
 import { getStepTypeColor } from './utils/colors.utils'
 import { EndNode } from './nodes/end-node'
@@ -330,21 +329,20 @@ function FlowVisualizerInner<TContext extends OnboardingContext = OnboardingCont
                     alert(`JSON export failed: ${result.errors.join(', ')}`)
                 }
             } else if (format === 'typescript') {
-                const code = exportFlowAsCode(flowState, {
-                    format: 'typescript',
-                    includeTypes: typeScriptExportOptions.includeTypes,
-                    includeComments: typeScriptExportOptions.includeComments,
-                    variableName: typeScriptExportOptions.variableName,
-                })
-
-                const filename = 'onboarding-steps.ts'
-                onExport?.(code, format, filename)
-
-                // Also trigger file download
-                downloadFile(code, filename, 'text/typescript')
+                const result = TypeScriptExporter.exportToTypeScript(steps, typeScriptExportOptions)
+
+                if (result.success && result.code) {
+                    const filename = 'onboarding-steps.ts'
+                    onExport?.(result.code, format, filename)
+
+                    // Also trigger file download
+                    downloadFile(result.code, filename, 'text/typescript')
+                } else {
+                    alert(`TypeScript export failed: ${result.errors.join(', ')}`)
+                }
             }
         },
-        [steps, exportOptions, typeScriptExportOptions, flowState, onExport]
+        [steps, exportOptions, typeScriptExportOptions, onExport]
     )
 
     const downloadFile = useCallback((content: string, filename: string, mimeType: string) => {
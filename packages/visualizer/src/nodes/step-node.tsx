@@ -1,13 +1,13 @@
 import { memo } from 'react'
 import { Handle, Position, NodeProps } from '@xyflow/react'
 import { OnboardingStepType } from '@onboardjs/core'
-import { InfoIcon, CheckCircleIcon, ListIcon, HandIcon, ListChecksIcon, PuzzleIcon } from 'lucide-react'
+import { InfoIcon, CheckCircleIcon, ListIcon, HandIcon, ListChecksIcon, PuzzleIcon, FormInputIcon } from 'lucide-react'
 import { StepNodeType, getStepTypeColor as getNodeTypeColor } from '../types/node-types'
 
 export const StepNode = memo(({ data, selected }: NodeProps<StepNodeType>) => {
     const { stepType, label, description, isSkippable, hasCondition, isCompleted, errors = [] } = data
 
-    const getStepIcon = (type: OnboardingStepType) => {
+    const getStepIcon = (type: OnboardingStepType | 'FORM') => {
         const iconProps = { className: 'vis:size-5' }
 
         switch (type) {
@@ -19,6 +19,8 @@ export const StepNode = memo(({ data, selected }: NodeProps<StepNodeType>) => {
                 return <ListChecksIcon {...iconProps} />
             case 'CHECKLIST':
                 return <ListIcon {...iconProps} />
+            case 'FORM':
+                return <FormInputIcon {...iconProps} />
             case 'CONFIRMATION':
                 return <HandIcon {...iconProps} />
             case 'CUSTOM_COMPONENT':
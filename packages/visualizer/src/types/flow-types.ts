@@ -1,5 +1,5 @@
 import { Node } from '@xyflow/react'
-import { OnboardingStepType } from '@onboardjs/core'
+import { ConditionalStepTarget, ConditionExpression, OnboardingStepType } from '@onboardjs/core'
 
 // Import the existing edge type first
 import type { ConditionalFlowEdge } from '../edges/conditional-edge'
@@ -23,12 +23,12 @@ export interface EnhancedStepNodeData extends Record<string, unknown> {
     errors?: string[]
     // Store all step properties directly on the node
     payload?: any
-    condition?: Function | string // serialized function
+    condition?: Function | string | ConditionExpression // serialized function or declarative condition
     metadata?: Record<string, any>
     // Navigation properties (for visual display only)
-    nextStep?: string | number | null | Function
-    previousStep?: string | number | null | Function
-    skipToStep?: string | number | null | Function
+    nextStep?: string | number | null | Function | ConditionalStepTarget
+    previousStep?: string | number | null | Function | ConditionalStepTarget
+    skipToStep?: string | number | null | Function | ConditionalStepTarget
 }
 
 export interface EnhancedConditionNodeData extends Record<string, unknown> {
@@ -38,8 +38,10 @@ export const STEP_TYPE_ICONS = {
     SINGLE_CHOICE: 'CheckCircleIcon',
     MULTIPLE_CHOICE: 'ListChecksIcon',
     CHECKLIST: 'ListIcon',
+    FORM: 'FormInputIcon',
     CONFIRMATION: 'HandIcon',
     CUSTOM_COMPONENT: 'PuzzleIcon',
+    SUBFLOW: 'WorkflowIcon',
 } as const
 
 // Step Type Color Mapping
@@ -48,8 +50,10 @@ export const STEP_TYPE_COLORS = {
     SINGLE_CHOICE: 'vis:border-green-500 vis:bg-green-50',
     MULTIPLE_CHOICE: 'vis:border-purple-500 vis:bg-purple-50',
     CHECKLIST: 'vis:border-amber-500 vis:bg-amber-50',
+    FORM: 'vis:border-teal-500 vis:bg-teal-50',
     CONFIRMATION: 'vis:border-orange-500 vis:bg-orange-50',
     CUSTOM_COMPONENT: 'vis:border-gray-500 vis:bg-gray-50',
+    SUBFLOW: 'vis:border-indigo-500 vis:bg-indigo-50',
 } as const
 
 // Utility functions for step nodes
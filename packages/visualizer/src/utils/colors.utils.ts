@@ -8,10 +8,14 @@ export const getStepTypeColor = (stepType: string) => {
             return '#8b5cf6'
         case 'CHECKLIST':
             return '#f59e0b'
+        case 'FORM':
+            return '#14b8a6'
         case 'CONFIRMATION':
             return '#ef4444'
         case 'CUSTOM_COMPONENT':
             return '#6b7280'
+        case 'SUBFLOW':
+            return '#6366f1'
         case 'endNode':
             return '#f59e0b'
         default:
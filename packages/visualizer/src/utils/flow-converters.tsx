@@ -1,4 +1,10 @@
-import { OnboardingStepType, OnboardingContext, OnboardingStep } from '@onboardjs/core'
+import {
+    ConditionalStepTarget,
+    ConditionExpression,
+    OnboardingStepType,
+    OnboardingContext,
+    OnboardingStep,
+} from '@onboardjs/core'
 import dagre from 'dagre'
 import { EndNode, StepNode, ConditionNode } from '../types'
 import { ConditionGroup } from '../parser/condition-parser/types'
@@ -26,12 +32,12 @@ export interface EnhancedStepNodeData extends Record<string, unknown> {
     errors?: string[]
     // Store all step properties directly on the node
     payload?: any
-    condition?: Function | string // serialized function
+    condition?: Function | string | ConditionExpression // serialized function or declarative condition
     metadata?: Record<string, any>
     // Navigation properties (for visual display only)
-    nextStep?: string | number | null | Function
-    previousStep?: string | number | null | Function
-    skipToStep?: string | number | null | Function
+    nextStep?: string | number | null | Function | ConditionalStepTarget
+    previousStep?: string | number | null | Function | ConditionalStepTarget
+    skipToStep?: string | number | null | Function | ConditionalStepTarget
 }
 
 export interface EnhancedConditionNodeData extends Record<string, unknown> {
@@ -28,6 +28,9 @@ export const getStepDescription = (step: OnboardingStep<any>): string | undefine
     if (payload?.items && Array.isArray(payload.items)) {
         return `${payload.items.length} items`
     }
+    if (payload?.fields && Array.isArray(payload.fields)) {
+        return `${payload.fields.length} fields`
+    }
 
     return undefined
 }
@@ -39,6 +42,8 @@ export const getDefaultPayload = (stepType: string): Record<string, any> => {
             return { options: [] }
         case 'CHECKLIST':
             return { dataKey: 'checklist_data', items: [] }
+        case 'FORM':
+            return { fields: [] }
         case 'CUSTOM_COMPONENT':
             return { componentKey: 'DefaultComponent' }
         default: